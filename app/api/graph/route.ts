@@ -0,0 +1,107 @@
+import { GraphOutputFormat } from "@/types/api";
+import { ThemeConfig } from "@/types/theme";
+import { parseLayoutOptions, renderGrimoire } from "@/utils/graphRenderer";
+import { parseThemeConfig } from "@/utils/theme";
+import { LintConfig } from "@/types/lint";
+import { parseLintConfig } from "@/utils/lintConfig";
+
+/**
+ * グリモワールを解析し、グラフのJSONまたはSVGを返すAPI
+ *
+ * リクエストの本文はYAMLテキスト、または {"yaml": "...", "theme": {...}, "includes": {"パス": "YAML"}, "lint": {...}} のJSON
+ * （theme・includes・lintは省略可、includesは「!include」で参照するファイル、lintはリントの設定）
+ * クエリで出力形式（format=json|svg）とレイアウト（engine, direction）を指定できる
+ * エラーの診断結果がある場合は、診断結果を含むJSONを422で返す
+ * @param {Request} request - リクエスト
+ * @returns {Promise<Response>} レスポンス
+ */
+export async function POST(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const format = (params.get("format") ?? "json") as GraphOutputFormat;
+  if (format !== "json" && format !== "svg") {
+    return Response.json(
+      { error: `不明な出力形式です: ${format}（json / svg）` },
+      { status: 400 }
+    );
+  }
+
+  let layout;
+  try {
+    layout = parseLayoutOptions(params.get("engine"), params.get("direction"));
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  let yamlText: string;
+  let theme: ThemeConfig | undefined;
+  let includes: Record<string, string> | undefined;
+  let lint: LintConfig | undefined;
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.yaml !== "string") {
+      return Response.json(
+        { error: '本文は {"yaml": "..."} の形式で指定してください' },
+        { status: 400 }
+      );
+    }
+    yamlText = body.yaml;
+    if (body.includes !== undefined) {
+      if (
+        typeof body.includes !== "object" ||
+        body.includes === null ||
+        Object.values(body.includes).some((text) => typeof text !== "string")
+      ) {
+        return Response.json(
+          {
+            error:
+              'includes は {"パス": "YAMLテキスト"} の形式で指定してください',
+          },
+          { status: 400 }
+        );
+      }
+      includes = body.includes;
+    }
+    if (body.theme !== undefined) {
+      try {
+        theme = parseThemeConfig(JSON.stringify(body.theme));
+      } catch (error) {
+        return Response.json(
+          { error: (error as Error).message },
+          { status: 400 }
+        );
+      }
+    }
+    if (body.lint !== undefined) {
+      try {
+        lint = parseLintConfig(JSON.stringify(body.lint));
+      } catch (error) {
+        return Response.json(
+          { error: (error as Error).message },
+          { status: 400 }
+        );
+      }
+    }
+  } else {
+    yamlText = await request.text();
+  }
+
+  const result = renderGrimoire(yamlText, {
+    format,
+    layout,
+    theme,
+    includes,
+    lint,
+  });
+  if (!result.ok) {
+    return Response.json(
+      { ok: false, diagnostics: result.diagnostics },
+      { status: 422 }
+    );
+  }
+  if (format === "svg" && result.svg) {
+    return new Response(result.svg, {
+      headers: { "Content-Type": "image/svg+xml; charset=utf-8" },
+    });
+  }
+  return Response.json(result);
+}
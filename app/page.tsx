@@ -1,9 +1,50 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { YamlVisualizer } from "@/components/YamlVisualizer";
-import { parseYaml } from "@/utils/yamlParser";
-import { YamlData } from "@/types/yaml";
+import {
+  useState,
+  useCallback,
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  YamlVisualizer,
+  YamlVisualizerHandle,
+} from "@/components/YamlVisualizer";
+import { DiagnosticsList } from "@/components/DiagnosticsList";
+import { LintSettingsPanel } from "@/components/LintSettingsPanel";
+import { ComparisonView } from "@/components/ComparisonView";
+import { YamlEditor, YamlEditorHandle } from "@/components/YamlEditor";
+import { SourcePanel } from "@/components/SourcePanel";
+import { WorkspacePanel } from "@/components/WorkspacePanel";
+import { FileDropZone } from "@/components/FileDropZone";
+import { useRecentFiles } from "@/hooks/useRecentFiles";
+import { useThemeConfig } from "@/hooks/useThemeConfig";
+import { useLintConfig } from "@/hooks/useLintConfig";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { parseGrimoire, collectFiles } from "@/utils/yamlParser";
+import { requestParse } from "@/utils/parse/parseClient";
+import { applyGrimoireEdit } from "@/utils/yamlWriter";
+import { fetchGrimoire, loadGrimoireFile } from "@/utils/grimoireSource";
+import { decodePermalink, encodePermalink } from "@/utils/permalink";
+import {
+  buildSourceMap,
+  findFileAtLine,
+  findFileEntry,
+} from "@/utils/yamlSourceMap";
+import { splitYamlDocuments } from "@/utils/yamlDocuments";
+import { GrimoireEdit, SharedDefinition, YamlData } from "@/types/yaml";
+import { Diagnostic } from "@/types/diagnostic";
+import { LoadedGrimoire } from "@/types/source";
+import { Workspace } from "@/types/workspace";
+import { HistoryEntry, HistoryRestore } from "@/types/history";
+import {
+  createResetEntry,
+  restoreOnRedo,
+  restoreOnUndo,
+} from "@/utils/history";
 import debounce from "lodash.debounce";
 
 /**
@@ -14,43 +55,111 @@ export default function Home() {
   // 状態管理
   const [yamlData, setYamlData] = useState<YamlData | null>(null);
   const [yamlText, setYamlText] = useState<string>("");
-  const [parseError, setParseError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  // アンカーとエイリアスによる共有定義
+  const [sharedDefinitions, setSharedDefinitions] = useState<
+    SharedDefinition[]
+  >([]);
+  // 「!include」で参照するファイル（パスとテキスト）
+  const [includeFiles, setIncludeFiles] = useState<Record<string, string>>({});
+  // 解析の処理から最新のインクルードするファイルを参照するために保持する
+  const includeFilesRef = useRef(includeFiles);
+  // リントの設定（ブラウザに保存する）
+  const { lintConfig, setLintConfig, resetLintConfig } = useLintConfig();
+  // 解析の処理から最新のリントの設定を参照するために保持する
+  const lintConfigRef = useRef(lintConfig);
+  // リントの設定パネルを表示しているかどうか
+  const [showLintSettings, setShowLintSettings] = useState(false);
+  // 最後に要求した解析の番号（解析中に新しい入力があった場合、古い結果は破棄する）
+  const parseRequestRef = useRef(0);
+  // グラフとエディタで選択中のファイル
+  const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
+  const editorRef = useRef<YamlEditorHandle>(null);
+  const visualizerRef = useRef<YamlVisualizerHandle>(null);
+  // 共有リンクをコピーした直後かどうか
+  const [shareCopied, setShareCopied] = useState(false);
+
+  // 表示モード（編集 / 2つのバージョンの比較）と比較元のYAMLテキスト
+  const [mode, setMode] = useState<"edit" | "compare">("edit");
+  const [baseText, setBaseText] = useState<string>("");
+  // リセットするときに最新の比較元のYAMLテキストを参照するために保持する
+  const baseTextRef = useRef(baseText);
+  baseTextRef.current = baseText;
+  const deferredBaseText = useDeferredValue(baseText);
+  // 複数ドキュメントのYAMLで、比較するドキュメントの番号（nullの場合はマージしたもの全体）
+  const [compareDocuments, setCompareDocuments] = useState<{
+    base: number | null;
+    head: number | null;
+  }>({ base: null, head: null });
+  const baseDocuments = useMemo(
+    () => splitYamlDocuments(deferredBaseText),
+    [deferredBaseText]
+  );
+  const headDocuments = useMemo(() => splitYamlDocuments(yamlText), [yamlText]);
+  const baseResult = useMemo(() => {
+    const text =
+      compareDocuments.base === null
+        ? deferredBaseText
+        : baseDocuments[compareDocuments.base]?.text ?? "";
+    return text.trim() === ""
+      ? { data: null, diagnostics: [], sharedDefinitions: [] }
+      : parseGrimoire(text, includeFiles);
+  }, [deferredBaseText, baseDocuments, compareDocuments.base, includeFiles]);
+  // 比較する変更後のデータ（ドキュメントを選択した場合は、そのドキュメントだけを解析する）
+  const headCompareData = useMemo(() => {
+    if (mode !== "compare" || compareDocuments.head === null) return yamlData;
+    const document = headDocuments[compareDocuments.head];
+    return document ? parseGrimoire(document.text, includeFiles).data : null;
+  }, [mode, yamlData, headDocuments, compareDocuments.head, includeFiles]);
+
+  // エディタの行とグラフのノードを対応付けるためのソースマップ
+  const sourceMap = useMemo(() => buildSourceMap(yamlText), [yamlText]);
+  const fileIds = useMemo(
+    () =>
+      new Set(
+        yamlData ? collectFiles(yamlData).nodes.map((node) => node.id) : []
+      ),
+    [yamlData]
+  );
 
   /**
    * YAMLテキストの変更を処理するコールバック
    * 入力値を状態に保存し、デバウンスされた解析を実行
+   * @param {string} text - 入力されたYAMLテキスト
    */
-  const handleYamlChange = useCallback(
-    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-      setYamlText(e.target.value);
-      debouncedParse(e.target.value);
-    },
-    []
-  );
+  const handleYamlChange = useCallback((text: string) => {
+    setYamlText(text);
+    debouncedParse(text);
+  }, []);
 
   /**
    * YAMLテキストを解析する関数
-   * 解析結果または解析エラーを状態に保存
+   * 解析結果と構文・スキーマ・リントの診断結果を状態に保存
+   * 大きなグリモワールでも入力を妨げないよう、解析はWeb Workerで行う
    * @param {string} text - 解析するYAMLテキスト
    */
   const parseInputYaml = useCallback((text: string) => {
+    const requestId = ++parseRequestRef.current;
     // 空のテキストの場合は状態をクリア
     if (text.trim() === "") {
       setYamlData(null);
-      setParseError(null);
+      setDiagnostics([]);
+      setSharedDefinitions([]);
       return;
     }
 
-    try {
-      // YAMLテキストを解析
-      const data = parseYaml(text);
-      setYamlData(data);
-      setParseError(null);
-    } catch (error) {
-      console.error("Error parsing YAML:", error);
-      setParseError("YAMLの解析に失敗しました。内容を確認してください。");
-      setYamlData(null);
-    }
+    // YAMLテキストを解析してスキーマを検証
+    // 編集途中のエラーでグラフが消えないよう、エラーがある間は直前のグラフを表示したままにする
+    requestParse(text, includeFilesRef.current, lintConfigRef.current)
+      .then((result) => {
+        if (requestId !== parseRequestRef.current) return;
+        if (result.data) {
+          setYamlData(result.data);
+          setSharedDefinitions(result.sharedDefinitions);
+        }
+        setDiagnostics(result.diagnostics);
+      })
+      .catch((error) => console.error("Error parsing YAML:", error));
   }, []);
 
   // 入力が停止してから500ms後に解析を実行するデバウンス処理
@@ -65,72 +174,709 @@ export default function Home() {
     };
   }, [debouncedParse]);
 
+  /**
+   * 診断結果の位置にエディタのカーソルを移動するコールバック
+   * @param {Diagnostic} diagnostic - 選択された診断結果
+   */
+  const handleSelectDiagnostic = useCallback((diagnostic: Diagnostic) => {
+    editorRef.current?.moveCursor(diagnostic.line, diagnostic.column);
+  }, []);
+
+  /**
+   * グラフ上でノードがクリックされたときに、ファイル定義のブロックを強調表示するコールバック
+   * @param {string} fileId - クリックされたファイルノードのID
+   */
+  const handleSelectNode = useCallback(
+    (fileId: string) => {
+      setSelectedFileId(fileId);
+      const entry = findFileEntry(sourceMap, fileId);
+      if (entry) {
+        editorRef.current?.revealLines(entry.line, entry.endLine);
+      }
+    },
+    [sourceMap]
+  );
+
+  /**
+   * エディタのカーソルがファイル定義のブロックに入ったときに、対応するノードを選択するコールバック
+   * @param {number} line - カーソルのある行（1始まり）
+   */
+  const handleCursorLine = useCallback(
+    (line: number) => {
+      const fileId = findFileAtLine(sourceMap, line, fileIds);
+      if (fileId) setSelectedFileId(fileId);
+    },
+    [sourceMap, fileIds]
+  );
+
+  // 最近開いたグリモワールの履歴
+  const { recentFiles, addRecentFile, clearRecentFiles } = useRecentFiles();
+  // ノードの色・アイコンと配色を決めるテーマ
+  const { theme, setTheme, resetTheme } = useThemeConfig();
+  // ブラウザに自動保存するワークスペース（YAMLテキストとグラフの配置）
+  const {
+    workspaces,
+    loaded: workspacesLoaded,
+    current: currentWorkspace,
+    saveWorkspace,
+    createWorkspace,
+    openWorkspaceByName,
+    openWorkspace,
+    renameWorkspace,
+    removeWorkspace,
+  } = useWorkspaces();
+  // ワークスペースを切り替えたときに、グラフを作り直して保存した表示状態から表示するためのキー
+  const [viewKey, setViewKey] = useState(0);
+  // 自動保存の処理から最新のYAMLテキストを参照するために保持する
+  const yamlTextRef = useRef(yamlText);
+
+  // 入力やグラフの配置が変わってから1秒後に、開いているワークスペースに保存する
+  // グラフを表示していない間（比較モードなど）は、前回保存した表示状態を残す
+  const autosave = useMemo(
+    () =>
+      debounce(
+        () =>
+          saveWorkspace(
+            yamlTextRef.current,
+            visualizerRef.current?.getViewState("pinned"),
+            includeFilesRef.current
+          ),
+        1000
+      ),
+    [saveWorkspace]
+  );
+
+  // 元に戻す・やり直すための履歴（テキストの編集・グラフ上の編集・ノードの配置をまとめて記録する）
+  const {
+    canUndo,
+    canRedo,
+    current: currentHistory,
+    record,
+    resetHistory,
+    undo,
+    redo,
+  } = useUndoHistory<HistoryEntry>();
+
+  /**
+   * 現在のYAMLテキストとドラッグして配置したノードの位置を取得する
+   * グラフを表示していない間は、直前に記録した位置を使う
+   * @returns {HistoryEntry} 履歴の1件
+   */
+  const captureHistory = useCallback(
+    (): HistoryEntry => ({
+      yaml: yamlTextRef.current,
+      positions:
+        visualizerRef.current?.getViewState("pinned").positions ??
+        currentHistory()?.positions ??
+        {},
+    }),
+    [currentHistory]
+  );
+
+  // テキストの編集は、入力が停止してから500ms後に1件の履歴として記録する
+  const recordText = useMemo(
+    () => debounce(() => record(captureHistory()), 500),
+    [record, captureHistory]
+  );
+
+  useEffect(() => {
+    yamlTextRef.current = yamlText;
+    autosave();
+    recordText();
+  }, [yamlText, autosave, recordText]);
+
+  // グリモワールを開き直したら、その状態から履歴を記録し直す
+  useEffect(() => {
+    recordText.cancel();
+    resetHistory(captureHistory());
+  }, [viewKey, recordText, resetHistory, captureHistory]);
+
+  useEffect(() => () => recordText.cancel(), [recordText]);
+
+  /**
+   * ノードのドラッグや自動レイアウトを履歴に記録するコールバック
+   */
+  const handleLayoutEdit = useCallback(() => {
+    // 記録待ちのテキストの編集を先に記録する
+    recordText.flush();
+    record(captureHistory());
+  }, [recordText, record, captureHistory]);
+
+  // グラフを表示していない間に履歴を移動したときの、グラフを表示したら反映するノードの位置
+  const pendingPositionsRef = useRef<HistoryEntry["positions"] | null>(null);
+
+  /**
+   * 履歴の状態をエディタとグラフに反映する
+   * @param {HistoryRestore} restore - 反映する状態
+   */
+  const applyHistory = useCallback(
+    (restore: HistoryRestore) => {
+      if (restore.yaml !== yamlTextRef.current) {
+        yamlTextRef.current = restore.yaml;
+        setYamlText(restore.yaml);
+        debouncedParse.cancel();
+        parseInputYaml(restore.yaml);
+      }
+      if (restore.baseText !== undefined) setBaseText(restore.baseText);
+      if (visualizerRef.current) {
+        pendingPositionsRef.current = null;
+        visualizerRef.current.applyPositions(restore.positions);
+      } else {
+        pendingPositionsRef.current = restore.positions;
+      }
+    },
+    [debouncedParse, parseInputYaml]
+  );
+
+  // リセットを元に戻したときなど、グラフを表示し直したら履歴のノードの位置を反映する
+  useEffect(() => {
+    if (!pendingPositionsRef.current || !visualizerRef.current) return;
+    visualizerRef.current.applyPositions(pendingPositionsRef.current);
+    pendingPositionsRef.current = null;
+  }, [yamlData, mode]);
+
+  /**
+   * 1つ前の状態に戻すコールバック
+   */
+  const handleUndo = useCallback(() => {
+    recordText.flush();
+    const leaving = currentHistory();
+    const entry = undo();
+    if (entry) applyHistory(restoreOnUndo(leaving, entry));
+  }, [recordText, currentHistory, undo, applyHistory]);
+
+  /**
+   * 元に戻した状態をやり直すコールバック
+   */
+  const handleRedo = useCallback(() => {
+    recordText.flush();
+    const entry = redo();
+    if (entry) applyHistory(restoreOnRedo(entry));
+  }, [recordText, redo, applyHistory]);
+
+  // キーボードショートカット（Ctrl/Cmd+Z で元に戻す、Ctrl/Cmd+Shift+Z・Ctrl+Y でやり直す）
+  // 入力欄ではブラウザやエディタの操作を優先する（YAMLエディタはonUndo/onRedoで履歴を使う）
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  /**
+   * グラフ上の編集をYAMLテキストに書き戻すコールバック
+   * 書き戻したテキストはすぐに解析してグラフに反映し、1件の履歴として記録する
+   * 同じ処理の中で続けて呼ばれても編集が失われないよう、最新のテキストに適用する
+   * @param {GrimoireEdit} edit - 編集内容
+   */
+  const handleEdit = useCallback(
+    (edit: GrimoireEdit) => {
+      try {
+        const text = applyGrimoireEdit(yamlTextRef.current, edit);
+        recordText.flush();
+        yamlTextRef.current = text;
+        setYamlText(text);
+        debouncedParse.cancel();
+        parseInputYaml(text);
+        record(captureHistory());
+      } catch (error) {
+        window.alert((error as Error).message);
+      }
+    },
+    [debouncedParse, parseInputYaml, recordText, record, captureHistory]
+  );
+
+  /**
+   * 診断結果に添えられたリントの修正をYAMLテキストに適用するコールバック
+   * @param {Diagnostic} diagnostic - 修正する診断結果
+   */
+  const handleFix = useCallback(
+    (diagnostic: Diagnostic) => {
+      if (diagnostic.fix) handleEdit(diagnostic.fix.edit);
+    },
+    [handleEdit]
+  );
+
+  // リントの設定が変わったら、入力中のYAMLテキストを検査し直す
+  useEffect(() => {
+    if (lintConfigRef.current === lintConfig) return;
+    lintConfigRef.current = lintConfig;
+    debouncedParse.cancel();
+    parseInputYaml(yamlTextRef.current);
+  }, [lintConfig, debouncedParse, parseInputYaml]);
+
+  // ページを閉じるときは保存を待たずに保存する
+  useEffect(() => {
+    const flush = () => autosave.flush();
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      autosave.flush();
+    };
+  }, [autosave]);
+
+  /**
+   * インクルードするファイルを変更し、YAMLテキストを解析し直すコールバック
+   * @param {Record<string, string>} files - インクルードするファイル（パスとテキスト）
+   */
+  const handleIncludeFilesChange = useCallback(
+    (files: Record<string, string>) => {
+      includeFilesRef.current = files;
+      setIncludeFiles(files);
+      debouncedParse.cancel();
+      parseInputYaml(yamlTextRef.current);
+      autosave();
+    },
+    [debouncedParse, parseInputYaml, autosave]
+  );
+
+  /**
+   * YAMLテキストをエディタに設定してすぐに解析し、開いているワークスペースの表示状態からグラフを作り直す
+   * @param {string} text - YAMLテキスト
+   * @param {Record<string, string>} [includes] - インクルードするファイル
+   */
+  const showGrimoire = useCallback(
+    (text: string, includes: Record<string, string> = {}) => {
+      includeFilesRef.current = includes;
+      setIncludeFiles(includes);
+      setYamlText(text);
+      setSelectedFileId(null);
+      setViewKey((key) => key + 1);
+      debouncedParse.cancel();
+      parseInputYaml(text);
+    },
+    [debouncedParse, parseInputYaml]
+  );
+
+  /**
+   * 読み込んだグリモワールをエディタに設定し、すぐに解析してグラフに反映するコールバック
+   * 同じ名前のワークスペースがあれば、確認してから置き換え、保存した配置を変更後のグリモワールにも使う
+   * @param {LoadedGrimoire} grimoire - 読み込んだグリモワール
+   */
+  const handleLoad = useCallback(
+    (grimoire: LoadedGrimoire) => {
+      // 切り替える前に、開いているワークスペースの保存待ちの内容を保存する
+      autosave.flush();
+      const workspace = openWorkspaceByName(
+        grimoire.name,
+        grimoire.text,
+        (existing) =>
+          window.confirm(
+            `ワークスペース「${existing.name}」に保存されている内容を、読み込んだグリモワールで置き換えますか？（キャンセルすると別の名前のワークスペースを作成します）`
+          )
+      );
+      showGrimoire(grimoire.text, workspace.includes);
+      addRecentFile(grimoire);
+    },
+    [autosave, openWorkspaceByName, showGrimoire, addRecentFile]
+  );
+
+  /**
+   * 保存されているワークスペースを開くコールバック
+   * @param {Workspace} workspace - ワークスペース
+   */
+  const handleOpenWorkspace = useCallback(
+    (workspace: Workspace) => {
+      autosave.flush();
+      openWorkspace(workspace);
+      showGrimoire(workspace.yaml, workspace.includes);
+    },
+    [autosave, openWorkspace, showGrimoire]
+  );
+
+  /**
+   * 空のワークスペースを作成して開くコールバック
+   * @param {string} name - 表示名
+   */
+  const handleCreateWorkspace = useCallback(
+    (name: string) => {
+      autosave.flush();
+      createWorkspace(name, "");
+      showGrimoire("");
+    },
+    [autosave, createWorkspace, showGrimoire]
+  );
+
+  /**
+   * ワークスペースを削除するコールバック
+   * 開いているワークスペースの場合は、保存待ちの内容を破棄する
+   * @param {Workspace} workspace - ワークスペース
+   */
+  const handleDeleteWorkspace = useCallback(
+    (workspace: Workspace) => {
+      if (workspace.id === currentWorkspace?.id) autosave.cancel();
+      removeWorkspace(workspace);
+    },
+    [currentWorkspace, autosave, removeWorkspace]
+  );
+
+  // 起動時に、共有リンクやURLパラメータで指定されていなければ、最後に保存したワークスペースを開く
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (!workspacesLoaded || restoredRef.current) return;
+    restoredRef.current = true;
+    if (
+      yamlTextRef.current !== "" ||
+      new URLSearchParams(window.location.search).has("src")
+    ) {
+      return;
+    }
+    if (workspaces.length > 0) handleOpenWorkspace(workspaces[0]);
+  }, [workspacesLoaded, workspaces, handleOpenWorkspace]);
+
+  /**
+   * ドロップされたファイルを読み込むコールバック
+   * @param {File} file - ドロップされたファイル
+   */
+  const handleDropFile = useCallback(
+    (file: File) => {
+      loadGrimoireFile(file)
+        .then(handleLoad)
+        .catch((error) => window.alert((error as Error).message));
+    },
+    [handleLoad]
+  );
+
+  // 共有リンク（#g=）のグリモワールと表示状態、またはURLパラメータ（?src=）で指定されたグリモワールを読み込む
+  useEffect(() => {
+    try {
+      const shared = decodePermalink(window.location.hash);
+      if (shared) {
+        // 共有された内容はワークスペースとして保存し、再読み込みで上書きしないようURLから取り除く
+        window.history.replaceState(
+          null,
+          "",
+          `${window.location.pathname}${window.location.search}`
+        );
+        createWorkspace(
+          "共有リンク",
+          shared.yaml,
+          shared.view,
+          shared.includes
+        );
+        showGrimoire(shared.yaml, shared.includes);
+        return;
+      }
+    } catch (error) {
+      window.alert((error as Error).message);
+    }
+
+    const src = new URLSearchParams(window.location.search).get("src");
+    if (!src) return;
+
+    let cancelled = false;
+    fetchGrimoire(src)
+      .then((grimoire) => {
+        if (!cancelled) handleLoad(grimoire);
+      })
+      .catch((error) => window.alert((error as Error).message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [handleLoad, createWorkspace, showGrimoire]);
+
+  /**
+   * YAMLテキストとグラフの表示状態を含む共有リンクをクリップボードにコピーするコールバック
+   */
+  const handleShare = useCallback(() => {
+    let url: string;
+    try {
+      url = `${window.location.origin}${
+        window.location.pathname
+      }${encodePermalink({
+        version: 1,
+        yaml: yamlText,
+        view: visualizerRef.current?.getViewState(),
+        includes:
+          Object.keys(includeFiles).length > 0 ? includeFiles : undefined,
+      })}`;
+    } catch (error) {
+      window.alert((error as Error).message);
+      return;
+    }
+    navigator.clipboard
+      .writeText(url)
+      .then(() => {
+        setShareCopied(true);
+        setTimeout(() => setShareCopied(false), 2000);
+      })
+      .catch((error) => console.error("Error copying permalink:", error));
+  }, [yamlText, includeFiles]);
+
   /**
    * 入力と状態をリセットするコールバック
+   * リセットは1件の履歴として記録し、「元に戻す」で消したYAMLテキスト・比較元のテキスト・ノードの位置を復元できる
    */
   const handleReset = useCallback(() => {
+    // リセット前の状態（ドラッグしたノードの位置を含む）を、戻り先の履歴として記録しておく
+    recordText.flush();
+    const current = captureHistory();
+    record(current);
+    const entry = createResetEntry(current, baseTextRef.current);
+    pendingPositionsRef.current = null;
+    yamlTextRef.current = "";
+    // 解析中の結果でリセットした状態を上書きしないようにする
+    parseRequestRef.current++;
     setYamlData(null);
     setYamlText("");
-    setParseError(null);
-  }, []);
+    setDiagnostics([]);
+    setSharedDefinitions([]);
+    setSelectedFileId(null);
+    setBaseText("");
+    record(entry);
+  }, [recordText, captureHistory, record]);
 
   return (
-    <main className="min-h-screen flex">
-      {/* YAML入力エリア */}
-      <div className="w-1/3 flex flex-col items-center justify-start bg-gray-50 p-4 overflow-auto">
-        <h1 className="text-3xl font-bold mb-8">グリモワール グラフ</h1>
-        <div className="w-full bg-white p-4 rounded-lg shadow-md">
-          <div className="text-center mb-4">
-            <p className="text-gray-600 mb-2">
-              YAMLテキストを入力してください。
-            </p>
-            {/* エラーメッセージの表示 */}
-            {parseError && (
-              <p className="text-red-500 font-bold">{parseError}</p>
+    <main>
+      <FileDropZone onDropFile={handleDropFile} className="min-h-screen flex">
+        {/* YAML入力エリア */}
+        <div className="w-1/3 flex flex-col items-center justify-start bg-gray-50 p-4 overflow-auto">
+          <h1 className="text-3xl font-bold mb-8">グリモワール グラフ</h1>
+          <div className="w-full bg-white p-4 rounded-lg shadow-md">
+            {/* 表示モードの切り替え */}
+            <div className="flex mb-4 rounded-md border border-gray-300 overflow-hidden">
+              {(
+                [
+                  ["edit", "編集"],
+                  ["compare", "比較"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`flex-1 px-4 py-2 ${
+                    mode === value
+                      ? "bg-blue-500 text-white"
+                      : "hover:bg-gray-50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="text-center mb-4">
+              <p className="text-gray-600 mb-2">
+                {mode === "edit"
+                  ? "YAMLテキストを入力するか、ファイルを開いてください。"
+                  : "変更前（比較元）と変更後のYAMLを入力してください。"}
+              </p>
+            </div>
+            {/* ファイル・フォルダ・URLからの読み込み */}
+            {mode === "edit" && (
+              <WorkspacePanel
+                workspaces={workspaces}
+                current={currentWorkspace}
+                onOpen={handleOpenWorkspace}
+                onCreate={handleCreateWorkspace}
+                onRename={renameWorkspace}
+                onDelete={handleDeleteWorkspace}
+              />
             )}
-          </div>
-          {/* YAMLテキスト入力エリア */}
-          <textarea
-            value={yamlText}
-            onChange={handleYamlChange}
-            placeholder="ここにYAMLを入力..."
-            className="w-full h-[50rem] p-4 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-          />
-          {/* リセットボタン */}
-          <button
-            onClick={handleReset}
-            className="mt-4 w-full px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
-          >
-            リセット
-          </button>
-        </div>
-      </div>
-
-      {/* 解析結果表示エリア */}
-      <div className="w-2/3 flex flex-col items-center justify-start bg-white p-4 overflow-auto">
-        {yamlData ? (
-          <>
-            {/* 別の入力を選択するボタン */}
-            <div className="fixed top-4 right-4 z-10">
+            {mode === "edit" && (
+              <SourcePanel
+                onLoad={handleLoad}
+                recentFiles={recentFiles}
+                onClearRecent={clearRecentFiles}
+                includeFiles={includeFiles}
+                onIncludeFilesChange={handleIncludeFilesChange}
+              />
+            )}
+            {/* 比較元のYAMLエディタ */}
+            {mode === "compare" && (
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-1">
+                  <h2 className="text-sm font-bold text-gray-700">変更前</h2>
+                  <button
+                    onClick={() => setBaseText(yamlText)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    変更後の内容をコピー
+                  </button>
+                </div>
+                <YamlEditor
+                  value={baseText}
+                  onChange={setBaseText}
+                  diagnostics={baseResult.diagnostics}
+                  className="h-[24rem]"
+                />
+              </div>
+            )}
+            {mode === "compare" && (
+              <h2 className="mb-1 text-sm font-bold text-gray-700">変更後</h2>
+            )}
+            {/* 複数ドキュメントのYAMLで、比較するドキュメントの選択 */}
+            {mode === "compare" &&
+              (baseDocuments.length > 1 || headDocuments.length > 1) && (
+                <div className="mb-2 flex items-center gap-2 text-xs text-gray-700">
+                  <span>比較するドキュメント</span>
+                  {(
+                    [
+                      ["base", "変更前", baseDocuments],
+                      ["head", "変更後", headDocuments],
+                    ] as const
+                  ).map(([side, label, documents]) => (
+                    <select
+                      key={side}
+                      value={compareDocuments[side] ?? ""}
+                      onChange={(e) =>
+                        setCompareDocuments((current) => ({
+                          ...current,
+                          [side]:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        }))
+                      }
+                      className="flex-1 min-w-0 px-1 py-1 border border-gray-300 rounded-md"
+                      title={label}
+                    >
+                      <option value="">{label}: すべて（マージ）</option>
+                      {documents.map((document) => (
+                        <option key={document.index} value={document.index}>
+                          {label}: {document.index + 1}つ目（{document.line}
+                          行目〜）
+                        </option>
+                      ))}
+                    </select>
+                  ))}
+                </div>
+              )}
+            {/* YAMLエディタ */}
+            <YamlEditor
+              ref={editorRef}
+              value={yamlText}
+              onChange={handleYamlChange}
+              diagnostics={diagnostics}
+              onCursorLine={handleCursorLine}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onFix={handleFix}
+              className={mode === "compare" ? "h-[24rem]" : "h-[50rem]"}
+            />
+            {/* 構文・スキーマ・リントの診断結果 */}
+            <DiagnosticsList
+              diagnostics={diagnostics}
+              onSelect={handleSelectDiagnostic}
+              onFix={handleFix}
+            />
+            {/* リントの設定 */}
+            <button
+              onClick={() => setShowLintSettings((show) => !show)}
+              className="mt-2 text-xs text-blue-600 hover:underline"
+            >
+              {showLintSettings ? "リントの設定を閉じる" : "リントの設定"}
+            </button>
+            {showLintSettings && (
+              <LintSettingsPanel
+                config={lintConfig}
+                onChange={setLintConfig}
+                onReset={resetLintConfig}
+              />
+            )}
+            {/* 元に戻す・やり直すボタン */}
+            <div className="mt-4 flex gap-2">
               <button
-                onClick={handleReset}
-                className="px-4 py-2 bg-white rounded-md shadow-md hover:bg-gray-50"
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="flex-1 px-4 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                title="元に戻す（Ctrl/Cmd+Z）"
               >
-                別の入力を選択
+                ↶ 元に戻す
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="flex-1 px-4 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                title="やり直す（Ctrl/Cmd+Shift+Z）"
+              >
+                ↷ やり直す
               </button>
             </div>
-            {/* YAMLビジュアライザーコンポーネント */}
-            <div className="w-full h-full">
-              <YamlVisualizer yamlData={yamlData} />
-            </div>
-          </>
-        ) : (
-          // YAMLデータがない場合のプレースホルダー
-          <div className="w-full max-w-2xl p-6 rounded-lg shadow-md flex items-center justify-center">
-            <p className="text-gray-600">右側に解析結果が表示されます。</p>
+            {/* リセットボタン */}
+            <button
+              onClick={handleReset}
+              className="mt-2 w-full px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
+              title="入力を消す（元に戻すで復元できます）"
+            >
+              リセット
+            </button>
           </div>
-        )}
-      </div>
+        </div>
+
+        {/* 解析結果表示エリア */}
+        <div className="w-2/3 flex flex-col items-center justify-start bg-white p-4 overflow-auto">
+          {mode === "compare" ? (
+            headCompareData && baseResult.data ? (
+              // 2つのバージョンの差分を表示するコンポーネント
+              <div className="w-full h-full">
+                <ComparisonView base={baseResult.data} head={headCompareData} />
+              </div>
+            ) : (
+              <div className="w-full max-w-2xl p-6 rounded-lg shadow-md flex items-center justify-center">
+                <p className="text-gray-600">
+                  変更前と変更後のYAMLを入力すると、差分が表示されます。
+                </p>
+              </div>
+            )
+          ) : yamlData ? (
+            <>
+              {/* 共有リンクのコピーと、別の入力を選択するボタン */}
+              <div className="fixed top-4 right-4 z-10 flex gap-2">
+                <button
+                  onClick={handleShare}
+                  className="px-4 py-2 bg-white rounded-md shadow-md hover:bg-gray-50"
+                  title="YAMLと表示状態を含むリンクをコピー"
+                >
+                  {shareCopied ? "リンクをコピーしました" : "共有"}
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="px-4 py-2 bg-white rounded-md shadow-md hover:bg-gray-50"
+                >
+                  別の入力を選択
+                </button>
+              </div>
+              {/* YAMLビジュアライザーコンポーネント */}
+              <div className="w-full h-full">
+                <YamlVisualizer
+                  key={viewKey}
+                  ref={visualizerRef}
+                  yamlData={yamlData}
+                  selectedFileId={selectedFileId}
+                  onSelectFile={handleSelectNode}
+                  onEdit={handleEdit}
+                  theme={theme}
+                  onThemeChange={setTheme}
+                  onThemeReset={resetTheme}
+                  sharedDefinitions={sharedDefinitions}
+                  initialView={currentWorkspace?.view}
+                  onViewChange={autosave}
+                  onLayoutEdit={handleLayoutEdit}
+                />
+              </div>
+            </>
+          ) : (
+            // YAMLデータがない場合のプレースホルダー
+            <div className="w-full max-w-2xl p-6 rounded-lg shadow-md flex items-center justify-center">
+              <p className="text-gray-600">右側に解析結果が表示されます。</p>
+            </div>
+          )}
+        </div>
+      </FileDropZone>
     </main>
   );
 }
@@ -0,0 +1,434 @@
+import React, { useMemo, useState } from "react";
+import { arc, pie, scaleBand, scaleLinear } from "d3";
+import { FileEdge, FileNode } from "@/types/yaml";
+import { NodeDegree, UsageStats } from "@/types/analytics";
+import { ThemeConfig } from "@/types/theme";
+import { analyzeGrimoire } from "@/utils/grimoireAnalytics";
+import { getAgentColor } from "@/utils/theme";
+
+// 棒グラフの1行の高さ
+const BAR_HEIGHT = 22;
+// 棒グラフのラベルの幅
+const LABEL_WIDTH = 140;
+// グラフの横幅
+const CHART_WIDTH = 420;
+// 円グラフの直径
+const DONUT_SIZE = 160;
+// ファンイン・ファンアウトの色
+const fanInColor = "#3b82f6";
+const fanOutColor = "#f59e0b";
+
+/**
+ * 長いラベルを末尾を省略して表示する
+ * @param {string} label - ラベル
+ * @param {number} max - 最大文字数
+ * @returns {string} 省略したラベル
+ */
+function truncate(label: string, max = 20): string {
+  return label.length > max ? `…${label.slice(label.length - max + 1)}` : label;
+}
+
+/**
+ * 利用状況のファイル数を横棒グラフで表示するコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {UsageStats[]} props.stats - 利用状況
+ * @param {Function} props.color - 名前ごとの色
+ */
+function UsageBarChart({
+  stats,
+  color,
+}: {
+  stats: UsageStats[];
+  color: (name: string) => string;
+}) {
+  const height = stats.length * BAR_HEIGHT;
+  const x = scaleLinear()
+    .domain([0, Math.max(1, ...stats.map((item) => item.fileCount))])
+    .range([0, CHART_WIDTH - LABEL_WIDTH - 40]);
+  const y = scaleBand()
+    .domain(stats.map((item) => item.name))
+    .range([0, height])
+    .padding(0.2);
+
+  return (
+    <svg width={CHART_WIDTH} height={height} className="text-xs">
+      {stats.map((item) => (
+        <g key={item.name} transform={`translate(0,${y(item.name) ?? 0})`}>
+          <title>{item.name}</title>
+          <text
+            x={LABEL_WIDTH - 6}
+            y={y.bandwidth() / 2}
+            dy="0.35em"
+            textAnchor="end"
+            fill="#374151"
+          >
+            {truncate(item.name)}
+          </text>
+          <rect
+            x={LABEL_WIDTH}
+            width={x(item.fileCount)}
+            height={y.bandwidth()}
+            rx={3}
+            fill={color(item.name)}
+          />
+          <text
+            x={LABEL_WIDTH + x(item.fileCount) + 4}
+            y={y.bandwidth() / 2}
+            dy="0.35em"
+            fill="#6b7280"
+          >
+            {item.fileCount}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * グリモワールに占める割合を円グラフで表示するコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {UsageStats[]} props.stats - 利用状況
+ * @param {number} props.totalFiles - 定義されているファイルの数
+ * @param {Function} props.color - 名前ごとの色
+ */
+function ShareDonut({
+  stats,
+  totalFiles,
+  color,
+}: {
+  stats: UsageStats[];
+  totalFiles: number;
+  color: (name: string) => string;
+}) {
+  const radius = DONUT_SIZE / 2;
+  const slices = pie<UsageStats>()
+    .value((item) => item.fileCount)
+    .sort(null)(stats);
+  const path = arc<(typeof slices)[number]>()
+    .innerRadius(radius * 0.55)
+    .outerRadius(radius - 2);
+
+  return (
+    <svg width={DONUT_SIZE} height={DONUT_SIZE} className="shrink-0">
+      <g transform={`translate(${radius},${radius})`}>
+        {slices.map((slice) => (
+          <path
+            key={slice.data.name}
+            d={path(slice) ?? undefined}
+            fill={color(slice.data.name)}
+            stroke="#ffffff"
+          >
+            <title>
+              {slice.data.name}: {slice.data.fileCount} ファイル
+            </title>
+          </path>
+        ))}
+        <text textAnchor="middle" dy="-0.2em" className="text-lg font-bold">
+          {totalFiles}
+        </text>
+        <text textAnchor="middle" dy="1.2em" className="text-xs" fill="#6b7280">
+          ファイル
+        </text>
+      </g>
+    </svg>
+  );
+}
+
+/**
+ * ファンイン・ファンアウトを積み上げ横棒グラフで表示するコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {NodeDegree[]} props.hotspots - 依存関係の多いファイル
+ * @param {Function} [props.onSelectFile] - ファイルが選択されたときのコールバック
+ */
+function HotspotChart({
+  hotspots,
+  onSelectFile,
+}: {
+  hotspots: NodeDegree[];
+  onSelectFile?: (fileId: string) => void;
+}) {
+  const height = hotspots.length * BAR_HEIGHT;
+  const x = scaleLinear()
+    .domain([
+      0,
+      Math.max(1, ...hotspots.map((item) => item.fanIn + item.fanOut)),
+    ])
+    .range([0, CHART_WIDTH - LABEL_WIDTH - 60]);
+  const y = scaleBand()
+    .domain(hotspots.map((item) => item.id))
+    .range([0, height])
+    .padding(0.2);
+
+  return (
+    <svg width={CHART_WIDTH} height={height} className="text-xs">
+      {hotspots.map((item) => (
+        <g
+          key={item.id}
+          transform={`translate(0,${y(item.id) ?? 0})`}
+          onClick={() => onSelectFile?.(item.id)}
+          className="cursor-pointer"
+        >
+          <title>
+            {item.id}（依存元 {item.fanIn} / 依存先 {item.fanOut}）
+          </title>
+          <text
+            x={LABEL_WIDTH - 6}
+            y={y.bandwidth() / 2}
+            dy="0.35em"
+            textAnchor="end"
+            fill="#2563eb"
+          >
+            {truncate(item.id)}
+          </text>
+          <rect
+            x={LABEL_WIDTH}
+            width={x(item.fanIn)}
+            height={y.bandwidth()}
+            fill={fanInColor}
+          />
+          <rect
+            x={LABEL_WIDTH + x(item.fanIn)}
+            width={x(item.fanOut)}
+            height={y.bandwidth()}
+            fill={fanOutColor}
+          />
+          <text
+            x={LABEL_WIDTH + x(item.fanIn + item.fanOut) + 4}
+            y={y.bandwidth() / 2}
+            dy="0.35em"
+            fill="#6b7280"
+          >
+            {item.fanIn} / {item.fanOut}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * 利用状況の一覧（ファイル数・割合・フォルダ・ファイル）を表示するコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {UsageStats[]} props.stats - 利用状況
+ * @param {Function} props.color - 名前ごとの色
+ * @param {Function} [props.onSelectFile] - ファイルが選択されたときのコールバック
+ */
+function UsageTable({
+  stats,
+  color,
+  onSelectFile,
+}: {
+  stats: UsageStats[];
+  color: (name: string) => string;
+  onSelectFile?: (fileId: string) => void;
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500 border-b border-gray-200">
+          <th className="py-1 text-left font-normal">名前</th>
+          <th className="py-1 text-right font-normal">ファイル数</th>
+          <th className="py-1 text-right font-normal">割合</th>
+          <th className="py-1 pl-3 text-left font-normal">フォルダ</th>
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map((item) => (
+          <React.Fragment key={item.name}>
+            <tr
+              onClick={() =>
+                setExpanded((prev) => (prev === item.name ? null : item.name))
+              }
+              className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+            >
+              <td className="py-1">
+                <span
+                  className="inline-block w-2 h-2 mr-1 rounded-full"
+                  style={{ backgroundColor: color(item.name) }}
+                />
+                {expanded === item.name ? "▼" : "▶"} {item.name}
+              </td>
+              <td className="py-1 text-right">{item.fileCount}</td>
+              <td className="py-1 text-right">
+                {(item.share * 100).toFixed(1)}%
+              </td>
+              <td className="py-1 pl-3 text-gray-600">
+                {item.folders.map((folder) => folder || "/").join(", ")}
+              </td>
+            </tr>
+            {expanded === item.name && (
+              <tr>
+                <td colSpan={4} className="pb-2 pl-5">
+                  <ul className="space-y-0.5">
+                    {item.files.map((id) => (
+                      <li key={id}>
+                        <button
+                          onClick={() => onSelectFile?.(id)}
+                          className="font-mono text-blue-600 hover:underline"
+                        >
+                          {id}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * エージェント・APIの利用状況と依存関係の構造を表示する分析ダッシュボード
+ * エージェントごとの作業量の偏りの確認や、実行前のAPIの利用回数の見積もりに使う
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {FileNode[]} props.files - ファイルノード
+ * @param {FileEdge[]} props.edges - 依存関係のエッジ
+ * @param {ThemeConfig} props.theme - エージェントの色を決めるテーマの設定
+ * @param {Function} [props.onSelectFile] - ファイルが選択されたときのコールバック
+ */
+export function AnalyticsPanel({
+  files,
+  edges,
+  theme,
+  onSelectFile,
+}: {
+  files: FileNode[];
+  edges: FileEdge[];
+  theme: ThemeConfig;
+  onSelectFile?: (fileId: string) => void;
+}) {
+  const analytics = useMemo(
+    () => analyzeGrimoire(files, edges),
+    [files, edges]
+  );
+  const agentColor = (name: string) => getAgentColor(name, theme);
+  const apiColor = () => "#8b5cf6";
+  const unassigned =
+    analytics.totalFiles -
+    analytics.agents.reduce((sum, item) => sum + item.fileCount, 0);
+
+  return (
+    <div className="w-full max-h-full overflow-auto bg-white rounded-md shadow-md text-left text-sm">
+      <div className="grid gap-4 p-4 xl:grid-cols-2">
+        {/* エージェントごとの利用状況 */}
+        <section>
+          <h3 className="mb-2 font-bold">
+            エージェント（{analytics.agents.length}）
+          </h3>
+          {analytics.agents.length === 0 ? (
+            <p className="text-xs text-gray-400">なし</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-4">
+                <ShareDonut
+                  stats={analytics.agents}
+                  totalFiles={analytics.totalFiles}
+                  color={agentColor}
+                />
+                <UsageBarChart stats={analytics.agents} color={agentColor} />
+              </div>
+              {unassigned > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  エージェント未指定のファイル: {unassigned}
+                </p>
+              )}
+              <div className="mt-2">
+                <UsageTable
+                  stats={analytics.agents}
+                  color={agentColor}
+                  onSelectFile={onSelectFile}
+                />
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* APIごとの利用状況 */}
+        <section>
+          <h3 className="mb-2 font-bold">API（{analytics.apis.length}）</h3>
+          {analytics.apis.length === 0 ? (
+            <p className="text-xs text-gray-400">なし</p>
+          ) : (
+            <>
+              <p className="mb-1 text-xs text-gray-500">
+                API を呼び出すファイルの数（1 回の実行での呼び出し回数の目安）:
+                合計{" "}
+                {analytics.apis.reduce((sum, item) => sum + item.fileCount, 0)}
+              </p>
+              <UsageBarChart stats={analytics.apis} color={apiColor} />
+              <div className="mt-2">
+                <UsageTable
+                  stats={analytics.apis}
+                  color={apiColor}
+                  onSelectFile={onSelectFile}
+                />
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* クリティカルパス */}
+        <section>
+          <h3 className="mb-2 font-bold">
+            クリティカルパス（{analytics.criticalPath.length} ファイル）
+          </h3>
+          <p className="mb-1 text-xs text-gray-500">
+            最も長い依存関係の連鎖。生成にかかる段数の下限になる
+          </p>
+          <ol className="flex flex-wrap items-center gap-1 text-xs">
+            {analytics.criticalPath.map((id, index) => (
+              <li key={id} className="flex items-center gap-1">
+                {index > 0 && <span className="text-gray-400">→</span>}
+                <button
+                  onClick={() => onSelectFile?.(id)}
+                  className="px-2 py-0.5 rounded bg-gray-100 font-mono text-blue-600 hover:bg-gray-200"
+                  title={id}
+                >
+                  {truncate(id, 30)}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        {/* ファンイン・ファンアウトのホットスポット */}
+        <section>
+          <h3 className="mb-2 font-bold">依存関係のホットスポット</h3>
+          {analytics.hotspots.length === 0 ? (
+            <p className="text-xs text-gray-400">なし</p>
+          ) : (
+            <>
+              <p className="mb-1 flex gap-3 text-xs text-gray-500">
+                <span>
+                  <span
+                    className="inline-block w-2 h-2 mr-1"
+                    style={{ backgroundColor: fanInColor }}
+                  />
+                  ファンイン（依存元の数）
+                </span>
+                <span>
+                  <span
+                    className="inline-block w-2 h-2 mr-1"
+                    style={{ backgroundColor: fanOutColor }}
+                  />
+                  ファンアウト（依存先の数）
+                </span>
+              </p>
+              <HotspotChart
+                hotspots={analytics.hotspots}
+                onSelectFile={onSelectFile}
+              />
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import ReactFlow, {
+  Background,
+  Controls,
+  Handle,
+  MarkerType,
+  NodeProps,
+  Position,
+  ReactFlowProvider,
+  useEdgesState,
+  useNodesState,
+  useReactFlow,
+} from "reactflow";
+import "reactflow/dist/style.css";
+import {
+  ChangeStatus,
+  EditableFileField,
+  FileChange,
+  FileEdge,
+  FolderNode,
+  GraphNode,
+  YamlData,
+} from "@/types/yaml";
+import { LayoutRequest } from "@/types/layout";
+import {
+  diffAddedColor,
+  diffRemovedColor,
+  diffModifiedColor,
+  diffAgentColor,
+  diffApiColor,
+  diffContentColor,
+  diffWaitColor,
+  defaultColor,
+} from "@/constant/constant";
+import {
+  compareGrimoires,
+  formatComparisonSummary,
+} from "@/utils/grimoireDiff";
+import { defaultLayoutOptions } from "@/utils/layout";
+import { useGraphLayout } from "@/hooks/useGraphLayout";
+
+// 変更の種類ごとの色と表示名
+const statusStyles: Record<ChangeStatus, { color: string; label: string }> = {
+  added: { color: diffAddedColor, label: "追加" },
+  removed: { color: diffRemovedColor, label: "削除" },
+  modified: { color: diffModifiedColor, label: "変更" },
+};
+
+// 変更されたフィールドごとの色
+const fieldColors: Record<EditableFileField, string> = {
+  content: diffContentColor,
+  agent: diffAgentColor,
+  api: diffApiColor,
+  dependency_wait: diffWaitColor,
+};
+
+/**
+ * ノードから参照するファイルの変更を提供するコンテキスト
+ */
+const FileChangesContext = createContext<Map<string, FileChange>>(new Map());
+
+/**
+ * 比較モードのファイルノードコンポーネント
+ * 変更の種類に応じた色の枠と、変更されたフィールドを表示する
+ * @param {NodeProps} props - ノードのプロパティ
+ */
+function DiffFileNode({ id, data }: NodeProps<GraphNode["data"]>) {
+  const change = useContext(FileChangesContext).get(id);
+  const style = change ? statusStyles[change.status] : null;
+  const fileData = data as { label?: string; agent?: string };
+
+  return (
+    <div
+      className="px-4 py-2 shadow-md rounded-md bg-white text-left"
+      style={{
+        border: `2px ${change?.status === "removed" ? "dashed" : "solid"} ${
+          style?.color ?? "#ddd"
+        }`,
+        opacity: change?.status === "removed" ? 0.7 : 1,
+      }}
+    >
+      <Handle type="target" position={Position.Top} className="w-2 h-2" />
+      <div className="flex items-center gap-2">
+        <div className="text-sm font-bold">{fileData.label}</div>
+        {style && (
+          <span
+            className="px-2 py-0.5 rounded-full text-xs text-white"
+            style={{ backgroundColor: style.color }}
+          >
+            {style.label}
+          </span>
+        )}
+      </div>
+      {fileData.agent && (
+        <div className="mt-1 text-xs text-gray-400">
+          <span className="font-bold">Agent:</span> {fileData.agent}
+        </div>
+      )}
+      {change && change.fields.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {change.fields.map(({ field }) => (
+            <span
+              key={field}
+              className="px-2 py-0.5 rounded-full text-xs text-white"
+              style={{ backgroundColor: fieldColors[field] }}
+            >
+              {field}
+            </span>
+          ))}
+        </div>
+      )}
+      <Handle type="source" position={Position.Bottom} className="w-2 h-2" />
+    </div>
+  );
+}
+
+/**
+ * 比較モードのフォルダノードコンポーネント（配下のノードを囲む枠）
+ * @param {NodeProps} props - ノードのプロパティ
+ */
+function DiffFolderNode({ data }: NodeProps<FolderNode["data"]>) {
+  return (
+    <div className="w-full h-full rounded-lg border-2 border-dashed border-slate-300 bg-slate-100/40">
+      <div className="px-2 py-1 text-sm font-bold text-slate-700 text-left">
+        📁 {data.label}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 比較モードのエッジを、追加・削除に応じた色で表示するReactFlowのエッジに変換
+ * @param {FileEdge} edge - 依存関係のエッジ
+ * @param {Set<string>} added - 追加された依存関係のID
+ * @param {Set<string>} removed - 削除された依存関係のID
+ * @returns {Object} ReactFlowのエッジ
+ */
+function toDiffEdge(edge: FileEdge, added: Set<string>, removed: Set<string>) {
+  let color = defaultColor;
+  if (added.has(edge.id)) color = diffAddedColor;
+  if (removed.has(edge.id)) color = diffRemovedColor;
+  return {
+    ...edge,
+    type: "smoothstep",
+    zIndex: 1,
+    markerEnd: { type: MarkerType.ArrowClosed, width: 20, height: 20, color },
+    style: {
+      stroke: color,
+      strokeWidth: color === defaultColor ? 1.5 : 3,
+      strokeDasharray: removed.has(edge.id) ? "6 4" : undefined,
+    },
+  };
+}
+
+/**
+ * 凡例の1項目
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} props.color - 色
+ * @param {string} props.label - 表示名
+ */
+function LegendItem({ color, label }: { color: string; label: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className="w-3 h-3 rounded-full"
+        style={{ backgroundColor: color }}
+      />
+      {label}
+    </div>
+  );
+}
+
+/**
+ * 2つのグリモワールの差分を1つのグラフとして表示するコンポーネント
+ * ReactFlowProviderでラップして状態管理を提供
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {YamlData} props.base - 変更前のグリモワール
+ * @param {YamlData} props.head - 変更後のグリモワール
+ */
+export function ComparisonView(props: { base: YamlData; head: YamlData }) {
+  return (
+    <ReactFlowProvider>
+      <ComparisonContent {...props} />
+    </ReactFlowProvider>
+  );
+}
+
+/**
+ * 比較モードの内部コンテンツコンポーネント
+ * 両方のファイルと依存関係を合わせたグラフ、凡例、変更の要約を表示する
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {YamlData} props.base - 変更前のグリモワール
+ * @param {YamlData} props.head - 変更後のグリモワール
+ */
+function ComparisonContent({ base, head }: { base: YamlData; head: YamlData }) {
+  const comparison = useMemo(() => compareGrimoires(base, head), [base, head]);
+  const summary = useMemo(
+    () => formatComparisonSummary(comparison),
+    [comparison]
+  );
+  const fileChanges = useMemo(
+    () => new Map(comparison.fileChanges.map((change) => [change.id, change])),
+    [comparison]
+  );
+
+  // 両方を合わせたグラフのレイアウト（Web Workerで計算する）
+  const layoutRequest = useMemo<LayoutRequest>(
+    () => ({
+      files: comparison.files,
+      edges: comparison.edges,
+      collapsed: [],
+      options: defaultLayoutOptions,
+    }),
+    [comparison]
+  );
+  const layout = useGraphLayout(layoutRequest);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState<GraphNode["data"]>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const { fitView } = useReactFlow();
+
+  useEffect(() => {
+    if (!layout) return;
+    const added = new Set(comparison.addedEdges.map((edge) => edge.id));
+    const removed = new Set(comparison.removedEdges.map((edge) => edge.id));
+    setNodes(layout.nodes);
+    setEdges(layout.edges.map((edge) => toDiffEdge(edge, added, removed)));
+    setTimeout(() => fitView({ padding: 0.2 }), 100);
+  }, [layout, comparison, setNodes, setEdges, fitView]);
+
+  const [copied, setCopied] = useState(false);
+
+  /**
+   * 変更の要約をクリップボードにコピーするコールバック
+   */
+  const handleCopy = useCallback(() => {
+    navigator.clipboard
+      .writeText(summary)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((error) => console.error("Error copying summary:", error));
+  }, [summary]);
+
+  // カスタムノードタイプのメモ化
+  const nodeTypes = useMemo(
+    () => ({
+      default: DiffFileNode,
+      missing: DiffFileNode,
+      folder: DiffFolderNode,
+    }),
+    []
+  );
+
+  return (
+    <FileChangesContext.Provider value={fileChanges}>
+      <div className="h-screen flex flex-col">
+        <div className="h-[80vh] relative">
+          {/* 凡例 */}
+          <div className="absolute top-16 left-4 z-10 p-3 bg-white rounded-md shadow-md text-xs text-left space-y-1">
+            {Object.values(statusStyles).map(({ color, label }) => (
+              <LegendItem
+                key={label}
+                color={color}
+                label={`ファイル${label}`}
+              />
+            ))}
+            {(Object.keys(fieldColors) as EditableFileField[]).map((field) => (
+              <LegendItem
+                key={field}
+                color={fieldColors[field]}
+                label={`${field} の変更`}
+              />
+            ))}
+            <LegendItem color={diffAddedColor} label="依存関係の追加（実線）" />
+            <LegendItem
+              color={diffRemovedColor}
+              label="依存関係の削除（破線）"
+            />
+          </div>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            nodeTypes={nodeTypes}
+            nodesConnectable={false}
+            fitView
+            attributionPosition="bottom-left"
+          >
+            <Background />
+            <Controls />
+          </ReactFlow>
+        </div>
+        {/* 変更の要約（Markdown） */}
+        <div className="h-[20vh] p-4 bg-gray-50 flex flex-col text-left">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-bold">変更の要約</h3>
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            >
+              {copied ? "コピーしました" : "Markdownをコピー"}
+            </button>
+          </div>
+          <pre className="flex-1 overflow-auto text-xs whitespace-pre-wrap bg-white p-2 rounded-md border border-gray-200">
+            {summary}
+          </pre>
+        </div>
+      </div>
+    </FileChangesContext.Provider>
+  );
+}
@@ -0,0 +1,91 @@
+import React from "react";
+import { Diagnostic, DiagnosticSeverity } from "@/types/diagnostic";
+
+// 重要度ごとの表示スタイル
+const severityStyles: Record<
+  DiagnosticSeverity,
+  { label: string; className: string }
+> = {
+  error: { label: "エラー", className: "bg-red-100 text-red-700" },
+  warning: { label: "警告", className: "bg-yellow-100 text-yellow-800" },
+  info: { label: "情報", className: "bg-blue-100 text-blue-700" },
+};
+
+/**
+ * 診断結果の一覧を表示するコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {Diagnostic[]} props.diagnostics - 表示する診断結果
+ * @param {(diagnostic: Diagnostic) => void} [props.onSelect] - 項目クリック時のコールバック
+ * @param {(diagnostic: Diagnostic) => void} [props.onFix] - 修正ボタンクリック時のコールバック
+ */
+export function DiagnosticsList({
+  diagnostics,
+  onSelect,
+  onFix,
+}: {
+  diagnostics: Diagnostic[];
+  onSelect?: (diagnostic: Diagnostic) => void;
+  onFix?: (diagnostic: Diagnostic) => void;
+}) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const warningCount = diagnostics.filter(
+    (d) => d.severity === "warning"
+  ).length;
+  const infoCount = diagnostics.length - errorCount - warningCount;
+
+  return (
+    <div className="mt-4 text-left">
+      <h2 className="text-sm font-bold mb-2">
+        問題: エラー {errorCount} 件 / 警告 {warningCount} 件
+        {infoCount > 0 && ` / 情報 ${infoCount} 件`}
+      </h2>
+      <ul className="max-h-60 overflow-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+        {diagnostics.map((diagnostic, index) => {
+          const style = severityStyles[diagnostic.severity];
+          return (
+            <li
+              key={`${diagnostic.code}-${diagnostic.line}-${diagnostic.column}-${index}`}
+              onClick={() => onSelect?.(diagnostic)}
+              className={`px-3 py-2 text-xs ${
+                onSelect ? "cursor-pointer hover:bg-gray-50" : ""
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className={`px-2 py-0.5 rounded-full font-bold ${style.className}`}
+                >
+                  {style.label}
+                </span>
+                <span className="text-gray-500">
+                  行 {diagnostic.line}, 列 {diagnostic.column}
+                </span>
+                {diagnostic.path.length > 0 && (
+                  <span className="font-mono text-gray-500 truncate">
+                    {diagnostic.path.join(" > ")}
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 text-gray-800">{diagnostic.message}</p>
+              {/* リントの規則による修正 */}
+              {diagnostic.fix && onFix && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onFix(diagnostic);
+                  }}
+                  className="mt-1 text-blue-600 hover:underline"
+                >
+                  修正: {diagnostic.fix.label}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
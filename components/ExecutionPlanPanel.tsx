@@ -0,0 +1,87 @@
+import React, { useCallback, useState } from "react";
+import { ExecutionPlan, FileNode } from "@/types/yaml";
+import { formatExecutionPlan } from "@/utils/executionPlan";
+
+/**
+ * 実行計画を実行順のリストとして表示するパネルコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {ExecutionPlan} props.plan - 実行計画
+ * @param {FileNode[]} props.files - ファイルノード
+ */
+export function ExecutionPlanPanel({
+  plan,
+  files,
+}: {
+  plan: ExecutionPlan;
+  files: FileNode[];
+}) {
+  const [copied, setCopied] = useState(false);
+  const agentOf = new Map(files.map((file) => [file.id, file.data.agent]));
+
+  /**
+   * 実行計画をテキストとしてクリップボードにコピーするコールバック
+   */
+  const handleCopy = useCallback(() => {
+    navigator.clipboard
+      .writeText(formatExecutionPlan(plan, files))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((error) => console.error("Error copying plan:", error));
+  }, [plan, files]);
+
+  return (
+    <div className="w-80 max-h-full flex flex-col bg-white rounded-md shadow-md text-left">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-bold">
+          実行計画（{plan.stages.length} ステージ）
+        </h3>
+        <button
+          onClick={handleCopy}
+          className="px-2 py-1 text-xs bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          {copied ? "コピーしました" : "コピー"}
+        </button>
+      </div>
+      <ol className="overflow-auto px-3 py-2 text-xs space-y-2">
+        {plan.stages.map((stage) => (
+          <li key={stage.index}>
+            <div className="font-bold">
+              ステージ {stage.index}
+              {stage.barrier && (
+                <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full">
+                  バリア
+                </span>
+              )}
+            </div>
+            <ul className="ml-3 mt-1 space-y-0.5">
+              {stage.files.map((id) => (
+                <li key={id} className="font-mono text-gray-700">
+                  {id}
+                  {agentOf.get(id) && (
+                    <span className="ml-1 text-gray-400">
+                      ({agentOf.get(id)})
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+        {plan.unscheduled.length > 0 && (
+          <li>
+            <div className="font-bold text-red-600">順序未確定（循環依存）</div>
+            <ul className="ml-3 mt-1 space-y-0.5">
+              {plan.unscheduled.map((id) => (
+                <li key={id} className="font-mono text-red-600">
+                  {id}
+                </li>
+              ))}
+            </ul>
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { RefObject, useState } from "react";
+import { getNodesBounds, getViewportForBounds, useReactFlow } from "reactflow";
+import { toPng, toSvg } from "html-to-image";
+import { FileEdge, FileNode } from "@/types/yaml";
+import { LayoutDirection } from "@/types/layout";
+import { ThemeConfig } from "@/types/theme";
+import { downloadFile, toDot, toMermaid } from "@/utils/graphExport";
+import { themePalettes } from "@/utils/theme";
+
+// 書き出す画像の余白と、グラフ全体を書き出すときの最大の大きさ（PNGのキャンバスの上限対策）
+const imagePadding = 40;
+const maxImageSize = 8000;
+
+// 画像に含めないReactFlowの操作用の要素
+const excludedClasses = [
+  "react-flow__controls",
+  "react-flow__minimap",
+  "react-flow__attribution",
+  "react-flow__panel",
+];
+
+type ImageFormat = "svg" | "png";
+type ImageScope = "view" | "full";
+
+/**
+ * 画像に含める要素かどうか
+ * @param {HTMLElement} element - 要素
+ * @returns {boolean} 含める場合はtrue
+ */
+function isExportedElement(element: HTMLElement): boolean {
+  return !excludedClasses.some((name) => element.classList?.contains(name));
+}
+
+/**
+ * グラフを画像（SVG・PNG）やテキスト（Mermaid・Graphviz DOT）として書き出すメニューコンポーネント
+ * 画像は表示中の範囲、またはグラフ全体を対象にできる
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {RefObject<HTMLDivElement | null>} props.flowRef - ReactFlowの要素
+ * @param {FileNode[]} props.files - ファイルノード
+ * @param {FileEdge[]} props.edges - 依存関係のエッジ
+ * @param {LayoutDirection} props.direction - グラフの方向
+ * @param {ThemeConfig} props.theme - テーマの設定（ファイルの色と画像の背景色）
+ */
+export function ExportMenu({
+  flowRef,
+  files,
+  edges,
+  direction,
+  theme,
+}: {
+  flowRef: RefObject<HTMLDivElement | null>;
+  files: FileNode[];
+  edges: FileEdge[];
+  direction: LayoutDirection;
+  theme: ThemeConfig;
+}) {
+  const [open, setOpen] = useState(false);
+  const { getNodes } = useReactFlow();
+
+  /**
+   * グラフを画像として書き出す
+   * @param {ImageFormat} format - 画像の形式
+   * @param {ImageScope} scope - 表示中の範囲か、グラフ全体か
+   */
+  const exportImage = async (format: ImageFormat, scope: ImageScope) => {
+    const flow = flowRef.current;
+    const viewport = flow?.querySelector<HTMLElement>(".react-flow__viewport");
+    if (!flow || !viewport) return;
+
+    const render = format === "svg" ? toSvg : toPng;
+    const backgroundColor = themePalettes[theme.mode].canvas;
+    let dataUrl: string;
+    if (scope === "view") {
+      dataUrl = await render(flow, {
+        backgroundColor,
+        filter: isExportedElement,
+      });
+    } else {
+      // ノード全体が収まる大きさの画像に、ビューポートを移動して描画する
+      const bounds = getNodesBounds(getNodes());
+      const width = Math.min(bounds.width + imagePadding * 2, maxImageSize);
+      const height = Math.min(bounds.height + imagePadding * 2, maxImageSize);
+      const { x, y, zoom } = getViewportForBounds(
+        bounds,
+        width,
+        height,
+        0.05,
+        1,
+        0
+      );
+      dataUrl = await render(viewport, {
+        backgroundColor,
+        width,
+        height,
+        style: {
+          width: `${width}px`,
+          height: `${height}px`,
+          transform: `translate(${x}px, ${y}px) scale(${zoom})`,
+        },
+      });
+    }
+    downloadFile(`grimoire.${format}`, dataUrl);
+  };
+
+  // メニューの項目
+  const items: [string, () => void | Promise<void>][] = [
+    ["SVG（表示中の範囲）", () => exportImage("svg", "view")],
+    ["SVG（グラフ全体）", () => exportImage("svg", "full")],
+    ["PNG（表示中の範囲）", () => exportImage("png", "view")],
+    ["PNG（グラフ全体）", () => exportImage("png", "full")],
+    [
+      "Mermaid（.mmd）",
+      () =>
+        downloadFile("grimoire.mmd", toMermaid(files, edges, direction, theme)),
+    ],
+    [
+      "Graphviz DOT（.dot）",
+      () =>
+        downloadFile(
+          "grimoire.dot",
+          toDot(files, edges, direction, theme),
+          "text/vnd.graphviz"
+        ),
+    ],
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="px-4 py-2 bg-white rounded-md hover:bg-gray-50 shadow-md"
+      >
+        エクスポート
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 py-1 bg-white rounded-md shadow-md text-left text-sm">
+          {items.map(([label, run]) => (
+            <button
+              key={label}
+              onClick={() => {
+                setOpen(false);
+                Promise.resolve(run()).catch((error) =>
+                  console.error("Error exporting graph:", error)
+                );
+              }}
+              className="block w-full px-3 py-2 text-left hover:bg-gray-50"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+
+/**
+ * ファイルのドラッグ＆ドロップを受け付ける領域のコンポーネント
+ * ファイルをドラッグしている間は、領域全体に案内を重ねて表示する
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {Function} props.onDropFile - ファイルがドロップされたときのコールバック
+ * @param {string} [props.className] - 領域のクラス名
+ * @param {React.ReactNode} props.children - 子要素
+ */
+export function FileDropZone({
+  onDropFile,
+  className,
+  children,
+}: {
+  onDropFile: (file: File) => void;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const [dragging, setDragging] = useState(false);
+
+  /**
+   * ドラッグされているものがファイルかどうか（エディタ内のテキストのドラッグは対象外）
+   * @param {React.DragEvent} e - ドラッグイベント
+   * @returns {boolean} ファイルの場合はtrue
+   */
+  const hasFiles = (e: React.DragEvent) =>
+    Array.from(e.dataTransfer.types).includes("Files");
+
+  return (
+    <div
+      className={`relative ${className ?? ""}`}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        // 子要素の間を移動したときは領域から出ていない
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setDragging(false);
+        }
+      }}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) onDropFile(file);
+      }}
+    >
+      {children}
+      {dragging && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-blue-500/10 border-4 border-dashed border-blue-500 pointer-events-none">
+          <p className="px-6 py-3 bg-white rounded-md shadow-md text-lg font-bold text-blue-700">
+            ファイルをドロップして開く
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { EditableFileField, FileNode, GrimoireEdit } from "@/types/yaml";
+
+/**
+ * 選択中のファイルの定義を編集するインスペクターパネルコンポーネント
+ * 入力欄からフォーカスが外れたときに、変更されたフィールドをYAMLに書き戻す
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {FileNode} props.file - 編集するファイルノード
+ * @param {Function} props.onEdit - YAMLに書き戻す編集を通知するコールバック
+ * @param {Function} props.onClose - パネルを閉じるコールバック
+ */
+export function FileInspector({
+  file,
+  onEdit,
+  onClose,
+}: {
+  file: FileNode;
+  onEdit: (edit: GrimoireEdit) => void;
+  onClose: () => void;
+}) {
+  const [content, setContent] = useState(file.data.content ?? "");
+  const [agent, setAgent] = useState(file.data.agent ?? "");
+  const [api, setApi] = useState((file.data.api ?? []).join(", "));
+
+  /**
+   * フィールドの変更をYAMLに書き戻す
+   * @param {EditableFileField} field - フィールド名
+   * @param {string | string[] | boolean} value - 新しい値
+   */
+  const commit = (
+    field: EditableFileField,
+    value: string | string[] | boolean
+  ) => {
+    onEdit({ type: "updateFile", fileId: file.id, field, value });
+  };
+
+  /**
+   * カンマ区切りの入力をAPIの配列に変換する
+   * @param {string} text - 入力されたテキスト
+   * @returns {string[]} APIの配列
+   */
+  const parseApi = (text: string) =>
+    text
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item !== "");
+
+  return (
+    <div className="w-80 bg-white rounded-md shadow-md text-left text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="font-bold truncate" title={file.id}>
+          {file.data.label}
+        </h3>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-500"
+          title="閉じる"
+        >
+          ×
+        </button>
+      </div>
+      <div className="px-3 py-2 space-y-3">
+        <label className="block">
+          <span className="text-xs font-bold text-gray-600">content</span>
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onBlur={() =>
+              content !== (file.data.content ?? "") &&
+              commit("content", content)
+            }
+            rows={5}
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-gray-600">agent</span>
+          <input
+            value={agent}
+            onChange={(e) => setAgent(e.target.value)}
+            onBlur={() =>
+              agent !== (file.data.agent ?? "") && commit("agent", agent)
+            }
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-gray-600">
+            api（カンマ区切り）
+          </span>
+          <input
+            value={api}
+            onChange={(e) => setApi(e.target.value)}
+            onBlur={() =>
+              parseApi(api).join(",") !== (file.data.api ?? []).join(",") &&
+              commit("api", parseApi(api))
+            }
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={file.data.dependencyWait ?? false}
+            onChange={(e) => commit("dependency_wait", e.target.checked)}
+          />
+          <span className="text-xs font-bold text-gray-600">
+            dependency_wait（依存ファイルの完了を待つ）
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
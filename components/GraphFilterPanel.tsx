@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from "react";
+import { FileNode } from "@/types/yaml";
+import { FilterFacet, FilterMode, GraphFilter } from "@/types/filter";
+import {
+  collectFacets,
+  emptyFilter,
+  isFilterActive,
+  searchFiles,
+  toggleFacetValue,
+} from "@/utils/graphFilter";
+
+// 検索結果として表示する最大件数
+const MAX_SEARCH_RESULTS = 8;
+// フォーカスモードでたどる段数の上限
+const MAX_FOCUS_DEPTH = 10;
+
+// 属性ごとの表示名
+const facetLabels: Record<FilterFacet, string> = {
+  extension: "拡張子",
+  agent: "エージェント",
+  api: "API",
+  folder: "フォルダ",
+};
+
+// 一致しないノードの表示方法の選択肢
+const modeLabels: [FilterMode, string][] = [
+  ["dim", "薄く表示"],
+  ["hide", "非表示"],
+];
+
+/**
+ * グラフの検索・フィルター・フォーカスモードを操作するパネルコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {FileNode[]} props.files - ファイルノード
+ * @param {GraphFilter} props.filter - 検索・フィルター・フォーカスの状態
+ * @param {Function} props.onChange - 状態を変更するコールバック
+ * @param {string | null} props.selectedFileId - 選択中のファイルノードのID
+ * @param {Function} [props.onSelectFile] - 検索結果が選択されたときのコールバック
+ */
+export function GraphFilterPanel({
+  files,
+  filter,
+  onChange,
+  selectedFileId,
+  onSelectFile,
+}: {
+  files: FileNode[];
+  filter: GraphFilter;
+  onChange: (filter: GraphFilter) => void;
+  selectedFileId: string | null;
+  onSelectFile?: (fileId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const facets = useMemo(() => collectFacets(files), [files]);
+  const results = useMemo(
+    () => searchFiles(files, filter.query).slice(0, MAX_SEARCH_RESULTS),
+    [files, filter.query]
+  );
+  const labelOf = (id: string) =>
+    files.find((file) => file.id === id)?.data.label ?? id;
+
+  return (
+    <div className="w-80 max-h-full flex flex-col bg-white rounded-md shadow-md text-left text-sm">
+      {/* 検索 */}
+      <div className="p-2 border-b border-gray-200">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder="パス・content・agent・api を検索"
+          className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {filter.query.trim() !== "" && (
+          <ul className="mt-1 max-h-48 overflow-auto">
+            {results.length === 0 && (
+              <li className="px-2 py-1 text-gray-500">
+                一致するファイルはありません
+              </li>
+            )}
+            {results.map((result) => (
+              <li key={result.id}>
+                <button
+                  onClick={() => onSelectFile?.(result.id)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left hover:bg-gray-50 ${
+                    result.id === selectedFileId ? "bg-blue-50" : ""
+                  }`}
+                  title={result.id}
+                >
+                  <span className="truncate flex-1">{result.id}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">
+                    {result.field}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* フォーカスモード */}
+      <div className="p-2 border-b border-gray-200">
+        {filter.focus ? (
+          <div className="flex items-center gap-2">
+            <span className="flex-1 truncate" title={filter.focus.fileId}>
+              フォーカス: <b>{labelOf(filter.focus.fileId)}</b>
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_FOCUS_DEPTH}
+              value={filter.focus.depth}
+              onChange={(e) =>
+                filter.focus &&
+                onChange({
+                  ...filter,
+                  focus: {
+                    ...filter.focus,
+                    depth: Math.min(
+                      MAX_FOCUS_DEPTH,
+                      Math.max(1, Number(e.target.value) || 1)
+                    ),
+                  },
+                })
+              }
+              className="w-12 px-1 py-0.5 border border-gray-300 rounded-md"
+              title="たどる段数"
+            />
+            <span className="text-xs text-gray-500">段</span>
+            <button
+              onClick={() => onChange({ ...filter, focus: null })}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              解除
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() =>
+              selectedFileId &&
+              onChange({
+                ...filter,
+                focus: { fileId: selectedFileId, depth: 2 },
+              })
+            }
+            disabled={!selectedFileId}
+            className="w-full px-2 py-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            title="選択中のファイルの依存先と依存元だけを表示します"
+          >
+            選択中のファイルにフォーカス
+          </button>
+        )}
+      </div>
+
+      {/* 属性ごとのフィルター */}
+      <div className="flex items-center justify-between px-2 py-1">
+        <button
+          onClick={() => setOpen((prev) => !prev)}
+          className="font-bold text-gray-700"
+        >
+          {open ? "▼" : "▶"} フィルター
+        </button>
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange({ ...emptyFilter, mode: filter.mode })}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            条件をクリア
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="px-2 pb-2 overflow-auto space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-600">一致しないノード:</span>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {modeLabels.map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => onChange({ ...filter, mode })}
+                  className={`px-2 py-0.5 text-xs ${
+                    filter.mode === mode
+                      ? "bg-blue-500 text-white"
+                      : "hover:bg-gray-50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {(Object.keys(facetLabels) as FilterFacet[]).map(
+            (facet) =>
+              facets[facet].length > 0 && (
+                <div key={facet}>
+                  <h4 className="mb-1 text-xs font-bold text-gray-600">
+                    {facetLabels[facet]}
+                  </h4>
+                  <div className="flex flex-wrap gap-1">
+                    {facets[facet].map(([value, count]) => {
+                      const active = filter.facets[facet].includes(value);
+                      return (
+                        <button
+                          key={value}
+                          onClick={() =>
+                            onChange(toggleFacetValue(filter, facet, value))
+                          }
+                          className={`px-2 py-0.5 rounded-full text-xs ${
+                            active
+                              ? "bg-blue-500 text-white"
+                              : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          }`}
+                        >
+                          {facet === "extension" ? `.${value}` : value} ({count}
+                          )
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React from "react";
+import { FileNode } from "@/types/yaml";
+import { ImpactAnalysis, ImpactDirection } from "@/types/impact";
+import { ThemeConfig } from "@/types/theme";
+import { formatImpactJson } from "@/utils/impactAnalysis";
+import { downloadFile } from "@/utils/graphExport";
+import { getAgentColor } from "@/utils/theme";
+
+// たどる方向ごとの表示名
+const directionLabels: Record<ImpactDirection, string> = {
+  dependents: "再生成が必要なファイル",
+  dependencies: "生成に必要なファイル",
+};
+
+/**
+ * ファイルを起点にした影響範囲を、再生成する順に表示するパネルコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {ImpactAnalysis} props.impact - 影響範囲の解析結果
+ * @param {FileNode[]} props.files - ファイルノード
+ * @param {ThemeConfig} props.theme - エージェントの色を決めるテーマの設定
+ * @param {Function} props.onDirectionChange - たどる方向を切り替えるコールバック
+ * @param {Function} [props.onSelectFile] - ファイルが選択されたときのコールバック
+ * @param {Function} props.onClose - パネルを閉じるコールバック
+ */
+export function ImpactPanel({
+  impact,
+  files,
+  theme,
+  onDirectionChange,
+  onSelectFile,
+  onClose,
+}: {
+  impact: ImpactAnalysis;
+  files: FileNode[];
+  theme: ThemeConfig;
+  onDirectionChange: (direction: ImpactDirection) => void;
+  onSelectFile?: (fileId: string) => void;
+  onClose: () => void;
+}) {
+  const fileMap = new Map(files.map((file) => [file.id, file]));
+  const label = fileMap.get(impact.fileId)?.data.label ?? impact.fileId;
+  // 定義されていないため生成の順序に含まれない依存先
+  const missing = impact.files.filter((id) => fileMap.get(id)?.data.missing);
+
+  /**
+   * ファイルを選択するボタンを表示する
+   * @param {string} id - ファイルノードのID
+   * @param {string} className - ボタンのクラス
+   */
+  const fileButton = (id: string, className: string) => (
+    <button
+      onClick={() => onSelectFile?.(id)}
+      className={`w-full truncate text-left font-mono hover:underline ${className}`}
+      title={id}
+    >
+      {id}
+      {id === impact.fileId && "（起点）"}
+      {fileMap.get(id)?.data.agent && (
+        <span className="ml-1 text-gray-400">
+          ({fileMap.get(id)?.data.agent})
+        </span>
+      )}
+    </button>
+  );
+
+  return (
+    <div className="w-80 max-h-full flex flex-col bg-white rounded-md shadow-md text-left text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200">
+        <h3 className="flex-1 font-bold truncate" title={impact.fileId}>
+          影響範囲: {label}
+        </h3>
+        <button
+          onClick={() =>
+            downloadFile(
+              `impact-${label}.json`,
+              formatImpactJson(impact, files),
+              "application/json"
+            )
+          }
+          className="px-2 py-1 text-xs bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          JSON
+        </button>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-500"
+          title="閉じる"
+        >
+          ×
+        </button>
+      </div>
+      {/* たどる方向の切り替え */}
+      <div className="flex mx-3 mt-2 rounded-md border border-gray-300 overflow-hidden text-xs">
+        {(Object.keys(directionLabels) as ImpactDirection[]).map(
+          (direction) => (
+            <button
+              key={direction}
+              onClick={() => onDirectionChange(direction)}
+              className={`flex-1 px-2 py-1 ${
+                impact.direction === direction
+                  ? "bg-blue-500 text-white"
+                  : "hover:bg-gray-50"
+              }`}
+            >
+              {directionLabels[direction]}
+            </button>
+          )
+        )}
+      </div>
+      <p className="px-3 mt-2 text-xs text-gray-600">
+        {impact.direction === "dependents"
+          ? `変更すると ${impact.files.length} 件のファイルの生成をやり直す必要があります`
+          : `生成には ${impact.files.length} 件のファイルが必要です`}
+      </p>
+      {/* エージェントごとのファイル数 */}
+      <div className="flex flex-wrap gap-1 px-3 mt-2">
+        {impact.agentCounts.map(([agent, count]) => (
+          <span
+            key={agent}
+            className="flex items-center px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-700"
+          >
+            <span
+              className="inline-block w-2 h-2 mr-1 rounded-full"
+              style={{ backgroundColor: getAgentColor(agent, theme) }}
+            />
+            {agent || "（なし）"}: {count}
+          </span>
+        ))}
+      </div>
+      {/* 再生成する順序 */}
+      <ol className="overflow-auto px-3 py-2 text-xs space-y-2">
+        {impact.plan.stages.map((stage) => (
+          <li key={stage.index}>
+            <div className="font-bold">
+              ステージ {stage.index}
+              {stage.barrier && (
+                <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full">
+                  バリア
+                </span>
+              )}
+            </div>
+            <ul className="ml-3 mt-1 space-y-0.5">
+              {stage.files.map((id) => (
+                <li key={id}>{fileButton(id, "text-gray-700")}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+        {impact.plan.unscheduled.length > 0 && (
+          <li>
+            <div className="font-bold text-red-600">順序未確定（循環依存）</div>
+            <ul className="ml-3 mt-1 space-y-0.5">
+              {impact.plan.unscheduled.map((id) => (
+                <li key={id}>{fileButton(id, "text-red-600")}</li>
+              ))}
+            </ul>
+          </li>
+        )}
+        {missing.length > 0 && (
+          <li>
+            <div className="font-bold text-red-600">未定義の依存先</div>
+            <ul className="ml-3 mt-1 space-y-0.5">
+              {missing.map((id) => (
+                <li key={id}>{fileButton(id, "text-red-600")}</li>
+              ))}
+            </ul>
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+}
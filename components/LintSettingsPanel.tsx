@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { LintConfig, LintRuleId, LintRuleLevel } from "@/types/lint";
+import {
+  lintRuleLabels,
+  lintRuleLevels,
+  parseLintConfig,
+  serializeLintConfig,
+} from "@/utils/lintConfig";
+import { downloadFile } from "@/utils/graphExport";
+
+// 重要度の表示名
+const levelLabels: Record<LintRuleLevel, string> = {
+  off: "無効",
+  info: "情報",
+  warning: "警告",
+  error: "エラー",
+};
+
+/**
+ * カンマ区切りのテキストを配列に変換
+ * @param {string} text - カンマ区切りのテキスト
+ * @returns {string[]} 前後の空白を除き、空の要素を取り除いた配列
+ */
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 入力中は確定せず、フォーカスが外れたときに値を確定するテキスト入力
+ * カンマ区切りの一覧などを、入力途中の形（末尾の「, 」など）を保ったまま編集するために使う
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} props.value - 確定している値
+ * @param {Function} props.onCommit - 値を確定するコールバック
+ * @param {boolean} [props.multiline] - 複数行で入力するかどうか
+ * @param {string} [props.placeholder] - プレースホルダー
+ */
+function CommitInput({
+  value,
+  onCommit,
+  multiline = false,
+  placeholder,
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const className =
+    "w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs";
+  const props = {
+    value: draft ?? value,
+    placeholder,
+    className,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setDraft(e.target.value),
+    onBlur: () => {
+      if (draft !== null) onCommit(draft);
+      setDraft(null);
+    },
+  };
+  return multiline ? <textarea rows={3} {...props} /> : <input {...props} />;
+}
+
+/**
+ * リントの設定（規則ごとの重要度と、規則が使う一覧・上限）を編集するパネルコンポーネント
+ * 設定はJSONとして保存・読み込みでき、CLIの --lint やAPIの lint にそのまま渡せる
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {LintConfig} props.config - リントの設定
+ * @param {Function} props.onChange - リントの設定を変更するコールバック
+ * @param {Function} props.onReset - リントの設定を初期状態に戻すコールバック
+ */
+export function LintSettingsPanel({
+  config,
+  onChange,
+  onReset,
+}: {
+  config: LintConfig;
+  onChange: (config: LintConfig) => void;
+  onReset: () => void;
+}) {
+  /**
+   * JSONファイルからリントの設定を読み込む
+   * @param {File} file - JSONファイル
+   */
+  const importConfig = (file: File) =>
+    file
+      .text()
+      .then(parseLintConfig)
+      .then(onChange)
+      .catch((error) => window.alert((error as Error).message));
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-md text-left text-sm">
+      <div className="px-3 py-2 space-y-3">
+        {/* 規則ごとの重要度 */}
+        <ul className="space-y-1">
+          {(Object.keys(lintRuleLabels) as LintRuleId[]).map((rule) => (
+            <li key={rule} className="flex items-center gap-2 text-xs">
+              <select
+                value={config.rules[rule]}
+                onChange={(e) =>
+                  onChange({
+                    ...config,
+                    rules: {
+                      ...config.rules,
+                      [rule]: e.target.value as LintRuleLevel,
+                    },
+                  })
+                }
+                className="px-1 py-0.5 border border-gray-300 rounded"
+              >
+                {lintRuleLevels.map((level) => (
+                  <option key={level} value={level}>
+                    {levelLabels[level]}
+                  </option>
+                ))}
+              </select>
+              <span title={lintRuleLabels[rule].description}>
+                {lintRuleLabels[rule].label}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {/* 規則が使う上限 */}
+        <div className="flex gap-4 text-xs text-gray-700">
+          <label className="flex items-center gap-1">
+            content の最小文字数
+            <input
+              type="number"
+              min={0}
+              value={config.minContentLength}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  minContentLength: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            依存元の上限
+            <input
+              type="number"
+              min={0}
+              value={config.maxFanIn}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  maxFanIn: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+
+        {/* 規則が使う一覧 */}
+        <label className="block text-xs text-gray-700">
+          許可するエージェント（カンマ区切り、空の場合は検査しない）
+          <CommitInput
+            value={config.allowedAgents.join(", ")}
+            onCommit={(text) =>
+              onChange({ ...config, allowedAgents: splitList(text) })
+            }
+            placeholder="claude, gpt"
+          />
+        </label>
+        <label className="block text-xs text-gray-700">
+          API の一覧（カンマ区切り、空の場合は検査しない）
+          <CommitInput
+            value={config.apiRegistry.join(", ")}
+            onCommit={(text) =>
+              onChange({ ...config, apiRegistry: splitList(text) })
+            }
+            placeholder="openai, github"
+          />
+        </label>
+        <label className="block text-xs text-gray-700">
+          エージェントが扱えるファイル（1行に「エージェント: 拡張子・glob
+          パターンのカンマ区切り」）
+          <CommitInput
+            multiline
+            value={Object.entries(config.agentSkills)
+              .map(([agent, patterns]) => `${agent}: ${patterns.join(", ")}`)
+              .join("\n")}
+            onCommit={(text) => {
+              const agentSkills: Record<string, string[]> = {};
+              text.split("\n").forEach((line) => {
+                const separator = line.indexOf(":");
+                if (separator < 0) return;
+                const agent = line.slice(0, separator).trim();
+                if (agent)
+                  agentSkills[agent] = splitList(line.slice(separator + 1));
+              });
+              onChange({ ...config, agentSkills });
+            }}
+            placeholder={"claude: ts, tsx\ndesigner: css, **/assets/**"}
+          />
+        </label>
+      </div>
+
+      {/* JSONでの保存・読み込み */}
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-gray-200 text-xs">
+        <label className="px-2 py-1 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+          JSONを読み込む
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importConfig(file);
+            }}
+          />
+        </label>
+        <button
+          onClick={() =>
+            downloadFile(
+              "grimoire-lint.json",
+              serializeLintConfig(config),
+              "application/json"
+            )
+          }
+          className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          JSONを保存
+        </button>
+        <button
+          onClick={onReset}
+          className="ml-auto text-blue-600 hover:underline"
+        >
+          初期状態に戻す
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import React from "react";
+import Markdown from "react-markdown";
+import { FileNode } from "@/types/yaml";
+import { ThemeConfig } from "@/types/theme";
+import { getAgentColor, resolveFileStyle } from "@/utils/theme";
+import { SharedLink } from "@/utils/yamlAnchors";
+import { ImpactDirection } from "@/types/impact";
+
+/**
+ * 依存関係の一覧に表示するファイル
+ * @interface LinkedFile
+ * @property {string} id - ファイルノードのID
+ * @property {boolean} missing - 定義されていないファイルかどうか
+ * @property {string} [spec] - globパターンやフォルダから展開した依存関係の場合は、dependencyに書かれた指定
+ */
+export interface LinkedFile {
+  id: string;
+  missing: boolean;
+  spec?: string;
+}
+
+/**
+ * クリックでファイルを選択できる依存関係の一覧
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} props.title - 見出し
+ * @param {LinkedFile[]} props.files - ファイルの一覧
+ * @param {Function} [props.onSelect] - ファイルが選択されたときのコールバック
+ */
+function FileLinkList({
+  title,
+  files,
+  onSelect,
+}: {
+  title: string;
+  files: LinkedFile[];
+  onSelect?: (fileId: string) => void;
+}) {
+  return (
+    <section>
+      <h4 className="text-xs font-bold text-gray-600">
+        {title}（{files.length}）
+      </h4>
+      {files.length === 0 ? (
+        <p className="mt-1 text-xs text-gray-400">なし</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {files.map((file) => (
+            <li key={file.id}>
+              <button
+                onClick={() => onSelect?.(file.id)}
+                className={`w-full truncate text-left text-xs hover:underline ${
+                  file.missing ? "text-red-600" : "text-blue-600"
+                }`}
+                title={file.id}
+              >
+                {file.id}
+                {file.missing && "（未定義）"}
+                {file.spec && (
+                  <span className="text-gray-500">（{file.spec} から）</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * アンカー（&name）とエイリアス（*name）による共有定義の一覧
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} props.fileId - 表示中のファイルノードのID
+ * @param {SharedLink[]} props.links - ファイルに関係する共有定義
+ * @param {Function} [props.onSelect] - ファイルが選択されたときのコールバック
+ */
+function SharedDefinitionList({
+  fileId,
+  links,
+  onSelect,
+}: {
+  fileId: string;
+  links: SharedLink[];
+  onSelect?: (fileId: string) => void;
+}) {
+  /**
+   * ファイルを選択するボタンを表示する
+   * @param {string} id - ファイルノードのID
+   */
+  const fileButton = (id: string) => (
+    <button
+      key={id}
+      onClick={() => onSelect?.(id)}
+      className="mr-2 text-blue-600 hover:underline"
+      title={id}
+    >
+      {id.split("/").pop()}
+    </button>
+  );
+
+  return (
+    <section>
+      <h4 className="text-xs font-bold text-gray-600">
+        共有定義（{links.length}）
+      </h4>
+      <ul className="mt-1 space-y-1 text-xs">
+        {links.map((link, index) => (
+          <li key={`${link.anchor}:${index}`}>
+            {link.owner === fileId ? (
+              <>
+                <span className="font-mono">&amp;{link.anchor}</span> を定義
+                <div className="text-gray-500">
+                  参照元:{" "}
+                  {link.users.filter((id) => id !== fileId).length > 0
+                    ? link.users.filter((id) => id !== fileId).map(fileButton)
+                    : "なし"}
+                </div>
+              </>
+            ) : (
+              <>
+                <span className="font-mono">*{link.anchor}</span> を参照
+                <div className="text-gray-500">
+                  定義: {link.owner ? fileButton(link.owner) : "ファイルの外"}
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * 選択中のファイルの詳細を表示するドロワーコンポーネント
+ * パス、Markdownとして表示したcontentの全文、agent、api、dependency_wait、
+ * 直接の依存先と依存元、アンカーとエイリアスによる共有定義（クリックで選択）を表示する
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {FileNode} props.file - 表示するファイルノード
+ * @param {LinkedFile[]} props.dependencies - 直接の依存先
+ * @param {LinkedFile[]} props.dependents - 直接の依存元
+ * @param {SharedLink[]} [props.sharedLinks] - ファイルが定義・参照している共有定義
+ * @param {ThemeConfig} props.theme - ファイルの色・アイコン・分類を決めるテーマの設定
+ * @param {Function} [props.onSelectFile] - 依存関係のファイルが選択されたときのコールバック
+ * @param {Function} [props.onEdit] - 編集を開始するコールバック（省略時は編集不可）
+ * @param {Function} [props.onShowImpact] - ファイルを起点にした影響範囲を表示するコールバック
+ * @param {Function} props.onClose - ドロワーを閉じるコールバック
+ */
+export function NodeDetailDrawer({
+  file,
+  dependencies,
+  dependents,
+  sharedLinks = [],
+  theme,
+  onSelectFile,
+  onEdit,
+  onShowImpact,
+  onClose,
+}: {
+  file: FileNode;
+  dependencies: LinkedFile[];
+  dependents: LinkedFile[];
+  sharedLinks?: SharedLink[];
+  theme: ThemeConfig;
+  onSelectFile?: (fileId: string) => void;
+  onEdit?: () => void;
+  onShowImpact?: (direction: ImpactDirection) => void;
+  onClose: () => void;
+}) {
+  const { label, content, agent, api, extension, dependencyWait, missing } =
+    file.data;
+  const fileStyle = resolveFileStyle(file.id, extension, theme);
+
+  return (
+    <div className="w-96 max-h-full flex flex-col bg-white rounded-md shadow-md text-left text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200">
+        <span
+          className="w-3 h-3 rounded-full shrink-0"
+          style={{ backgroundColor: fileStyle.color }}
+        />
+        {fileStyle.icon && <span>{fileStyle.icon}</span>}
+        <h3 className="flex-1 font-bold truncate" title={file.id}>
+          {label}
+        </h3>
+        {onEdit && !missing && (
+          <button
+            onClick={onEdit}
+            className="px-2 py-0.5 text-xs rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            編集
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-500"
+          title="閉じる"
+        >
+          ×
+        </button>
+      </div>
+      <div className="px-3 py-2 space-y-3 overflow-auto">
+        <section>
+          <h4 className="text-xs font-bold text-gray-600">パス</h4>
+          <p className="mt-1 font-mono text-xs break-all">{file.id}</p>
+          {fileStyle.category && (
+            <p className="mt-1 text-xs text-gray-500">
+              分類: {fileStyle.category}
+            </p>
+          )}
+          {onShowImpact && (
+            <div className="mt-1 flex gap-3 text-xs">
+              <button
+                onClick={() => onShowImpact("dependents")}
+                className="text-blue-600 hover:underline"
+              >
+                変更したときの影響範囲
+              </button>
+              <button
+                onClick={() => onShowImpact("dependencies")}
+                className="text-blue-600 hover:underline"
+              >
+                生成に必要なファイル
+              </button>
+            </div>
+          )}
+        </section>
+        {missing ? (
+          <p className="text-xs text-red-600">
+            このファイルは依存先として参照されていますが、定義されていません。
+          </p>
+        ) : (
+          <>
+            <section>
+              <h4 className="text-xs font-bold text-gray-600">content</h4>
+              {content ? (
+                <div className="markdown mt-1 text-xs">
+                  <Markdown>{content}</Markdown>
+                </div>
+              ) : (
+                <p className="mt-1 text-xs text-gray-400">なし</p>
+              )}
+            </section>
+            <section className="grid grid-cols-2 gap-2">
+              <div>
+                <h4 className="text-xs font-bold text-gray-600">agent</h4>
+                <p className="mt-1 flex items-center text-xs">
+                  {agent && (
+                    <span
+                      className="inline-block w-2 h-2 mr-1 rounded-full"
+                      style={{ backgroundColor: getAgentColor(agent, theme) }}
+                    />
+                  )}
+                  {agent || "なし"}
+                </p>
+              </div>
+              <div>
+                <h4 className="text-xs font-bold text-gray-600">
+                  dependency_wait
+                </h4>
+                <p className="mt-1 text-xs">
+                  {dependencyWait ? "待つ" : "待たない"}
+                </p>
+              </div>
+            </section>
+            <section>
+              <h4 className="text-xs font-bold text-gray-600">api</h4>
+              {api && api.length > 0 ? (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {api.map((item) => (
+                    <span
+                      key={item}
+                      className="px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-700"
+                    >
+                      {item}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="mt-1 text-xs text-gray-400">なし</p>
+              )}
+            </section>
+          </>
+        )}
+        <FileLinkList
+          title="依存先"
+          files={dependencies}
+          onSelect={onSelectFile}
+        />
+        <FileLinkList
+          title="依存元"
+          files={dependents}
+          onSelect={onSelectFile}
+        />
+        {sharedLinks.length > 0 && (
+          <SharedDefinitionList
+            fileId={file.id}
+            links={sharedLinks}
+            onSelect={onSelectFile}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { LoadedGrimoire, RecentFile } from "@/types/source";
+import {
+  fetchGrimoire,
+  loadGrimoireFile,
+  loadGrimoireFolder,
+} from "@/utils/grimoireSource";
+
+// 読み込み元の種類ごとの表示名
+const kindLabels: Record<RecentFile["kind"], string> = {
+  file: "YAML",
+  folder: "フォルダ",
+  zip: "zip",
+  url: "URL",
+};
+
+/**
+ * グリモワールをファイル・フォルダ・URL・最近開いた履歴から読み込むパネルコンポーネント
+ * フォルダとzipファイルはプロジェクトの構造とimport文から雛形のYAMLを作成する
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {Function} props.onLoad - グリモワールを読み込んだときのコールバック
+ * @param {RecentFile[]} props.recentFiles - 最近開いたグリモワール
+ * @param {Function} props.onClearRecent - 履歴を削除するコールバック
+ * @param {Record<string, string>} props.includeFiles - 「!include」で参照するファイル（パスとテキスト）
+ * @param {Function} props.onIncludeFilesChange - インクルードするファイルを変更するコールバック
+ */
+export function SourcePanel({
+  onLoad,
+  recentFiles,
+  onClearRecent,
+  includeFiles,
+  onIncludeFilesChange,
+}: {
+  onLoad: (grimoire: LoadedGrimoire) => void;
+  recentFiles: RecentFile[];
+  onClearRecent: () => void;
+  includeFiles: Record<string, string>;
+  onIncludeFilesChange: (files: Record<string, string>) => void;
+}) {
+  const [url, setUrl] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * 読み込み処理を実行し、失敗した場合はメッセージを表示する
+   * @param {Function} load - グリモワールを読み込む関数
+   */
+  const run = (load: () => Promise<LoadedGrimoire> | LoadedGrimoire) => {
+    setLoading(true);
+    Promise.resolve()
+      .then(load)
+      .then(onLoad)
+      .catch((error) => window.alert((error as Error).message))
+      .finally(() => setLoading(false));
+  };
+
+  /**
+   * 選択されたファイルを読み込み、インクルードするファイルに追加する
+   * フォルダ内のファイルはフォルダからの相対パスで登録する
+   * @param {FileList} files - 選択されたファイル
+   */
+  const addIncludeFiles = (files: FileList) => {
+    Promise.all(
+      Array.from(files).map(
+        async (file) =>
+          [file.webkitRelativePath || file.name, await file.text()] as const
+      )
+    )
+      .then((entries) =>
+        onIncludeFilesChange({
+          ...includeFiles,
+          ...Object.fromEntries(entries),
+        })
+      )
+      .catch((error) => window.alert((error as Error).message));
+  };
+
+  /**
+   * インクルードするファイルを取り除く
+   * @param {string} name - ファイルのパス
+   */
+  const removeIncludeFile = (name: string) => {
+    const rest = { ...includeFiles };
+    delete rest[name];
+    onIncludeFilesChange(rest);
+  };
+
+  /**
+   * 履歴のグリモワールを開き直す（URLの場合は再取得する）
+   * @param {RecentFile} file - 履歴の1件
+   */
+  const openRecent = (file: RecentFile) =>
+    run(() =>
+      file.url
+        ? fetchGrimoire(file.url)
+        : { name: file.name, kind: file.kind, text: file.text ?? "" }
+    );
+
+  return (
+    <div className="mb-4 space-y-2 text-left text-sm">
+      <div className="flex gap-2">
+        <label className="flex-1 px-3 py-2 text-center bg-white border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+          ファイルを開く
+          <input
+            type="file"
+            accept=".yaml,.yml,.zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) run(() => loadGrimoireFile(file));
+            }}
+          />
+        </label>
+        <label className="flex-1 px-3 py-2 text-center bg-white border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+          フォルダを開く
+          <input
+            type="file"
+            className="hidden"
+            // webkitdirectoryはReactの型定義に無いため、属性を直接設定する
+            ref={(input) => input?.setAttribute("webkitdirectory", "")}
+            onChange={(e) => {
+              // 入力をリセットすると選択が消えるため、先に配列にする
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = "";
+              if (files.length > 0) run(() => loadGrimoireFolder(files));
+            }}
+          />
+        </label>
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (url.trim() !== "") run(() => fetchGrimoire(url.trim()));
+        }}
+      >
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://.../grimoire.yaml"
+          className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-3 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+        >
+          URLから読み込む
+        </button>
+      </form>
+      {recentFiles.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h2 className="text-xs font-bold text-gray-700">
+              最近開いたファイル
+            </h2>
+            <button
+              onClick={onClearRecent}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              履歴を削除
+            </button>
+          </div>
+          <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {recentFiles.map((file) => (
+              <li key={`${file.kind}:${file.name}`}>
+                <button
+                  onClick={() => openRecent(file)}
+                  className="w-full flex items-center gap-2 px-2 py-1 text-left hover:bg-gray-50"
+                  title={new Date(file.openedAt).toLocaleString()}
+                >
+                  <span className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">
+                    {kindLabels[file.kind]}
+                  </span>
+                  <span className="truncate">{file.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xs font-bold text-gray-700">
+            インクルードするファイル
+          </h2>
+          <label className="text-xs text-blue-600 cursor-pointer hover:underline">
+            ＋ 追加
+            <input
+              type="file"
+              accept=".yaml,.yml"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = e.target.files;
+                if (files && files.length > 0) addIncludeFiles(files);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+        {Object.keys(includeFiles).length === 0 ? (
+          <p className="text-xs text-gray-500">
+            「app: !include
+            app.yaml」のように書くと、追加したファイルの内容に置き換えて表示します。
+          </p>
+        ) : (
+          <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {Object.keys(includeFiles).map((name) => (
+              <li key={name} className="flex items-center">
+                <span className="flex-1 min-w-0 px-2 py-1 truncate">
+                  {name}
+                </span>
+                <button
+                  onClick={() => removeIncludeFile(name)}
+                  className="w-6 text-gray-500 hover:text-red-600"
+                  title="取り除く"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        .yaml / .zip ファイルは画面にドラッグ＆ドロップしても開けます。
+      </p>
+    </div>
+  );
+}
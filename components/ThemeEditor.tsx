@@ -0,0 +1,281 @@
+import React from "react";
+import { FileStyleRule, ThemeConfig, ThemeMode } from "@/types/theme";
+import {
+  getAgentColor,
+  parseThemeConfig,
+  serializeThemeConfig,
+  themeModeLabels,
+} from "@/utils/theme";
+import { downloadFile } from "@/utils/graphExport";
+
+/**
+ * テーマ（配色モード・ファイルの規則・エージェントの色）を編集するパネルコンポーネント
+ * 設定はJSONとして保存・読み込みできる
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {ThemeConfig} props.theme - テーマの設定
+ * @param {Function} props.onChange - テーマを変更するコールバック
+ * @param {Function} props.onReset - テーマを初期状態に戻すコールバック
+ * @param {string[]} props.agents - グリモワールで使われているエージェント
+ * @param {Function} props.onClose - パネルを閉じるコールバック
+ */
+export function ThemeEditor({
+  theme,
+  onChange,
+  onReset,
+  agents,
+  onClose,
+}: {
+  theme: ThemeConfig;
+  onChange: (theme: ThemeConfig) => void;
+  onReset: () => void;
+  agents: string[];
+  onClose: () => void;
+}) {
+  /**
+   * 規則を変更する
+   * @param {number} index - 規則の位置
+   * @param {Partial<FileStyleRule>} patch - 変更する項目
+   */
+  const updateRule = (index: number, patch: Partial<FileStyleRule>) =>
+    onChange({
+      ...theme,
+      rules: theme.rules.map((rule, i) =>
+        i === index ? { ...rule, ...patch } : rule
+      ),
+    });
+
+  /**
+   * 規則を1つ上に移動する（先頭の規則ほど優先される）
+   * @param {number} index - 規則の位置
+   */
+  const moveRuleUp = (index: number) => {
+    if (index === 0) return;
+    const rules = [...theme.rules];
+    [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+    onChange({ ...theme, rules });
+  };
+
+  /**
+   * エージェントの色を変更する（nullの場合は自動の割り当てに戻す）
+   * @param {string} agent - エージェント名
+   * @param {string | null} color - 色のHEXコード
+   */
+  const setAgentColor = (agent: string, color: string | null) => {
+    const agentColors = { ...theme.agentColors };
+    if (color) {
+      agentColors[agent] = color;
+    } else {
+      delete agentColors[agent];
+    }
+    onChange({ ...theme, agentColors });
+  };
+
+  /**
+   * JSONファイルからテーマを読み込む
+   * @param {File} file - JSONファイル
+   */
+  const importTheme = (file: File) =>
+    file
+      .text()
+      .then(parseThemeConfig)
+      .then(onChange)
+      .catch((error) => window.alert((error as Error).message));
+
+  return (
+    <div className="w-[28rem] max-h-full flex flex-col bg-white rounded-md shadow-md text-left text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="font-bold">テーマ</h3>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-500"
+          title="閉じる"
+        >
+          ×
+        </button>
+      </div>
+      <div className="px-3 py-2 space-y-4 overflow-auto">
+        {/* 配色モード */}
+        <section>
+          <h4 className="mb-1 text-xs font-bold text-gray-600">配色</h4>
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(Object.keys(themeModeLabels) as ThemeMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => onChange({ ...theme, mode })}
+                className={`px-3 py-1 text-xs ${
+                  theme.mode === mode
+                    ? "bg-blue-500 text-white"
+                    : "hover:bg-gray-50"
+                }`}
+              >
+                {themeModeLabels[mode]}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* ファイルの規則 */}
+        <section>
+          <h4 className="text-xs font-bold text-gray-600">ファイルの規則</h4>
+          <p className="mb-1 text-xs text-gray-500">
+            拡張子（例: ts）または glob パターン（例: **/*.test.ts,
+            src/assets/**）。上にある規則ほど優先されます
+          </p>
+          <ul className="space-y-1">
+            {theme.rules.map((rule, index) => (
+              <li key={index} className="flex items-center gap-1">
+                <input
+                  type="color"
+                  value={rule.color}
+                  onChange={(e) => updateRule(index, { color: e.target.value })}
+                  className="w-6 h-6 shrink-0 cursor-pointer"
+                  title="色"
+                />
+                <input
+                  value={rule.pattern}
+                  onChange={(e) =>
+                    updateRule(index, { pattern: e.target.value })
+                  }
+                  placeholder="拡張子 / glob"
+                  className="w-28 px-1 py-0.5 border border-gray-300 rounded font-mono text-xs"
+                />
+                <input
+                  value={rule.icon ?? ""}
+                  onChange={(e) =>
+                    updateRule(index, { icon: e.target.value || undefined })
+                  }
+                  placeholder="アイコン"
+                  className="w-14 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                />
+                <input
+                  value={rule.category ?? ""}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      category: e.target.value || undefined,
+                    })
+                  }
+                  placeholder="分類"
+                  className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded text-xs"
+                />
+                <button
+                  onClick={() => moveRuleUp(index)}
+                  disabled={index === 0}
+                  className="w-5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="上へ移動"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() =>
+                    onChange({
+                      ...theme,
+                      rules: theme.rules.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="w-5 text-gray-500 hover:text-red-600"
+                  title="削除"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 flex items-center gap-3">
+            <button
+              onClick={() =>
+                onChange({
+                  ...theme,
+                  rules: [
+                    { pattern: "", color: theme.defaultColor },
+                    ...theme.rules,
+                  ],
+                })
+              }
+              className="text-xs text-blue-600 hover:underline"
+            >
+              ＋ 規則を追加
+            </button>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="color"
+                value={theme.defaultColor}
+                onChange={(e) =>
+                  onChange({ ...theme, defaultColor: e.target.value })
+                }
+                className="w-5 h-5 cursor-pointer"
+              />
+              一致しないファイルの色
+            </label>
+          </div>
+        </section>
+
+        {/* エージェントの色 */}
+        <section>
+          <h4 className="mb-1 text-xs font-bold text-gray-600">
+            エージェントの色
+          </h4>
+          {agents.length === 0 ? (
+            <p className="text-xs text-gray-400">なし</p>
+          ) : (
+            <ul className="space-y-1">
+              {agents.map((agent) => (
+                <li key={agent} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="color"
+                    value={getAgentColor(agent, theme)}
+                    onChange={(e) => setAgentColor(agent, e.target.value)}
+                    className="w-6 h-6 cursor-pointer"
+                  />
+                  <span className="flex-1 truncate">{agent}</span>
+                  {theme.agentColors[agent] && (
+                    <button
+                      onClick={() => setAgentColor(agent, null)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      自動
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      {/* JSONでの保存・読み込み */}
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-gray-200 text-xs">
+        <label className="px-2 py-1 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+          JSONを読み込む
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importTheme(file);
+            }}
+          />
+        </label>
+        <button
+          onClick={() =>
+            downloadFile(
+              "grimoire-theme.json",
+              serializeThemeConfig(theme),
+              "application/json"
+            )
+          }
+          className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          JSONを保存
+        </button>
+        <button
+          onClick={onReset}
+          className="ml-auto text-blue-600 hover:underline"
+        >
+          初期状態に戻す
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React from "react";
+import { Workspace } from "@/types/workspace";
+
+/**
+ * 自動保存したワークスペースの一覧を表示し、切り替え・作成・名前の変更・削除を行うパネルコンポーネント
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {Workspace[]} props.workspaces - 保存されているワークスペース（新しい順）
+ * @param {Workspace | null} props.current - 開いているワークスペース
+ * @param {Function} props.onOpen - ワークスペースを開くコールバック
+ * @param {Function} props.onCreate - 新しいワークスペースを作成するコールバック
+ * @param {Function} props.onRename - ワークスペースの名前を変更するコールバック
+ * @param {Function} props.onDelete - ワークスペースを削除するコールバック
+ */
+export function WorkspacePanel({
+  workspaces,
+  current,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  workspaces: Workspace[];
+  current: Workspace | null;
+  onOpen: (workspace: Workspace) => void;
+  onCreate: (name: string) => void;
+  onRename: (workspace: Workspace, name: string) => void;
+  onDelete: (workspace: Workspace) => void;
+}) {
+  return (
+    <div className="mb-4 text-left text-sm">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xs font-bold text-gray-700">
+          ワークスペース
+          {current && (
+            <span className="ml-2 font-normal text-gray-500">
+              {current.name}（{new Date(current.updatedAt).toLocaleTimeString()}{" "}
+              に自動保存）
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={() => {
+            const name = window.prompt("新しいワークスペースの名前");
+            if (name !== null) onCreate(name);
+          }}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          ＋ 新規
+        </button>
+      </div>
+      {workspaces.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          入力したYAMLとグラフの配置はブラウザに自動保存されます。
+        </p>
+      ) : (
+        <ul className="max-h-40 overflow-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+          {workspaces.map((workspace) => (
+            <li
+              key={workspace.id}
+              className={`flex items-center ${
+                workspace.id === current?.id ? "bg-blue-50" : ""
+              }`}
+            >
+              <button
+                onClick={() => onOpen(workspace)}
+                className="flex-1 min-w-0 px-2 py-1 text-left truncate hover:bg-gray-50"
+                title={new Date(workspace.updatedAt).toLocaleString()}
+              >
+                {workspace.name}
+              </button>
+              <button
+                onClick={() => {
+                  const name = window.prompt(
+                    "ワークスペースの名前",
+                    workspace.name
+                  );
+                  if (name) onRename(workspace, name);
+                }}
+                className="w-6 text-gray-500 hover:text-gray-800"
+                title="名前を変更"
+              >
+                ✎
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`「${workspace.name}」を削除しますか？`)) {
+                    onDelete(workspace);
+                  }
+                }}
+                className="w-6 text-gray-500 hover:text-red-600"
+                title="削除"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
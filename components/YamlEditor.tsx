@@ -0,0 +1,329 @@
+import React, { useEffect, useImperativeHandle, useRef } from "react";
+import { EditorView, basicSetup } from "codemirror";
+import { yaml } from "@codemirror/lang-yaml";
+import {
+  lintGutter,
+  setDiagnostics,
+  Diagnostic as EditorDiagnostic,
+} from "@codemirror/lint";
+import {
+  Annotation,
+  EditorState,
+  EditorSelection,
+  Prec,
+  StateEffect,
+  StateField,
+  Text,
+} from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  keymap,
+  placeholder,
+} from "@codemirror/view";
+import { Diagnostic } from "@/types/diagnostic";
+
+/**
+ * エディタを外部から操作するためのハンドル
+ * @interface YamlEditorHandle
+ * @property {Function} revealLines - 指定した行の範囲を強調表示してスクロールする
+ * @property {Function} moveCursor - 指定した位置にカーソルを移動する
+ */
+export interface YamlEditorHandle {
+  revealLines: (startLine: number, endLine: number) => void;
+  moveCursor: (line: number, column: number) => void;
+}
+
+// 外部から渡されたテキストで文書を更新したことを示すアノテーション
+const externalChange = Annotation.define<boolean>();
+
+// 強調表示する行の範囲を設定するエフェクト（nullで解除）
+const setHighlightEffect = StateEffect.define<{
+  startLine: number;
+  endLine: number;
+} | null>();
+
+// 強調表示する行の装飾
+const highlightLine = Decoration.line({
+  attributes: { style: "background-color: rgba(59, 130, 246, 0.12)" },
+});
+
+/**
+ * 強調表示している行の範囲を保持するフィールド
+ * 文書が編集されたら強調表示を解除する
+ */
+const highlightField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setHighlightEffect)) {
+        if (!effect.value) return Decoration.none;
+        const { startLine, endLine } = effect.value;
+        const ranges = [];
+        for (let line = startLine; line <= endLine; line++) {
+          ranges.push(highlightLine.range(tr.state.doc.line(line).from));
+        }
+        return Decoration.set(ranges);
+      }
+    }
+    return tr.docChanged ? Decoration.none : decorations;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+/**
+ * 行・列（1始まり）を文書内のオフセットに変換する
+ * 範囲外の位置は文書内に収める
+ * @param {Text} doc - 文書
+ * @param {number} line - 行番号
+ * @param {number} column - 列番号
+ * @returns {number} オフセット
+ */
+function toOffset(doc: Text, line: number, column: number): number {
+  const target = doc.line(Math.min(Math.max(line, 1), doc.lines));
+  return Math.min(target.from + Math.max(column, 1) - 1, target.to);
+}
+
+/**
+ * 診断結果をエディタの波線表示用に変換する
+ * 診断の位置から行末（末尾の空白を除く）までを範囲とする
+ * @param {Text} doc - 文書
+ * @param {Diagnostic[]} diagnostics - 構文・スキーマの診断結果
+ * @param {Function} [onFix] - 修正できる診断結果の修正を適用するコールバック（省略時は修正を表示しない）
+ * @returns {EditorDiagnostic[]} エディタの診断結果
+ */
+function toEditorDiagnostics(
+  doc: Text,
+  diagnostics: Diagnostic[],
+  onFix?: (diagnostic: Diagnostic) => void
+): EditorDiagnostic[] {
+  return diagnostics.map((diagnostic) => {
+    const from = toOffset(doc, diagnostic.line, diagnostic.column);
+    const line = doc.lineAt(from);
+    const to = line.from + line.text.trimEnd().length;
+    return {
+      from,
+      to: Math.max(from, to),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      source: diagnostic.code,
+      ...(diagnostic.fix &&
+        onFix && {
+          actions: [
+            { name: diagnostic.fix.label, apply: () => onFix(diagnostic) },
+          ],
+        }),
+    };
+  });
+}
+
+/**
+ * YAMLのコードエディタコンポーネント
+ * シンタックスハイライト・折りたたみ・診断結果の波線表示に対応する
+ * @param {Object} props - コンポーネントのプロパティ
+ * @param {string} props.value - YAMLテキスト
+ * @param {Function} props.onChange - テキストが変更されたときのコールバック
+ * @param {Diagnostic[]} props.diagnostics - 構文・スキーマの診断結果
+ * @param {Function} [props.onCursorLine] - ユーザーがカーソルを移動したときのコールバック（行番号は1始まり）
+ * @param {Function} [props.onUndo] - 元に戻す操作（Ctrl/Cmd+Z）のコールバック（省略時はエディタ内の履歴を使う）
+ * @param {Function} [props.onRedo] - やり直す操作（Ctrl/Cmd+Shift+Z・Ctrl+Y）のコールバック
+ * @param {Function} [props.onFix] - 診断結果の修正を適用するコールバック（波線のツールチップに修正ボタンを表示する）
+ * @param {string} [props.className] - エディタの高さなどを指定するクラス
+ * @param {React.Ref<YamlEditorHandle>} [props.ref] - エディタを操作するハンドル
+ */
+export function YamlEditor({
+  value,
+  onChange,
+  diagnostics,
+  onCursorLine,
+  onUndo,
+  onRedo,
+  onFix,
+  className = "h-[50rem]",
+  ref,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: Diagnostic[];
+  onCursorLine?: (line: number) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onFix?: (diagnostic: Diagnostic) => void;
+  className?: string;
+  ref?: React.Ref<YamlEditorHandle>;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+
+  // エディタの生成後も最新のコールバックを呼び出せるように保持する
+  const callbacksRef = useRef({
+    onChange,
+    onCursorLine,
+    onUndo,
+    onRedo,
+    onFix,
+  });
+  useEffect(() => {
+    callbacksRef.current = { onChange, onCursorLine, onUndo, onRedo, onFix };
+  }, [onChange, onCursorLine, onUndo, onRedo, onFix]);
+
+  // エディタの生成
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: "",
+        extensions: [
+          basicSetup,
+          yaml(),
+          lintGutter(),
+          highlightField,
+          placeholder("ここにYAMLを入力..."),
+          // 呼び出し元が履歴を管理する場合は、エディタ内の履歴より優先して呼び出す
+          Prec.highest(
+            keymap.of(
+              (
+                [
+                  ["Mod-z", "onUndo"],
+                  ["Mod-Shift-z", "onRedo"],
+                  ["Mod-y", "onRedo"],
+                ] as const
+              ).map(([key, name]) => ({
+                key,
+                run: () => {
+                  const callback = callbacksRef.current[name];
+                  callback?.();
+                  return !!callback;
+                },
+              }))
+            )
+          ),
+          EditorView.theme({
+            "&": { height: "100%" },
+            ".cm-scroller": { overflow: "auto" },
+          }),
+          EditorView.updateListener.of((update) => {
+            // 外部から渡されたテキストへの更新は呼び出し元に通知しない
+            const changedByUser = update.transactions.some(
+              (tr) => tr.docChanged && !tr.annotation(externalChange)
+            );
+            if (changedByUser) {
+              callbacksRef.current.onChange(update.state.doc.toString());
+            }
+            // プログラムからの移動では通知しない（ノードの選択と循環させないため）
+            const selectedByUser = update.transactions.some((tr) =>
+              tr.isUserEvent("select")
+            );
+            if (update.selectionSet && selectedByUser) {
+              const head = update.state.selection.main.head;
+              callbacksRef.current.onCursorLine?.(
+                update.state.doc.lineAt(head).number
+              );
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // 外部からテキストが変更された場合（リセットやグラフからの編集）に文書を更新する
+  // カーソル位置やスクロール位置を保つため、変更された範囲だけを置き換える
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current === value) return;
+
+    let start = 0;
+    while (
+      start < current.length &&
+      start < value.length &&
+      current[start] === value[start]
+    ) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < current.length - start &&
+      end < value.length - start &&
+      current[current.length - 1 - end] === value[value.length - 1 - end]
+    ) {
+      end++;
+    }
+    view.dispatch({
+      changes: {
+        from: start,
+        to: current.length - end,
+        insert: value.slice(start, value.length - end),
+      },
+      annotations: externalChange.of(true),
+    });
+  }, [value]);
+
+  // 診断結果を波線として表示する
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch(
+      setDiagnostics(
+        view.state,
+        toEditorDiagnostics(
+          view.state.doc,
+          diagnostics,
+          callbacksRef.current.onFix &&
+            ((diagnostic) => callbacksRef.current.onFix?.(diagnostic))
+        )
+      )
+    );
+  }, [diagnostics]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      revealLines(startLine, endLine) {
+        const view = viewRef.current;
+        if (!view) return;
+        const { doc } = view.state;
+        const start = Math.min(Math.max(startLine, 1), doc.lines);
+        const end = Math.min(Math.max(endLine, start), doc.lines);
+        const from = doc.line(start).from;
+        view.dispatch({
+          selection: EditorSelection.cursor(from),
+          effects: [
+            setHighlightEffect.of({ startLine: start, endLine: end }),
+            EditorView.scrollIntoView(from, { y: "start", yMargin: 40 }),
+          ],
+        });
+      },
+      moveCursor(line, column) {
+        const view = viewRef.current;
+        if (!view) return;
+        const offset = toOffset(view.state.doc, line, column);
+        view.dispatch({
+          selection: EditorSelection.cursor(offset),
+          effects: [
+            setHighlightEffect.of(null),
+            EditorView.scrollIntoView(offset, { y: "center" }),
+          ],
+        });
+        view.focus();
+      },
+    }),
+    []
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className={`w-full ${className} border border-gray-300 rounded-md overflow-hidden text-left text-sm`}
+    />
+  );
+}
@@ -1,72 +1,596 @@
-import React, { useCallback, useMemo } from "react";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import ReactFlow, {
   Controls,
   Background,
+  MiniMap,
   useNodesState,
   useEdgesState,
-  addEdge,
   MarkerType,
   Handle,
   Position,
   useReactFlow,
+  useStore,
   ReactFlowProvider,
+  ReactFlowState,
   NodeProps,
+  Node,
+  Edge,
+  Connection,
+  NodeChange,
+  EdgeChange,
 } from "reactflow";
 import "reactflow/dist/style.css";
-import { YamlData } from "@/types/yaml";
-import { generateNodesAndEdges, getExtensionColor } from "@/utils/yamlParser";
 import {
-  defaultHorizontalSpacing,
-  defaultVerticalSpacing,
+  YamlData,
+  FileEdge,
+  FolderNode,
+  LaneNode,
+  GraphNode,
+  FileNode,
+  GrimoireEdit,
+  SharedDefinition,
+} from "@/types/yaml";
+import {
+  LayoutDirection,
+  LayoutEngineId,
+  LayoutOptions,
+  LayoutRequest,
+  LayoutResult,
+  NodeDensity,
+  PinnedPosition,
+} from "@/types/layout";
+import {
+  compactNodeHeight,
+  defaultNodeWidth,
+  issueEdgeColors,
+  largeGraphFileCount,
+  simplifiedNodeZoom,
 } from "@/constant/constant";
+import { buildGraphModel } from "@/utils/yamlParser";
+import { isExpandedEdge } from "@/utils/dependencyResolver";
+import { analyzeImpact } from "@/utils/impactAnalysis";
+import { ImpactDirection } from "@/types/impact";
+import { ImpactPanel } from "@/components/ImpactPanel";
+import { collectFolders } from "@/utils/folderGroups";
+import { buildGraphIndex } from "@/utils/graphIndex";
+import {
+  diffGraphs,
+  isStructuralChange,
+  mergeNodePositions,
+} from "@/utils/graphDiff";
+import { layoutEngines, defaultLayoutOptions } from "@/utils/layout";
+import { requestLayout } from "@/utils/layout/layoutClient";
+import { useGraphLayout } from "@/hooks/useGraphLayout";
+import { buildExecutionPlan, layoutExecutionPlan } from "@/utils/executionPlan";
+import { ExecutionPlanPanel } from "@/components/ExecutionPlanPanel";
+import { AnalyticsPanel } from "@/components/AnalyticsPanel";
+import { ThemeEditor } from "@/components/ThemeEditor";
+import { ThemeConfig } from "@/types/theme";
+import {
+  defaultThemeConfig,
+  getAgentColor,
+  resolveFileStyle,
+  themePalettes,
+} from "@/utils/theme";
+import { FileInspector } from "@/components/FileInspector";
+import { LinkedFile, NodeDetailDrawer } from "@/components/NodeDetailDrawer";
+import { ExportMenu } from "@/components/ExportMenu";
+import { GraphFilterPanel } from "@/components/GraphFilterPanel";
+import { GraphFilter } from "@/types/filter";
+import { ShareViewState } from "@/types/share";
+import {
+  annotateSharedDefinitions,
+  findSharedLinks,
+} from "@/utils/yamlAnchors";
+import {
+  applyGraphFilter,
+  collectFacets,
+  emptyFilter,
+  toggleFacetValue,
+} from "@/utils/graphFilter";
+
+/**
+ * グラフ上のノードから呼び出す操作を提供するコンテキスト
+ * @property {(folderId: string) => void} toggleFolder - フォルダの折りたたみを切り替える
+ * @property {((folderId: string) => void) | undefined} addFile - フォルダに新しいファイルを追加する（編集できない場合はundefined）
+ */
+const GraphActionsContext = createContext<{
+  toggleFolder: (folderId: string) => void;
+  addFile?: (folderId: string) => void;
+}>({
+  toggleFolder: () => {},
+});
+
+// 表示密度の選択肢
+const densityLabels: [NodeDensity, string][] = [
+  ["compact", "コンパクト"],
+  ["detailed", "詳細"],
+];
+
+/**
+ * ファイルノードの表示密度を提供するコンテキスト
+ */
+const NodeDensityContext = createContext<NodeDensity>("detailed");
+
+/**
+ * 影響範囲を表示しているときに、ファイルを再生成する順序（ステージ番号）を提供するコンテキスト
+ */
+const ImpactOrderContext = createContext<Map<string, number> | null>(null);
+
+/**
+ * ノードの色・アイコンを決めるテーマの設定を提供するコンテキスト
+ */
+const ThemeContext = createContext<ThemeConfig>(defaultThemeConfig);
+
+/**
+ * ファイルノードを簡略表示するほど縮小しているかどうかを取得するセレクター
+ * @param {ReactFlowState} state - ReactFlowの状態
+ * @returns {boolean} 簡略表示する場合はtrue
+ */
+const simplifiedSelector = (state: ReactFlowState) =>
+  state.transform[2] < simplifiedNodeZoom;
 
 /**
  * カスタムノードコンポーネント
- * ファイルの詳細情報を表示するノード
+ * ファイルの詳細情報を表示するノード（コンパクト表示ではファイル名のみ）
+ * 大きく縮小しているときは、文字が読めないため拡張子の色とファイル名だけの簡略表示にする
  * @param {NodeProps} props - ノードのプロパティ
  */
-function CustomNode({ data }: NodeProps) {
-  const extensionColor = getExtensionColor(data.extension);
+function CustomNode({ id, data, targetPosition, sourcePosition }: NodeProps) {
+  const density = useContext(NodeDensityContext);
+  const theme = useContext(ThemeContext);
+  const impactOrder = useContext(ImpactOrderContext)?.get(id);
+  const simplified = useStore(simplifiedSelector);
+  const palette = themePalettes[theme.mode];
+  const fileStyle = resolveFileStyle(id, data.extension, theme);
+
+  if (simplified) {
+    return (
+      <div
+        className="px-4 py-3 rounded-md border-4"
+        style={{
+          backgroundColor: palette.nodeBackground,
+          borderColor: impactOrder !== undefined ? "#f97316" : fileStyle.color,
+          color: palette.nodeText,
+        }}
+      >
+        <Handle
+          type="target"
+          position={targetPosition ?? Position.Top}
+          className="w-2 h-2"
+        />
+        <div className="text-2xl font-bold truncate">{data.label}</div>
+        <Handle
+          type="source"
+          position={sourcePosition ?? Position.Bottom}
+          className="w-2 h-2"
+        />
+      </div>
+    );
+  }
 
   return (
-    <div className="px-4 py-2 shadow-md rounded-md bg-white">
-      <Handle type="target" position={Position.Top} className="w-2 h-2" />
+    <div
+      className="px-4 py-2 shadow-md rounded-md border"
+      style={{
+        backgroundColor: palette.nodeBackground,
+        borderColor: palette.nodeBorder,
+        color: palette.nodeText,
+      }}
+    >
+      <Handle
+        type="target"
+        position={targetPosition ?? Position.Top}
+        className="w-2 h-2"
+      />
       <div className="flex flex-col">
         <div className="flex items-center">
           <div
-            className="w-3 h-3 rounded-full mr-2"
-            style={{ backgroundColor: extensionColor }}
+            className="w-3 h-3 rounded-full mr-2 shrink-0"
+            style={{ backgroundColor: fileStyle.color }}
           />
-          <div className="text-sm font-bold">{data.label}</div>
+          {fileStyle.icon && <span className="mr-1">{fileStyle.icon}</span>}
+          {impactOrder !== undefined && (
+            <span
+              className="mr-1 px-1.5 rounded-full bg-orange-500 text-white text-xs"
+              title="再生成する順序（ステージ）"
+            >
+              {impactOrder}
+            </span>
+          )}
+          <div className="text-sm font-bold truncate">{data.label}</div>
+          {/* アンカーで定義を共有しているファイルと、エイリアスで参照しているファイル */}
+          {(data.anchors?.length > 0 || data.aliases?.length > 0) && (
+            <span
+              className="ml-2 shrink-0 text-xs text-teal-600"
+              title={[
+                ...(data.anchors ?? []).map((name: string) => `&${name}`),
+                ...(data.aliases ?? []).map((name: string) => `*${name}`),
+              ].join(" ")}
+            >
+              🔗
+              {data.anchors?.length > 0 ? ` &${data.anchors[0]}` : ""}
+              {data.aliases?.length > 0 ? ` *${data.aliases[0]}` : ""}
+            </span>
+          )}
+          {data.dependencyWait && (
+            <span
+              className="ml-auto pl-2 text-xs text-indigo-600"
+              title="依存ファイルの完了を待つ（dependency_wait）"
+            >
+              待機
+            </span>
+          )}
         </div>
-        <div className="mt-2 text-xs">
-          <div className="text-gray-500 text-left">
-            {data.content?.split("\n").slice(0, 2).join("\n")}
-          </div>
-          <div className="mt-2 text-gray-400 text-left">
-            <span className="font-bold">Agent:</span> {data.agent}
-          </div>
-          {data.api && data.api.length > 0 && (
-            <div className="text-gray-400 text-left">
-              <span className="font-bold">API:</span> {data.api.join(", ")}
+        {density === "detailed" && (
+          <div className="mt-2 text-xs" style={{ color: palette.nodeMuted }}>
+            <div className="text-left">
+              {data.content?.split("\n").slice(0, 2).join("\n")}
             </div>
-          )}
+            <div className="mt-2 text-left">
+              {data.agent && (
+                <span
+                  className="inline-block w-2 h-2 mr-1 rounded-full"
+                  style={{ backgroundColor: getAgentColor(data.agent, theme) }}
+                />
+              )}
+              <span className="font-bold">Agent:</span> {data.agent}
+            </div>
+            {data.api && data.api.length > 0 && (
+              <div className="text-left">
+                <span className="font-bold">API:</span> {data.api.join(", ")}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <Handle
+        type="source"
+        position={sourcePosition ?? Position.Bottom}
+        className="w-2 h-2"
+      />
+    </div>
+  );
+}
+
+/**
+ * 未定義の依存先を表すプレースホルダーノードコンポーネント
+ * @param {NodeProps} props - ノードのプロパティ
+ */
+function MissingNode({ data, targetPosition, sourcePosition }: NodeProps) {
+  return (
+    <div className="px-4 py-2 rounded-md bg-red-50 text-red-700">
+      <Handle
+        type="target"
+        position={targetPosition ?? Position.Top}
+        className="w-2 h-2"
+      />
+      <div className="text-sm font-bold">{data.label}</div>
+      <div className="mt-1 text-xs">
+        未定義のファイル（依存先が見つかりません）
+      </div>
+      <Handle
+        type="source"
+        position={sourcePosition ?? Position.Bottom}
+        className="w-2 h-2"
+      />
+    </div>
+  );
+}
+
+/**
+ * フォルダを表すグループノードコンポーネント
+ * 展開時は配下のノードを囲む枠、折りたたみ時は要約カードとして表示
+ * @param {NodeProps} props - ノードのプロパティ
+ */
+function FolderGroupNode({
+  id,
+  data,
+  targetPosition,
+  sourcePosition,
+}: NodeProps<FolderNode["data"]>) {
+  const { toggleFolder, addFile } = useContext(GraphActionsContext);
+  const theme = useContext(ThemeContext);
+  const palette = themePalettes[theme.mode];
+
+  // 新しいファイルの追加ボタン
+  const addButton = addFile && (
+    <button
+      onClick={() => addFile(id)}
+      className="ml-auto w-6 h-6 flex items-center justify-center rounded hover:bg-slate-200 text-slate-600"
+      title="新しいファイルを追加"
+    >
+      ＋
+    </button>
+  );
+
+  // 折りたたみ・展開の切り替えボタン
+  const toggleButton = (
+    <button
+      onClick={() => toggleFolder(id)}
+      className="w-6 h-6 flex items-center justify-center rounded hover:bg-slate-200 text-slate-600"
+      title={data.collapsed ? "展開" : "折りたたむ"}
+    >
+      {data.collapsed ? "▶" : "▼"}
+    </button>
+  );
+
+  if (data.collapsed) {
+    return (
+      <div
+        className="w-full h-full px-4 py-2 shadow-md rounded-md border-2"
+        style={{
+          backgroundColor: palette.folderBackground,
+          borderColor: palette.folderBorder,
+          color: palette.folderText,
+        }}
+      >
+        <Handle
+          type="target"
+          position={targetPosition ?? Position.Top}
+          className="w-2 h-2"
+        />
+        <div className="flex items-center gap-2">
+          {toggleButton}
+          <div className="text-sm font-bold">📁 {data.label}</div>
+          {addButton}
+        </div>
+        <div
+          className="mt-2 text-xs text-left"
+          style={{ color: palette.nodeMuted }}
+        >
+          {data.fileCount} ファイル
         </div>
+        <div className="mt-1 flex flex-wrap gap-1">
+          {data.agents.map((agent) => (
+            <span
+              key={agent}
+              className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs"
+            >
+              <span
+                className="inline-block w-2 h-2 mr-1 rounded-full"
+                style={{ backgroundColor: getAgentColor(agent, theme) }}
+              />
+              {agent}
+            </span>
+          ))}
+        </div>
+        <Handle
+          type="source"
+          position={sourcePosition ?? Position.Bottom}
+          className="w-2 h-2"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="w-full h-full rounded-lg border-2 border-dashed"
+      style={{
+        backgroundColor: palette.folderBackground,
+        borderColor: palette.folderBorder,
+      }}
+    >
+      <div className="flex items-center gap-2 px-2 py-1">
+        {toggleButton}
+        <div
+          className="text-sm font-bold"
+          style={{ color: palette.folderText }}
+        >
+          📁 {data.label}
+        </div>
+        <div className="text-xs" style={{ color: palette.nodeMuted }}>
+          {data.fileCount} ファイル
+        </div>
+        {addButton}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 実行計画のステージを表すスイムレーンノードコンポーネント
+ * @param {NodeProps} props - ノードのプロパティ
+ */
+function LaneGroupNode({ data }: NodeProps<LaneNode["data"]>) {
+  return (
+    <div
+      className={`w-full h-full rounded-lg border-2 ${
+        data.barrier
+          ? "border-orange-300 bg-orange-50/60"
+          : "border-slate-300 bg-slate-100/40"
+      }`}
+    >
+      <div className="flex items-center gap-2 px-3 py-2">
+        <div className="text-sm font-bold text-slate-700">{data.label}</div>
+        <div className="text-xs text-slate-500">{data.fileCount} ファイル</div>
+        {data.barrier && (
+          <span className="px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full text-xs">
+            バリア
+          </span>
+        )}
       </div>
-      <Handle type="source" position={Position.Bottom} className="w-2 h-2" />
     </div>
   );
 }
 
+/**
+ * ReactFlow用にエッジの表示スタイルを設定
+ * 依存関係に問題のあるエッジは赤色で表示する
+ * globパターンやフォルダの指定から展開したエッジは点線で表示する
+ * 折りたたんだフォルダにまとめたエッジには依存関係の数を表示する
+ * @param {FileEdge} edge - 依存関係のエッジ
+ * @param {number} zIndex - エッジの重なり順（フォルダの枠に隠れないようにするため）
+ * @param {boolean} animated - 問題のないエッジをアニメーション表示するかどうか（大きなグラフでは止める）
+ * @returns {Object} ReactFlowのエッジ
+ */
+function toFlowEdge(edge: FileEdge, zIndex: number, animated: boolean) {
+  const issue = edge.data?.issue;
+  const count = edge.data?.count ?? 1;
+  return {
+    ...edge,
+    type: "smoothstep",
+    zIndex,
+    label: count > 1 ? `${count}` : undefined,
+    markerEnd: {
+      type: MarkerType.ArrowClosed,
+      width: 20,
+      height: 20,
+      color: issue ? issueEdgeColors[issue] : undefined,
+    },
+    animated: animated && !issue,
+    style: {
+      // 通常のエッジの色はテーマの配色（--graph-edge）に合わせる
+      stroke: issue ? issueEdgeColors[issue] : "var(--graph-edge, #666)",
+      strokeWidth: 2,
+      strokeDasharray:
+        issue === "missing" ? "6 4" : isExpandedEdge(edge) ? "2 3" : undefined,
+    },
+  };
+}
+
+/**
+ * グラフのエッジをReactFlow用に変換
+ * 両端のノードのフォルダの深さに応じて、エッジがフォルダの枠より手前に表示されるようにする
+ * @param {GraphNode[]} nodes - グラフのノード
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {boolean} animated - 問題のないエッジをアニメーション表示するかどうか（大きなグラフでは止める）
+ * @returns {Object[]} ReactFlowのエッジ
+ */
+function toFlowEdges(nodes: GraphNode[], edges: FileEdge[], animated: boolean) {
+  const parentOf = new Map(nodes.map((node) => [node.id, node.parentNode]));
+  const depthOf = (id: string) => {
+    let depth = 0;
+    for (let p = parentOf.get(id); p; p = parentOf.get(p)) depth++;
+    return depth;
+  };
+  return edges.map((edge) =>
+    toFlowEdge(
+      edge,
+      Math.max(depthOf(edge.source), depthOf(edge.target)),
+      animated
+    )
+  );
+}
+
+/**
+ * レイアウトの方向に合わせてノードの接続点の位置を設定
+ * @param {GraphNode[]} nodes - グラフのノード
+ * @param {LayoutDirection} direction - レイアウトの方向
+ * @returns {Object[]} ReactFlowのノード
+ */
+function toFlowNodes(nodes: GraphNode[], direction: LayoutDirection) {
+  const horizontal = direction === "LR";
+  return nodes.map((node) => ({
+    ...node,
+    deletable: false,
+    targetPosition: horizontal ? Position.Left : Position.Top,
+    sourcePosition: horizontal ? Position.Right : Position.Bottom,
+  }));
+}
+
+/**
+ * 実行計画のスイムレーン用にノードの接続点の位置を設定
+ * 依存元は依存先より右のレーンにあるため、依存元の左側から依存先の右側へ線を引く
+ * @param {GraphNode[]} nodes - スイムレーンとファイルのノード
+ * @returns {Object[]} ReactFlowのノード
+ */
+function toPlanFlowNodes(nodes: GraphNode[]) {
+  return nodes.map((node) => ({
+    ...node,
+    deletable: false,
+    targetPosition: Position.Right,
+    sourcePosition: Position.Left,
+  }));
+}
+
+// 変更されたノード・エッジを強調表示する時間（globals.cssのアニメーションと合わせる）
+const HIGHLIGHT_DURATION = 1500;
+
+/**
+ * 強調表示している変更箇所
+ * @property {Set<string>} nodes - 追加・変更されたノードのID
+ * @property {Set<string>} edges - 追加されたエッジのID
+ */
+type ChangedIds = { nodes: Set<string>; edges: Set<string> };
+
+// 変更箇所がない状態
+const noChanges: ChangedIds = { nodes: new Set(), edges: new Set() };
+
+// 共有定義がない状態
+const noSharedDefinitions: SharedDefinition[] = [];
+
+// 表示モード（依存関係グラフ / 実行計画 / 分析）
+type ViewMode = "graph" | "plan" | "analytics";
+
+// レイアウトの方向の選択肢
+const directionLabels: Record<LayoutDirection, string> = {
+  TB: "上 → 下",
+  LR: "左 → 右",
+};
+
+/**
+ * YAMLビジュアライザーのプロパティ
+ * @interface YamlVisualizerProps
+ * @property {YamlData} yamlData - YAMLデータ
+ * @property {string | null} [selectedFileId] - 選択して中央に表示するファイルノードのID
+ * @property {Function} [onSelectFile] - ファイルノードがクリックされたときのコールバック
+ * @property {Function} [onEdit] - グラフ上の編集をYAMLに書き戻すコールバック（省略時は編集不可）
+ * @property {SharedDefinition[]} [sharedDefinitions] - アンカーとエイリアスによる共有定義
+ * @property {ThemeConfig} [theme] - ノードの色・アイコンと配色を決めるテーマの設定
+ * @property {Function} [onThemeChange] - テーマを変更するコールバック（省略時はテーマを編集できない）
+ * @property {Function} [onThemeReset] - テーマを初期状態に戻すコールバック
+ * @property {ShareViewState} [initialView] - 最初に表示するときに再現する表示状態（共有リンクや保存したワークスペースから開いた場合）
+ * @property {Function} [onViewChange] - ノードの配置・折りたたみ・フィルター・表示範囲が変わったときのコールバック（自動保存用）
+ * @property {Function} [onLayoutEdit] - ノードのドラッグや自動レイアウトで配置を変えたときのコールバック（元に戻す履歴用）
+ * @property {React.Ref<YamlVisualizerHandle>} [ref] - 表示状態を取得するハンドル
+ */
+interface YamlVisualizerProps {
+  yamlData: YamlData;
+  selectedFileId?: string | null;
+  onSelectFile?: (fileId: string) => void;
+  onEdit?: (edit: GrimoireEdit) => void;
+  sharedDefinitions?: SharedDefinition[];
+  theme?: ThemeConfig;
+  onThemeChange?: (theme: ThemeConfig) => void;
+  onThemeReset?: () => void;
+  initialView?: ShareViewState;
+  onViewChange?: () => void;
+  onLayoutEdit?: () => void;
+  ref?: React.Ref<YamlVisualizerHandle>;
+}
+
+/**
+ * 親コンポーネントからビジュアライザーを操作するハンドル
+ * @interface YamlVisualizerHandle
+ * @property {Function} getViewState - 現在の表示状態（ノードの位置・折りたたみ・フィルター・表示範囲）を取得する。
+ *   "all"は表示中のすべてのノードの位置（共有リンク用）、"pinned"はドラッグして配置したノードの位置だけ（自動保存用）を含める
+ * @property {Function} applyPositions - ドラッグして配置したノードの位置を置き換え、それ以外のノードをレイアウトの位置に戻す（元に戻す操作用）
+ */
+export interface YamlVisualizerHandle {
+  getViewState: (scope?: "all" | "pinned") => ShareViewState;
+  applyPositions: (positions: ShareViewState["positions"]) => void;
+}
+
 /**
  * YAMLビジュアライザーのメインコンポーネント
  * ReactFlowProviderでラップして状態管理を提供
- * @param {yamlData} props - YAMLデータを含むプロパティ
+ * @param {YamlVisualizerProps} props - YAMLデータと選択状態を含むプロパティ
  */
-export function YamlVisualizer({ yamlData }: { yamlData: YamlData }) {
+export function YamlVisualizer(props: YamlVisualizerProps) {
   return (
     <ReactFlowProvider>
-      <YamlVisualizerContent yamlData={yamlData} />
+      <YamlVisualizerContent {...props} />
     </ReactFlowProvider>
   );
 }
@@ -74,116 +598,1070 @@ export function YamlVisualizer({ yamlData }: { yamlData: YamlData }) {
 /**
  * YAMLビジュアライザーの内部コンテンツコンポーネント
  * グラフの描画とインタラクションを管理
- * @param {yamlData} props - YAMLデータを含むプロパティ
+ * @param {YamlVisualizerProps} props - YAMLデータと選択状態を含むプロパティ
  */
-function YamlVisualizerContent({ yamlData }: { yamlData: YamlData }) {
-  // YAMLデータからノードとエッジを生成
-  const {
-    nodes: initialNodes,
-    edges: initialEdges,
-    agents,
-  } = generateNodesAndEdges(yamlData);
+function YamlVisualizerContent({
+  yamlData,
+  selectedFileId = null,
+  onSelectFile,
+  onEdit,
+  sharedDefinitions = noSharedDefinitions,
+  theme = defaultThemeConfig,
+  onThemeChange,
+  onThemeReset,
+  initialView,
+  onViewChange,
+  onLayoutEdit,
+  ref,
+}: YamlVisualizerProps) {
+  const palette = themePalettes[theme.mode];
+  // テーマの編集パネルを表示しているかどうか
+  const [themeEditorOpen, setThemeEditorOpen] = useState(false);
+
+  // 折りたたまれているフォルダのパス
+  const [collapsed, setCollapsed] = useState<Set<string>>(
+    () => new Set(initialView?.collapsed)
+  );
+
+  // レイアウトエンジンと方向の設定
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(
+    initialView?.layout ?? defaultLayoutOptions
+  );
+
+  // 表示モード
+  const [viewMode, setViewMode] = useState<ViewMode>("graph");
+
+  // ファイルノードの表示密度
+  const [density, setDensity] = useState<NodeDensity>(
+    initialView?.density ?? "detailed"
+  );
+
+  // YAMLデータからレイアウト前のグラフを生成
+  // ファイルノードには、アンカーとエイリアスによる共有定義を設定する
+  const model = useMemo(() => {
+    const built = buildGraphModel(yamlData);
+    return {
+      ...built,
+      files: annotateSharedDefinitions(built.files, sharedDefinitions),
+    };
+  }, [yamlData, sharedDefinitions]);
+  const { agents } = model;
+  // ファイルとエッジをIDで引くための索引
+  const index = useMemo(
+    () => buildGraphIndex(model.files, model.edges),
+    [model]
+  );
+  // 大きなグラフでは、描画の負荷を下げるためエッジのアニメーションを止め、画面外の要素を描画しない
+  const largeGraph = model.files.length > largeGraphFileCount;
+  // エージェントごとのファイル数
+  const agentCounts = useMemo(
+    () => new Map(collectFacets(model.files).agent),
+    [model]
+  );
+
+  // 依存関係とdependency_waitから実行計画を作成
+  const plan = useMemo(
+    () => buildExecutionPlan(model.files, model.edges),
+    [model]
+  );
+  const planNodes = useMemo(
+    () => layoutExecutionPlan(plan, model.files),
+    [plan, model]
+  );
+
+  // 全フォルダのパス（一括折りたたみ用）
+  const folderIds = useMemo(
+    () => Array.from(collectFolders(model.files).keys()),
+    [model]
+  );
+
+  // 検索・フィルター・フォーカスモードの状態
+  const [filter, setFilter] = useState<GraphFilter>(
+    initialView?.filter ?? emptyFilter
+  );
+  const filterResult = useMemo(
+    () => applyGraphFilter(model.files, model.edges, filter),
+    [model, filter]
+  );
+
+  // 影響範囲の起点のファイルとたどる方向
+  const [impactTarget, setImpactTarget] = useState<{
+    fileId: string;
+    direction: ImpactDirection;
+  } | null>(null);
+  // 起点のファイルが削除された場合は影響範囲を表示しない
+  const impact = useMemo(
+    () =>
+      impactTarget && index.files.has(impactTarget.fileId)
+        ? analyzeImpact(
+            impactTarget.fileId,
+            model.files,
+            model.edges,
+            impactTarget.direction
+          )
+        : null,
+    [model, index, impactTarget]
+  );
+  // 影響範囲のファイルと、再生成する順序（ステージ番号）
+  const impactOrder = useMemo(() => {
+    if (!impact) return null;
+    const order = new Map<string, number>();
+    impact.plan.stages.forEach((stage) =>
+      stage.files.forEach((id) => order.set(id, stage.index))
+    );
+    return order;
+  }, [impact]);
+  // ノードを右クリックしたときに表示するメニュー
+  const [contextMenu, setContextMenu] = useState<{
+    fileId: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // フィルターで非表示にしたファイルとそのエッジを除いたグラフ
+  const visibleGraph = useMemo(() => {
+    const { hidden } = filterResult;
+    if (hidden.size === 0) return model;
+    return {
+      files: model.files.filter((file) => !hidden.has(file.id)),
+      edges: model.edges.filter(
+        (edge) => !hidden.has(edge.source) && !hidden.has(edge.target)
+      ),
+    };
+  }, [model, filterResult]);
+
+  // レイアウト要求（Web Workerで計算する）
+  // コンパクト表示ではファイルノードを低いカードとして配置する
+  const layoutRequest = useMemo<LayoutRequest>(() => {
+    const sizes: LayoutRequest["sizes"] = {};
+    if (density === "compact") {
+      visibleGraph.files.forEach((file) => {
+        sizes[file.id] = {
+          width: parseInt(defaultNodeWidth),
+          height: compactNodeHeight,
+        };
+      });
+    }
+    return {
+      files: visibleGraph.files,
+      edges: visibleGraph.edges,
+      collapsed: Array.from(collapsed),
+      options: layoutOptions,
+      sizes,
+    };
+  }, [visibleGraph, collapsed, layoutOptions, density]);
+  const layout = useGraphLayout(layoutRequest);
 
   // ReactFlowの状態管理フック
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState(
-    initialEdges.map((edge) => ({
-      ...edge,
-      type: "smoothstep",
-      markerEnd: {
-        type: MarkerType.ArrowClosed,
-        width: 20,
-        height: 20,
+  const [nodes, setNodes, onNodesChange] = useNodesState<GraphNode["data"]>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+
+  const { fitView, getNodes, getViewport, getZoom, setCenter, setViewport } =
+    useReactFlow();
+  // 画像の書き出しに使うReactFlowの要素
+  const flowRef = useRef<HTMLDivElement>(null);
+
+  // ユーザーがドラッグして固定したノードの位置
+  // 共有リンクから開いた場合は、共有元のすべてのノードの位置を固定して再現する
+  const pinnedRef = useRef(
+    new Map<string, PinnedPosition>(
+      Object.entries(initialView?.positions ?? {})
+    )
+  );
+  // 最後に表示したレイアウトと、そのときのレイアウトの設定・表示密度
+  const appliedLayoutRef = useRef<{
+    result: LayoutResult;
+    options: LayoutOptions;
+    density: NodeDensity;
+  } | null>(null);
+
+  // 直前のYAMLデータとの差分で追加・変更されたノードとエッジ
+  const [changed, setChanged] = useState<ChangedIds>(noChanges);
+  const prevModelRef = useRef<typeof model | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // フォーカスモードを切り替えたときは、次のレイアウトの後に全体を表示する
+  const fitAfterLayoutRef = useRef(false);
+  useEffect(() => {
+    fitAfterLayoutRef.current = true;
+  }, [filter.focus]);
+  // 共有リンクから開いた場合は、最初のレイアウトの後に共有元の表示範囲を再現する
+  const initialViewportRef = useRef(initialView?.viewport ?? null);
+
+  // YAMLデータが変わったら、変更箇所を一定時間強調表示する
+  useEffect(() => {
+    const prev = prevModelRef.current;
+    prevModelRef.current = model;
+    if (!prev) return;
+
+    const diff = diffGraphs(
+      { nodes: prev.files, edges: prev.edges },
+      { nodes: model.files, edges: model.edges }
+    );
+    const changedNodes = [...diff.addedNodes, ...diff.updatedNodes];
+    if (changedNodes.length === 0 && diff.addedEdges.length === 0) return;
+
+    setChanged({
+      nodes: new Set(changedNodes),
+      edges: new Set(diff.addedEdges),
+    });
+    clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(
+      () => setChanged(noChanges),
+      HIGHLIGHT_DURATION
+    );
+  }, [model]);
+
+  // アンマウント時に強調表示のタイマーを止める
+  useEffect(() => () => clearTimeout(highlightTimerRef.current), []);
+
+  // レイアウトの計算が終わったらグラフを差分更新する
+  useEffect(() => {
+    if (viewMode !== "graph" || !layout) return;
+
+    const previous = appliedLayoutRef.current;
+    let keepPositions = false;
+    if (previous?.result === layout) {
+      // 方向の変更直後など、新しいレイアウトの計算を待っている間は位置を変えない
+      keepPositions = true;
+    } else if (
+      previous &&
+      (previous.options !== layoutOptions || previous.density !== density)
+    ) {
+      // レイアウトの設定や表示密度を変えた場合は、ドラッグした位置も含めて配置し直す
+      pinnedRef.current.clear();
+      appliedLayoutRef.current = {
+        result: layout,
+        options: layoutOptions,
+        density,
+      };
+    } else {
+      // ノードやエッジが増減しない編集（内容やエージェントの変更）では、すべての位置を保つ
+      keepPositions =
+        !!previous && !isStructuralChange(diffGraphs(previous.result, layout));
+      appliedLayoutRef.current = {
+        result: layout,
+        options: layoutOptions,
+        density,
+      };
+    }
+
+    setNodes((current) =>
+      mergeNodePositions(
+        current,
+        toFlowNodes(layout.nodes, layoutOptions.direction),
+        pinnedRef.current,
+        keepPositions
+      )
+    );
+    setEdges(toFlowEdges(layout.nodes, layout.edges, !largeGraph));
+    const viewport = initialViewportRef.current;
+    if (viewport) {
+      initialViewportRef.current = null;
+      fitAfterLayoutRef.current = false;
+      setTimeout(() => setViewport(viewport), 100);
+    } else if (fitAfterLayoutRef.current) {
+      fitAfterLayoutRef.current = false;
+      setTimeout(() => fitView({ padding: 0.2 }), 100);
+    }
+  }, [
+    viewMode,
+    layout,
+    layoutOptions,
+    density,
+    largeGraph,
+    setNodes,
+    setEdges,
+    fitView,
+    setViewport,
+  ]);
+
+  // レイアウトやフィルターが変わったら、表示状態が変わったことを通知する
+  // ドラッグした位置はレイアウトの反映時に破棄されることがあるため、反映の後に通知する
+  useEffect(() => {
+    if (viewMode === "graph" && layout) onViewChange?.();
+  }, [viewMode, layout, filter, onViewChange]);
+
+  // 共有リンクの作成と自動保存のために、現在の表示状態を親コンポーネントに公開する
+  useImperativeHandle(
+    ref,
+    () => ({
+      getViewState(scope = "all") {
+        // 実行計画などを表示している間はグラフのノードがないため、位置は含めない
+        let positions: ShareViewState["positions"] = {};
+        if (scope === "pinned") {
+          positions = Object.fromEntries(pinnedRef.current);
+        } else if (viewMode === "graph") {
+          getNodes().forEach((node) => {
+            positions[node.id] = {
+              parentNode: node.parentNode,
+              position: node.position,
+            };
+          });
+        }
+        return {
+          positions,
+          collapsed: Array.from(collapsed),
+          filter,
+          viewport: getViewport(),
+          layout: layoutOptions,
+          density,
+        };
       },
-      animated: true,
-      style: { stroke: "#666", strokeWidth: 2 },
-    }))
+      applyPositions(positions) {
+        pinnedRef.current = new Map(Object.entries(positions));
+        onViewChange?.();
+        // 実行計画などを表示している間は、グラフに戻ったときに反映される
+        const applied = appliedLayoutRef.current;
+        if (viewMode !== "graph" || !applied) return;
+        setNodes((current) =>
+          mergeNodePositions(
+            current,
+            toFlowNodes(applied.result.nodes, layoutOptions.direction),
+            pinnedRef.current,
+            false
+          )
+        );
+      },
+    }),
+    [
+      viewMode,
+      collapsed,
+      filter,
+      layoutOptions,
+      density,
+      getNodes,
+      getViewport,
+      setNodes,
+      onViewChange,
+    ]
+  );
+
+  // 実行計画モードではスイムレーンを表示する
+  useEffect(() => {
+    if (viewMode !== "plan") return;
+    // 未定義の依存先と自己依存は実行順に関係しないため表示しない
+    const ids = new Set(planNodes.map((node) => node.id));
+    const planEdges = model.edges.filter(
+      (edge) =>
+        edge.source !== edge.target &&
+        ids.has(edge.source) &&
+        ids.has(edge.target)
+    );
+    // グラフに戻ったときはレイアウトの位置から表示し直す
+    appliedLayoutRef.current = null;
+    setNodes(toPlanFlowNodes(planNodes));
+    setEdges(toFlowEdges(planNodes, planEdges, !largeGraph));
+    setTimeout(() => fitView({ padding: 0.2 }), 100);
+  }, [viewMode, planNodes, model, largeGraph, setNodes, setEdges, fitView]);
+
+  // 選択中のファイルのノードを選択状態にして画面の中央に表示する
+  useEffect(() => {
+    if (!selectedFileId) return;
+    const flowNodes = getNodes();
+    // 折りたたまれたフォルダの中にある場合は、最も外側の折りたたまれたフォルダを対象にする
+    const target =
+      flowNodes.find((node) => node.id === selectedFileId) ??
+      flowNodes
+        .filter(
+          (node) =>
+            node.type === "folder" && selectedFileId.startsWith(`${node.id}/`)
+        )
+        .sort((a, b) => a.id.length - b.id.length)[0];
+    if (!target) return;
+
+    setNodes((nds) =>
+      nds.map((node) => ({ ...node, selected: node.id === target.id }))
+    );
+    const position = target.positionAbsolute ?? target.position;
+    setCenter(
+      position.x + (target.width ?? 0) / 2,
+      position.y + (target.height ?? 0) / 2,
+      { zoom: getZoom(), duration: 500 }
+    );
+  }, [selectedFileId, getNodes, getZoom, setCenter, setNodes]);
+
+  /**
+   * ファイルを起点にした影響範囲を表示する
+   * @param {string} fileId - 起点のファイルノードのID
+   * @param {ImpactDirection} direction - たどる方向
+   */
+  const showImpact = useCallback(
+    (fileId: string, direction: ImpactDirection) => {
+      setContextMenu(null);
+      setImpactTarget({ fileId, direction });
+    },
+    []
+  );
+
+  /**
+   * ファイルノードが右クリックされたときに、影響範囲を表示するメニューを開くコールバック
+   * @param {React.MouseEvent} event - マウスイベント
+   * @param {Node} node - 右クリックされたノード
+   */
+  const handleNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: Node) => {
+      if (node.type !== "default" && node.type !== "missing") return;
+      event.preventDefault();
+      const bounds = flowRef.current?.getBoundingClientRect();
+      setContextMenu({
+        fileId: node.id,
+        x: event.clientX - (bounds?.left ?? 0),
+        y: event.clientY - (bounds?.top ?? 0),
+      });
+    },
+    []
+  );
+
+  /**
+   * ファイルノードがクリックされたときに選択を通知するコールバック
+   * @param {React.MouseEvent} _event - クリックイベント
+   * @param {Node} node - クリックされたノード
+   */
+  const handleNodeClick = useCallback(
+    (_event: React.MouseEvent, node: Node) => {
+      if (node.type === "default" || node.type === "missing") {
+        onSelectFile?.(node.id);
+      }
+    },
+    [onSelectFile]
+  );
+
+  /**
+   * ドラッグしたノードの位置を固定するコールバック
+   * 固定した位置はYAMLの編集でレイアウトし直しても保たれる
+   * @param {React.MouseEvent} _event - マウスイベント
+   * @param {Node} _node - ドラッグを開始したノード
+   * @param {Node[]} draggedNodes - ドラッグされたすべてのノード
+   */
+  const handleNodeDragStop = useCallback(
+    (_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+      if (viewMode !== "graph") return;
+      draggedNodes.forEach((node) =>
+        pinnedRef.current.set(node.id, {
+          parentNode: node.parentNode,
+          position: node.position,
+        })
+      );
+      onViewChange?.();
+      onLayoutEdit?.();
+    },
+    [viewMode, onViewChange, onLayoutEdit]
   );
 
-  const { fitView } = useReactFlow();
+  // フィルターや検索に一致せず薄く表示するノードと、影響範囲の外のノード
+  // フォルダは、表示している配下のファイルがすべて薄く表示される場合に薄く表示する
+  const dimmedIds = useMemo(() => {
+    const { hidden } = filterResult;
+    let dimmed = filterResult.dimmed;
+    if (impact) {
+      const reached = new Set([impact.fileId, ...impact.files]);
+      dimmed = new Set(filterResult.dimmed);
+      model.files
+        .filter((file) => !reached.has(file.id))
+        .forEach((file) => dimmed.add(file.id));
+    }
+    if (dimmed.size === 0) return dimmed;
+    const ids = new Set(dimmed);
+    index.folders.forEach((children, folderId) => {
+      if (children.every((id) => hidden.has(id) || dimmed.has(id))) {
+        ids.add(folderId);
+      }
+    });
+    return ids;
+  }, [model, index, filterResult, impact]);
+
+  // 変更箇所を強調表示するクラスと、薄く表示するクラスを付けたノード
+  // 折りたたまれたフォルダは、配下のファイルが変更された場合に強調表示する
+  const displayNodes = useMemo(() => {
+    if (changed.nodes.size === 0 && dimmedIds.size === 0) return nodes;
+    return nodes.map((node) => {
+      const isChanged =
+        changed.nodes.has(node.id) ||
+        ("collapsed" in node.data &&
+          node.data.collapsed &&
+          !!index.folders.get(node.id)?.some((id) => changed.nodes.has(id)));
+      const className = [
+        isChanged && "graph-changed",
+        dimmedIds.has(node.id) && "graph-dimmed",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      return className ? { ...node, className } : node;
+    });
+  }, [nodes, index, changed, dimmedIds]);
+
+  // 変更箇所を強調表示するクラスと、薄く表示するクラスを付けたエッジ
+  // どちらかの端が薄く表示されるエッジは薄く表示する
+  const displayEdges = useMemo(() => {
+    if (changed.edges.size === 0 && dimmedIds.size === 0) return edges;
+    return edges.map((edge) => {
+      const className = [
+        changed.edges.has(edge.id) && "graph-changed",
+        (dimmedIds.has(edge.source) || dimmedIds.has(edge.target)) &&
+          "graph-dimmed",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      return className ? { ...edge, className } : edge;
+    });
+  }, [edges, changed, dimmedIds]);
+
+  /**
+   * フォルダの折りたたみを切り替えるコールバック
+   * @param {string} folderId - フォルダのパス
+   */
+  const toggleFolder = useCallback((folderId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * 最上位以外のフォルダをすべて折りたたむコールバック
+   */
+  const handleCollapseAll = useCallback(() => {
+    setCollapsed(new Set(folderIds.filter((id) => id.includes("/"))));
+  }, [folderIds]);
+
+  /**
+   * すべてのフォルダを展開するコールバック
+   */
+  const handleExpandAll = useCallback(() => {
+    setCollapsed(new Set());
+  }, []);
+
+  /**
+   * フォルダに新しいファイル定義を追加するコールバック
+   * @param {string} folderId - フォルダのパス
+   */
+  const addFile = useCallback(
+    (folderId: string) => {
+      const fileName = window.prompt(`${folderId} に追加するファイル名`);
+      if (fileName) {
+        onEdit?.({ type: "addFile", folderId, fileName });
+      }
+    },
+    [onEdit]
+  );
+
+  const graphActions = useMemo(
+    () => ({ toggleFolder, addFile: onEdit ? addFile : undefined }),
+    [toggleFolder, addFile, onEdit]
+  );
 
   /**
    * ノードの自動レイアウトを実行する関数
-   * グリッド状にノードを配置
+   * 描画済みのノードの実際の大きさを使って、選択中のエンジンで配置し直す
    */
   const handleAutoLayout = useCallback(() => {
-    const VERTICAL_SPACING = defaultVerticalSpacing; // 垂直方向の間隔
-    const HORIZONTAL_SPACING = defaultHorizontalSpacing; // 水平方向の間隔
-    const newNodes = nodes.map((node, index) => {
-      const column = index % 3;
-      const row = Math.floor(index / 3);
-      return {
-        ...node,
-        position: {
-          x: column * HORIZONTAL_SPACING,
-          y: row * VERTICAL_SPACING,
-        },
-      };
+    // 展開中のフォルダの大きさは中身から計算し直すため除外
+    const sizes: LayoutRequest["sizes"] = {};
+    getNodes().forEach((node) => {
+      const isExpandedFolder = node.type === "folder" && !node.data.collapsed;
+      if (!isExpandedFolder && node.width && node.height) {
+        sizes[node.id] = { width: node.width, height: node.height };
+      }
     });
-    setNodes(newNodes);
-    // レイアウト後にビューを調整
-    setTimeout(() => fitView({ padding: 0.2 }), 100);
-  }, [nodes, setNodes, fitView]);
+
+    requestLayout({ ...layoutRequest, sizes })
+      .then((result) => {
+        // 自動レイアウトではドラッグして固定した位置と保存した配置も破棄して配置し直す
+        pinnedRef.current.clear();
+        onViewChange?.();
+        onLayoutEdit?.();
+        appliedLayoutRef.current = {
+          result,
+          options: layoutOptions,
+          density,
+        };
+        setNodes(toFlowNodes(result.nodes, layoutOptions.direction));
+        setEdges(toFlowEdges(result.nodes, result.edges, !largeGraph));
+        // レイアウト後にビューを調整
+        setTimeout(() => fitView({ padding: 0.2 }), 100);
+      })
+      .catch((error) => console.error("Error calculating layout:", error));
+  }, [
+    getNodes,
+    layoutRequest,
+    layoutOptions,
+    density,
+    largeGraph,
+    setNodes,
+    setEdges,
+    fitView,
+    onViewChange,
+    onLayoutEdit,
+  ]);
 
   /**
-   * ノード間の接続を処理するコールバック
+   * ノード間の接続を依存関係としてYAMLに書き戻すコールバック
+   * 接続元（依存元）のdependencyに接続先を追加する。グラフはYAMLの再解析で更新される
+   * @param {Connection} params - 接続元と接続先
    */
   const onConnect = useCallback(
-    (params: any) => setEdges((eds) => addEdge(params, eds)),
-    [setEdges]
+    (params: Connection) => {
+      const { source, target } = params;
+      if (!source || !target || source === target) return;
+      // 依存元はYAMLに定義されているファイルに限る（依存先は未定義のファイルでもよい）
+      const sourceFile = index.files.get(source);
+      if (sourceFile && !sourceFile.data.missing && index.files.has(target)) {
+        onEdit?.({ type: "addDependency", fileId: source, dependency: target });
+      }
+    },
+    [index, onEdit]
+  );
+
+  /**
+   * 削除されたエッジの依存関係をYAMLから取り除くコールバック
+   * 折りたたんだフォルダにまとめたエッジは、個々の依存関係に戻せないため対象外
+   * @param {Edge[]} deleted - 削除されたエッジ
+   */
+  const handleEdgesDelete = useCallback(
+    (deleted: Edge[]) => {
+      const edits: GrimoireEdit[] = [];
+      deleted.forEach((edge) => {
+        const original = index.dependencies
+          .get(edge.source)
+          ?.find((e) => e.id === edge.id);
+        if (!original) return;
+        // globパターンやフォルダの指定は他のファイルへの依存も含むため、グラフからは削除しない
+        if (isExpandedEdge(original)) {
+          window.alert(
+            `"${original.data?.spec}" から展開された依存関係は削除できません。YAMLのdependencyを編集してください`
+          );
+          return;
+        }
+        edits.push({
+          type: "removeDependency",
+          fileId: original.source,
+          dependency: original.data?.spec ?? original.target,
+        });
+      });
+      // 複数のエッジをまとめて削除した場合は、1件の編集として書き戻す
+      if (edits.length === 1) {
+        onEdit?.(edits[0]);
+      } else if (edits.length > 1) {
+        onEdit?.({ type: "batch", edits });
+      }
+    },
+    [index, onEdit]
   );
 
+  /**
+   * ノードの変更を反映するコールバック
+   * ノードの削除はYAMLに書き戻せないため無視する
+   * @param {NodeChange[]} changes - ノードの変更
+   */
+  const handleNodesChange = useCallback(
+    (changes: NodeChange[]) =>
+      onNodesChange(changes.filter((change) => change.type !== "remove")),
+    [onNodesChange]
+  );
+
+  /**
+   * エッジの変更を反映するコールバック
+   * エッジの削除はYAMLへの書き戻しと再解析でグラフに反映する
+   * @param {EdgeChange[]} changes - エッジの変更
+   */
+  const handleEdgesChange = useCallback(
+    (changes: EdgeChange[]) =>
+      onEdgesChange(
+        onEdit ? changes.filter((change) => change.type !== "remove") : changes
+      ),
+    [onEdgesChange, onEdit]
+  );
+
+  // 詳細ドロワーに表示するファイル（閉じるまで選択中のファイルを表示する）
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  // ドロワーでファイルを編集しているかどうか
+  const [editing, setEditing] = useState(false);
+  useEffect(() => {
+    setDrawerOpen(!!selectedFileId);
+    setEditing(false);
+  }, [selectedFileId]);
+  const drawerFile: FileNode | undefined = selectedFileId
+    ? index.files.get(selectedFileId)
+    : undefined;
+
+  // 選択中のファイルの直接の依存先と依存元、共有定義
+  const drawerLinks = useMemo(() => {
+    const toLinks = (
+      edges: FileEdge[] = [],
+      idOf: (edge: FileEdge) => string
+    ): LinkedFile[] =>
+      edges
+        .map((edge) => ({
+          id: idOf(edge),
+          missing: !!index.files.get(idOf(edge))?.data.missing,
+          spec: isExpandedEdge(edge) ? edge.data?.spec : undefined,
+        }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+    if (!selectedFileId) {
+      return { dependencies: [], dependents: [], shared: [] };
+    }
+    return {
+      dependencies: toLinks(
+        index.dependencies.get(selectedFileId),
+        (edge) => edge.target
+      ),
+      dependents: toLinks(
+        index.dependents.get(selectedFileId),
+        (edge) => edge.source
+      ),
+      shared: findSharedLinks(model.files, sharedDefinitions, selectedFileId),
+    };
+  }, [model, index, selectedFileId, sharedDefinitions]);
+
   // カスタムノードタイプのメモ化
-  const nodeTypes = useMemo(() => ({ default: CustomNode }), []);
+  const nodeTypes = useMemo(
+    () => ({
+      default: CustomNode,
+      missing: MissingNode,
+      folder: FolderGroupNode,
+      lane: LaneGroupNode,
+    }),
+    []
+  );
 
   // エッジのデフォルト設定
-  const defaultEdgeOptions = {
-    animated: true,
-    type: "smoothstep",
-  };
+  const defaultEdgeOptions = useMemo(
+    () => ({ animated: !largeGraph, type: "smoothstep" }),
+    [largeGraph]
+  );
+
+  /**
+   * ミニマップでのノードの色を決める（ファイルは拡張子の色、フォルダは枠だけ）
+   * @param {Node} node - ノード
+   * @returns {string} 塗りつぶしの色
+   */
+  const miniMapNodeColor = useCallback(
+    (node: Node) => {
+      if (node.type === "missing") return issueEdgeColors.missing;
+      if (node.type !== "default") return "transparent";
+      return resolveFileStyle(node.id, node.data.extension, theme).color;
+    },
+    [theme]
+  );
 
   return (
-    <div className="h-screen">
-      <div className="h-[80vh] relative">
-        {/* 自動レイアウトボタン */}
-        <button
-          onClick={handleAutoLayout}
-          className="absolute top-16 right-4 z-10 px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 shadow-md"
-        >
-          自動レイアウト
-        </button>
-        {/* ReactFlowグラフ */}
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          nodeTypes={nodeTypes}
-          defaultEdgeOptions={defaultEdgeOptions}
-          fitView
-          attributionPosition="bottom-left"
-        >
-          <Background />
-          <Controls />
-        </ReactFlow>
-      </div>
-      {/* エージェント一覧表示エリア */}
-      <div className="h-[20vh] p-4 bg-gray-50">
-        <h3 className="text-lg font-bold mb-2">使用されているエージェント:</h3>
-        <div className="flex flex-wrap gap-2">
-          {Array.from(agents)
-            .filter((agent) => agent) // undefinedやnullを除外
-            .map((agent) => (
-              <span
-                key={agent}
-                className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
+    <GraphActionsContext.Provider value={graphActions}>
+      <NodeDensityContext.Provider value={density}>
+        <ImpactOrderContext.Provider value={impactOrder}>
+          <div className="h-screen">
+            <div
+              className="h-[80vh] relative"
+              style={{ "--graph-edge": palette.edge } as React.CSSProperties}
+            >
+              <div className="absolute top-16 right-4 z-10 flex gap-2">
+                {/* 表示モードの切り替え */}
+                <div className="flex bg-white rounded-md shadow-md overflow-hidden">
+                  {(
+                    [
+                      ["graph", "グラフ"],
+                      ["plan", "実行計画"],
+                      ["analytics", "分析"],
+                    ] as [ViewMode, string][]
+                  ).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-4 py-2 ${
+                        viewMode === mode
+                          ? "bg-blue-500 text-white"
+                          : "hover:bg-gray-50"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {viewMode === "graph" && (
+                  <>
+                    {/* レイアウトエンジンと方向の選択 */}
+                    <select
+                      value={layoutOptions.engine}
+                      onChange={(e) =>
+                        setLayoutOptions((prev) => ({
+                          ...prev,
+                          engine: e.target.value as LayoutEngineId,
+                        }))
+                      }
+                      className="px-2 py-2 bg-white rounded-md shadow-md"
+                      title="レイアウトエンジン"
+                    >
+                      {Object.values(layoutEngines).map((engine) => (
+                        <option key={engine.id} value={engine.id}>
+                          {engine.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={layoutOptions.direction}
+                      onChange={(e) =>
+                        setLayoutOptions((prev) => ({
+                          ...prev,
+                          direction: e.target.value as LayoutDirection,
+                        }))
+                      }
+                      className="px-2 py-2 bg-white rounded-md shadow-md"
+                      title="レイアウトの方向"
+                    >
+                      {(Object.keys(directionLabels) as LayoutDirection[]).map(
+                        (direction) => (
+                          <option key={direction} value={direction}>
+                            {directionLabels[direction]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    {/* ファイルノードの表示密度の切り替え */}
+                    <div className="flex bg-white rounded-md shadow-md overflow-hidden">
+                      {densityLabels.map(([value, label]) => (
+                        <button
+                          key={value}
+                          onClick={() => setDensity(value)}
+                          className={`px-3 py-2 ${
+                            density === value
+                              ? "bg-blue-500 text-white"
+                              : "hover:bg-gray-50"
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {/* フォルダの一括折りたたみ・展開ボタン */}
+                    <button
+                      onClick={handleCollapseAll}
+                      className="px-4 py-2 bg-white rounded-md hover:bg-gray-50 shadow-md"
+                    >
+                      すべて折りたたむ
+                    </button>
+                    <button
+                      onClick={handleExpandAll}
+                      className="px-4 py-2 bg-white rounded-md hover:bg-gray-50 shadow-md"
+                    >
+                      すべて展開
+                    </button>
+                    {/* 自動レイアウトボタン */}
+                    <button
+                      onClick={handleAutoLayout}
+                      title="ドラッグした位置と保存した配置を破棄して配置し直す"
+                      className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 shadow-md"
+                    >
+                      自動レイアウト
+                    </button>
+                  </>
+                )}
+                {/* 画像・テキストへの書き出し */}
+                <ExportMenu
+                  flowRef={flowRef}
+                  files={model.files}
+                  edges={model.edges}
+                  direction={layoutOptions.direction}
+                  theme={theme}
+                />
+                {/* テーマの編集 */}
+                {onThemeChange && (
+                  <button
+                    onClick={() => setThemeEditorOpen((prev) => !prev)}
+                    className={`px-4 py-2 rounded-md shadow-md ${
+                      themeEditorOpen
+                        ? "bg-blue-500 text-white"
+                        : "bg-white hover:bg-gray-50"
+                    }`}
+                  >
+                    テーマ
+                  </button>
+                )}
+              </div>
+              {/* 検索・フィルター・フォーカスモード */}
+              {viewMode === "graph" && (
+                <div className="absolute top-16 left-4 bottom-4 z-10 flex items-start pointer-events-none">
+                  <div className="max-h-full flex gap-2 pointer-events-auto">
+                    <GraphFilterPanel
+                      files={model.files}
+                      filter={filter}
+                      onChange={setFilter}
+                      selectedFileId={selectedFileId}
+                      onSelectFile={onSelectFile}
+                    />
+                    {/* 右クリックしたファイルの影響範囲 */}
+                    {impact && (
+                      <ImpactPanel
+                        impact={impact}
+                        files={model.files}
+                        theme={theme}
+                        onDirectionChange={(direction) =>
+                          showImpact(impact.fileId, direction)
+                        }
+                        onSelectFile={onSelectFile}
+                        onClose={() => setImpactTarget(null)}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+              {/* 実行計画の一覧 */}
+              {viewMode === "plan" && (
+                <div className="absolute top-16 left-4 bottom-4 z-10 flex">
+                  <ExecutionPlanPanel plan={plan} files={model.files} />
+                </div>
+              )}
+              {/* エージェント・APIの分析ダッシュボード */}
+              {viewMode === "analytics" && (
+                <div className="absolute top-32 left-4 right-4 bottom-4 z-10 flex">
+                  <AnalyticsPanel
+                    files={model.files}
+                    edges={model.edges}
+                    theme={theme}
+                    onSelectFile={onSelectFile}
+                  />
+                </div>
+              )}
+              {/* テーマの編集パネル */}
+              {onThemeChange && themeEditorOpen && (
+                <div className="absolute top-32 right-4 bottom-4 z-20 flex items-start pointer-events-none">
+                  <div className="max-h-full flex pointer-events-auto">
+                    <ThemeEditor
+                      theme={theme}
+                      onChange={onThemeChange}
+                      onReset={() => onThemeReset?.()}
+                      agents={Array.from(agents).filter((agent) => agent)}
+                      onClose={() => setThemeEditorOpen(false)}
+                    />
+                  </div>
+                </div>
+              )}
+              {/* 選択中のファイルの詳細ドロワー（編集中はインスペクター） */}
+              {drawerOpen && drawerFile && (
+                <div className="absolute top-32 right-4 bottom-4 z-10 flex items-start pointer-events-none">
+                  <div className="max-h-full flex pointer-events-auto">
+                    {onEdit && editing && !drawerFile.data.missing ? (
+                      <FileInspector
+                        key={`${drawerFile.id}:${JSON.stringify(
+                          drawerFile.data
+                        )}`}
+                        file={drawerFile}
+                        onEdit={onEdit}
+                        onClose={() => setEditing(false)}
+                      />
+                    ) : (
+                      <NodeDetailDrawer
+                        file={drawerFile}
+                        dependencies={drawerLinks.dependencies}
+                        dependents={drawerLinks.dependents}
+                        sharedLinks={drawerLinks.shared}
+                        theme={theme}
+                        onSelectFile={onSelectFile}
+                        onEdit={onEdit ? () => setEditing(true) : undefined}
+                        onShowImpact={(direction) =>
+                          showImpact(drawerFile.id, direction)
+                        }
+                        onClose={() => setDrawerOpen(false)}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+              {/* ファイルノードの右クリックメニュー */}
+              {viewMode === "graph" && contextMenu && (
+                <div
+                  className="absolute z-20 flex flex-col py-1 bg-white rounded-md shadow-md text-left text-sm"
+                  style={{ left: contextMenu.x, top: contextMenu.y }}
+                >
+                  {(
+                    [
+                      ["dependents", "変更したときの影響範囲"],
+                      ["dependencies", "生成に必要なファイル"],
+                    ] as [ImpactDirection, string][]
+                  ).map(([direction, label]) => (
+                    <button
+                      key={direction}
+                      onClick={() => showImpact(contextMenu.fileId, direction)}
+                      className="px-3 py-1 text-left hover:bg-gray-100"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {/* ReactFlowグラフ */}
+              <ReactFlow
+                ref={flowRef}
+                nodes={displayNodes}
+                edges={displayEdges}
+                onNodesChange={handleNodesChange}
+                onEdgesChange={handleEdgesChange}
+                onConnect={onConnect}
+                onEdgesDelete={handleEdgesDelete}
+                onNodeClick={handleNodeClick}
+                onNodeContextMenu={handleNodeContextMenu}
+                onPaneClick={() => setContextMenu(null)}
+                onMoveStart={() => setContextMenu(null)}
+                onNodeDragStop={handleNodeDragStop}
+                onMoveEnd={onViewChange}
+                nodeTypes={nodeTypes}
+                defaultEdgeOptions={defaultEdgeOptions}
+                onlyRenderVisibleElements={largeGraph}
+                fitView={!initialView}
+                attributionPosition="bottom-left"
+                style={{ backgroundColor: palette.canvas }}
               >
-                {agent}
-              </span>
-            ))}
-        </div>
-      </div>
-    </div>
+                <Background color={palette.grid} />
+                <Controls />
+                {/* 大きなグラフで現在の表示範囲を確認するミニマップ */}
+                <MiniMap
+                  pannable
+                  zoomable
+                  nodeColor={miniMapNodeColor}
+                  nodeStrokeColor={palette.nodeBorder}
+                  style={{ backgroundColor: palette.canvas }}
+                />
+              </ReactFlow>
+            </div>
+            {/* エージェント一覧表示エリア */}
+            <div className="h-[20vh] p-4 bg-gray-50">
+              <h3 className="text-lg font-bold mb-2">
+                使用されているエージェント:
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {/* クリックするとエージェントで絞り込む */}
+                {Array.from(agents)
+                  .filter((agent) => agent) // undefinedやnullを除外
+                  .map((agent) => (
+                    <button
+                      key={agent}
+                      onClick={() =>
+                        setFilter((prev) =>
+                          toggleFacetValue(prev, "agent", agent)
+                        )
+                      }
+                      className={`px-3 py-1 rounded-full text-sm ${
+                        filter.facets.agent.includes(agent)
+                          ? "bg-blue-500 text-white"
+                          : "bg-blue-100 text-blue-800 hover:bg-blue-200"
+                      }`}
+                      title="このエージェントのファイルで絞り込む"
+                    >
+                      <span
+                        className="inline-block w-2 h-2 mr-1 rounded-full"
+                        style={{ backgroundColor: getAgentColor(agent, theme) }}
+                      />
+                      {agent} ({agentCounts.get(agent) ?? 0})
+                    </button>
+                  ))}
+              </div>
+            </div>
+          </div>
+        </ImpactOrderContext.Provider>
+      </NodeDensityContext.Provider>
+    </GraphActionsContext.Provider>
   );
 }
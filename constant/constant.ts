@@ -1,3 +1,5 @@
+import { DependencyIssueType } from "@/types/yaml";
+
 // プログラミング言語系
 export const jsColor = "#f7df1e"; // JavaScript - 黄色
 export const tsColor = "#3178c6"; // TypeScript - 青
@@ -8,9 +10,12 @@ export const pythonColor = "#3572A5"; // Python - 青
 export const cssColor = "#264de4"; // CSS - 濃い青
 export const htmlColor = "#e34c26"; // HTML - オレンジ赤
 export const yamlColor = "#cb171e"; // YAML - 赤
+export const jsonColor = "#cbcb41"; // JSON - 黄土色
 
 // メディアファイル系
 export const pngColor = "#4CAF50"; // PNG画像 - 緑
+export const jpgColor = "#8BC34A"; // JPEG画像 - 黄緑
+export const svgColor = "#FFB13B"; // SVG画像 - 山吹色
 export const glbColor = "#9C27B0"; // 3Dモデル - 紫
 export const mp4Color = "#F44336"; // 動画 - 赤
 export const mp3Color = "#E91E63"; // 音声 - ピンク
@@ -23,9 +28,53 @@ export const mdColor = "#607D8B"; // Markdown - グレー
 // デフォルト色
 export const defaultColor = "#808080"; // デフォルト - グレー
 
+// エージェントの色（テーマで指定されていないエージェントに順に割り当てる）
+export const agentPalette = [
+  "#4e79a7",
+  "#f28e2c",
+  "#e15759",
+  "#76b7b2",
+  "#59a14f",
+  "#edc949",
+  "#af7aa1",
+  "#ff9da7",
+  "#9c755f",
+  "#bab0ab",
+];
+
+// 比較モードの差分の色
+export const diffAddedColor = "#16a34a"; // 追加 - 緑
+export const diffRemovedColor = "#dc2626"; // 削除 - 赤
+export const diffModifiedColor = "#d97706"; // 変更 - オレンジ
+export const diffAgentColor = "#7c3aed"; // agentの変更 - 紫
+export const diffApiColor = "#0891b2"; // apiの変更 - 青緑
+export const diffContentColor = "#db2777"; // contentの変更 - ピンク
+export const diffWaitColor = "#4f46e5"; // dependency_waitの変更 - 藍
+
+// 依存関係の問題ごとのエッジの色
+export const issueEdgeColors: Record<DependencyIssueType, string> = {
+  missing: "#ef4444", // 未定義の依存先 - 赤
+  self: "#ef4444", // 自己依存 - 赤
+  cycle: "#dc2626", // 循環依存 - 濃い赤
+};
+
 // ノードの横幅
 export const defaultNodeWidth = "300px";
 // ノード間の水平方向の間隔
 export const defaultHorizontalSpacing = 400;
 // ノード間の垂直方向の間隔
 export const defaultVerticalSpacing = 200;
+// ノードの高さ（レイアウト計算用の目安）
+export const defaultNodeHeight = 120;
+// コンパクト表示のノードの高さ（レイアウト計算用の目安）
+export const compactNodeHeight = 48;
+// フォルダグループの内側の余白
+export const folderPadding = 30;
+// フォルダグループのヘッダーの高さ
+export const folderHeaderHeight = 40;
+// 折りたたんだフォルダの高さ
+export const collapsedFolderHeight = 140;
+// エッジのアニメーションを止め、画面外のノードを描画しない大きなグラフのファイル数
+export const largeGraphFileCount = 200;
+// ファイルノードを簡略表示に切り替えるズーム倍率（これより縮小すると簡略表示）
+export const simplifiedNodeZoom = 0.4;
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { LayoutRequest, LayoutResult } from "@/types/layout";
+import { requestLayout } from "@/utils/layout/layoutClient";
+
+/**
+ * レイアウト要求が変わるたびにグラフのレイアウトを非同期に計算するフック
+ * 計算中に要求が変わった場合、古い要求の結果は破棄する
+ * @param {LayoutRequest | null} request - レイアウト要求（メモ化しておくこと）
+ * @returns {LayoutResult | null} 最新の要求に対するレイアウト結果
+ */
+export function useGraphLayout(
+  request: LayoutRequest | null
+): LayoutResult | null {
+  const [result, setResult] = useState<LayoutResult | null>(null);
+
+  useEffect(() => {
+    if (!request) {
+      setResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    requestLayout(request)
+      .then((layout) => {
+        if (!cancelled) setResult(layout);
+      })
+      .catch((error) => console.error("Error calculating layout:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  return result;
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from "react";
+import { LintConfig } from "@/types/lint";
+import {
+  defaultLintConfig,
+  parseLintConfig,
+  serializeLintConfig,
+} from "@/utils/lintConfig";
+
+// localStorageのキー
+const STORAGE_KEY = "grimoire-lint";
+
+/**
+ * localStorageからリントの設定を読み込む
+ * 保存されていない場合や形式が正しくない場合は初期設定を使う
+ * @returns {LintConfig} リントの設定
+ */
+function loadLintConfig(): LintConfig {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return defaultLintConfig;
+  try {
+    return parseLintConfig(stored);
+  } catch (error) {
+    console.error("Error loading lint config:", error);
+    return defaultLintConfig;
+  }
+}
+
+/**
+ * ユーザーが編集したリントの設定をlocalStorageで管理するフック
+ * @returns {{lintConfig: LintConfig, setLintConfig: Function, resetLintConfig: Function}} リントの設定と更新用の関数
+ */
+export function useLintConfig() {
+  const [lintConfig, setLintConfigState] =
+    useState<LintConfig>(defaultLintConfig);
+
+  // localStorageはブラウザでのみ使えるため、マウント後に読み込む
+  useEffect(() => {
+    setLintConfigState(loadLintConfig());
+  }, []);
+
+  /**
+   * リントの設定を変更して保存する
+   * @param {LintConfig} next - 新しいリントの設定
+   */
+  const setLintConfig = useCallback((next: LintConfig) => {
+    setLintConfigState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeLintConfig(next));
+    } catch (error) {
+      console.error("Error saving lint config:", error);
+    }
+  }, []);
+
+  /**
+   * リントの設定を初期状態に戻す
+   */
+  const resetLintConfig = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setLintConfigState(defaultLintConfig);
+  }, []);
+
+  return { lintConfig, setLintConfig, resetLintConfig };
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { LoadedGrimoire, RecentFile } from "@/types/source";
+
+// localStorageのキーと、保存する履歴の最大件数
+const STORAGE_KEY = "grimoire-recent-files";
+const MAX_RECENT_FILES = 10;
+
+/**
+ * localStorageから履歴を読み込む
+ * @returns {RecentFile[]} 履歴（新しい順）
+ */
+function loadRecentFiles(): RecentFile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 履歴をlocalStorageに保存する
+ * 容量が足りない場合は、保存できるまで古いものから削除する
+ * @param {RecentFile[]} files - 履歴（新しい順）
+ * @returns {RecentFile[]} 実際に保存した履歴
+ */
+function saveRecentFiles(files: RecentFile[]): RecentFile[] {
+  for (let count = files.length; count > 0; count--) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(files.slice(0, count)));
+      return files.slice(0, count);
+    } catch (error) {
+      console.error("Error saving recent files:", error);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return [];
+}
+
+/**
+ * 最近開いたグリモワールの履歴をlocalStorageで管理するフック
+ * 同じ名前と読み込み元のものは1件にまとめ、新しい順に保持する
+ * @returns {{recentFiles: RecentFile[], addRecentFile: Function, clearRecentFiles: Function}} 履歴と更新用の関数
+ */
+export function useRecentFiles() {
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([]);
+
+  // localStorageはブラウザでのみ使えるため、マウント後に読み込む
+  useEffect(() => {
+    setRecentFiles(loadRecentFiles());
+  }, []);
+
+  /**
+   * 読み込んだグリモワールを履歴の先頭に追加する
+   * @param {LoadedGrimoire} grimoire - 読み込んだグリモワール
+   */
+  const addRecentFile = useCallback((grimoire: LoadedGrimoire) => {
+    const entry: RecentFile = {
+      name: grimoire.name,
+      kind: grimoire.kind,
+      ...(grimoire.url ? { url: grimoire.url } : { text: grimoire.text }),
+      openedAt: Date.now(),
+    };
+    const files = [
+      entry,
+      ...loadRecentFiles().filter(
+        (file) => file.name !== entry.name || file.kind !== entry.kind
+      ),
+    ].slice(0, MAX_RECENT_FILES);
+    setRecentFiles(saveRecentFiles(files));
+  }, []);
+
+  /**
+   * 履歴をすべて削除する
+   */
+  const clearRecentFiles = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setRecentFiles([]);
+  }, []);
+
+  return { recentFiles, addRecentFile, clearRecentFiles };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { ThemeConfig } from "@/types/theme";
+import {
+  defaultThemeConfig,
+  parseThemeConfig,
+  serializeThemeConfig,
+} from "@/utils/theme";
+
+// localStorageのキー
+const STORAGE_KEY = "grimoire-theme";
+
+/**
+ * localStorageからテーマの設定を読み込む
+ * 保存されていない場合や形式が正しくない場合は初期状態のテーマを使う
+ * @returns {ThemeConfig} テーマの設定
+ */
+function loadThemeConfig(): ThemeConfig {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return defaultThemeConfig;
+  try {
+    return parseThemeConfig(stored);
+  } catch (error) {
+    console.error("Error loading theme:", error);
+    return defaultThemeConfig;
+  }
+}
+
+/**
+ * ユーザーが編集したテーマの設定をlocalStorageで管理するフック
+ * @returns {{theme: ThemeConfig, setTheme: Function, resetTheme: Function}} テーマの設定と更新用の関数
+ */
+export function useThemeConfig() {
+  const [theme, setThemeState] = useState<ThemeConfig>(defaultThemeConfig);
+
+  // localStorageはブラウザでのみ使えるため、マウント後に読み込む
+  useEffect(() => {
+    setThemeState(loadThemeConfig());
+  }, []);
+
+  /**
+   * テーマの設定を変更して保存する
+   * @param {ThemeConfig} next - 新しいテーマの設定
+   */
+  const setTheme = useCallback((next: ThemeConfig) => {
+    setThemeState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeThemeConfig(next));
+    } catch (error) {
+      console.error("Error saving theme:", error);
+    }
+  }, []);
+
+  /**
+   * テーマを初期状態に戻す
+   */
+  const resetTheme = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setThemeState(defaultThemeConfig);
+  }, []);
+
+  return { theme, setTheme, resetTheme };
+}
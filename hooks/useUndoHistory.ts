@@ -0,0 +1,96 @@
+import { useCallback, useRef, useState } from "react";
+
+// 保持する履歴の最大件数
+const MAX_HISTORY = 100;
+
+/**
+ * 元に戻す・やり直すための履歴を管理するフック
+ * 履歴は状態のスナップショットの列で、記録すると現在位置より後（やり直し用）の履歴は破棄される
+ * @returns {Object} 元に戻せるか・やり直せるかと操作用の関数
+ */
+export function useUndoHistory<T>() {
+  const entriesRef = useRef<T[]>([]);
+  const indexRef = useRef(-1);
+  const [status, setStatus] = useState({ canUndo: false, canRedo: false });
+
+  /**
+   * 元に戻せるか・やり直せるかを更新する
+   */
+  const updateStatus = useCallback(() => {
+    setStatus({
+      canUndo: indexRef.current > 0,
+      canRedo: indexRef.current < entriesRef.current.length - 1,
+    });
+  }, []);
+
+  /**
+   * 履歴を破棄し、指定した状態から記録し直す
+   * @param {T} entry - 最初の状態
+   */
+  const resetHistory = useCallback(
+    (entry: T) => {
+      entriesRef.current = [entry];
+      indexRef.current = 0;
+      updateStatus();
+    },
+    [updateStatus]
+  );
+
+  /**
+   * 新しい状態を記録する
+   * @param {T} entry - 変更後の状態
+   */
+  const record = useCallback(
+    (entry: T) => {
+      // 現在の状態と同じ場合は記録しない
+      const current = entriesRef.current[indexRef.current];
+      if (
+        current !== undefined &&
+        JSON.stringify(current) === JSON.stringify(entry)
+      ) {
+        return;
+      }
+      const entries = [
+        ...entriesRef.current.slice(0, indexRef.current + 1),
+        entry,
+      ].slice(-MAX_HISTORY);
+      entriesRef.current = entries;
+      indexRef.current = entries.length - 1;
+      updateStatus();
+    },
+    [updateStatus]
+  );
+
+  /**
+   * 現在の状態を取得する
+   * @returns {T | undefined} 現在の状態（記録していない場合はundefined）
+   */
+  const current = useCallback(
+    (): T | undefined => entriesRef.current[indexRef.current],
+    []
+  );
+
+  /**
+   * 1つ前の状態に戻る
+   * @returns {T | null} 戻った先の状態（戻れない場合はnull）
+   */
+  const undo = useCallback((): T | null => {
+    if (indexRef.current <= 0) return null;
+    indexRef.current -= 1;
+    updateStatus();
+    return entriesRef.current[indexRef.current];
+  }, [updateStatus]);
+
+  /**
+   * 元に戻した状態をやり直す
+   * @returns {T | null} やり直した先の状態（やり直せない場合はnull）
+   */
+  const redo = useCallback((): T | null => {
+    if (indexRef.current >= entriesRef.current.length - 1) return null;
+    indexRef.current += 1;
+    updateStatus();
+    return entriesRef.current[indexRef.current];
+  }, [updateStatus]);
+
+  return { ...status, current, record, resetHistory, undo, redo };
+}
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Workspace } from "@/types/workspace";
+import { ShareViewState } from "@/types/share";
+import {
+  deleteWorkspace,
+  listWorkspaces,
+  putWorkspace,
+} from "@/utils/workspaceStore";
+
+// 名前を指定せずに作成したワークスペースの表示名
+const DEFAULT_WORKSPACE_NAME = "無題のワークスペース";
+
+/**
+ * ワークスペースのIDを生成
+ * @returns {string} ID
+ */
+function createWorkspaceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 既存のワークスペースと重ならない表示名を求める
+ * @param {string} name - 希望する表示名
+ * @param {Workspace[]} workspaces - 既存のワークスペース
+ * @returns {string} 重なる場合は「名前 (2)」のように番号を付けた表示名
+ */
+function uniqueWorkspaceName(name: string, workspaces: Workspace[]): string {
+  const names = new Set(workspaces.map((workspace) => workspace.name));
+  let candidate = name;
+  for (let count = 2; names.has(candidate); count++) {
+    candidate = `${name} (${count})`;
+  }
+  return candidate;
+}
+
+/**
+ * 名前付きのワークスペース（YAMLテキストとグラフの表示状態）をIndexedDBで管理するフック
+ * 開いているワークスペースは、saveWorkspaceを呼ぶたびに上書き保存する
+ * @returns {Object} ワークスペースの一覧・開いているワークスペースと操作用の関数
+ */
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const workspacesRef = useRef<Workspace[]>([]);
+  // 一覧の読み込みが終わったかどうか（起動時に前回のワークスペースを開くために使う）
+  const [loaded, setLoaded] = useState(false);
+  const [current, setCurrent] = useState<Workspace | null>(null);
+  // 保存の処理から最新のワークスペースを参照するために保持する
+  const currentRef = useRef<Workspace | null>(null);
+
+  /**
+   * IndexedDBから一覧を読み込み直す
+   */
+  const refresh = useCallback(
+    () =>
+      listWorkspaces()
+        .then((list) => {
+          workspacesRef.current = list;
+          setWorkspaces(list);
+        })
+        .catch((error) => console.error("Error loading workspaces:", error)),
+    []
+  );
+
+  // IndexedDBはブラウザでのみ使えるため、マウント後に読み込む
+  useEffect(() => {
+    refresh().finally(() => setLoaded(true));
+  }, [refresh]);
+
+  /**
+   * ワークスペースを開いているものとして設定し、IndexedDBに保存する
+   * @param {Workspace | null} workspace - ワークスペース（nullの場合は閉じる）
+   * @param {boolean} persist - IndexedDBに保存するかどうか
+   */
+  const applyCurrent = useCallback(
+    (workspace: Workspace | null, persist: boolean) => {
+      currentRef.current = workspace;
+      setCurrent(workspace);
+      if (workspace && persist) {
+        putWorkspace(workspace)
+          .then(refresh)
+          .catch((error) => console.error("Error saving workspace:", error));
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * 開いているワークスペースにYAMLテキストと表示状態を保存する
+   * ワークスペースを開いていない場合は新しく作成する（テキストが空の場合は作成しない）
+   * @param {string} yaml - YAMLテキスト
+   * @param {ShareViewState} [view] - グラフの表示状態（省略時は前回保存したものを残す）
+   * @param {Record<string, string>} [includes] - インクルードするファイル（省略時は前回保存したものを残す）
+   */
+  const saveWorkspace = useCallback(
+    (
+      yaml: string,
+      view?: ShareViewState,
+      includes?: Record<string, string>
+    ) => {
+      const workspace = currentRef.current;
+      if (!workspace && yaml.trim() === "") return;
+      applyCurrent(
+        {
+          id: workspace?.id ?? createWorkspaceId(),
+          name: workspace?.name ?? DEFAULT_WORKSPACE_NAME,
+          yaml,
+          view: view ?? workspace?.view,
+          includes: includes ?? workspace?.includes,
+          updatedAt: Date.now(),
+        },
+        true
+      );
+    },
+    [applyCurrent]
+  );
+
+  /**
+   * 新しいワークスペースを作成して開く
+   * @param {string} name - 表示名
+   * @param {string} yaml - YAMLテキスト
+   * @param {ShareViewState} [view] - グラフの表示状態
+   * @param {Record<string, string>} [includes] - インクルードするファイル
+   * @returns {Workspace} 作成したワークスペース
+   */
+  const createWorkspace = useCallback(
+    (
+      name: string,
+      yaml: string,
+      view?: ShareViewState,
+      includes?: Record<string, string>
+    ): Workspace => {
+      const workspace = {
+        id: createWorkspaceId(),
+        name: name.trim() || DEFAULT_WORKSPACE_NAME,
+        yaml,
+        view,
+        includes,
+        updatedAt: Date.now(),
+      };
+      applyCurrent(workspace, true);
+      return workspace;
+    },
+    [applyCurrent]
+  );
+
+  /**
+   * グリモワールを読み込んだワークスペースを開く
+   * 同じ名前のワークスペースがあれば、確認してからYAMLテキストを置き換えて開き、保存した配置を変更後のグリモワールにも使う。
+   * 置き換えない場合と同じ名前のワークスペースがない場合は、重ならない名前で新しく作成する
+   * @param {string} name - 表示名（ファイル名やURL）
+   * @param {string} yaml - YAMLテキスト
+   * @param {Function} confirmOverwrite - 保存されているYAMLテキストを置き換えてよいか確認するコールバック（内容が同じ場合は呼ばない）
+   * @returns {Workspace} 開いたワークスペース
+   */
+  const openWorkspaceByName = useCallback(
+    (
+      name: string,
+      yaml: string,
+      confirmOverwrite: (workspace: Workspace) => boolean
+    ): Workspace => {
+      const existing = workspacesRef.current.find(
+        (workspace) => workspace.name === name
+      );
+      if (existing && (existing.yaml === yaml || confirmOverwrite(existing))) {
+        const workspace = { ...existing, yaml, updatedAt: Date.now() };
+        applyCurrent(workspace, true);
+        return workspace;
+      }
+      return createWorkspace(
+        uniqueWorkspaceName(name, workspacesRef.current),
+        yaml
+      );
+    },
+    [applyCurrent, createWorkspace]
+  );
+
+  /**
+   * 保存されているワークスペースを開く
+   * @param {Workspace} workspace - ワークスペース
+   */
+  const openWorkspace = useCallback(
+    (workspace: Workspace) => applyCurrent(workspace, false),
+    [applyCurrent]
+  );
+
+  /**
+   * ワークスペースの名前を変更する
+   * @param {Workspace} workspace - ワークスペース
+   * @param {string} name - 新しい表示名
+   */
+  const renameWorkspace = useCallback(
+    (workspace: Workspace, name: string) => {
+      if (name.trim() === "") return;
+      const target =
+        currentRef.current?.id === workspace.id
+          ? currentRef.current
+          : workspace;
+      const renamed = { ...target, name: name.trim() };
+      if (currentRef.current?.id === workspace.id) {
+        applyCurrent(renamed, true);
+      } else {
+        putWorkspace(renamed)
+          .then(refresh)
+          .catch((error) => console.error("Error saving workspace:", error));
+      }
+    },
+    [applyCurrent, refresh]
+  );
+
+  /**
+   * ワークスペースを削除する（開いている場合は閉じる）
+   * @param {Workspace} workspace - ワークスペース
+   */
+  const removeWorkspace = useCallback(
+    (workspace: Workspace) => {
+      if (currentRef.current?.id === workspace.id) applyCurrent(null, false);
+      deleteWorkspace(workspace.id)
+        .then(refresh)
+        .catch((error) => console.error("Error deleting workspace:", error));
+    },
+    [applyCurrent, refresh]
+  );
+
+  return {
+    workspaces,
+    loaded,
+    current,
+    saveWorkspace,
+    createWorkspace,
+    openWorkspaceByName,
+    openWorkspace,
+    renameWorkspace,
+    removeWorkspace,
+  };
+}
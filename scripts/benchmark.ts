@@ -0,0 +1,122 @@
+import { writeFileSync } from "fs";
+import { performance } from "perf_hooks";
+import { LayoutEngineId } from "@/types/layout";
+import { generateGrimoireFixture } from "@/utils/grimoireFixture";
+import { buildGraphModel, parseGrimoire } from "@/utils/yamlParser";
+import { layoutGraph } from "@/utils/layout";
+import { applyGraphFilter, emptyFilter } from "@/utils/graphFilter";
+import { buildExecutionPlan } from "@/utils/executionPlan";
+
+// 使い方の説明
+const USAGE = `使い方: npm run benchmark -- [files...] [options]
+
+ファイル数ごとに合成グリモワールを生成し、解析・レイアウトなどにかかる時間を表示する
+ファイル数を省略すると 100 500 1000 で計測する
+
+オプション:
+  --seed <number>        合成グリモワールの乱数のシード
+  -o, --output <path>    最後のファイル数の合成グリモワールをYAMLで保存する（計測はしない）`;
+
+/**
+ * 処理にかかった時間を計測
+ * @param {Function} task - 計測する処理
+ * @returns {{result: T, time: number}} 処理の結果とかかった時間（ミリ秒）
+ */
+function measure<T>(task: () => T): { result: T; time: number } {
+  const start = performance.now();
+  const result = task();
+  return { result, time: performance.now() - start };
+}
+
+/**
+ * 1つのファイル数で各処理の時間を計測
+ * @param {number} fileCount - ファイル数
+ * @param {number} seed - 乱数のシード
+ * @returns {Record<string, string>} 表の1行（列名と値）
+ */
+function benchmark(fileCount: number, seed: number): Record<string, string> {
+  const yamlText = generateGrimoireFixture(fileCount, { seed });
+  const parsed = measure(() => parseGrimoire(yamlText));
+  if (!parsed.result.data) {
+    throw new Error(
+      `合成グリモワールを解析できません（${fileCount} ファイル）`
+    );
+  }
+  const data = parsed.result.data;
+  const model = measure(() => buildGraphModel(data));
+  const { files, edges } = model.result;
+
+  const row: Record<string, string> = {
+    files: String(files.length),
+    edges: String(edges.length),
+    parse: parsed.time.toFixed(1),
+    model: model.time.toFixed(1),
+  };
+  (["layered", "force"] as LayoutEngineId[]).forEach((engine) => {
+    row[engine] = measure(() =>
+      layoutGraph({
+        files,
+        edges,
+        collapsed: [],
+        options: { engine, direction: "TB" },
+      })
+    ).time.toFixed(1);
+  });
+  row.filter = measure(() =>
+    applyGraphFilter(files, edges, { ...emptyFilter, query: "file1" })
+  ).time.toFixed(1);
+  row.plan = measure(() => buildExecutionPlan(files, edges)).time.toFixed(1);
+  return row;
+}
+
+/**
+ * ベンチマークのエントリーポイント
+ * @param {string[]} argv - コマンドライン引数
+ * @returns {number} 終了コード
+ */
+function main(argv: string[]): number {
+  const sizes: number[] = [];
+  let seed = 1;
+  let output: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case "--seed":
+        seed = Number(value);
+        i++;
+        break;
+      case "-o":
+      case "--output":
+        output = value;
+        i++;
+        break;
+      default: {
+        const size = Number(argv[i]);
+        if (!Number.isInteger(size) || size <= 0) {
+          console.error(`ファイル数が正しくありません: ${argv[i]}\n\n${USAGE}`);
+          return 2;
+        }
+        sizes.push(size);
+      }
+    }
+  }
+  if (!Number.isFinite(seed) || (output !== undefined && !output)) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (sizes.length === 0) sizes.push(100, 500, 1000);
+
+  if (output) {
+    writeFileSync(
+      output,
+      generateGrimoireFixture(sizes[sizes.length - 1], { seed })
+    );
+    return 0;
+  }
+
+  // 単位はミリ秒
+  console.table(sizes.map((size) => benchmark(size, seed)));
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
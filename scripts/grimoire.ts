@@ -0,0 +1,362 @@
+import { readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import { Diagnostic } from "@/types/diagnostic";
+import { GraphOutputFormat } from "@/types/api";
+import { parseLayoutOptions, renderGrimoire } from "@/utils/graphRenderer";
+import { parseThemeConfig } from "@/utils/theme";
+import { parseLintConfig } from "@/utils/lintConfig";
+import { parseGrimoire } from "@/utils/yamlParser";
+import { applyGrimoireEdit } from "@/utils/yamlWriter";
+import { LintConfig } from "@/types/lint";
+import { ProjectFile } from "@/types/source";
+import { isProjectFile, skeletonToYaml } from "@/utils/projectSkeleton";
+import { isScannableFile } from "@/utils/importScanner";
+import { readZipProject } from "@/utils/grimoireSource";
+import { encodePermalink } from "@/utils/permalink";
+
+// 使い方の説明
+const USAGE = `使い方: npm run grimoire -- <command> [file] [options]
+
+コマンド:
+  check <file>   グリモワールを検証し、診断結果を表示する
+  json <file>    ノード・エッジ・エージェントをJSONで出力する
+  svg <file>     グラフをSVGで出力する
+  skeleton <dir> プロジェクトのフォルダ（またはzipファイル）から雛形のYAMLを作成する
+
+<file> を省略するか "-" を指定すると標準入力から読み込む
+
+オプション:
+  -o, --output <path>    出力先のファイル（省略時は標準出力）
+  --engine <engine>      レイアウトエンジン（layered / force）
+  --direction <dir>      グラフの方向（TB / LR）
+  --theme <path>         SVGの色に使うテーマのJSON（画面の「テーマ」から保存したもの）
+  --include <path>       「!include」で参照するファイル（複数回指定できる）
+  --lint <path>          リントの設定のJSON（画面の「リントの設定」から保存したもの）で、リントの規則でも検査する
+  --fix                  リントの診断結果のうち自動で修正できるものを入力ファイルに書き戻す（--lint と合わせて使う）
+  --agent <ext>=<agent>  skeleton で拡張子に割り当てるエージェント（複数回指定できる。例: --agent py=backend）
+  --url <url>            skeleton で作成した雛形をそのまま開ける、画面のURLの共有リンクを表示する
+
+エラーの診断結果がある場合は終了コード 1 で終了する`;
+
+/**
+ * コマンドライン引数
+ * @interface CliArgs
+ * @property {string} command - コマンド
+ * @property {string} file - 入力ファイル（"-"の場合は標準入力）
+ * @property {string} [output] - 出力先のファイル
+ * @property {string} [engine] - レイアウトエンジン
+ * @property {string} [direction] - グラフの方向
+ * @property {string} [theme] - テーマのJSONファイル
+ * @property {string[]} includes - 「!include」で参照するファイル
+ * @property {string} [lint] - リントの設定のJSONファイル
+ * @property {boolean} fix - リントの修正を入力ファイルに書き戻すかどうか
+ * @property {Record<string, string>} agents - 雛形で拡張子に割り当てるエージェント
+ * @property {string} [url] - 雛形の共有リンクに使う画面のURL
+ */
+interface CliArgs {
+  command: string;
+  file: string;
+  output?: string;
+  engine?: string;
+  direction?: string;
+  theme?: string;
+  includes: string[];
+  lint?: string;
+  fix: boolean;
+  agents: Record<string, string>;
+  url?: string;
+}
+
+/**
+ * コマンドライン引数を解析
+ * @param {string[]} argv - コマンドライン引数（node とスクリプトのパスを除く）
+ * @returns {CliArgs} 解析した引数
+ * @throws {Error} 引数が正しくない場合
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const [command, ...rest] = argv;
+  if (!command || !["check", "json", "svg", "skeleton"].includes(command)) {
+    throw new Error(command ? `不明なコマンドです: ${command}` : USAGE);
+  }
+
+  const args: CliArgs = {
+    command,
+    file: "-",
+    includes: [],
+    fix: false,
+    agents: {},
+  };
+  const positional: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const value = rest[i + 1];
+    switch (rest[i]) {
+      case "-o":
+      case "--output":
+        args.output = value;
+        i++;
+        break;
+      case "--engine":
+        args.engine = value;
+        i++;
+        break;
+      case "--direction":
+        args.direction = value;
+        i++;
+        break;
+      case "--theme":
+        args.theme = value;
+        i++;
+        break;
+      case "--include":
+        args.includes.push(value);
+        i++;
+        break;
+      case "--lint":
+        args.lint = value;
+        i++;
+        break;
+      case "--fix":
+        args.fix = true;
+        break;
+      case "--agent": {
+        const [extension, agent] = (value ?? "").split("=");
+        if (!extension || !agent) {
+          throw new Error(
+            "--agent は <拡張子>=<エージェント> の形式で指定してください"
+          );
+        }
+        args.agents[extension.replace(/^\./, "").toLowerCase()] = agent;
+        i++;
+        break;
+      }
+      case "--url":
+        args.url = value;
+        i++;
+        break;
+      default:
+        positional.push(rest[i]);
+    }
+  }
+  if (positional.length > 1) {
+    throw new Error("入力ファイルは1つだけ指定してください");
+  }
+  args.file = positional[0] ?? "-";
+  if (args.command === "skeleton" && args.file === "-") {
+    throw new Error(
+      "skeleton はプロジェクトのフォルダかzipファイルを指定してください"
+    );
+  }
+  if (args.fix && (!args.lint || args.file === "-")) {
+    throw new Error("--fix は --lint と入力ファイルを指定して使ってください");
+  }
+  return args;
+}
+
+/**
+ * 診断結果を「ファイル:行:列: 重要度: メッセージ」の形式に変換
+ * @param {string} file - 入力ファイル
+ * @param {Diagnostic} diagnostic - 診断結果
+ * @returns {string} 表示用の文字列
+ */
+function formatDiagnostic(file: string, diagnostic: Diagnostic): string {
+  const name = file === "-" ? "<stdin>" : file;
+  const fix = diagnostic.fix ? `（修正できます: ${diagnostic.fix.label}）` : "";
+  return `${name}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message}${fix} [${diagnostic.code}]`;
+}
+
+/**
+ * リントの診断結果の修正をすべて適用する
+ * 修正で行の位置が変わるため、1つ適用するたびに解析し直す
+ * 適用できない修正は読み飛ばし、残りの修正を続けて適用する
+ * @param {string} yamlText - YAMLテキスト
+ * @param {Record<string, string>} includes - 「!include」で参照するファイル
+ * @param {LintConfig} lint - リントの設定
+ * @returns {{text: string, count: number}} 修正したYAMLテキストと適用した修正の数
+ */
+function applyLintFixes(
+  yamlText: string,
+  includes: Record<string, string>,
+  lint: LintConfig
+): { text: string; count: number } {
+  let text = yamlText;
+  // 適用できなかった修正（同じ内容を繰り返さないようにする）
+  const skipped = new Set<string>();
+  let count = 0;
+  for (;;) {
+    const fix = parseGrimoire(text, includes, lint)
+      .diagnostics.map((diagnostic) => diagnostic.fix)
+      .find((fix) => fix && !skipped.has(JSON.stringify(fix.edit)));
+    if (!fix) break;
+    let next: string;
+    try {
+      next = applyGrimoireEdit(text, fix.edit);
+    } catch (error) {
+      console.error(
+        `修正を適用できませんでした: ${fix.label}（${
+          (error as Error).message
+        }）`
+      );
+      next = text;
+    }
+    if (next === text) {
+      skipped.add(JSON.stringify(fix.edit));
+    } else {
+      text = next;
+      count++;
+    }
+  }
+  return { text, count };
+}
+
+/**
+ * プロジェクトのフォルダのファイルを集める
+ * 依存パッケージ・隠しフォルダには入らず、依存先を推測するソースコードだけ内容を読み込む
+ * @param {string} root - プロジェクトのフォルダ
+ * @returns {ProjectFile[]} プロジェクトのファイル（フォルダからの相対パス）
+ */
+function readProjectFolder(root: string): ProjectFile[] {
+  const files: ProjectFile[] = [];
+  const walk = (directory: string) => {
+    readdirSync(directory, { withFileTypes: true }).forEach((entry) => {
+      const fullPath = join(directory, entry.name);
+      const path = relative(root, fullPath).split("\\").join("/");
+      if (!isProjectFile(path.split("/"))) return;
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        files.push({
+          path,
+          text: isScannableFile(path)
+            ? readFileSync(fullPath, "utf8")
+            : undefined,
+        });
+      }
+    });
+  };
+  walk(root);
+  return files;
+}
+
+/**
+ * skeletonコマンド: プロジェクトから雛形のYAMLを作成して出力する
+ * @param {CliArgs} args - コマンドライン引数
+ * @returns {number} 終了コード
+ */
+function runSkeleton(args: CliArgs): number {
+  let yamlText: string;
+  try {
+    const files = statSync(args.file).isDirectory()
+      ? readProjectFolder(args.file)
+      : readZipProject(readFileSync(args.file));
+    yamlText = skeletonToYaml(files, { agents: args.agents });
+  } catch (error) {
+    console.error((error as Error).message);
+    return 2;
+  }
+
+  if (args.output) {
+    writeFileSync(args.output, yamlText);
+  } else {
+    process.stdout.write(yamlText);
+  }
+  if (args.url) {
+    try {
+      const hash = encodePermalink({ version: 1, yaml: yamlText });
+      console.error(`${args.url.replace(/[/#]+$/, "")}/${hash}`);
+    } catch (error) {
+      console.error((error as Error).message);
+      return 2;
+    }
+  }
+  return 0;
+}
+
+/**
+ * CLIのエントリーポイント
+ * @param {string[]} argv - コマンドライン引数
+ * @returns {number} 終了コード
+ */
+function main(argv: string[]): number {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error((error as Error).message);
+    return 2;
+  }
+  if (args.command === "skeleton") {
+    return runSkeleton(args);
+  }
+
+  let yamlText: string;
+  let layout;
+  let theme;
+  let lint: LintConfig | undefined;
+  const includes: Record<string, string> = {};
+  try {
+    yamlText = readFileSync(args.file === "-" ? 0 : args.file, "utf8");
+    layout = parseLayoutOptions(args.engine, args.direction);
+    theme = args.theme
+      ? parseThemeConfig(readFileSync(args.theme, "utf8"))
+      : undefined;
+    args.includes.forEach((path) => {
+      includes[path] = readFileSync(path, "utf8");
+    });
+    lint = args.lint
+      ? parseLintConfig(readFileSync(args.lint, "utf8"))
+      : undefined;
+  } catch (error) {
+    console.error((error as Error).message);
+    return 2;
+  }
+
+  if (args.fix && lint) {
+    let fixed;
+    try {
+      fixed = applyLintFixes(yamlText, includes, lint);
+    } catch (error) {
+      console.error((error as Error).message);
+      return 2;
+    }
+    if (fixed.count > 0) {
+      writeFileSync(args.file, fixed.text);
+      yamlText = fixed.text;
+    }
+    console.error(`${fixed.count} 件の問題を修正しました`);
+  }
+
+  const format: GraphOutputFormat = args.command === "svg" ? "svg" : "json";
+  const result = renderGrimoire(yamlText, {
+    format,
+    layout,
+    theme,
+    includes,
+    lint,
+  });
+  result.diagnostics.forEach((diagnostic) =>
+    console.error(formatDiagnostic(args.file, diagnostic))
+  );
+
+  if (args.command !== "check" && result.ok) {
+    const output =
+      format === "svg"
+        ? result.svg ?? ""
+        : JSON.stringify(result.graph, null, 2) + "\n";
+    if (args.output) {
+      writeFileSync(args.output, output);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  if (args.command === "check" && result.ok) {
+    console.error(
+      result.diagnostics.length === 0
+        ? "問題は見つかりませんでした"
+        : `エラーはありません（警告など ${result.diagnostics.length} 件）`
+    );
+  }
+  return result.ok ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseGrimoire } from "@/utils/yamlParser";
+
+test("parseGrimoire: 相対パスで書いた循環依存の位置を、dependencyの該当する行で示す", () => {
+  const yamlText = `src:
+  structure.yaml:
+    content: プロジェクトの構成
+    dependency: []
+    agent: claude
+    api: []
+  lib:
+    a.ts:
+      content: A
+      dependency:
+        - src/lib/c.ts
+        - ./b.ts
+      agent: claude
+      api: []
+    b.ts:
+      content: B
+      dependency:
+        - ../lib/a.ts
+      agent: claude
+      api: []
+    c.ts:
+      content: C
+      dependency: []
+      agent: claude
+      api: []
+`;
+  const lines = yamlText.split("\n");
+  const cycles = parseGrimoire(yamlText).diagnostics.filter(
+    (d) => d.code === "dependency-cycle"
+  );
+
+  assert.equal(cycles.length, 1);
+  const [cycle] = cycles;
+  const source = cycle.path.slice(0, -2).join("/");
+  const spec = source === "src/lib/a.ts" ? "- ./b.ts" : "- ../lib/a.ts";
+  assert.equal(lines[cycle.line - 1].trim(), spec);
+});
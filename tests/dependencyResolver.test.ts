@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createDependencyIndex,
+  resolveDependency,
+} from "@/utils/dependencyResolver";
+import { matchesFilePattern } from "@/utils/theme";
+
+test("resolveDependency: globパターンは大文字と小文字を区別してファイルに照合する", () => {
+  const index = createDependencyIndex(["src/main.ts", "src/a.ts", "src/B.TS"]);
+  assert.deepEqual(resolveDependency("src/main.ts", "src/*.TS", index), {
+    targets: ["src/B.TS"],
+    via: "glob",
+  });
+  assert.deepEqual(resolveDependency("src/main.ts", "src/*.ts", index), {
+    targets: ["src/a.ts"],
+    via: "glob",
+  });
+});
+
+test("matchesFilePattern: テーマの規則のglobパターンは大文字と小文字を区別しない", () => {
+  assert.equal(matchesFilePattern("src/B.TS", "TS", "*.ts"), true);
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SpawnSyncReturns, spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+
+const ROOT = join(__dirname, "..");
+const CLI = join(ROOT, "scripts", "grimoire.ts");
+
+/**
+ * CLIを指定したフォルダで実行する
+ * @param {string} cwd - 実行するフォルダ
+ * @param {string[]} args - コマンドライン引数
+ * @returns {SpawnSyncReturns<string>} 実行結果
+ */
+function runCli(cwd: string, args: string[]): SpawnSyncReturns<string> {
+  return spawnSync(
+    process.execPath,
+    ["--import", pathToFileURL(require.resolve("tsx")).href, CLI, ...args],
+    {
+      cwd,
+      encoding: "utf8",
+      env: { ...process.env, TSX_TSCONFIG_PATH: join(ROOT, "tsconfig.json") },
+    }
+  );
+}
+
+test("grimoire check --fix: 「!include」で読み込んだファイルは修正せず、本体のテキストの修正を書き戻す", () => {
+  const directory = mkdtempSync(join(tmpdir(), "grimoire-"));
+  try {
+    writeFileSync(
+      join(directory, "m.yaml"),
+      [
+        "src:",
+        "  structure.yaml:",
+        "    content: インクルードを含むグリモワール",
+        "    dependency: [src/a.ts, src/b.ts]",
+        '    agent: ""',
+        "    api: []",
+        "  a.ts:",
+        "    content: 本体で定義したファイル",
+        "    dependency: [src/b.ts]",
+        "    agent: claudee",
+        "    api: []",
+        "  b.ts: !include inc.yaml",
+        "",
+      ].join("\n")
+    );
+    writeFileSync(
+      join(directory, "inc.yaml"),
+      [
+        "content: インクルードしたファイル",
+        "dependency: []",
+        "agent: claudee",
+        "api: []",
+        "",
+      ].join("\n")
+    );
+    writeFileSync(
+      join(directory, "lint.json"),
+      JSON.stringify({ allowedAgents: ["claude"] })
+    );
+
+    const result = runCli(directory, [
+      "check",
+      "m.yaml",
+      "--include",
+      "inc.yaml",
+      "--lint",
+      "lint.json",
+      "--fix",
+    ]);
+
+    assert.notEqual(result.status, 2, result.stderr);
+    assert.match(result.stderr, /1 件の問題を修正しました/);
+    const fixed = readFileSync(join(directory, "m.yaml"), "utf8");
+    assert.match(fixed, /agent: claude\n/);
+    assert.equal(
+      readFileSync(join(directory, "inc.yaml"), "utf8").includes("claudee"),
+      true
+    );
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HistoryEntry } from "@/types/history";
+import {
+  createResetEntry,
+  restoreOnRedo,
+  restoreOnUndo,
+} from "@/utils/history";
+
+const edited: HistoryEntry = {
+  yaml: "src:\n  a.ts:\n    content: a\n    dependency: []\n    agent: coder\n    api: []\n",
+  positions: { "src/a.ts": { position: { x: 120, y: 40 } } },
+};
+
+test("restoreOnUndo: リセットを元に戻すと、YAMLテキスト・比較元のテキスト・ノードの位置を復元する", () => {
+  const reset = createResetEntry(edited, "src: {}\n");
+  assert.equal(reset.yaml, "");
+
+  const undone = restoreOnUndo(reset, edited);
+  assert.deepEqual(undone, {
+    yaml: edited.yaml,
+    positions: { "src/a.ts": { position: { x: 120, y: 40 } } },
+    baseText: "src: {}\n",
+  });
+
+  // やり直すと比較元のテキストも消える
+  assert.equal(restoreOnRedo(reset).baseText, "");
+});
+
+test("restoreOnUndo: リセット以外の操作を元に戻しても、比較元のテキストは変更しない", () => {
+  const next: HistoryEntry = { ...edited, yaml: `${edited.yaml}# edit\n` };
+  assert.equal(restoreOnUndo(next, edited).baseText, undefined);
+  assert.equal(restoreOnRedo(next).baseText, undefined);
+  // 比較元が空の場合は、リセットを元に戻しても比較元を変更しない
+  assert.equal(
+    restoreOnUndo(createResetEntry(edited, ""), edited).baseText,
+    undefined
+  );
+});
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findImportedFiles } from "@/utils/importScanner";
+
+test("findImportedFiles: 括弧で囲んで複数行に分けたPythonのimport文から依存先を推測する", () => {
+  const projectPaths = new Set([
+    "app/main.py",
+    "app/models/user.py",
+    "app/models/post.py",
+    "app/utils.py",
+  ]);
+  const text = [
+    "from app.models import (",
+    "    user,  # ユーザー",
+    "    post,",
+    ")",
+    "from app.utils import (helper)  # 1行の括弧",
+  ].join("\n");
+
+  assert.deepEqual(
+    findImportedFiles("app/main.py", text, projectPaths).sort(),
+    ["app/models/post.py", "app/models/user.py", "app/utils.py"]
+  );
+});
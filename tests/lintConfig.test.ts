@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  defaultLintConfig,
+  parseLintConfig,
+  serializeLintConfig,
+} from "@/utils/lintConfig";
+
+test("parseLintConfig: 継承したプロパティの名前を規則として受け付けない", () => {
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ rules: { toString: "off" } })),
+    /不明な規則です: toString/
+  );
+});
+
+test("parseLintConfig: rules・agentSkills に null を指定した場合はエラーにする", () => {
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ rules: null })),
+    /rules はオブジェクトで指定してください/
+  );
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ agentSkills: null })),
+    /agentSkills はオブジェクトで指定してください/
+  );
+});
+
+test("parseLintConfig: 上限・一覧に null を指定した場合は初期値を使わずエラーにする", () => {
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ minContentLength: null })),
+    /minContentLength は0以上の整数で指定してください/
+  );
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ maxFanIn: null })),
+    /maxFanIn は0以上の整数で指定してください/
+  );
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ allowedAgents: null })),
+    /allowedAgents は文字列の配列で指定してください/
+  );
+  assert.throws(
+    () => parseLintConfig(JSON.stringify({ apiRegistry: null })),
+    /apiRegistry は文字列の配列で指定してください/
+  );
+});
+
+test("parseLintConfig: 省略した上限・一覧は初期値を使う", () => {
+  const config = parseLintConfig(JSON.stringify({}));
+  assert.equal(config.minContentLength, defaultLintConfig.minContentLength);
+  assert.equal(config.maxFanIn, defaultLintConfig.maxFanIn);
+  assert.deepEqual(config.allowedAgents, []);
+  assert.deepEqual(config.apiRegistry, []);
+});
+
+test("parseLintConfig: 保存した設定を読み込み直せる", () => {
+  assert.deepEqual(
+    parseLintConfig(serializeLintConfig(defaultLintConfig)),
+    defaultLintConfig
+  );
+});
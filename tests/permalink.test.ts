@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ShareViewState } from "@/types/share";
+import { decodePermalink, encodePermalink } from "@/utils/permalink";
+import { emptyFilter } from "@/utils/graphFilter";
+
+const view: ShareViewState = {
+  positions: { "src/a.ts": { position: { x: 10, y: 20 } } },
+  collapsed: ["src/lib"],
+  filter: {
+    ...emptyFilter,
+    facets: { ...emptyFilter.facets, agent: ["coder"] },
+  },
+  viewport: { x: 0, y: 0, zoom: 1 },
+  layout: { engine: "layered", direction: "TB" },
+  density: "detailed",
+};
+
+/**
+ * 表示状態の一部を書き換えた共有リンクを読み込み直す
+ * @param {Record<string, unknown>} changes - 書き換える項目
+ * @returns {ShareViewState | undefined} 読み込んだ表示状態
+ */
+function decodeView(
+  changes: Record<string, unknown>
+): ShareViewState | undefined {
+  const hash = encodePermalink({
+    version: 1,
+    yaml: "src: {}\n",
+    view: { ...view, ...changes } as ShareViewState,
+  });
+  return decodePermalink(hash)?.view;
+}
+
+test("decodePermalink: 正しい表示状態はそのまま読み込む", () => {
+  assert.deepEqual(decodeView({}), view);
+});
+
+test("decodePermalink: 形式が正しくない項目を含む表示状態は使わない", () => {
+  const malformed: Record<string, unknown>[] = [
+    {
+      filter: {
+        ...view.filter,
+        facets: { ...view.filter.facets, agent: "coder" },
+      },
+    },
+    { filter: { ...view.filter, facets: { ...view.filter.facets, api: [1] } } },
+    { filter: { ...view.filter, mode: "blur" } },
+    { filter: { ...view.filter, focus: { fileId: "src/a.ts" } } },
+    { layout: { engine: "layered", direction: "RL" } },
+    { layout: { engine: "circular", direction: "TB" } },
+    { layout: { engine: "toString", direction: "TB" } },
+    { positions: { "src/a.ts": { position: { x: "10", y: 20 } } } },
+    { positions: { "src/a.ts": { x: 10, y: 20 } } },
+    { positions: { "src/a.ts": null } },
+    { collapsed: [1] },
+    { viewport: { x: 0, y: 0 } },
+  ];
+  malformed.forEach((changes) =>
+    assert.equal(decodeView(changes), undefined, JSON.stringify(changes))
+  );
+});
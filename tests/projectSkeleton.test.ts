@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildProjectSkeleton, skeletonToYaml } from "@/utils/projectSkeleton";
+import { parseGrimoire } from "@/utils/yamlParser";
+import { YamlData, YamlFile } from "@/types/yaml";
+
+/**
+ * YamlDataから、srcからのパスで指定したファイル定義を取得する
+ * @param {YamlData} data - 解析したYAMLデータ
+ * @param {string[]} path - srcからのパス
+ * @returns {YamlFile} ファイル定義
+ */
+function getFile(data: YamlData, path: string[]): YamlFile {
+  return path.reduce<unknown>(
+    (entry, key) => (entry as Record<string, unknown>)[key],
+    data.src
+  ) as YamlFile;
+}
+
+test("skeletonToYaml: ファイル用のフィールドと同じ名前のフォルダを含む雛形を、エラーなく解析できる", () => {
+  const yamlText = skeletonToYaml([
+    {
+      path: "my-app/app/api/route.ts",
+      text: 'import { handler } from "@/lib/handler";',
+    },
+    { path: "my-app/app/page.tsx", text: 'import "./api/route";' },
+    { path: "my-app/lib/handler.ts", text: "export const handler = 1;" },
+    { path: "my-app/content/post.md" },
+    { path: "my-app/agent/run.py", text: "from lib import handler" },
+  ]);
+  const result = parseGrimoire(yamlText);
+
+  assert.deepEqual(
+    result.diagnostics.filter((d) => d.severity === "error"),
+    []
+  );
+  assert.ok(result.data);
+  assert.deepEqual(
+    getFile(result.data, ["app", "api", "route.ts"]).dependency,
+    ["src/lib/handler.ts"]
+  );
+  assert.deepEqual(getFile(result.data, ["app", "page.tsx"]).dependency, [
+    "src/app/api/route.ts",
+  ]);
+});
+
+test("buildProjectSkeleton: srcフォルダの外のファイルは雛形に含めず、一覧にしてYAMLの先頭にも記載する", () => {
+  const files = [
+    { path: "src/index.ts", text: "" },
+    { path: "README.md" },
+    { path: "scripts/build.ts", text: "" },
+  ];
+  const { data, skipped } = buildProjectSkeleton(files);
+  assert.deepEqual(skipped, ["README.md", "scripts/build.ts"]);
+  assert.deepEqual(Object.keys(data.src as Record<string, unknown>).sort(), [
+    "index.ts",
+    "structure.yaml",
+  ]);
+
+  const yamlText = skeletonToYaml(files);
+  assert.match(
+    yamlText,
+    /^# src フォルダの外にあるため、雛形に含めなかったファイル:\n#   - README\.md\n#   - scripts\/build\.ts\n/
+  );
+  assert.deepEqual(
+    parseGrimoire(yamlText).diagnostics.filter((d) => d.severity === "error"),
+    []
+  );
+});
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  defaultThemeConfig,
+  parseThemeConfig,
+  serializeThemeConfig,
+} from "@/utils/theme";
+
+test("parseThemeConfig: 継承したプロパティの名前を配色モードとして受け付けない", () => {
+  assert.throws(
+    () => parseThemeConfig(JSON.stringify({ mode: "toString" })),
+    /不明な配色モードです: toString/
+  );
+  assert.throws(
+    () => parseThemeConfig(JSON.stringify({ mode: "__proto__" })),
+    /不明な配色モードです/
+  );
+});
+
+test("parseThemeConfig: rules・agentColors に null を指定した場合はエラーにする", () => {
+  assert.throws(
+    () => parseThemeConfig(JSON.stringify({ agentColors: null })),
+    /agentColors はオブジェクトで指定してください/
+  );
+  assert.throws(
+    () => parseThemeConfig(JSON.stringify({ rules: null })),
+    /rules は配列で指定してください/
+  );
+});
+
+test("parseThemeConfig: 保存したテーマを読み込み直せる", () => {
+  assert.deepEqual(
+    parseThemeConfig(serializeThemeConfig(defaultThemeConfig)),
+    defaultThemeConfig
+  );
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectSharedDefinitions } from "@/utils/yamlAnchors";
+
+test("collectSharedDefinitions: 定義し直したアンカーは、それより前のエイリアスを前の定義に対応付ける", () => {
+  const text = [
+    "src:",
+    "  a.ts:",
+    "    content: a",
+    "    dependency: []",
+    "    agent: &owner coder",
+    "    api: []",
+    "  b.ts:",
+    "    content: b",
+    "    dependency: []",
+    "    agent: *owner",
+    "    api: []",
+    "  c.ts:",
+    "    content: c",
+    "    dependency: []",
+    "    agent: &owner writer",
+    "    api: []",
+    "  d.ts:",
+    "    content: d",
+    "    dependency: []",
+    "    agent: *owner",
+    "    api: []",
+  ].join("\n");
+
+  const definitions = collectSharedDefinitions(text);
+  assert.deepEqual(
+    definitions.map(({ anchor, definedAt, usedAt }) => ({
+      anchor,
+      definedAt,
+      usedAt,
+    })),
+    [
+      {
+        anchor: "owner",
+        definedAt: ["src", "a.ts", "agent"],
+        usedAt: [["src", "b.ts", "agent"]],
+      },
+      {
+        anchor: "owner",
+        definedAt: ["src", "c.ts", "agent"],
+        usedAt: [["src", "d.ts", "agent"]],
+      },
+    ]
+  );
+});
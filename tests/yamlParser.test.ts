@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectFiles, parseGrimoire } from "@/utils/yamlParser";
+
+test("collectFiles: ファイル用のフィールドと同じ名前のフォルダだけを持つフォルダも、検証と同じくディレクトリとして扱う", () => {
+  const file = (name: string) =>
+    [
+      `      ${name}:`,
+      `        content: ${name}`,
+      "        dependency: []",
+      "        agent: coder",
+      "        api: []",
+    ].join("\n");
+  const text = [
+    "src:",
+    "  structure.yaml:",
+    "    content: フォルダ名の検証",
+    "    dependency: [src/fields]",
+    '    agent: ""',
+    "    api: []",
+    "  fields:",
+    ...["content", "dependency", "agent", "api"].flatMap((folder) => [
+      `    ${folder}:`,
+      file("index.ts"),
+    ]),
+  ].join("\n");
+
+  const result = parseGrimoire(text);
+  assert.deepEqual(
+    result.diagnostics.filter((d) => d.severity === "error"),
+    []
+  );
+  assert.ok(result.data);
+  assert.deepEqual(
+    collectFiles(result.data)
+      .nodes.map((node) => node.id)
+      .sort(),
+    [
+      "src/fields/agent/index.ts",
+      "src/fields/api/index.ts",
+      "src/fields/content/index.ts",
+      "src/fields/dependency/index.ts",
+      "src/structure.yaml",
+    ]
+  );
+});
+
+test("parseGrimoire: インクルードするファイルが見つからない場合は、インクルードの問題だけを報告する", () => {
+  const text = [
+    "src:",
+    "  structure.yaml:",
+    "    content: インクルードの検証",
+    "    dependency: [src/lib]",
+    '    agent: ""',
+    "    api: []",
+    "  lib:",
+    "    a.ts: !include missing.yaml",
+  ].join("\n");
+
+  const result = parseGrimoire(text);
+  assert.deepEqual(
+    result.diagnostics.map((d) => [d.code, d.path.join("/")]),
+    [["include-not-found", "src/lib/a.ts"]]
+  );
+});
+
+test("parseGrimoire: ドキュメント全体のインクルードが見つからない場合も、インクルードの問題だけを報告する", () => {
+  const result = parseGrimoire(
+    [
+      "src:",
+      "  structure.yaml:",
+      "    content: インクルードの検証",
+      "    dependency: []",
+      '    agent: ""',
+      "    api: []",
+      "---",
+      "!include missing.yaml",
+    ].join("\n")
+  );
+  assert.deepEqual(
+    result.diagnostics.map((d) => d.code),
+    ["include-not-found"]
+  );
+});
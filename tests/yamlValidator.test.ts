@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseGrimoire } from "@/utils/yamlParser";
+import { isFileEntry } from "@/utils/yamlValidator";
+
+// ファイル定義のYAML（インデントはsrc直下の2段目に合わせる）
+const STRUCTURE = `  structure.yaml:
+    content: プロジェクトの構成
+    dependency: []
+    agent: claude
+    api: []
+`;
+
+test("isFileEntry: ファイル用のフィールドの値がマッピングの場合はディレクトリとみなす", () => {
+  assert.equal(
+    isFileEntry({ content: "", dependency: [], agent: "", api: [] }),
+    true
+  );
+  assert.equal(isFileEntry({ api: { "route.ts": { content: "" } } }), false);
+  assert.equal(isFileEntry({ content: { "a.md": { content: "" } } }), false);
+  assert.equal(isFileEntry({}), false);
+});
+
+test("parseGrimoire: api という名前のフォルダをディレクトリとして扱う", () => {
+  const result = parseGrimoire(`src:
+${STRUCTURE}  app:
+    api:
+      route.ts:
+        content: APIのルート
+        dependency: []
+        agent: claude
+        api: []
+`);
+  assert.deepEqual(
+    result.diagnostics.filter((d) => d.severity === "error"),
+    []
+  );
+  assert.ok(result.data);
+});
+
+test("parseGrimoire: content という名前のフォルダをディレクトリとして扱う", () => {
+  const result = parseGrimoire(`src:
+${STRUCTURE}  content:
+    post.md:
+      content: 記事
+      dependency: []
+      agent: writer
+      api: []
+`);
+  assert.deepEqual(
+    result.diagnostics.filter((d) => d.severity === "error"),
+    []
+  );
+  assert.ok(result.data);
+});
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { load } from "js-yaml";
+import { applyGrimoireEdit } from "@/utils/yamlWriter";
+
+const GRIMOIRE = `src:
+  structure.yaml:
+    content: プロジェクトの構成
+    dependency: []
+    agent: claude
+    api: []
+  app.ts:
+    content: アプリ # メインの処理
+    dependency:
+      - src/a.ts
+      - src/b.ts
+      - src/c.ts
+    agent: claude
+    api: []
+`;
+
+test("applyGrimoireEdit: まとめた編集で2つのエッジを同時に削除する", () => {
+  const text = applyGrimoireEdit(GRIMOIRE, {
+    type: "batch",
+    edits: [
+      {
+        type: "removeDependency",
+        fileId: "src/app.ts",
+        dependency: "src/a.ts",
+      },
+      {
+        type: "removeDependency",
+        fileId: "src/app.ts",
+        dependency: "src/c.ts",
+      },
+    ],
+  });
+  const data = load(text) as { src: Record<string, { dependency: string[] }> };
+
+  assert.deepEqual(data.src["app.ts"].dependency, ["src/b.ts"]);
+  // 編集していない行（コメント）はそのまま残る
+  assert.match(text, /# メインの処理/);
+});
+
+test("applyGrimoireEdit: 続けて適用した編集は前の編集の結果に積み重なる", () => {
+  const first = applyGrimoireEdit(GRIMOIRE, {
+    type: "removeDependency",
+    fileId: "src/app.ts",
+    dependency: "src/a.ts",
+  });
+  const second = applyGrimoireEdit(first, {
+    type: "removeDependency",
+    fileId: "src/app.ts",
+    dependency: "src/b.ts",
+  });
+  const data = load(second) as {
+    src: Record<string, { dependency: string[] }>;
+  };
+
+  assert.deepEqual(data.src["app.ts"].dependency, ["src/c.ts"]);
+});
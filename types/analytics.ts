@@ -0,0 +1,46 @@
+/**
+ * エージェントまたはAPIごとの利用状況
+ * @interface UsageStats
+ * @property {string} name - エージェント名またはAPI名
+ * @property {number} fileCount - 使用しているファイルの数
+ * @property {string[]} files - 使用しているファイルのパス
+ * @property {number} share - グリモワール全体のファイルに占める割合（0〜1）
+ * @property {string[]} folders - 使用しているファイルがあるフォルダのパス（最上位は空文字列）
+ */
+export interface UsageStats {
+  name: string;
+  fileCount: number;
+  files: string[];
+  share: number;
+  folders: string[];
+}
+
+/**
+ * ファイルの依存関係の数（ファンイン・ファンアウト）
+ * @interface NodeDegree
+ * @property {string} id - ファイルノードのID
+ * @property {number} fanIn - このファイルに依存しているファイルの数
+ * @property {number} fanOut - このファイルが依存しているファイルの数
+ */
+export interface NodeDegree {
+  id: string;
+  fanIn: number;
+  fanOut: number;
+}
+
+/**
+ * グリモワールの分析結果
+ * @interface GrimoireAnalytics
+ * @property {number} totalFiles - 定義されているファイルの数
+ * @property {UsageStats[]} agents - エージェントごとの利用状況（ファイル数の多い順）
+ * @property {UsageStats[]} apis - APIごとの利用状況（ファイル数の多い順）
+ * @property {string[]} criticalPath - 最も長い依存関係の連鎖（最初に生成するファイルから順に）
+ * @property {NodeDegree[]} hotspots - 依存関係の多いファイル（ファンインとファンアウトの合計の多い順）
+ */
+export interface GrimoireAnalytics {
+  totalFiles: number;
+  agents: UsageStats[];
+  apis: UsageStats[];
+  criticalPath: string[];
+  hotspots: NodeDegree[];
+}
@@ -0,0 +1,50 @@
+import { Diagnostic } from "@/types/diagnostic";
+import { FileEdge, GraphNode } from "@/types/yaml";
+import { LayoutOptions } from "@/types/layout";
+import { ThemeConfig } from "@/types/theme";
+import { LintConfig } from "@/types/lint";
+
+/**
+ * ヘッドレスでの描画結果の形式
+ * @typedef {"json" | "svg"} GraphOutputFormat
+ */
+export type GraphOutputFormat = "json" | "svg";
+
+/**
+ * ヘッドレスでの描画の設定
+ * @interface RenderOptions
+ * @property {GraphOutputFormat} format - 出力形式
+ * @property {LayoutOptions} layout - レイアウトの設定
+ * @property {ThemeConfig} [theme] - SVGの色に使うテーマの設定（省略時は初期状態のテーマ）
+ * @property {Record<string, string>} [includes] - 「!include」で参照するファイル（パスとテキスト）
+ * @property {LintConfig} [lint] - リントの設定（指定した場合はリントの規則でも検査する）
+ */
+export interface RenderOptions {
+  format: GraphOutputFormat;
+  layout: LayoutOptions;
+  theme?: ThemeConfig;
+  includes?: Record<string, string>;
+  lint?: LintConfig;
+}
+
+/**
+ * ヘッドレスでの描画結果（APIのレスポンス・CLIの出力）
+ * @interface RenderResult
+ * @property {boolean} ok - エラーの診断結果が無いかどうか
+ * @property {Diagnostic[]} diagnostics - 構文・スキーマ・依存関係・リントの診断結果
+ * @property {Object} [graph] - グラフ（解析できた場合のみ）
+ * @property {GraphNode[]} graph.nodes - レイアウト済みのノード
+ * @property {FileEdge[]} graph.edges - 依存関係のエッジ
+ * @property {string[]} graph.agents - 使用されているエージェント
+ * @property {string} [svg] - 描画したSVG（形式がsvgで、解析できた場合のみ）
+ */
+export interface RenderResult {
+  ok: boolean;
+  diagnostics: Diagnostic[];
+  graph?: {
+    nodes: GraphNode[];
+    edges: FileEdge[];
+    agents: string[];
+  };
+  svg?: string;
+}
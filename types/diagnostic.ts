@@ -0,0 +1,39 @@
+import { GrimoireEdit } from "@/types/yaml";
+
+/**
+ * 診断メッセージの重要度
+ * @typedef {"error" | "warning" | "info"} DiagnosticSeverity
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * 診断結果を解消するための、YAMLテキストの修正（クイックフィックス）
+ * @interface DiagnosticFix
+ * @property {string} label - 修正の説明（ボタンに表示する）
+ * @property {GrimoireEdit} edit - YAMLテキストに適用する編集
+ */
+export interface DiagnosticFix {
+  label: string;
+  edit: GrimoireEdit;
+}
+
+/**
+ * YAMLの構文チェック・スキーマチェックで検出された問題を表すインターフェース
+ * @interface Diagnostic
+ * @property {string} code - 問題の種類を表す識別子（例: "missing-field"）
+ * @property {DiagnosticSeverity} severity - 重要度
+ * @property {string} message - 表示用メッセージ
+ * @property {string[]} path - 問題のあるYAML上のパス（例: ["src", "App.tsx", "agent"]）
+ * @property {number} line - 行番号（1始まり）
+ * @property {number} column - 列番号（1始まり）
+ * @property {DiagnosticFix} [fix] - 自動で修正できる場合の修正内容
+ */
+export interface Diagnostic {
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  path: string[];
+  line: number;
+  column: number;
+  fix?: DiagnosticFix;
+}
@@ -0,0 +1,62 @@
+/**
+ * フィルターの対象となるファイルの属性
+ * @typedef {"extension" | "agent" | "api" | "folder"} FilterFacet
+ */
+export type FilterFacet = "extension" | "agent" | "api" | "folder";
+
+/**
+ * フィルターに一致しないノードの表示方法（非表示 / 薄く表示）
+ * @typedef {"hide" | "dim"} FilterMode
+ */
+export type FilterMode = "hide" | "dim";
+
+/**
+ * フォーカスモードの設定
+ * @interface GraphFocus
+ * @property {string} fileId - 中心にするファイルノードのID
+ * @property {number} depth - 表示する依存先・依存元の段数
+ */
+export interface GraphFocus {
+  fileId: string;
+  depth: number;
+}
+
+/**
+ * グラフの検索・フィルター・フォーカスの状態
+ * 同じ属性で選んだ値はいずれかに一致すればよく、異なる属性の条件はすべて満たす必要がある
+ * @interface GraphFilter
+ * @property {string} query - 検索キーワード（パス・content・agent・apiのあいまい検索）
+ * @property {Record<FilterFacet, string[]>} facets - 属性ごとに選択した値
+ * @property {FilterMode} mode - 一致しないノードの表示方法
+ * @property {GraphFocus | null} focus - フォーカスモードの設定（無効の場合はnull）
+ */
+export interface GraphFilter {
+  query: string;
+  facets: Record<FilterFacet, string[]>;
+  mode: FilterMode;
+  focus: GraphFocus | null;
+}
+
+/**
+ * 検索結果の1件
+ * @interface SearchResult
+ * @property {string} id - ファイルノードのID
+ * @property {number} score - 一致の度合い（大きいほど良く一致する）
+ * @property {string} field - 最も良く一致したフィールド
+ */
+export interface SearchResult {
+  id: string;
+  score: number;
+  field: string;
+}
+
+/**
+ * フィルターを適用した結果
+ * @interface FilterResult
+ * @property {Set<string>} hidden - グラフから取り除くファイルノードのID
+ * @property {Set<string>} dimmed - 薄く表示するファイルノードのID
+ */
+export interface FilterResult {
+  hidden: Set<string>;
+  dimmed: Set<string>;
+}
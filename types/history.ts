@@ -0,0 +1,27 @@
+import { PinnedPosition } from "@/types/layout";
+
+/**
+ * 元に戻す・やり直すための履歴の1件（テキストの編集とグラフ上の操作をまとめて扱う）
+ * @interface HistoryEntry
+ * @property {string} yaml - YAMLテキスト
+ * @property {Record<string, PinnedPosition>} positions - ドラッグして配置したノードの位置（ファイルのパスごと）
+ * @property {string} [clearedBaseText] - リセットで消した比較元のYAMLテキスト（リセットを元に戻すときに復元する）
+ */
+export interface HistoryEntry {
+  yaml: string;
+  positions: Record<string, PinnedPosition>;
+  clearedBaseText?: string;
+}
+
+/**
+ * 履歴を移動したときに画面に反映する状態
+ * @interface HistoryRestore
+ * @property {string} yaml - YAMLテキスト
+ * @property {Record<string, PinnedPosition>} positions - ドラッグして配置したノードの位置
+ * @property {string} [baseText] - 比較元のYAMLテキスト（変更しない場合は省略）
+ */
+export interface HistoryRestore {
+  yaml: string;
+  positions: Record<string, PinnedPosition>;
+  baseText?: string;
+}
@@ -0,0 +1,26 @@
+import { ExecutionPlan } from "@/types/yaml";
+
+/**
+ * 影響範囲をたどる方向
+ * dependents: 変更したときに生成し直す必要があるファイル（依存元を推移的にたどる）/
+ * dependencies: 生成に必要なファイル（依存先を推移的にたどる）
+ * @typedef {"dependents" | "dependencies"} ImpactDirection
+ */
+export type ImpactDirection = "dependents" | "dependencies";
+
+/**
+ * 1つのファイルを起点にした影響範囲の解析結果
+ * @interface ImpactAnalysis
+ * @property {string} fileId - 起点のファイルノードのID
+ * @property {ImpactDirection} direction - たどった方向
+ * @property {string[]} files - たどりついたファイルのID（起点は含まない）
+ * @property {ExecutionPlan} plan - 起点とたどりついたファイルを生成する順序
+ * @property {[string, number][]} agentCounts - エージェントごとのファイル数（起点を含む、多い順）
+ */
+export interface ImpactAnalysis {
+  fileId: string;
+  direction: ImpactDirection;
+  files: string[];
+  plan: ExecutionPlan;
+  agentCounts: [string, number][];
+}
@@ -0,0 +1,121 @@
+import { FileNode, FileEdge, GraphNode } from "@/types/yaml";
+
+/**
+ * レイアウト計算の対象となる矩形（ファイルノードや折りたたんだフォルダ）
+ * @interface LayoutUnit
+ * @property {string} id - ノードID
+ * @property {number} width - 幅
+ * @property {number} height - 高さ
+ */
+export interface LayoutUnit {
+  id: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * レイアウト計算に使うエッジ
+ * @interface LayoutEdge
+ * @property {string} source - 依存元のノードID
+ * @property {string} target - 依存先のノードID
+ */
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+/**
+ * ノードIDをキーとする位置情報のマップ（矩形の左上座標）
+ * @typedef {Object.<string, {x: number, y: number}>} LayoutPositions
+ */
+export type LayoutPositions = { [key: string]: { x: number; y: number } };
+
+/**
+ * レイアウトの方向
+ * TB: 上から下 / LR: 左から右
+ * @typedef {"TB" | "LR"} LayoutDirection
+ */
+export type LayoutDirection = "TB" | "LR";
+
+/**
+ * レイアウトエンジンの識別子
+ * layered: 階層レイアウト（Sugiyama法） / force: 力学モデル
+ * @typedef {"layered" | "force"} LayoutEngineId
+ */
+export type LayoutEngineId = "layered" | "force";
+
+/**
+ * ファイルノードの表示密度（コンパクト / 詳細）
+ * @typedef {"compact" | "detailed"} NodeDensity
+ */
+export type NodeDensity = "compact" | "detailed";
+
+/**
+ * レイアウトの設定
+ * @interface LayoutOptions
+ * @property {LayoutEngineId} engine - 使用するレイアウトエンジン
+ * @property {LayoutDirection} direction - レイアウトの方向
+ */
+export interface LayoutOptions {
+  engine: LayoutEngineId;
+  direction: LayoutDirection;
+}
+
+/**
+ * レイアウトエンジンのインターフェース
+ * 1つのフォルダ内の矩形とエッジから、各矩形の左上座標を計算する
+ * @interface LayoutEngine
+ * @property {LayoutEngineId} id - エンジンの識別子
+ * @property {string} label - 表示名
+ * @property {Function} layout - レイアウトを計算する関数
+ */
+export interface LayoutEngine {
+  id: LayoutEngineId;
+  label: string;
+  layout: (
+    units: LayoutUnit[],
+    edges: LayoutEdge[],
+    direction: LayoutDirection
+  ) => LayoutPositions;
+}
+
+/**
+ * グラフ全体のレイアウト要求（Web Workerに送るため構造化複製できる値のみを持つ）
+ * @interface LayoutRequest
+ * @property {FileNode[]} files - ファイルノード（未定義の依存先のプレースホルダーを含む）
+ * @property {FileEdge[]} edges - 依存関係のエッジ
+ * @property {string[]} collapsed - 折りたたまれているフォルダのパス
+ * @property {LayoutOptions} options - レイアウトの設定
+ * @property {Object.<string, {width: number, height: number}>} [sizes] - 実際に描画されたノードの大きさ
+ */
+export interface LayoutRequest {
+  files: FileNode[];
+  edges: FileEdge[];
+  collapsed: string[];
+  options: LayoutOptions;
+  sizes?: { [key: string]: { width: number; height: number } };
+}
+
+/**
+ * グラフ全体のレイアウト結果
+ * @interface LayoutResult
+ * @property {GraphNode[]} nodes - 位置を計算したノード（親ノードが子ノードより先に並ぶ）
+ * @property {FileEdge[]} edges - 折りたたみに応じて付け替えたエッジ
+ */
+export interface LayoutResult {
+  nodes: GraphNode[];
+  edges: FileEdge[];
+}
+
+/**
+ * ユーザーがドラッグして固定したノードの位置
+ * @interface PinnedPosition
+ * @property {string} [parentNode] - ドラッグしたときの親ノードのID（位置はこの親からの相対座標）
+ * @property {Object} position - ノードの位置
+ * @property {number} position.x - X座標
+ * @property {number} position.y - Y座標
+ */
+export interface PinnedPosition {
+  parentNode?: string;
+  position: { x: number; y: number };
+}
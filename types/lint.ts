@@ -0,0 +1,46 @@
+import { DiagnosticSeverity } from "@/types/diagnostic";
+
+/**
+ * リントの規則の識別子
+ * short-content: contentが空または短すぎる / unknown-agent: 許可されていないエージェント /
+ * unknown-api: APIの一覧にないAPI / agent-skill: エージェントが扱えない拡張子のファイル /
+ * orphan-file: どのファイルからも依存されていないファイル / fan-in: 依存元が多すぎるファイル /
+ * structure-coverage: structure.yamlのdependencyに含まれていない最上位のファイル・フォルダ
+ * @typedef {string} LintRuleId
+ */
+export type LintRuleId =
+  | "short-content"
+  | "unknown-agent"
+  | "unknown-api"
+  | "agent-skill"
+  | "orphan-file"
+  | "fan-in"
+  | "structure-coverage";
+
+/**
+ * 規則の重要度（"off"の場合は規則を使わない）
+ * @typedef {DiagnosticSeverity | "off"} LintRuleLevel
+ */
+export type LintRuleLevel = DiagnosticSeverity | "off";
+
+/**
+ * ユーザーが編集できるリントの設定（JSONとして保存・読み込みする）
+ * 一覧が空の項目（allowedAgents・apiRegistry・agentSkills）を使う規則は、何も報告しない
+ * @interface LintConfig
+ * @property {1} version - 設定の形式のバージョン
+ * @property {Record<LintRuleId, LintRuleLevel>} rules - 規則ごとの重要度
+ * @property {number} minContentLength - contentの最小の文字数
+ * @property {string[]} allowedAgents - 使用を許可するエージェント
+ * @property {string[]} apiRegistry - 使用できるAPIの一覧
+ * @property {Record<string, string[]>} agentSkills - エージェントごとの扱えるファイル（拡張子またはglobパターン）
+ * @property {number} maxFanIn - 1つのファイルの依存元の最大数
+ */
+export interface LintConfig {
+  version: 1;
+  rules: Record<LintRuleId, LintRuleLevel>;
+  minContentLength: number;
+  allowedAgents: string[];
+  apiRegistry: string[];
+  agentSkills: Record<string, string[]>;
+  maxFanIn: number;
+}
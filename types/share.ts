@@ -0,0 +1,49 @@
+import { GraphFilter } from "@/types/filter";
+import { LayoutOptions, NodeDensity, PinnedPosition } from "@/types/layout";
+
+/**
+ * グラフの表示範囲
+ * @interface ShareViewport
+ * @property {number} x - X方向の移動量
+ * @property {number} y - Y方向の移動量
+ * @property {number} zoom - 拡大率
+ */
+export interface ShareViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * 共有リンクで再現するグラフの表示状態
+ * @interface ShareViewState
+ * @property {Record<string, PinnedPosition>} positions - ノードIDごとの位置（親ノードからの相対座標）
+ * @property {string[]} collapsed - 折りたたまれているフォルダのパス
+ * @property {GraphFilter} filter - 検索・フィルター・フォーカスの状態
+ * @property {ShareViewport} viewport - 表示範囲
+ * @property {LayoutOptions} layout - レイアウトエンジンと方向の設定
+ * @property {NodeDensity} density - ファイルノードの表示密度
+ */
+export interface ShareViewState {
+  positions: Record<string, PinnedPosition>;
+  collapsed: string[];
+  filter: GraphFilter;
+  viewport: ShareViewport;
+  layout: LayoutOptions;
+  density: NodeDensity;
+}
+
+/**
+ * 共有リンクに含める状態
+ * @interface SharedState
+ * @property {1} version - 形式のバージョン
+ * @property {string} yaml - グリモワールのYAMLテキスト
+ * @property {ShareViewState} [view] - グラフの表示状態（グラフを表示していない場合は省略）
+ * @property {Record<string, string>} [includes] - 「!include」で参照するファイル（無い場合は省略）
+ */
+export interface SharedState {
+  version: 1;
+  yaml: string;
+  view?: ShareViewState;
+  includes?: Record<string, string>;
+}
@@ -0,0 +1,69 @@
+/**
+ * グリモワールの読み込み元の種類
+ * @typedef {"file" | "folder" | "zip" | "url"} GrimoireSourceKind
+ */
+export type GrimoireSourceKind = "file" | "folder" | "zip" | "url";
+
+/**
+ * 読み込んだグリモワール
+ * @interface LoadedGrimoire
+ * @property {string} name - 表示名（ファイル名・フォルダ名・URL）
+ * @property {GrimoireSourceKind} kind - 読み込み元の種類
+ * @property {string} text - YAMLテキスト（フォルダ・zipの場合は構造から作成した雛形）
+ * @property {string} [url] - 読み込み元のURL（URLから読み込んだ場合）
+ */
+export interface LoadedGrimoire {
+  name: string;
+  kind: GrimoireSourceKind;
+  text: string;
+  url?: string;
+}
+
+/**
+ * 最近開いたグリモワールの履歴の1件
+ * URLから読み込んだものは開き直すときに再取得するため、テキストを保存しない
+ * @interface RecentFile
+ * @property {string} name - 表示名
+ * @property {GrimoireSourceKind} kind - 読み込み元の種類
+ * @property {string} [text] - YAMLテキスト
+ * @property {string} [url] - 読み込み元のURL
+ * @property {number} openedAt - 開いた日時（UNIXミリ秒）
+ */
+export interface RecentFile {
+  name: string;
+  kind: GrimoireSourceKind;
+  text?: string;
+  url?: string;
+  openedAt: number;
+}
+
+/**
+ * グリモワールの雛形を作るプロジェクトのファイル
+ * @interface ProjectFile
+ * @property {string} path - プロジェクト内のパス（"/"区切り）
+ * @property {string} [text] - ファイルの内容（import文を調べるソースコードの場合のみ）
+ */
+export interface ProjectFile {
+  path: string;
+  text?: string;
+}
+
+/**
+ * プロジェクトから雛形を作るときの設定
+ * @interface SkeletonOptions
+ * @property {Record<string, string>} [agents] - 拡張子ごとに割り当てるエージェント（初期設定に上書きする）
+ */
+export interface SkeletonOptions {
+  agents?: Record<string, string>;
+}
+
+/**
+ * プロジェクトから作成したグリモワールの雛形
+ * @interface ProjectSkeleton
+ * @property {Record<string, unknown>} data - YamlDataの雛形
+ * @property {string[]} skipped - srcフォルダの外にあるため、雛形に含めなかったファイルのパス
+ */
+export interface ProjectSkeleton {
+  data: Record<string, unknown>;
+  skipped: string[];
+}
@@ -0,0 +1,79 @@
+/**
+ * グラフの配色モード（ライト / ダーク / ハイコントラスト）
+ * @typedef {"light" | "dark" | "high-contrast"} ThemeMode
+ */
+export type ThemeMode = "light" | "dark" | "high-contrast";
+
+/**
+ * ファイルの色・アイコン・分類を決める規則
+ * patternに「/」や「*」を含む場合はファイルのパスに対するglobパターン、
+ * 含まない場合は拡張子（先頭の「.」は省略可、大文字小文字を区別しない）として扱う
+ * @interface FileStyleRule
+ * @property {string} pattern - 拡張子またはglobパターン（例: "ts", "**\/*.test.ts", "src/assets/**"）
+ * @property {string} color - 色のHEXコード
+ * @property {string} [icon] - ファイル名の前に表示するアイコン（絵文字など）
+ * @property {string} [category] - 分類（例: "プログラミング言語"）
+ */
+export interface FileStyleRule {
+  pattern: string;
+  color: string;
+  icon?: string;
+  category?: string;
+}
+
+/**
+ * ファイルに適用する表示スタイル
+ * @interface FileStyle
+ * @property {string} color - 色のHEXコード
+ * @property {string} [icon] - アイコン
+ * @property {string} [category] - 分類
+ */
+export interface FileStyle {
+  color: string;
+  icon?: string;
+  category?: string;
+}
+
+/**
+ * ユーザーが編集できるテーマの設定（JSONとして保存・読み込みする）
+ * @interface ThemeConfig
+ * @property {1} version - 設定の形式のバージョン
+ * @property {ThemeMode} mode - 配色モード
+ * @property {string} defaultColor - どの規則にも一致しないファイルの色
+ * @property {FileStyleRule[]} rules - ファイルの規則（先頭から順に調べ、最初に一致したものを使う）
+ * @property {Record<string, string>} agentColors - エージェントごとの色（未指定のエージェントは自動で割り当てる）
+ */
+export interface ThemeConfig {
+  version: 1;
+  mode: ThemeMode;
+  defaultColor: string;
+  rules: FileStyleRule[];
+  agentColors: Record<string, string>;
+}
+
+/**
+ * 配色モードごとのグラフの色
+ * @interface ThemePalette
+ * @property {string} canvas - グラフの背景色
+ * @property {string} grid - 背景の格子の色
+ * @property {string} nodeBackground - ファイルノードの背景色
+ * @property {string} nodeBorder - ファイルノードの枠線の色
+ * @property {string} nodeText - ファイルノードの文字色
+ * @property {string} nodeMuted - ファイルノードの補足情報の文字色
+ * @property {string} folderBackground - フォルダの背景色
+ * @property {string} folderBorder - フォルダの枠線の色
+ * @property {string} folderText - フォルダの文字色
+ * @property {string} edge - エッジの色
+ */
+export interface ThemePalette {
+  canvas: string;
+  grid: string;
+  nodeBackground: string;
+  nodeBorder: string;
+  nodeText: string;
+  nodeMuted: string;
+  folderBackground: string;
+  folderBorder: string;
+  folderText: string;
+  edge: string;
+}
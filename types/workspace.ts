@@ -0,0 +1,21 @@
+import { ShareViewState } from "@/types/share";
+
+/**
+ * ブラウザ（IndexedDB）に自動保存するワークスペース
+ * レイアウトはファイルのパスごとに保存するため、グリモワールを変更しても残っているファイルの位置は再現される
+ * @interface Workspace
+ * @property {string} id - ワークスペースのID
+ * @property {string} name - 表示名
+ * @property {string} yaml - グリモワールのYAMLテキスト
+ * @property {ShareViewState} [view] - グラフの表示状態（positionsにはドラッグして配置したノードの位置だけを含む）
+ * @property {Record<string, string>} [includes] - 「!include」で参照するファイル（パスとテキスト）
+ * @property {number} updatedAt - 最後に保存した日時（UNIXミリ秒）
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  yaml: string;
+  view?: ShareViewState;
+  includes?: Record<string, string>;
+  updatedAt: number;
+}
@@ -1,3 +1,5 @@
+import { Diagnostic } from "@/types/diagnostic";
+
 /**
  * YAMLファイルの基本構造を表すインターフェース
  * @interface YamlFile
@@ -55,9 +57,14 @@ export interface YamlData {
  * @property {string} data.agent - 使用するAIエージェント
  * @property {string[]} data.api - 使用するAPIリスト
  * @property {string} data.extension - ファイルの拡張子
+ * @property {boolean} [data.dependencyWait] - 依存ファイルの完了を待つかどうか（dependency_wait）
+ * @property {boolean} [data.missing] - 依存先として参照されているが定義されていないファイルかどうか
+ * @property {string[]} [data.anchors] - 定義の中で付けたYAMLのアンカー（&name）
+ * @property {string[]} [data.aliases] - 定義の中で参照しているYAMLのエイリアス（*name）
  * @property {Object} position - ノードの位置
  * @property {number} position.x - X座標
  * @property {number} position.y - Y座標
+ * @property {string} [parentNode] - 親フォルダノードのID
  * @property {Object} style - ノードのスタイル
  * @property {string} style.border - ボーダースタイル
  * @property {string} style.width - ノードの幅
@@ -69,26 +76,169 @@ export interface FileNode {
     label?: string;
     content?: string;
     agent?: string;
+    api?: string[];
     extension?: string;
+    dependencyWait?: boolean;
+    missing?: boolean;
+    anchors?: string[];
+    aliases?: string[];
   };
   position: { x: number; y: number };
+  parentNode?: string;
   style: {
     border: string;
     width: string;
   };
 }
 
+/**
+ * フォルダ（ディレクトリ）を表すReactFlowのグループノードのインターフェース
+ * @interface FolderNode
+ * @property {string} id - ノードの一意識別子（ディレクトリパス）
+ * @property {"folder"} type - ノードのタイプ（"folder"固定）
+ * @property {Object} data - ノードのデータ
+ * @property {string} data.label - ノードのラベル（ディレクトリ名）
+ * @property {number} data.fileCount - 配下（サブディレクトリを含む）のファイル数
+ * @property {string[]} data.agents - 配下のファイルで使用されているエージェント
+ * @property {boolean} data.collapsed - 折りたたまれているかどうか
+ * @property {Object} position - ノードの位置（親ノードがある場合は親からの相対位置）
+ * @property {string} [parentNode] - 親フォルダノードのID
+ * @property {Object} style - ノードのスタイル
+ * @property {number} style.width - ノードの幅
+ * @property {number} style.height - ノードの高さ
+ */
+export interface FolderNode {
+  id: string;
+  type: "folder";
+  data: {
+    label: string;
+    fileCount: number;
+    agents: string[];
+    collapsed: boolean;
+  };
+  position: { x: number; y: number };
+  parentNode?: string;
+  style: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * 実行計画のステージ（スイムレーン）を表すReactFlowのグループノードのインターフェース
+ * @interface LaneNode
+ * @property {string} id - ノードの一意識別子
+ * @property {"lane"} type - ノードのタイプ（"lane"固定）
+ * @property {Object} data - ノードのデータ
+ * @property {string} data.label - ステージ名
+ * @property {number} data.fileCount - ステージに含まれるファイル数
+ * @property {boolean} data.barrier - それまでのステージの完了を待つバリアステージかどうか
+ * @property {Object} position - ノードの位置
+ * @property {string} [parentNode] - 親ノードのID（スイムレーンは常に最上位）
+ * @property {Object} style - ノードのスタイル
+ * @property {number} style.width - ノードの幅
+ * @property {number} style.height - ノードの高さ
+ */
+export interface LaneNode {
+  id: string;
+  type: "lane";
+  data: {
+    label: string;
+    fileCount: number;
+    barrier: boolean;
+  };
+  position: { x: number; y: number };
+  parentNode?: string;
+  style: {
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * グラフに表示するノード（ファイル、フォルダまたはスイムレーン）
+ * @typedef {FileNode | FolderNode | LaneNode} GraphNode
+ */
+export type GraphNode = FileNode | FolderNode | LaneNode;
+
+/**
+ * 実行計画の1ステージ
+ * @interface ExecutionStage
+ * @property {number} index - ステージ番号（1始まり）
+ * @property {string[]} files - 並列に生成できるファイルのパス
+ * @property {boolean} barrier - dependency_waitのファイルにより、それまでの全ステージの完了を待つかどうか
+ */
+export interface ExecutionStage {
+  index: number;
+  files: string[];
+  barrier: boolean;
+}
+
+/**
+ * 依存関係から求めた実行計画
+ * @interface ExecutionPlan
+ * @property {ExecutionStage[]} stages - 実行順に並んだステージ
+ * @property {string[]} unscheduled - 循環依存のため順序を決められなかったファイルのパス
+ */
+export interface ExecutionPlan {
+  stages: ExecutionStage[];
+  unscheduled: string[];
+}
+
 /**
  * ReactFlowのエッジ（依存関係の矢印）を表すインターフェース
  * @interface FileEdge
  * @property {string} id - エッジの一意識別子
  * @property {string} source - 依存元のノードID
  * @property {string} target - 依存先のノードID
+ * @property {Object} [data] - エッジの付加情報
+ * @property {DependencyIssueType} [data.issue] - 依存関係の問題の種類
+ * @property {number} [data.count] - 折りたたんだフォルダにまとめられた依存関係の数
+ * @property {string} [data.spec] - dependencyに書かれた依存先（ノードIDと異なる場合のみ）
+ * @property {DependencySource} [data.via] - 依存先の指定方法（完全なパス以外で指定した場合のみ）
  */
 export interface FileEdge {
   id: string;
   source: string;
   target: string;
+  data?: {
+    issue?: DependencyIssueType;
+    count?: number;
+    spec?: string;
+    via?: DependencySource;
+  };
+}
+
+/**
+ * dependencyでの依存先の指定方法
+ * exact: 完全なパス（src/...） / relative: 依存元のファイルからの相対パス（./ ../）/
+ * glob: globパターン（src/components/*.tsx） / folder: フォルダ（配下のすべてのファイル）
+ * @typedef {"exact" | "relative" | "glob" | "folder"} DependencySource
+ */
+export type DependencySource = "exact" | "relative" | "glob" | "folder";
+
+/**
+ * 依存関係の問題の種類
+ * missing: 依存先のファイルが存在しない / self: 自分自身への依存 / cycle: 循環依存
+ * @typedef {"missing" | "self" | "cycle"} DependencyIssueType
+ */
+export type DependencyIssueType = "missing" | "self" | "cycle";
+
+/**
+ * 依存関係の解析結果を表すインターフェース
+ * @interface DependencyAnalysis
+ * @property {FileEdge[]} missing - 依存先が存在しないエッジ
+ * @property {FileEdge[]} selfDependencies - 自分自身に依存しているエッジ
+ * @property {string[][]} cycles - 循環依存のパス（先頭のノードIDが末尾にも入る）
+ * @property {FileEdge[][]} cycleEdges - 循環依存ごとの、パスの順に並べたエッジ
+ * @property {Set<string>} cycleEdgeIds - 循環に含まれるエッジのID
+ */
+export interface DependencyAnalysis {
+  missing: FileEdge[];
+  selfDependencies: FileEdge[];
+  cycles: string[][];
+  cycleEdges: FileEdge[][];
+  cycleEdgeIds: Set<string>;
 }
 
 /**
@@ -99,3 +249,123 @@ export interface FileEdge {
 export interface DirectoryContent {
   [key: string]: YamlFile | DirectoryContent;
 }
+
+/**
+ * YAMLのアンカー（&name）とエイリアス（*name）による共有定義
+ * @interface SharedDefinition
+ * @property {string} anchor - アンカー名
+ * @property {number} document - アンカーを定義したドキュメントの番号（0始まり）
+ * @property {string[]} definedAt - アンカーを付けた値のYAML上のパス
+ * @property {string[][]} usedAt - エイリアスで参照している値のパス（マージキー「<<」の場合はマージ先のパス）
+ */
+export interface SharedDefinition {
+  anchor: string;
+  document: number;
+  definedAt: string[];
+  usedAt: string[][];
+}
+
+/**
+ * グリモワールの解析結果を表すインターフェース
+ * @interface GrimoireParseResult
+ * @property {YamlData | null} data - 解析されたデータ（エラーがある場合はnull）
+ * @property {Diagnostic[]} diagnostics - 構文・スキーマの診断結果
+ * @property {SharedDefinition[]} sharedDefinitions - アンカーとエイリアスによる共有定義
+ */
+export interface GrimoireParseResult {
+  data: YamlData | null;
+  diagnostics: Diagnostic[];
+  sharedDefinitions: SharedDefinition[];
+}
+
+/**
+ * 2つのグラフの差分
+ * @interface GraphDiff
+ * @property {string[]} addedNodes - 追加されたノードのID
+ * @property {string[]} removedNodes - 削除されたノードのID
+ * @property {string[]} updatedNodes - データが変更されたノードのID
+ * @property {string[]} addedEdges - 追加されたエッジのID
+ * @property {string[]} removedEdges - 削除されたエッジのID
+ */
+export interface GraphDiff {
+  addedNodes: string[];
+  removedNodes: string[];
+  updatedNodes: string[];
+  addedEdges: string[];
+  removedEdges: string[];
+}
+
+/**
+ * YAMLのファイル定義で編集できるフィールド
+ * @typedef {"content" | "agent" | "api" | "dependency_wait"} EditableFileField
+ */
+export type EditableFileField = "content" | "agent" | "api" | "dependency_wait";
+
+/**
+ * グラフ上の操作からYAMLテキストに書き戻す編集
+ * addDependency / removeDependency: ファイルのdependencyに依存先を追加・削除
+ * addFile: フォルダに新しいファイル定義（YamlFileの雛形）を追加
+ * updateFile: ファイル定義のフィールドを変更
+ * batch: 複数の編集を順に適用（複数のエッジの削除など、1回の操作を1件の履歴にまとめる）
+ * @typedef {Object} GrimoireEdit
+ */
+export type GrimoireEdit =
+  | { type: "addDependency"; fileId: string; dependency: string }
+  | { type: "removeDependency"; fileId: string; dependency: string }
+  | { type: "addFile"; folderId: string; fileName: string }
+  | {
+      type: "updateFile";
+      fileId: string;
+      field: EditableFileField;
+      value: string | string[] | boolean;
+    }
+  | { type: "batch"; edits: GrimoireEdit[] };
+
+/**
+ * 比較モードでのファイルの変更の種類
+ * @typedef {"added" | "removed" | "modified"} ChangeStatus
+ */
+export type ChangeStatus = "added" | "removed" | "modified";
+
+/**
+ * ファイル定義のフィールドの変更
+ * @interface FieldChange
+ * @property {EditableFileField} field - フィールド名
+ * @property {string | string[] | boolean | undefined} before - 変更前の値
+ * @property {string | string[] | boolean | undefined} after - 変更後の値
+ */
+export interface FieldChange {
+  field: EditableFileField;
+  before: string | string[] | boolean | undefined;
+  after: string | string[] | boolean | undefined;
+}
+
+/**
+ * 1つのファイルの変更
+ * @interface FileChange
+ * @property {string} id - ファイルノードのID
+ * @property {ChangeStatus} status - 変更の種類
+ * @property {FieldChange[]} fields - 変更されたフィールド（変更の場合のみ）
+ */
+export interface FileChange {
+  id: string;
+  status: ChangeStatus;
+  fields: FieldChange[];
+}
+
+/**
+ * 2つのグリモワールの比較結果
+ * @interface GrimoireComparison
+ * @property {FileNode[]} files - 両方のファイルを合わせたノード（削除されたファイルを含む）
+ * @property {FileEdge[]} edges - 両方の依存関係を合わせたエッジ（削除された依存関係を含む）
+ * @property {FileChange[]} fileChanges - 追加・削除・変更されたファイル
+ * @property {FileEdge[]} addedEdges - 追加された依存関係
+ * @property {FileEdge[]} removedEdges - 削除された依存関係
+ */
+export interface GrimoireComparison {
+  files: FileNode[];
+  edges: FileEdge[];
+  fileChanges: FileChange[];
+  addedEdges: FileEdge[];
+  removedEdges: FileEdge[];
+}
@@ -0,0 +1,218 @@
+import { DependencyAnalysis, FileEdge } from "@/types/yaml";
+import { Diagnostic } from "@/types/diagnostic";
+import {
+  YamlSourceMap,
+  findSequenceItem,
+  locatePath,
+} from "@/utils/yamlSourceMap";
+
+/**
+ * 循環パスを正規化したキーに変換（回転させても同じ循環を1つにまとめるため）
+ * @param {string[]} cycle - 循環パス（末尾に先頭ノードを含まない）
+ * @returns {string} 正規化したキー
+ */
+function cycleKey(cycle: string[]): string {
+  let minIndex = 0;
+  cycle.forEach((id, index) => {
+    if (id < cycle[minIndex]) minIndex = index;
+  });
+  return [...cycle.slice(minIndex), ...cycle.slice(0, minIndex)].join("\n");
+}
+
+/**
+ * ノードとエッジから依存関係の問題を検出
+ * 依存先が存在しないエッジ、自己依存、循環依存を列挙する
+ * @param {string[]} nodeIds - 定義されているノードIDの配列
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @returns {DependencyAnalysis} 解析結果
+ */
+export function analyzeDependencies(
+  nodeIds: string[],
+  edges: FileEdge[]
+): DependencyAnalysis {
+  const known = new Set(nodeIds);
+  const missing: FileEdge[] = [];
+  const selfDependencies: FileEdge[] = [];
+  const adjacency = new Map<string, FileEdge[]>();
+
+  edges.forEach((edge) => {
+    if (!known.has(edge.target)) {
+      missing.push(edge);
+    } else if (edge.source === edge.target) {
+      selfDependencies.push(edge);
+    } else {
+      const list = adjacency.get(edge.source) ?? [];
+      list.push(edge);
+      adjacency.set(edge.source, list);
+    }
+  });
+
+  // 深さ優先探索で後退辺を見つけ、探索中のパスから循環を取り出す
+  const cycles: string[][] = [];
+  const cycleEdges: FileEdge[][] = [];
+  const cycleEdgeIds = new Set<string>();
+  const seenCycles = new Set<string>();
+  const state = new Map<string, "visiting" | "done">();
+
+  nodeIds.forEach((start) => {
+    if (state.has(start)) return;
+
+    // 再帰によるスタックオーバーフローを避けるため明示的なスタックで探索
+    const path: string[] = [];
+    const pathEdges: FileEdge[] = [];
+    const stack: { id: string; edgeIndex: number }[] = [
+      { id: start, edgeIndex: 0 },
+    ];
+    state.set(start, "visiting");
+    path.push(start);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const outgoing = adjacency.get(frame.id) ?? [];
+
+      if (frame.edgeIndex >= outgoing.length) {
+        state.set(frame.id, "done");
+        stack.pop();
+        path.pop();
+        pathEdges.pop();
+        continue;
+      }
+
+      const edge = outgoing[frame.edgeIndex++];
+      const next = edge.target;
+      const nextState = state.get(next);
+
+      if (nextState === "visiting") {
+        const startIndex = path.indexOf(next);
+        const cycle = path.slice(startIndex);
+        const key = cycleKey(cycle);
+        const loop = [...pathEdges.slice(startIndex), edge];
+        loop.forEach((e) => cycleEdgeIds.add(e.id));
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push([...cycle, next]);
+          cycleEdges.push(loop);
+        }
+      } else if (nextState === undefined) {
+        state.set(next, "visiting");
+        path.push(next);
+        pathEdges.push(edge);
+        stack.push({ id: next, edgeIndex: 0 });
+      }
+    }
+  });
+
+  return { missing, selfDependencies, cycles, cycleEdges, cycleEdgeIds };
+}
+
+/**
+ * エッジに依存関係の問題の種類を設定した新しい配列を返す
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {DependencyAnalysis} analysis - 解析結果
+ * @returns {FileEdge[]} 問題の種類を設定したエッジ
+ */
+export function markEdgeIssues(
+  edges: FileEdge[],
+  analysis: DependencyAnalysis
+): FileEdge[] {
+  const missingIds = new Set(analysis.missing.map((edge) => edge.id));
+  const selfIds = new Set(analysis.selfDependencies.map((edge) => edge.id));
+
+  return edges.map((edge) => {
+    if (missingIds.has(edge.id)) {
+      return { ...edge, data: { ...edge.data, issue: "missing" } };
+    }
+    if (selfIds.has(edge.id)) {
+      return { ...edge, data: { ...edge.data, issue: "self" } };
+    }
+    if (analysis.cycleEdgeIds.has(edge.id)) {
+      return { ...edge, data: { ...edge.data, issue: "cycle" } };
+    }
+    return edge;
+  });
+}
+
+/**
+ * 依存元ファイルのdependency要素のYAML上のパスを求める
+ * @param {YamlSourceMap | undefined} sourceMap - ソースマップ
+ * @param {string} source - 依存元のノードID
+ * @param {string} target - dependencyに書かれた依存先
+ * @returns {{path: string[], line: number, column: number}} パスと位置
+ */
+function locateDependency(
+  sourceMap: YamlSourceMap | undefined,
+  source: string,
+  target: string
+): { path: string[]; line: number; column: number } {
+  const dependencyPath = [...source.split("/"), "dependency"];
+  const item = sourceMap
+    ? findSequenceItem(sourceMap, dependencyPath, target)
+    : undefined;
+
+  if (item) {
+    return { path: item.path, line: item.line, column: item.valueColumn };
+  }
+  const { line, column } = sourceMap
+    ? locatePath(sourceMap, dependencyPath)
+    : { line: 1, column: 1 };
+  return { path: dependencyPath, line, column };
+}
+
+/**
+ * 依存関係の解析結果を診断結果に変換
+ * @param {DependencyAnalysis} analysis - 解析結果
+ * @param {YamlSourceMap} [sourceMap] - 行・列を求めるためのソースマップ
+ * @returns {Diagnostic[]} 診断結果
+ */
+export function dependencyDiagnostics(
+  analysis: DependencyAnalysis,
+  sourceMap?: YamlSourceMap
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  analysis.missing.forEach((edge) => {
+    diagnostics.push({
+      code: "missing-dependency",
+      severity: "warning",
+      message:
+        edge.data?.via === "glob"
+          ? `"${edge.source}" の依存先のパターン "${edge.data.spec}" に一致するファイルがありません`
+          : `"${edge.source}" の依存先 "${edge.target}" が定義されていません`,
+      ...locateDependency(
+        sourceMap,
+        edge.source,
+        edge.data?.spec ?? edge.target
+      ),
+    });
+  });
+
+  analysis.selfDependencies.forEach((edge) => {
+    diagnostics.push({
+      code: "self-dependency",
+      severity: "warning",
+      message: `"${edge.source}" が自分自身に依存しています`,
+      ...locateDependency(
+        sourceMap,
+        edge.source,
+        edge.data?.spec ?? edge.target
+      ),
+    });
+  });
+
+  analysis.cycles.forEach((cycle, index) => {
+    // 相対パスやglobパターンで書かれた依存先も見つけられるよう、dependencyに書かれたままの指定で探す
+    const edge = analysis.cycleEdges[index][0];
+    diagnostics.push({
+      code: "dependency-cycle",
+      severity: "warning",
+      message: `循環依存があります: ${cycle.join(" → ")}`,
+      ...locateDependency(
+        sourceMap,
+        edge.source,
+        edge.data?.spec ?? edge.target
+      ),
+    });
+  });
+
+  return diagnostics;
+}
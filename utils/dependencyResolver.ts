@@ -0,0 +1,120 @@
+import { DependencySource, FileEdge } from "@/types/yaml";
+import { globToRegExp } from "@/utils/glob";
+import { groupFilesByFolder } from "@/utils/graphIndex";
+
+/**
+ * 依存先の指定を解決した結果
+ * @interface ResolvedDependency
+ * @property {string[]} targets - 依存先のノードID（見つからない場合は正規化したパス1つ）
+ * @property {DependencySource} via - 依存先の指定方法
+ */
+export interface ResolvedDependency {
+  targets: string[];
+  via: DependencySource;
+}
+
+/**
+ * 依存先の解決に使う、定義されているファイルの索引
+ * @interface DependencyIndex
+ * @property {Set<string>} ids - 定義されているファイルのノードID
+ * @property {Map<string, string[]>} folders - フォルダのパスから、配下のファイルのノードID
+ */
+export interface DependencyIndex {
+  ids: Set<string>;
+  folders: Map<string, string[]>;
+}
+
+// globパターンとして扱う文字
+const GLOB_PATTERN = /[*?]/;
+// 依存元のファイルからの相対パス
+const RELATIVE_PATH = /^\.\.?(\/|$)/;
+
+/**
+ * エッジがglobパターンまたはフォルダの指定から展開されたものかどうか
+ * @param {FileEdge} edge - 依存関係のエッジ
+ * @returns {boolean} globパターンまたはフォルダから展開されたエッジであればtrue
+ */
+export function isExpandedEdge(edge: FileEdge): boolean {
+  return edge.data?.via === "glob" || edge.data?.via === "folder";
+}
+
+/**
+ * 定義されているファイルのノードIDから、依存先の解決に使う索引を作成
+ * @param {string[]} ids - 定義されているファイルのノードID
+ * @returns {DependencyIndex} 索引
+ */
+export function createDependencyIndex(ids: string[]): DependencyIndex {
+  return { ids: new Set(ids), folders: groupFilesByFolder(ids) };
+}
+
+/**
+ * 「.」と「..」を取り除いてパスを正規化する
+ * @param {string[]} segments - パスの要素
+ * @returns {string} 正規化したパス（ルートより上を指す「..」は無視する）
+ */
+function normalizeSegments(segments: string[]): string {
+  const result: string[] = [];
+  segments.forEach((segment) => {
+    if (segment === "" || segment === ".") return;
+    if (segment === "..") {
+      result.pop();
+    } else {
+      result.push(segment);
+    }
+  });
+  return result.join("/");
+}
+
+/**
+ * 依存先の指定を、依存元のファイルからの相対パスを考慮した絶対パス（src/...）に変換
+ * 「./」「../」で始まる指定は依存元のファイルがあるフォルダからの相対パスとして扱う
+ * @param {string} source - 依存元のノードID
+ * @param {string} dependency - dependencyに書かれた依存先
+ * @returns {string} 絶対パス（末尾の「/」は取り除く）
+ */
+export function toAbsoluteDependency(
+  source: string,
+  dependency: string
+): string {
+  const spec = dependency.trim().replace(/\\/g, "/");
+  if (RELATIVE_PATH.test(spec)) {
+    const folder = source.split("/").slice(0, -1);
+    return normalizeSegments([...folder, ...spec.split("/")]);
+  }
+  return normalizeSegments(spec.split("/"));
+}
+
+/**
+ * dependencyに書かれた依存先を、定義されているファイルのノードIDに解決
+ * 完全に一致するファイル、globパターン（src/components/*.tsx）に一致するファイル、
+ * フォルダ配下のすべてのファイルの順に探す（globパターンとフォルダの場合、依存元のファイル自身は除く）
+ * @param {string} source - 依存元のノードID
+ * @param {string} dependency - dependencyに書かれた依存先
+ * @param {DependencyIndex} index - 定義されているファイルの索引
+ * @returns {ResolvedDependency} 解決結果
+ */
+export function resolveDependency(
+  source: string,
+  dependency: string,
+  index: DependencyIndex
+): ResolvedDependency {
+  const path = toAbsoluteDependency(source, dependency);
+  const via = RELATIVE_PATH.test(dependency.trim()) ? "relative" : "exact";
+
+  if (GLOB_PATTERN.test(path)) {
+    // ファイルのパスは大文字と小文字を区別するため、globパターンも区別して照合する
+    const pattern = globToRegExp(path, { caseSensitive: true });
+    const targets = Array.from(index.ids).filter(
+      (id) => id !== source && pattern.test(id)
+    );
+    return { targets: targets.length > 0 ? targets : [path], via: "glob" };
+  }
+
+  if (index.ids.has(path)) return { targets: [path], via };
+
+  // フォルダを指定した場合は、配下のすべてのファイルに依存する
+  const targets = (index.folders.get(path) ?? []).filter((id) => id !== source);
+  return targets.length > 0
+    ? { targets, via: "folder" }
+    : { targets: [path], via };
+}
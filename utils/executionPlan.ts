@@ -0,0 +1,206 @@
+import {
+  ExecutionPlan,
+  ExecutionStage,
+  FileEdge,
+  FileNode,
+  GraphNode,
+  LaneNode,
+} from "@/types/yaml";
+import {
+  defaultNodeWidth,
+  defaultNodeHeight,
+  folderPadding,
+  folderHeaderHeight,
+} from "@/constant/constant";
+
+// スイムレーン同士の間隔
+const LANE_GAP = 60;
+// スイムレーン内のノード同士の間隔
+const LANE_NODE_GAP = 30;
+
+/**
+ * 依存関係をトポロジカルソートしてステージに分割した実行計画を作成
+ * 依存先がすべて前のステージにあるファイルは同じステージで並列に生成できる
+ * dependency_wait: true のファイルは、それまでの全ステージの完了を待つバリアステージを開始する
+ * 未定義の依存先と自己依存は順序の制約として扱わない
+ * @param {FileNode[]} files - ファイルノード（プレースホルダーを含んでもよい）
+ * @param {FileEdge[]} edges - 依存関係のエッジ（依存元 → 依存先）
+ * @returns {ExecutionPlan} 実行計画
+ */
+export function buildExecutionPlan(
+  files: FileNode[],
+  edges: FileEdge[]
+): ExecutionPlan {
+  const targets = files.filter((file) => !file.data.missing);
+  const known = new Set(targets.map((file) => file.id));
+  const waits = new Set(
+    targets.filter((file) => file.data.dependencyWait).map((file) => file.id)
+  );
+
+  // 各ファイルの未完了の依存先の数と、依存先 → 依存元の逆引き
+  const remaining = new Map(targets.map((file) => [file.id, 0]));
+  const dependents = new Map<string, string[]>();
+  const seen = new Set<string>();
+  edges.forEach((edge) => {
+    const key = `${edge.source}\n${edge.target}`;
+    if (
+      seen.has(key) ||
+      edge.source === edge.target ||
+      !known.has(edge.source) ||
+      !known.has(edge.target)
+    ) {
+      return;
+    }
+    seen.add(key);
+    remaining.set(edge.source, (remaining.get(edge.source) ?? 0) + 1);
+    dependents.set(edge.target, [
+      ...(dependents.get(edge.target) ?? []),
+      edge.source,
+    ]);
+  });
+
+  const stages: ExecutionStage[] = [];
+  const scheduled = new Set<string>();
+
+  /**
+   * ファイルをステージに追加し、依存元の未完了数を減らす
+   * @param {string[]} ids - ステージに含めるファイル
+   * @param {boolean} barrier - バリアステージかどうか
+   */
+  const pushStage = (ids: string[], barrier: boolean) => {
+    stages.push({ index: stages.length + 1, files: ids, barrier });
+    ids.forEach((id) => scheduled.add(id));
+    ids.forEach((id) =>
+      (dependents.get(id) ?? []).forEach((dependent) =>
+        remaining.set(dependent, (remaining.get(dependent) ?? 0) - 1)
+      )
+    );
+  };
+
+  for (;;) {
+    const ready = targets
+      .map((file) => file.id)
+      .filter((id) => !scheduled.has(id) && remaining.get(id) === 0);
+    if (ready.length === 0) break;
+
+    // 待機しないファイルを先に並列ステージとし、待機するファイルはその後のバリアステージにする
+    const parallel = ready.filter((id) => !waits.has(id));
+    const barrier = ready.filter((id) => waits.has(id));
+    if (parallel.length > 0) pushStage(parallel, false);
+    if (barrier.length > 0) pushStage(barrier, true);
+  }
+
+  return {
+    stages,
+    unscheduled: targets
+      .map((file) => file.id)
+      .filter((id) => !scheduled.has(id)),
+  };
+}
+
+/**
+ * 実行計画をスイムレーン形式で配置したノードを作成
+ * ステージごとに左から右へスイムレーンを並べ、ファイルをレーン内に縦に並べる
+ * @param {ExecutionPlan} plan - 実行計画
+ * @param {FileNode[]} files - ファイルノード
+ * @returns {GraphNode[]} スイムレーンとファイルのノード（親ノードが子ノードより先に並ぶ）
+ */
+export function layoutExecutionPlan(
+  plan: ExecutionPlan,
+  files: FileNode[]
+): GraphNode[] {
+  const fileMap = new Map(files.map((file) => [file.id, file]));
+  const nodeWidth = parseInt(defaultNodeWidth);
+  const laneWidth = nodeWidth + folderPadding * 2;
+  const lanes = [
+    ...plan.stages.map((stage) => ({
+      id: `__stage_${stage.index}`,
+      label: `ステージ ${stage.index}`,
+      files: stage.files,
+      barrier: stage.barrier,
+    })),
+    ...(plan.unscheduled.length > 0
+      ? [
+          {
+            id: "__stage_unscheduled",
+            label: "順序未確定（循環依存）",
+            files: plan.unscheduled,
+            barrier: false,
+          },
+        ]
+      : []),
+  ];
+  const maxFiles = Math.max(1, ...lanes.map((lane) => lane.files.length));
+  const laneHeight =
+    folderHeaderHeight +
+    folderPadding * 2 +
+    maxFiles * defaultNodeHeight +
+    (maxFiles - 1) * LANE_NODE_GAP;
+
+  const nodes: GraphNode[] = [];
+  lanes.forEach((lane, laneIndex) => {
+    const laneNode: LaneNode = {
+      id: lane.id,
+      type: "lane",
+      data: {
+        label: lane.label,
+        fileCount: lane.files.length,
+        barrier: lane.barrier,
+      },
+      position: { x: laneIndex * (laneWidth + LANE_GAP), y: 0 },
+      style: { width: laneWidth, height: laneHeight },
+    };
+    nodes.push(laneNode);
+
+    lane.files.forEach((id, fileIndex) => {
+      const file = fileMap.get(id);
+      if (!file) return;
+      nodes.push({
+        ...file,
+        parentNode: lane.id,
+        position: {
+          x: folderPadding,
+          y:
+            folderHeaderHeight +
+            folderPadding +
+            fileIndex * (defaultNodeHeight + LANE_NODE_GAP),
+        },
+      });
+    });
+  });
+
+  return nodes;
+}
+
+/**
+ * 実行計画をコピー用のテキストに変換
+ * @param {ExecutionPlan} plan - 実行計画
+ * @param {FileNode[]} files - ファイルノード（エージェントの表示に使用）
+ * @returns {string} 実行順のテキスト
+ */
+export function formatExecutionPlan(
+  plan: ExecutionPlan,
+  files: FileNode[]
+): string {
+  const agentOf = new Map(files.map((file) => [file.id, file.data.agent]));
+  const describe = (id: string) => {
+    const agent = agentOf.get(id);
+    return agent ? `  - ${id} (${agent})` : `  - ${id}`;
+  };
+
+  const lines: string[] = [];
+  plan.stages.forEach((stage) => {
+    lines.push(
+      `ステージ ${stage.index}${
+        stage.barrier ? "（バリア: 前のステージの完了を待つ）" : ""
+      }`
+    );
+    stage.files.forEach((id) => lines.push(describe(id)));
+  });
+  if (plan.unscheduled.length > 0) {
+    lines.push("順序未確定（循環依存）");
+    plan.unscheduled.forEach((id) => lines.push(describe(id)));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,311 @@
+import { FileNode, FileEdge, FolderNode, GraphNode } from "@/types/yaml";
+import { LayoutUnit, LayoutEdge, LayoutPositions } from "@/types/layout";
+import {
+  defaultNodeWidth,
+  defaultNodeHeight,
+  folderPadding,
+  folderHeaderHeight,
+  collapsedFolderHeight,
+} from "@/constant/constant";
+
+/**
+ * フォルダの情報を表すインターフェース
+ * @interface FolderInfo
+ * @property {string} id - ディレクトリパス
+ * @property {string | null} parent - 親ディレクトリのパス（最上位の場合はnull）
+ * @property {string} label - ディレクトリ名
+ * @property {string[]} fileIds - 配下（サブディレクトリを含む）のファイルID
+ * @property {Set<string>} agents - 配下のファイルで使用されているエージェント
+ */
+export interface FolderInfo {
+  id: string;
+  parent: string | null;
+  label: string;
+  fileIds: string[];
+  agents: Set<string>;
+}
+
+/**
+ * レイアウト関数の型
+ * @typedef {Function} LayoutFunction
+ */
+export type LayoutFunction = (
+  units: LayoutUnit[],
+  edges: LayoutEdge[]
+) => LayoutPositions;
+
+/**
+ * ファイルノードのパスからフォルダの一覧を作成
+ * 親フォルダが子フォルダより先に並ぶ
+ * @param {FileNode[]} nodes - ファイルノードの配列
+ * @returns {Map<string, FolderInfo>} ディレクトリパスをキーとするフォルダ情報
+ */
+export function collectFolders(nodes: FileNode[]): Map<string, FolderInfo> {
+  const folders = new Map<string, FolderInfo>();
+
+  nodes
+    .filter((node) => !node.data.missing)
+    .forEach((node) => {
+      const segments = node.id.split("/");
+      for (let i = 1; i < segments.length; i++) {
+        const id = segments.slice(0, i).join("/");
+        let folder = folders.get(id);
+        if (!folder) {
+          folder = {
+            id,
+            parent: i > 1 ? segments.slice(0, i - 1).join("/") : null,
+            label: segments[i - 1],
+            fileIds: [],
+            agents: new Set(),
+          };
+          folders.set(id, folder);
+        }
+        folder.fileIds.push(node.id);
+        if (node.data.agent) {
+          folder.agents.add(node.data.agent);
+        }
+      }
+    });
+
+  return folders;
+}
+
+/**
+ * ノードIDを含む最も深いフォルダを探す
+ * @param {string} id - ノードID（ファイルパス）
+ * @param {Map<string, FolderInfo>} folders - フォルダ情報
+ * @returns {string | null} 親フォルダのパス（見つからない場合はnull）
+ */
+export function findParentFolder(
+  id: string,
+  folders: Map<string, FolderInfo>
+): string | null {
+  const segments = id.split("/");
+  for (let i = segments.length - 1; i > 0; i--) {
+    const folderId = segments.slice(0, i).join("/");
+    if (folders.has(folderId)) {
+      return folderId;
+    }
+  }
+  return null;
+}
+
+/**
+ * ファイルノードとエッジをフォルダでグループ化し、レイアウトを計算
+ * 折りたたまれたフォルダは1つの要約ノードにまとめ、配下へのエッジをそのノードに付け替える
+ * フォルダごとに中身を先にレイアウトし、その大きさを1つの矩形として親フォルダでレイアウトする
+ * @param {FileNode[]} files - ファイルノード（未定義の依存先のプレースホルダーを含む）
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {Set<string>} collapsed - 折りたたまれているフォルダのパス
+ * @param {LayoutFunction} layout - 1つのフォルダ内の配置を計算する関数
+ * @param {Object.<string, {width: number, height: number}>} [sizes] - 実際に描画されたノードの大きさ
+ * @returns {{nodes: GraphNode[], edges: FileEdge[]}} ReactFlowに渡す順序のノードと付け替え後のエッジ
+ */
+export function buildFolderGraph(
+  files: FileNode[],
+  edges: FileEdge[],
+  collapsed: Set<string>,
+  layout: LayoutFunction,
+  sizes: { [key: string]: { width: number; height: number } } = {}
+): { nodes: GraphNode[]; edges: FileEdge[] } {
+  const folders = collectFolders(files);
+
+  // 各ノード・フォルダの親フォルダ
+  const parentOf = new Map<string, string | null>();
+  folders.forEach((folder) => parentOf.set(folder.id, folder.parent));
+  files.forEach((file) =>
+    parentOf.set(file.id, findParentFolder(file.id, folders))
+  );
+
+  /**
+   * ノードから最上位までの祖先の配列（近い順）
+   * @param {string} id - ノードID
+   * @returns {string[]} 祖先フォルダのパス
+   */
+  const ancestorsOf = (id: string): string[] => {
+    const ancestors: string[] = [];
+    let parent = parentOf.get(id) ?? null;
+    while (parent) {
+      ancestors.push(parent);
+      parent = parentOf.get(parent) ?? null;
+    }
+    return ancestors;
+  };
+
+  /**
+   * 表示上の代表ノード（最も外側の折りたたまれた祖先、無ければ自分自身）
+   * @param {string} id - ノードID
+   * @returns {string} 代表ノードのID
+   */
+  const representativeOf = (id: string): string => {
+    const ancestors = ancestorsOf(id);
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      if (collapsed.has(ancestors[i])) return ancestors[i];
+    }
+    return id;
+  };
+
+  // 表示するファイルとフォルダ
+  const fileMap = new Map(files.map((file) => [file.id, file]));
+  const visibleIds = [
+    ...Array.from(folders.keys()),
+    ...files.map((file) => file.id),
+  ].filter((id) => representativeOf(id) === id);
+  const expanded = new Set(
+    visibleIds.filter((id) => folders.has(id) && !collapsed.has(id))
+  );
+
+  // 折りたたんだフォルダへエッジを付け替え、重複をまとめる
+  const routed = new Map<string, FileEdge>();
+  edges.forEach((edge) => {
+    const source = representativeOf(edge.source);
+    const target = representativeOf(edge.target);
+    // フォルダ内部で閉じた依存関係は表示しない
+    if (source === target && edge.source !== edge.target) return;
+
+    const key = `${source}\n${target}`;
+    const existing = routed.get(key);
+    if (existing) {
+      existing.data = {
+        issue: existing.data?.issue ?? edge.data?.issue,
+        count: (existing.data?.count ?? 1) + 1,
+      };
+      existing.id = `${source}-${target}`;
+    } else {
+      routed.set(key, { ...edge, source, target, data: { ...edge.data } });
+    }
+  });
+  const routedEdges = Array.from(routed.values());
+
+  // フォルダごとの子要素
+  const children = new Map<string | null, string[]>();
+  visibleIds.forEach((id) => {
+    const parent = parentOf.get(id) ?? null;
+    children.set(parent, [...(children.get(parent) ?? []), id]);
+  });
+
+  // エッジを両端の共通の祖先フォルダまで持ち上げ、そのフォルダ内の子同士のエッジにする
+  const liftedEdges = new Map<string | null, LayoutEdge[]>();
+  routedEdges.forEach((edge) => {
+    const sourceChain = [edge.source, ...ancestorsOf(edge.source)];
+    const targetChain = [edge.target, ...ancestorsOf(edge.target)];
+    const targetSet = new Set(targetChain);
+    const commonIndex = sourceChain.findIndex(
+      (id, index) => index > 0 && targetSet.has(id)
+    );
+
+    let container: string | null = null;
+    let source = sourceChain[sourceChain.length - 1];
+    let target = targetChain[targetChain.length - 1];
+    if (commonIndex !== -1) {
+      container = sourceChain[commonIndex];
+      source = sourceChain[commonIndex - 1];
+      target = targetChain[targetChain.indexOf(container) - 1];
+    }
+    if (source === target) return;
+
+    liftedEdges.set(container, [
+      ...(liftedEdges.get(container) ?? []),
+      { source, target },
+    ]);
+  });
+
+  /**
+   * 折りたたまれたフォルダやファイルの大きさ（描画済みの場合は実際の大きさ）
+   * @param {string} id - ノードID
+   * @returns {{width: number, height: number}} 大きさ
+   */
+  const leafSize = (id: string) =>
+    sizes[id] ?? {
+      width: parseInt(defaultNodeWidth),
+      height: folders.has(id) ? collapsedFolderHeight : defaultNodeHeight,
+    };
+
+  // 親からの相対位置と展開したフォルダの大きさ
+  const positions: LayoutPositions = {};
+  const folderSizes = new Map<string, { width: number; height: number }>();
+
+  /**
+   * フォルダの中身を再帰的にレイアウトし、フォルダの大きさを返す
+   * @param {string | null} container - フォルダのパス（最上位の場合はnull）
+   * @returns {{width: number, height: number}} フォルダの大きさ
+   */
+  const layoutContainer = (container: string | null) => {
+    const units: LayoutUnit[] = (children.get(container) ?? []).map((id) => ({
+      id,
+      ...(expanded.has(id) ? layoutContainer(id) : leafSize(id)),
+    }));
+    const local = layout(units, liftedEdges.get(container) ?? []);
+
+    if (units.length === 0) {
+      return { width: 0, height: 0 };
+    }
+
+    // 中身の外接矩形を求め、余白とヘッダーを考慮して原点を合わせる
+    const minX = Math.min(...units.map((unit) => local[unit.id].x));
+    const minY = Math.min(...units.map((unit) => local[unit.id].y));
+    const maxX = Math.max(
+      ...units.map((unit) => local[unit.id].x + unit.width)
+    );
+    const maxY = Math.max(
+      ...units.map((unit) => local[unit.id].y + unit.height)
+    );
+    const offsetX = container === null ? 0 : folderPadding;
+    const offsetY = container === null ? 0 : folderPadding + folderHeaderHeight;
+
+    units.forEach((unit) => {
+      positions[unit.id] = {
+        x: local[unit.id].x - (container === null ? 0 : minX) + offsetX,
+        y: local[unit.id].y - (container === null ? 0 : minY) + offsetY,
+      };
+    });
+
+    const size = {
+      width: maxX - minX + folderPadding * 2,
+      height: maxY - minY + folderPadding * 2 + folderHeaderHeight,
+    };
+    if (container !== null) {
+      folderSizes.set(container, size);
+    }
+    return size;
+  };
+  layoutContainer(null);
+
+  // 親ノードが子ノードより先に並ぶようにノードを出力
+  const nodes: GraphNode[] = [];
+  const emit = (container: string | null) => {
+    (children.get(container) ?? []).forEach((id) => {
+      const parentNode = container ?? undefined;
+      const folder = folders.get(id);
+
+      if (folder) {
+        const isCollapsed = !expanded.has(id);
+        const folderNode: FolderNode = {
+          id,
+          type: "folder",
+          data: {
+            label: folder.label,
+            fileCount: folder.fileIds.length,
+            agents: Array.from(folder.agents),
+            collapsed: isCollapsed,
+          },
+          position: positions[id],
+          parentNode,
+          style: isCollapsed
+            ? leafSize(id)
+            : folderSizes.get(id) ?? leafSize(id),
+        };
+        nodes.push(folderNode);
+        if (!isCollapsed) emit(id);
+      } else {
+        const file = fileMap.get(id);
+        if (file) {
+          nodes.push({ ...file, position: positions[id], parentNode });
+        }
+      }
+    });
+  };
+  emit(null);
+
+  return { nodes, edges: routedEdges };
+}
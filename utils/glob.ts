@@ -0,0 +1,34 @@
+/**
+ * globパターンを正規表現に変換
+ * 「**」は「/」を含む任意の文字列、「*」と「?」は「/」を含まない任意の文字列・1文字に一致する
+ * @param {string} pattern - globパターン
+ * @param {Object} [options] - 変換の設定
+ * @param {boolean} [options.caseSensitive] - 大文字と小文字を区別するかどうか（省略時は区別しない）
+ * @returns {RegExp} パス全体に一致する正規表現
+ */
+export function globToRegExp(
+  pattern: string,
+  options: { caseSensitive?: boolean } = {}
+): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // 「**/」は0個以上のフォルダに一致する
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, options.caseSensitive ? "" : "i");
+}
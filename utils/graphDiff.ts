@@ -0,0 +1,136 @@
+import { FileEdge, GraphDiff, GraphNode } from "@/types/yaml";
+import { PinnedPosition } from "@/types/layout";
+
+/**
+ * 差分の計算に使うグラフ
+ * @interface DiffableGraph
+ * @property {GraphNode[]} nodes - ノード
+ * @property {FileEdge[]} edges - エッジ
+ */
+interface DiffableGraph {
+  nodes: GraphNode[];
+  edges: FileEdge[];
+}
+
+/**
+ * 位置を持つノード（ReactFlowのノードとグラフのノードの共通部分）
+ */
+interface PositionedNode {
+  id: string;
+  position: { x: number; y: number };
+  parentNode?: string;
+}
+
+/**
+ * エッジの接続先を比較用の文字列に変換
+ * @param {FileEdge} edge - エッジ
+ * @returns {string} 比較用の文字列
+ */
+function edgeSignature(edge: FileEdge): string {
+  return JSON.stringify([edge.source, edge.target, edge.data ?? null]);
+}
+
+/**
+ * 2つのグラフのノードとエッジの差分を計算する
+ * ノードはIDで対応付け、データだけが変わったものを更新とみなす
+ * 種類や親ノードが変わったノードと接続先が変わったエッジは、削除と追加として扱う
+ * @param {DiffableGraph} prev - 変更前のグラフ
+ * @param {DiffableGraph} next - 変更後のグラフ
+ * @returns {GraphDiff} 差分
+ */
+export function diffGraphs(
+  prev: DiffableGraph,
+  next: DiffableGraph
+): GraphDiff {
+  const prevNodes = new Map(prev.nodes.map((node) => [node.id, node]));
+  const nextNodes = new Map(next.nodes.map((node) => [node.id, node]));
+  const prevEdges = new Map(prev.edges.map((edge) => [edge.id, edge]));
+  const nextEdges = new Map(next.edges.map((edge) => [edge.id, edge]));
+
+  const diff: GraphDiff = {
+    addedNodes: [],
+    removedNodes: [],
+    updatedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+  };
+
+  nextNodes.forEach((node, id) => {
+    const before = prevNodes.get(id);
+    if (
+      !before ||
+      before.type !== node.type ||
+      before.parentNode !== node.parentNode
+    ) {
+      diff.addedNodes.push(id);
+      if (before) diff.removedNodes.push(id);
+    } else if (JSON.stringify(before.data) !== JSON.stringify(node.data)) {
+      diff.updatedNodes.push(id);
+    }
+  });
+  prevNodes.forEach((_, id) => {
+    if (!nextNodes.has(id)) diff.removedNodes.push(id);
+  });
+
+  nextEdges.forEach((edge, id) => {
+    const before = prevEdges.get(id);
+    if (!before || edgeSignature(before) !== edgeSignature(edge)) {
+      diff.addedEdges.push(id);
+      if (before) diff.removedEdges.push(id);
+    }
+  });
+  prevEdges.forEach((_, id) => {
+    if (!nextEdges.has(id)) diff.removedEdges.push(id);
+  });
+
+  return diff;
+}
+
+/**
+ * 差分にノードやエッジの追加・削除が含まれるかどうか
+ * データの更新だけであればレイアウトを変える必要はない
+ * @param {GraphDiff} diff - 差分
+ * @returns {boolean} 構造が変わった場合はtrue
+ */
+export function isStructuralChange(diff: GraphDiff): boolean {
+  return (
+    diff.addedNodes.length > 0 ||
+    diff.removedNodes.length > 0 ||
+    diff.addedEdges.length > 0 ||
+    diff.removedEdges.length > 0
+  );
+}
+
+/**
+ * 新しいレイアウトのノードに、現在表示しているノードの位置と状態を引き継ぐ
+ * ユーザーがドラッグしたノードは、親ノードが変わっていなければその位置を保つ
+ * keepPositionsがtrueの場合は、すでに表示されているすべてのノードの位置を保つ
+ * @param {T[]} current - 現在表示しているノード
+ * @param {T[]} next - 新しいレイアウトのノード
+ * @param {Map<string, PinnedPosition>} pinned - ドラッグして固定した位置
+ * @param {boolean} keepPositions - 既存のノードの位置をすべて保つかどうか
+ * @returns {T[]} 位置を引き継いだノード
+ */
+export function mergeNodePositions<T extends PositionedNode>(
+  current: T[],
+  next: T[],
+  pinned: Map<string, PinnedPosition>,
+  keepPositions: boolean
+): T[] {
+  const currentNodes = new Map(current.map((node) => [node.id, node]));
+  return next.map((node) => {
+    const before = currentNodes.get(node.id);
+    const pin = pinned.get(node.id);
+    // 測定済みの大きさや選択状態は現在のノードから引き継ぐ
+    const merged = before
+      ? { ...before, ...node, parentNode: node.parentNode }
+      : node;
+    if (pin && pin.parentNode === node.parentNode) {
+      return { ...merged, position: pin.position };
+    }
+    if (keepPositions && before && before.parentNode === node.parentNode) {
+      return { ...merged, position: before.position };
+    }
+    return merged;
+  });
+}
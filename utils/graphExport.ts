@@ -0,0 +1,248 @@
+import { FileEdge, FileNode } from "@/types/yaml";
+import { LayoutDirection } from "@/types/layout";
+import {
+  FolderInfo,
+  collectFolders,
+  findParentFolder,
+} from "@/utils/folderGroups";
+import { ThemeConfig } from "@/types/theme";
+import { defaultThemeConfig, resolveFileStyle } from "@/utils/theme";
+
+// 未定義の依存先のプレースホルダーノードの色
+const missingFillColor = "#fef2f2";
+const missingStrokeColor = "#ef4444";
+
+/**
+ * フォルダの階層（フォルダごとの子フォルダと直下のファイル）
+ * キーがnullの要素は最上位を表す
+ * @interface FolderTree
+ * @property {Map<string | null, FolderInfo[]>} folders - 直下の子フォルダ
+ * @property {Map<string | null, FileNode[]>} files - 直下のファイル
+ */
+interface FolderTree {
+  folders: Map<string | null, FolderInfo[]>;
+  files: Map<string | null, FileNode[]>;
+}
+
+/**
+ * ファイルノードからフォルダの階層を作成
+ * 未定義の依存先は、パスが一致する最も深いフォルダに含める
+ * @param {FileNode[]} files - ファイルノード
+ * @returns {FolderTree} フォルダの階層
+ */
+function buildFolderTree(files: FileNode[]): FolderTree {
+  const folderInfos = collectFolders(files);
+  const tree: FolderTree = { folders: new Map(), files: new Map() };
+
+  folderInfos.forEach((folder) => {
+    const siblings = tree.folders.get(folder.parent) ?? [];
+    siblings.push(folder);
+    tree.folders.set(folder.parent, siblings);
+  });
+  files.forEach((file) => {
+    const parent = findParentFolder(file.id, folderInfos);
+    const siblings = tree.files.get(parent) ?? [];
+    siblings.push(file);
+    tree.files.set(parent, siblings);
+  });
+
+  return tree;
+}
+
+/**
+ * ファイルノードのIDを出力形式で使える識別子（n0, n1, ...）に対応付ける
+ * @param {FileNode[]} files - ファイルノード
+ * @returns {Map<string, string>} ファイルノードのIDと識別子の対応
+ */
+function assignNodeIds(files: FileNode[]): Map<string, string> {
+  return new Map(files.map((file, index) => [file.id, `n${index}`]));
+}
+
+/**
+ * Mermaidのラベルに使えない文字を文字参照に置き換える
+ * @param {string} text - ラベル
+ * @returns {string} エスケープしたラベル
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
+
+/**
+ * Graphvizの文字列をダブルクォートで囲む
+ * @param {string} text - 文字列
+ * @returns {string} クォートした文字列
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * グラフをMermaidのフローチャートに変換
+ * フォルダはsubgraph、テーマで決まるファイルの色はノードの枠線の色として出力する
+ * @param {FileNode[]} files - ファイルノード（未定義の依存先のプレースホルダーを含む）
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {LayoutDirection} [direction] - グラフの方向
+ * @param {ThemeConfig} [theme] - テーマの設定
+ * @returns {string} Mermaidのテキスト
+ */
+export function toMermaid(
+  files: FileNode[],
+  edges: FileEdge[],
+  direction: LayoutDirection = "TB",
+  theme: ThemeConfig = defaultThemeConfig
+): string {
+  const tree = buildFolderTree(files);
+  const nodeIds = assignNodeIds(files);
+  const lines = [`flowchart ${direction}`];
+  let subgraphCount = 0;
+
+  /**
+   * フォルダの中身を再帰的に出力する
+   * @param {string | null} parent - フォルダのパス（最上位の場合はnull）
+   * @param {number} depth - インデントの深さ
+   */
+  const writeFolder = (parent: string | null, depth: number) => {
+    const indent = "  ".repeat(depth);
+    (tree.folders.get(parent) ?? []).forEach((folder) => {
+      lines.push(
+        `${indent}subgraph folder${subgraphCount++}["${escapeMermaid(
+          folder.label
+        )}"]`
+      );
+      writeFolder(folder.id, depth + 1);
+      lines.push(`${indent}end`);
+    });
+    (tree.files.get(parent) ?? []).forEach((file) => {
+      lines.push(
+        `${indent}${nodeIds.get(file.id)}["${escapeMermaid(
+          file.data.label ?? file.id
+        )}"]`
+      );
+    });
+  };
+  writeFolder(null, 1);
+
+  edges.forEach((edge) => {
+    const arrow = edge.data?.issue === "missing" ? "-.->" : "-->";
+    lines.push(
+      `  ${nodeIds.get(edge.source)} ${arrow} ${nodeIds.get(edge.target)}`
+    );
+  });
+
+  // 拡張子と色ごとのスタイル（globの規則で同じ拡張子でも色が異なる場合は別のクラスにする）
+  const classes = new Map<
+    string,
+    { name: string; style: string; ids: string[] }
+  >();
+  const usedNames = new Set<string>();
+  files.forEach((file) => {
+    const base = file.data.missing
+      ? "missing"
+      : `ext_${(file.data.extension || "none").replace(/\W/g, "_")}`;
+    const style = file.data.missing
+      ? `fill:${missingFillColor},stroke:${missingStrokeColor},stroke-dasharray:5 5`
+      : `fill:#ffffff,stroke:${
+          resolveFileStyle(file.id, file.data.extension, theme).color
+        },stroke-width:3px`;
+    const key = `${base}\n${style}`;
+    let entry = classes.get(key);
+    if (!entry) {
+      let name = base;
+      for (let i = 2; usedNames.has(name); i++) name = `${base}_${i}`;
+      usedNames.add(name);
+      entry = { name, style, ids: [] };
+      classes.set(key, entry);
+    }
+    entry.ids.push(nodeIds.get(file.id) as string);
+  });
+  classes.forEach(({ name: className, style, ids }) => {
+    lines.push(`  classDef ${className} ${style}`);
+    lines.push(`  class ${ids.join(",")} ${className}`);
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * グラフをGraphvizのDOT形式に変換
+ * フォルダはクラスタ、テーマで決まるファイルの色はノードの枠線の色として出力する
+ * @param {FileNode[]} files - ファイルノード（未定義の依存先のプレースホルダーを含む）
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {LayoutDirection} [direction] - グラフの方向
+ * @param {ThemeConfig} [theme] - テーマの設定
+ * @returns {string} DOT形式のテキスト
+ */
+export function toDot(
+  files: FileNode[],
+  edges: FileEdge[],
+  direction: LayoutDirection = "TB",
+  theme: ThemeConfig = defaultThemeConfig
+): string {
+  const tree = buildFolderTree(files);
+  const lines = [
+    "digraph grimoire {",
+    `  rankdir=${direction};`,
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", penwidth=2];',
+  ];
+  let clusterCount = 0;
+
+  /**
+   * フォルダの中身を再帰的に出力する
+   * @param {string | null} parent - フォルダのパス（最上位の場合はnull）
+   * @param {number} depth - インデントの深さ
+   */
+  const writeFolder = (parent: string | null, depth: number) => {
+    const indent = "  ".repeat(depth);
+    (tree.folders.get(parent) ?? []).forEach((folder) => {
+      lines.push(`${indent}subgraph cluster_${clusterCount++} {`);
+      lines.push(
+        `${indent}  label=${quoteDot(folder.label)};`,
+        `${indent}  style="rounded,dashed";`,
+        `${indent}  color="#94a3b8";`
+      );
+      writeFolder(folder.id, depth + 1);
+      lines.push(`${indent}}`);
+    });
+    (tree.files.get(parent) ?? []).forEach((file) => {
+      const label = quoteDot(file.data.label ?? file.id);
+      const style = file.data.missing
+        ? `style="rounded,filled,dashed", fillcolor="${missingFillColor}", color="${missingStrokeColor}"`
+        : `color="${
+            resolveFileStyle(file.id, file.data.extension, theme).color
+          }"`;
+      lines.push(`${indent}${quoteDot(file.id)} [label=${label}, ${style}];`);
+    });
+  };
+  writeFolder(null, 1);
+
+  edges.forEach((edge) => {
+    const style = edge.data?.issue === "missing" ? " [style=dashed]" : "";
+    lines.push(
+      `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${style};`
+    );
+  });
+  lines.push("}");
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * テキストまたはデータURLをファイルとしてダウンロードさせる
+ * @param {string} fileName - 保存するファイル名
+ * @param {string} data - テキスト、またはdata:から始まるデータURL
+ * @param {string} [mimeType] - テキストのMIMEタイプ
+ */
+export function downloadFile(
+  fileName: string,
+  data: string,
+  mimeType = "text/plain"
+) {
+  const url = data.startsWith("data:")
+    ? data
+    : URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  if (url !== data) setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,291 @@
+import { FileEdge, FileNode } from "@/types/yaml";
+import {
+  FilterFacet,
+  FilterResult,
+  GraphFilter,
+  SearchResult,
+} from "@/types/filter";
+import { collectFolders } from "@/utils/folderGroups";
+
+// 検索するフィールドと重み（パスで一致したものを優先する）
+const searchFields: [string, number, (file: FileNode) => string][] = [
+  ["path", 1, (file) => file.id],
+  ["agent", 0.8, (file) => file.data.agent ?? ""],
+  ["api", 0.8, (file) => (file.data.api ?? []).join(" ")],
+  ["content", 0.6, (file) => file.data.content ?? ""],
+];
+
+// 単語の区切りとみなす文字
+const WORD_BOUNDARY = /[\s/._\-:,]/;
+
+/**
+ * 検索・フィルターが無い状態
+ */
+export const emptyFilter: GraphFilter = {
+  query: "",
+  facets: { extension: [], agent: [], api: [], folder: [] },
+  mode: "dim",
+  focus: null,
+};
+
+/**
+ * キーワードがテキストにあいまいに一致するかを調べ、一致の度合いを求める
+ * キーワードの文字がテキストに順番通りに含まれていれば一致とし、
+ * 連続して一致する文字や単語の先頭での一致を高く評価する
+ * @param {string} keyword - キーワード（小文字）
+ * @param {string} text - 検索対象のテキスト
+ * @returns {number | null} 一致の度合い（一致しない場合はnull）
+ */
+export function fuzzyScore(keyword: string, text: string): number | null {
+  const target = text.toLowerCase();
+  if (keyword === "") return 0;
+
+  // 部分文字列として含まれる場合は最も高く評価する
+  const index = target.indexOf(keyword);
+  if (index >= 0) {
+    const atBoundary = index === 0 || WORD_BOUNDARY.test(target[index - 1]);
+    return keyword.length * 10 + (atBoundary ? 20 : 10);
+  }
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of keyword) {
+    const found = target.indexOf(char, position);
+    if (found < 0) return null;
+    score += 1;
+    if (found === previous + 1) score += 5;
+    if (found === 0 || WORD_BOUNDARY.test(target[found - 1])) score += 3;
+    previous = found;
+    position = found + 1;
+  }
+  return score;
+}
+
+/**
+ * ファイルをパス・content・agent・apiであいまい検索
+ * 空白で区切った複数のキーワードは、すべてがいずれかのフィールドに一致する必要がある
+ * @param {FileNode[]} files - ファイルノード
+ * @param {string} query - 検索キーワード
+ * @returns {SearchResult[]} 一致したファイル（一致の度合いが高い順）
+ */
+export function searchFiles(files: FileNode[], query: string): SearchResult[] {
+  const keywords = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (keywords.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  files.forEach((file) => {
+    let total = 0;
+    let bestField = "path";
+    let bestScore = -1;
+    for (const keyword of keywords) {
+      // キーワードごとに最も良く一致したフィールドの評価を合計する
+      let keywordScore = -1;
+      for (const [field, weight, getText] of searchFields) {
+        const score = fuzzyScore(keyword, getText(file));
+        if (score === null) continue;
+        keywordScore = Math.max(keywordScore, score * weight);
+        if (score * weight > bestScore) {
+          bestScore = score * weight;
+          bestField = field;
+        }
+      }
+      if (keywordScore < 0) return;
+      total += keywordScore;
+    }
+    results.push({ id: file.id, score: total, field: bestField });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+/**
+ * ファイルが持つ属性の値を取得
+ * @param {FileNode} file - ファイルノード
+ * @param {FilterFacet} facet - 属性
+ * @returns {string[]} 属性の値
+ */
+function facetValues(file: FileNode, facet: FilterFacet): string[] {
+  switch (facet) {
+    case "extension":
+      return file.data.extension ? [file.data.extension] : [];
+    case "agent":
+      return file.data.agent ? [file.data.agent] : [];
+    case "api":
+      return file.data.api ?? [];
+    case "folder":
+      return [];
+  }
+}
+
+/**
+ * フィルターの選択肢となる属性の値と、その値を持つファイルの数を集計
+ * @param {FileNode[]} files - ファイルノード
+ * @returns {Record<FilterFacet, [string, number][]>} 属性ごとの値とファイル数（値の順）
+ */
+export function collectFacets(
+  files: FileNode[]
+): Record<FilterFacet, [string, number][]> {
+  const counts: Record<FilterFacet, Map<string, number>> = {
+    extension: new Map(),
+    agent: new Map(),
+    api: new Map(),
+    folder: new Map(),
+  };
+  files.forEach((file) => {
+    (["extension", "agent", "api"] as const).forEach((facet) =>
+      facetValues(file, facet).forEach((value) =>
+        counts[facet].set(value, (counts[facet].get(value) ?? 0) + 1)
+      )
+    );
+  });
+  collectFolders(files).forEach((folder) =>
+    counts.folder.set(folder.id, folder.fileIds.length)
+  );
+
+  const sorted = (map: Map<string, number>) =>
+    Array.from(map.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return {
+    extension: sorted(counts.extension),
+    agent: sorted(counts.agent),
+    api: sorted(counts.api),
+    folder: sorted(counts.folder),
+  };
+}
+
+/**
+ * フィルターの値の選択を切り替えた状態を返す
+ * @param {GraphFilter} filter - 現在の状態
+ * @param {FilterFacet} facet - 属性
+ * @param {string} value - 値
+ * @returns {GraphFilter} 切り替えた後の状態
+ */
+export function toggleFacetValue(
+  filter: GraphFilter,
+  facet: FilterFacet,
+  value: string
+): GraphFilter {
+  const selected = filter.facets[facet];
+  return {
+    ...filter,
+    facets: {
+      ...filter.facets,
+      [facet]: selected.includes(value)
+        ? selected.filter((item) => item !== value)
+        : [...selected, value],
+    },
+  };
+}
+
+/**
+ * ファイルが選択された属性の条件をすべて満たすかどうか
+ * @param {FileNode} file - ファイルノード
+ * @param {GraphFilter["facets"]} facets - 属性ごとに選択した値
+ * @returns {boolean} 条件を満たす場合はtrue
+ */
+function matchesFacets(file: FileNode, facets: GraphFilter["facets"]) {
+  return (Object.keys(facets) as FilterFacet[]).every((facet) => {
+    const selected = facets[facet];
+    if (selected.length === 0) return true;
+    if (facet === "folder") {
+      return selected.some((folder) => file.id.startsWith(`${folder}/`));
+    }
+    return facetValues(file, facet).some((value) => selected.includes(value));
+  });
+}
+
+/**
+ * ファイルから依存関係を指定の段数までたどり、依存先と依存元を集める
+ * @param {string} fileId - 中心にするファイルノードのID
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {number} depth - たどる段数
+ * @returns {Set<string>} 中心のファイルと、たどりついたファイルのID
+ */
+export function collectNeighborhood(
+  fileId: string,
+  edges: FileEdge[],
+  depth: number
+): Set<string> {
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!dependencies.has(edge.source)) dependencies.set(edge.source, []);
+    if (!dependents.has(edge.target)) dependents.set(edge.target, []);
+    dependencies.get(edge.source)?.push(edge.target);
+    dependents.get(edge.target)?.push(edge.source);
+  });
+
+  const result = new Set([fileId]);
+  // 依存先と依存元は別々にたどる（依存先の依存元は含めない）
+  [dependencies, dependents].forEach((adjacency) => {
+    let frontier = [fileId];
+    const visited = new Set([fileId]);
+    for (let step = 0; step < depth && frontier.length > 0; step++) {
+      const next: string[] = [];
+      frontier
+        .flatMap((id) => adjacency.get(id) ?? [])
+        .forEach((id) => {
+          if (visited.has(id)) return;
+          visited.add(id);
+          next.push(id);
+        });
+      frontier = next;
+    }
+    visited.forEach((id) => result.add(id));
+  });
+  return result;
+}
+
+/**
+ * 検索・フィルター・フォーカスの状態から、非表示にするファイルと薄く表示するファイルを求める
+ * フォーカスモードの範囲外と、非表示モードでフィルターに一致しないファイルは取り除き、
+ * 薄く表示するモードでフィルターに一致しないファイルと、検索に一致しないファイルは薄く表示する
+ * @param {FileNode[]} files - ファイルノード
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {GraphFilter} filter - 検索・フィルター・フォーカスの状態
+ * @returns {FilterResult} 非表示にするファイルと薄く表示するファイル
+ */
+export function applyGraphFilter(
+  files: FileNode[],
+  edges: FileEdge[],
+  filter: GraphFilter
+): FilterResult {
+  const hidden = new Set<string>();
+  const dimmed = new Set<string>();
+
+  // 中心のファイルが削除された場合はフォーカスモードを無視する
+  const focused =
+    filter.focus && files.some((file) => file.id === filter.focus?.fileId)
+      ? collectNeighborhood(filter.focus.fileId, edges, filter.focus.depth)
+      : null;
+  const matched = filter.query.trim()
+    ? new Set(searchFiles(files, filter.query).map((result) => result.id))
+    : null;
+
+  files.forEach((file) => {
+    // フォーカスの中心のファイルは常に表示する
+    if (file.id === filter.focus?.fileId) return;
+    if (focused && !focused.has(file.id)) {
+      hidden.add(file.id);
+    } else if (!matchesFacets(file, filter.facets)) {
+      (filter.mode === "hide" ? hidden : dimmed).add(file.id);
+    } else if (matched && !matched.has(file.id)) {
+      dimmed.add(file.id);
+    }
+  });
+
+  return { hidden, dimmed };
+}
+
+/**
+ * フィルターで何かが選択・入力されているかどうか
+ * @param {GraphFilter} filter - 検索・フィルター・フォーカスの状態
+ * @returns {boolean} 有効な条件がある場合はtrue
+ */
+export function isFilterActive(filter: GraphFilter): boolean {
+  return (
+    filter.query.trim() !== "" ||
+    filter.focus !== null ||
+    Object.values(filter.facets).some((values) => values.length > 0)
+  );
+}
@@ -0,0 +1,66 @@
+import { FileEdge, FileNode } from "@/types/yaml";
+
+/**
+ * ファイルとエッジをIDで引けるようにした索引
+ * 大きなグリモワールでも、ノードごとにファイルやエッジを走査しないようにするために使う
+ * @interface GraphIndex
+ * @property {Map<string, FileNode>} files - ノードIDからファイルノード
+ * @property {Map<string, FileEdge[]>} dependencies - ノードIDから、そのファイルを依存元とするエッジ
+ * @property {Map<string, FileEdge[]>} dependents - ノードIDから、そのファイルを依存先とするエッジ
+ * @property {Map<string, string[]>} folders - フォルダのパスから、配下（サブフォルダを含む）のファイルのノードID
+ */
+export interface GraphIndex {
+  files: Map<string, FileNode>;
+  dependencies: Map<string, FileEdge[]>;
+  dependents: Map<string, FileEdge[]>;
+  folders: Map<string, string[]>;
+}
+
+/**
+ * ファイルのノードIDを、それぞれの祖先のフォルダごとにまとめる
+ * @param {string[]} ids - ファイルのノードID
+ * @returns {Map<string, string[]>} フォルダのパスから、配下（サブフォルダを含む）のファイルのノードID
+ */
+export function groupFilesByFolder(ids: string[]): Map<string, string[]> {
+  const folders = new Map<string, string[]>();
+  ids.forEach((id) => {
+    const segments = id.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      const folder = segments.slice(0, i).join("/");
+      const children = folders.get(folder);
+      if (children) {
+        children.push(id);
+      } else {
+        folders.set(folder, [id]);
+      }
+    }
+  });
+  return folders;
+}
+
+/**
+ * ファイルノードとエッジから索引を作成
+ * @param {FileNode[]} files - ファイルノード
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @returns {GraphIndex} 索引
+ */
+export function buildGraphIndex(
+  files: FileNode[],
+  edges: FileEdge[]
+): GraphIndex {
+  const dependencies = new Map<string, FileEdge[]>();
+  const dependents = new Map<string, FileEdge[]>();
+  edges.forEach((edge) => {
+    if (!dependencies.has(edge.source)) dependencies.set(edge.source, []);
+    if (!dependents.has(edge.target)) dependents.set(edge.target, []);
+    dependencies.get(edge.source)?.push(edge);
+    dependents.get(edge.target)?.push(edge);
+  });
+
+  return {
+    files: new Map(files.map((file) => [file.id, file])),
+    dependencies,
+    dependents,
+    folders: groupFilesByFolder(files.map((file) => file.id)),
+  };
+}
@@ -0,0 +1,80 @@
+import { RenderOptions, RenderResult } from "@/types/api";
+import { LayoutDirection, LayoutEngineId, LayoutOptions } from "@/types/layout";
+import { generateNodesAndEdges, parseGrimoire } from "@/utils/yamlParser";
+import { defaultLayoutOptions, layoutEngines } from "@/utils/layout";
+import { renderGraphSvg } from "@/utils/graphSvg";
+
+/**
+ * 文字列で指定されたレイアウトの設定を検証して変換
+ * APIのクエリやCLIの引数など、外部からの入力に使う
+ * @param {string | null} [engine] - レイアウトエンジンの識別子
+ * @param {string | null} [direction] - グラフの方向
+ * @returns {LayoutOptions} レイアウトの設定
+ * @throws {Error} 不明なエンジン・方向が指定された場合
+ */
+export function parseLayoutOptions(
+  engine?: string | null,
+  direction?: string | null
+): LayoutOptions {
+  if (engine && !(engine in layoutEngines)) {
+    throw new Error(
+      `不明なレイアウトエンジンです: ${engine}（${Object.keys(
+        layoutEngines
+      ).join(" / ")}）`
+    );
+  }
+  if (direction && direction !== "TB" && direction !== "LR") {
+    throw new Error(`不明な方向です: ${direction}（TB / LR）`);
+  }
+  return {
+    engine: (engine as LayoutEngineId) || defaultLayoutOptions.engine,
+    direction: (direction as LayoutDirection) || defaultLayoutOptions.direction,
+  };
+}
+
+/**
+ * グリモワールのYAMLテキストをブラウザを使わずに解析・描画する
+ * APIのルートハンドラーとCLIから呼び出され、ブラウザと同じ解析・検証・レイアウトを使う
+ * @param {string} yamlText - グリモワールのYAMLテキスト
+ * @param {RenderOptions} options - 出力形式とレイアウトの設定
+ * @returns {RenderResult} 診断結果と、解析できた場合はグラフ（またはSVG）
+ */
+export function renderGrimoire(
+  yamlText: string,
+  options: RenderOptions
+): RenderResult {
+  const { data, diagnostics } = parseGrimoire(
+    yamlText,
+    options.includes,
+    options.lint
+  );
+  const ok = !diagnostics.some((d) => d.severity === "error");
+  if (!data) {
+    return { ok, diagnostics };
+  }
+
+  const { nodes, edges, agents } = generateNodesAndEdges(
+    data,
+    new Set(),
+    options.layout
+  );
+  const graph = {
+    nodes,
+    edges,
+    agents: Array.from(agents).filter((agent) => agent),
+  };
+
+  if (options.format === "svg") {
+    return {
+      ok,
+      diagnostics,
+      svg: renderGraphSvg(
+        nodes,
+        edges,
+        options.layout.direction,
+        options.theme
+      ),
+    };
+  }
+  return { ok, diagnostics, graph };
+}
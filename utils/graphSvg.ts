@@ -0,0 +1,317 @@
+import { FileEdge, FileNode, FolderNode, GraphNode } from "@/types/yaml";
+import { LayoutDirection } from "@/types/layout";
+import {
+  defaultNodeHeight,
+  defaultNodeWidth,
+  issueEdgeColors,
+} from "@/constant/constant";
+import { ThemeConfig, ThemePalette } from "@/types/theme";
+import {
+  defaultThemeConfig,
+  resolveFileStyle,
+  themePalettes,
+} from "@/utils/theme";
+import { isExpandedEdge } from "@/utils/dependencyResolver";
+
+// 画像の余白と、ノードに表示する文字列の最大の長さ
+const svgPadding = 40;
+const maxTextLength = 40;
+
+/**
+ * 描画するノードの絶対位置と大きさ
+ * @interface NodeBox
+ * @property {number} x - 左上のX座標
+ * @property {number} y - 左上のY座標
+ * @property {number} width - 幅
+ * @property {number} height - 高さ
+ */
+interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * XMLの特殊文字をエスケープ
+ * @param {string} text - 文字列
+ * @returns {string} エスケープした文字列
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 長い文字列を省略して1行にする
+ * @param {string} text - 文字列
+ * @returns {string} 省略した文字列
+ */
+function truncate(text: string): string {
+  const line = text.split("\n")[0];
+  return line.length > maxTextLength
+    ? `${line.slice(0, maxTextLength - 1)}…`
+    : line;
+}
+
+/**
+ * ノードの大きさを取得
+ * フォルダはレイアウトで計算した大きさ、ファイルはレイアウト計算用の目安の大きさを使う
+ * @param {GraphNode} node - ノード
+ * @returns {{width: number, height: number}} 大きさ
+ */
+function nodeSize(node: GraphNode): { width: number; height: number } {
+  if (node.type === "folder") {
+    return (node as FolderNode).style;
+  }
+  return { width: parseInt(defaultNodeWidth), height: defaultNodeHeight };
+}
+
+/**
+ * 親ノードからの相対位置を絶対位置に変換
+ * ノードは親ノードが子ノードより先に並んでいる必要がある
+ * @param {GraphNode[]} nodes - レイアウト済みのノード
+ * @returns {Map<string, NodeBox>} ノードIDと絶対位置・大きさの対応
+ */
+function computeBoxes(nodes: GraphNode[]): Map<string, NodeBox> {
+  const boxes = new Map<string, NodeBox>();
+  nodes.forEach((node) => {
+    const parent = node.parentNode ? boxes.get(node.parentNode) : undefined;
+    boxes.set(node.id, {
+      x: node.position.x + (parent?.x ?? 0),
+      y: node.position.y + (parent?.y ?? 0),
+      ...nodeSize(node),
+    });
+  });
+  return boxes;
+}
+
+/**
+ * フォルダの枠（折りたたまれている場合は要約ノード）を描画
+ * @param {FolderNode} node - フォルダノード
+ * @param {NodeBox} box - 絶対位置と大きさ
+ * @param {ThemePalette} palette - 配色
+ * @returns {string} SVGの要素
+ */
+function renderFolder(
+  node: FolderNode,
+  box: NodeBox,
+  palette: ThemePalette
+): string {
+  const { label, fileCount, agents, collapsed } = node.data;
+  const lines = [
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${
+      box.height
+    }" rx="8" fill="${palette.folderBackground}" stroke="${
+      palette.folderBorder
+    }" stroke-width="2"${collapsed ? "" : ' stroke-dasharray="6 4"'}/>`,
+    `<text x="${box.x + 12}" y="${
+      box.y + 24
+    }" font-size="14" font-weight="bold" fill="${
+      palette.folderText
+    }">${escapeXml(label)}</text>`,
+  ];
+  if (collapsed) {
+    lines.push(
+      `<text x="${box.x + 12}" y="${box.y + 48}" font-size="12" fill="${
+        palette.nodeMuted
+      }">${fileCount} ファイル</text>`
+    );
+    if (agents.length > 0) {
+      lines.push(
+        `<text x="${box.x + 12}" y="${box.y + 68}" font-size="12" fill="${
+          palette.nodeMuted
+        }">${escapeXml(truncate(agents.join(", ")))}</text>`
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * ファイルノードを描画
+ * テーマで決まる色の丸、ファイル名、内容の1行目、エージェントを表示する
+ * @param {FileNode} node - ファイルノード
+ * @param {NodeBox} box - 絶対位置と大きさ
+ * @param {ThemeConfig} theme - テーマの設定
+ * @returns {string} SVGの要素
+ */
+function renderFile(node: FileNode, box: NodeBox, theme: ThemeConfig): string {
+  const { label, content, agent, extension, missing } = node.data;
+  const palette = themePalettes[theme.mode];
+  const border =
+    palette.nodeBorder === "transparent" ? "#dddddd" : palette.nodeBorder;
+  const lines = [
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${
+      box.height
+    }" rx="6" fill="${missing ? "#fef2f2" : palette.nodeBackground}" stroke="${
+      missing ? issueEdgeColors.missing : border
+    }"${missing ? ' stroke-dasharray="6 4"' : ""}/>`,
+    `<circle cx="${box.x + 22}" cy="${box.y + 24}" r="6" fill="${
+      missing
+        ? issueEdgeColors.missing
+        : resolveFileStyle(node.id, extension, theme).color
+    }"/>`,
+    `<text x="${box.x + 36}" y="${
+      box.y + 29
+    }" font-size="14" font-weight="bold" fill="${
+      missing ? "#111827" : palette.nodeText
+    }">${escapeXml(truncate(label ?? node.id))}</text>`,
+  ];
+  if (missing) {
+    lines.push(
+      `<text x="${box.x + 16}" y="${
+        box.y + 56
+      }" font-size="12" fill="#b91c1c">未定義のファイル（依存先が見つかりません）</text>`
+    );
+    return lines.join("\n");
+  }
+  if (content) {
+    lines.push(
+      `<text x="${box.x + 16}" y="${box.y + 56}" font-size="12" fill="${
+        palette.nodeMuted
+      }">${escapeXml(truncate(content))}</text>`
+    );
+  }
+  if (agent) {
+    lines.push(
+      `<text x="${box.x + 16}" y="${box.y + 80}" font-size="12" fill="${
+        palette.nodeMuted
+      }">Agent: ${escapeXml(truncate(agent))}</text>`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * エッジを描画
+ * 依存元の出口（上→下の場合は下端、左→右の場合は右端）から依存先の入口へ曲線を引く
+ * @param {FileEdge} edge - 依存関係のエッジ
+ * @param {NodeBox} source - 依存元の位置と大きさ
+ * @param {NodeBox} target - 依存先の位置と大きさ
+ * @param {LayoutDirection} direction - グラフの方向
+ * @param {ThemePalette} palette - 配色
+ * @returns {string} SVGの要素
+ */
+function renderEdge(
+  edge: FileEdge,
+  source: NodeBox,
+  target: NodeBox,
+  direction: LayoutDirection,
+  palette: ThemePalette
+): string {
+  const horizontal = direction === "LR";
+  const start = horizontal
+    ? { x: source.x + source.width, y: source.y + source.height / 2 }
+    : { x: source.x + source.width / 2, y: source.y + source.height };
+  const end = horizontal
+    ? { x: target.x, y: target.y + target.height / 2 }
+    : { x: target.x + target.width / 2, y: target.y };
+  const bend = Math.max(
+    40,
+    Math.abs(horizontal ? end.x - start.x : end.y - start.y) / 2
+  );
+  const [c1, c2] = horizontal
+    ? [
+        { x: start.x + bend, y: start.y },
+        { x: end.x - bend, y: end.y },
+      ]
+    : [
+        { x: start.x, y: start.y + bend },
+        { x: end.x, y: end.y - bend },
+      ];
+
+  const issue = edge.data?.issue;
+  const color = issue ? issueEdgeColors[issue] : palette.edge;
+  const dasharray =
+    issue === "missing" ? "6 4" : isExpandedEdge(edge) ? "2 3" : undefined;
+  const lines = [
+    `<path d="M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${
+      end.x
+    } ${end.y}" fill="none" stroke="${color}" stroke-width="2"${
+      dasharray ? ` stroke-dasharray="${dasharray}"` : ""
+    } marker-end="url(#arrow-${issue ?? "default"})"/>`,
+  ];
+  if (edge.data?.count && edge.data.count > 1) {
+    lines.push(
+      `<text x="${(start.x + end.x) / 2}" y="${
+        (start.y + end.y) / 2
+      }" font-size="12" text-anchor="middle" fill="${color}">${
+        edge.data.count
+      }</text>`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * レイアウト済みのグラフを単体で表示できるSVGに変換
+ * ブラウザを使わずに描画するため、CIでPRに添付する画像の作成に使える
+ * @param {GraphNode[]} nodes - レイアウト済みのノード（親ノードが子ノードより先に並ぶ）
+ * @param {FileEdge[]} edges - 依存関係のエッジ
+ * @param {LayoutDirection} [direction] - グラフの方向
+ * @param {ThemeConfig} [theme] - テーマの設定（ファイルの色と配色モード）
+ * @returns {string} SVGのテキスト
+ */
+export function renderGraphSvg(
+  nodes: GraphNode[],
+  edges: FileEdge[],
+  direction: LayoutDirection = "TB",
+  theme: ThemeConfig = defaultThemeConfig
+): string {
+  const palette = themePalettes[theme.mode];
+  const boxes = computeBoxes(nodes);
+  const allBoxes = Array.from(boxes.values());
+  const minX = Math.min(0, ...allBoxes.map((box) => box.x)) - svgPadding;
+  const minY = Math.min(0, ...allBoxes.map((box) => box.y)) - svgPadding;
+  const maxX = Math.max(0, ...allBoxes.map((box) => box.x + box.width));
+  const maxY = Math.max(0, ...allBoxes.map((box) => box.y + box.height));
+  const width = maxX + svgPadding - minX;
+  const height = maxY + svgPadding - minY;
+
+  // 矢印の色ごとのマーカー
+  const markerColors: [string, string][] = [
+    ["default", palette.edge],
+    ...Object.entries(issueEdgeColors),
+  ];
+  const markers = markerColors.map(
+    ([id, color]) =>
+      `<marker id="arrow-${id}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${color}"/></marker>`
+  );
+
+  const folders = nodes
+    .filter((node) => node.type === "folder")
+    .map((node) =>
+      renderFolder(node as FolderNode, boxes.get(node.id) as NodeBox, palette)
+    );
+  const edgeElements = edges
+    .filter((edge) => boxes.has(edge.source) && boxes.has(edge.target))
+    .map((edge) =>
+      renderEdge(
+        edge,
+        boxes.get(edge.source) as NodeBox,
+        boxes.get(edge.target) as NodeBox,
+        direction,
+        palette
+      )
+    );
+  const files = nodes
+    .filter((node) => node.type !== "folder" && node.type !== "lane")
+    .map((node) =>
+      renderFile(node as FileNode, boxes.get(node.id) as NodeBox, theme)
+    );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">`,
+    `<defs>${markers.join("")}</defs>`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${palette.canvas}"/>`,
+    ...folders,
+    ...edgeElements,
+    ...files,
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,162 @@
+import { FileEdge, FileNode } from "@/types/yaml";
+import { GrimoireAnalytics, NodeDegree, UsageStats } from "@/types/analytics";
+
+// ホットスポットとして集計するファイルの最大数
+const MAX_HOTSPOTS = 10;
+
+/**
+ * ファイルのあるフォルダのパスを取得
+ * @param {string} fileId - ファイルノードのID
+ * @returns {string} フォルダのパス（最上位の場合は空文字列）
+ */
+function folderOf(fileId: string): string {
+  const index = fileId.lastIndexOf("/");
+  return index < 0 ? "" : fileId.slice(0, index);
+}
+
+/**
+ * 名前ごとにまとめたファイルから利用状況を作成
+ * @param {Map<string, string[]>} groups - 名前とファイルのパス
+ * @param {number} totalFiles - 定義されているファイルの数
+ * @returns {UsageStats[]} 利用状況（ファイル数の多い順、同数の場合は名前の順）
+ */
+function toUsageStats(
+  groups: Map<string, string[]>,
+  totalFiles: number
+): UsageStats[] {
+  return Array.from(groups.entries())
+    .map(([name, files]) => ({
+      name,
+      fileCount: files.length,
+      files: [...files].sort(),
+      share: totalFiles > 0 ? files.length / totalFiles : 0,
+      folders: Array.from(new Set(files.map(folderOf))).sort(),
+    }))
+    .sort((a, b) => b.fileCount - a.fileCount || a.name.localeCompare(b.name));
+}
+
+/**
+ * 依存関係から最も長い連鎖（クリティカルパス）を求める
+ * 未定義の依存先・自己依存は除き、循環依存に含まれるファイルは連鎖に含めない
+ * @param {string[]} ids - 定義されているファイルのパス
+ * @param {FileEdge[]} edges - 依存関係のエッジ（依存元 → 依存先）
+ * @returns {string[]} 最も長い連鎖（依存先から依存元の順）
+ */
+export function findCriticalPath(ids: string[], edges: FileEdge[]): string[] {
+  const known = new Set(ids);
+  const remaining = new Map(ids.map((id) => [id, 0]));
+  const dependents = new Map<string, string[]>();
+  const seen = new Set<string>();
+  edges.forEach((edge) => {
+    const key = `${edge.source}\n${edge.target}`;
+    if (
+      seen.has(key) ||
+      edge.source === edge.target ||
+      !known.has(edge.source) ||
+      !known.has(edge.target)
+    ) {
+      return;
+    }
+    seen.add(key);
+    remaining.set(edge.source, (remaining.get(edge.source) ?? 0) + 1);
+    if (!dependents.has(edge.target)) dependents.set(edge.target, []);
+    dependents.get(edge.target)?.push(edge.source);
+  });
+
+  // 依存先から順にたどり、各ファイルまでの最長の連鎖の長さと直前のファイルを記録する
+  const length = new Map<string, number>();
+  const previous = new Map<string, string>();
+  const queue = ids.filter((id) => remaining.get(id) === 0);
+  queue.forEach((id) => length.set(id, 1));
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const current = length.get(id) ?? 1;
+    (dependents.get(id) ?? []).forEach((dependent) => {
+      if (current + 1 > (length.get(dependent) ?? 0)) {
+        length.set(dependent, current + 1);
+        previous.set(dependent, id);
+      }
+      remaining.set(dependent, (remaining.get(dependent) ?? 0) - 1);
+      if (remaining.get(dependent) === 0) queue.push(dependent);
+    });
+  }
+
+  let end: string | undefined;
+  for (const id of queue) {
+    if (!end || (length.get(id) ?? 0) > (length.get(end) ?? 0)) end = id;
+  }
+
+  const path: string[] = [];
+  for (let id = end; id; id = previous.get(id)) path.unshift(id);
+  return path;
+}
+
+/**
+ * ファイルごとのファンイン・ファンアウトを集計
+ * 同じ依存関係の重複と自己依存は数えない
+ * @param {FileNode[]} files - ファイルノード（プレースホルダーを含んでもよい）
+ * @param {FileEdge[]} edges - 依存関係のエッジ（依存元 → 依存先）
+ * @returns {NodeDegree[]} ファイルごとのファンイン・ファンアウト（ファイルの順）
+ */
+export function collectDegrees(
+  files: FileNode[],
+  edges: FileEdge[]
+): NodeDegree[] {
+  const degrees = new Map<string, NodeDegree>(
+    files.map((file) => [file.id, { id: file.id, fanIn: 0, fanOut: 0 }])
+  );
+  const seen = new Set<string>();
+  edges.forEach((edge) => {
+    const key = `${edge.source}\n${edge.target}`;
+    if (seen.has(key) || edge.source === edge.target) return;
+    seen.add(key);
+    const source = degrees.get(edge.source);
+    const target = degrees.get(edge.target);
+    if (source) source.fanOut += 1;
+    if (target) target.fanIn += 1;
+  });
+  return Array.from(degrees.values());
+}
+
+/**
+ * グリモワールのエージェント・APIの利用状況と、依存関係の構造を分析
+ * エージェントごとの作業量の偏りや、実行前のAPIの利用回数の見積もりに使う
+ * @param {FileNode[]} files - ファイルノード（プレースホルダーを含んでもよい）
+ * @param {FileEdge[]} edges - 依存関係のエッジ（依存元 → 依存先）
+ * @returns {GrimoireAnalytics} 分析結果
+ */
+export function analyzeGrimoire(
+  files: FileNode[],
+  edges: FileEdge[]
+): GrimoireAnalytics {
+  const defined = files.filter((file) => !file.data.missing);
+  const agents = new Map<string, string[]>();
+  const apis = new Map<string, string[]>();
+  defined.forEach((file) => {
+    const { agent, api } = file.data;
+    if (agent) agents.set(agent, [...(agents.get(agent) ?? []), file.id]);
+    // 同じファイルで同じAPIが重複していても1回と数える
+    new Set(api ?? []).forEach((name) =>
+      apis.set(name, [...(apis.get(name) ?? []), file.id])
+    );
+  });
+
+  const hotspots = collectDegrees(defined, edges)
+    .filter((degree) => degree.fanIn + degree.fanOut > 0)
+    .sort(
+      (a, b) =>
+        b.fanIn + b.fanOut - (a.fanIn + a.fanOut) || a.id.localeCompare(b.id)
+    )
+    .slice(0, MAX_HOTSPOTS);
+
+  return {
+    totalFiles: defined.length,
+    agents: toUsageStats(agents, defined.length),
+    apis: toUsageStats(apis, defined.length),
+    criticalPath: findCriticalPath(
+      defined.map((file) => file.id),
+      edges
+    ),
+    hotspots,
+  };
+}
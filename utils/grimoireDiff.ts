@@ -0,0 +1,200 @@
+import {
+  ChangeStatus,
+  EditableFileField,
+  FieldChange,
+  FileChange,
+  FileEdge,
+  FileNode,
+  GrimoireComparison,
+  YamlData,
+} from "@/types/yaml";
+import { buildGraphModel } from "@/utils/yamlParser";
+
+// 比較するファイル定義のフィールドと、ノードのデータの対応
+const comparedFields: [EditableFileField, keyof FileNode["data"]][] = [
+  ["content", "content"],
+  ["agent", "agent"],
+  ["api", "api"],
+  ["dependency_wait", "dependencyWait"],
+];
+
+// 変更の種類ごとの見出し
+const statusLabels: Record<ChangeStatus, string> = {
+  added: "追加されたファイル",
+  removed: "削除されたファイル",
+  modified: "変更されたファイル",
+};
+
+/**
+ * 2つのファイルノードのフィールドの変更を求める
+ * @param {FileNode} before - 変更前のノード
+ * @param {FileNode} after - 変更後のノード
+ * @returns {FieldChange[]} 変更されたフィールド
+ */
+function compareFields(before: FileNode, after: FileNode): FieldChange[] {
+  return comparedFields
+    .filter(
+      ([, key]) =>
+        JSON.stringify(before.data[key] ?? null) !==
+        JSON.stringify(after.data[key] ?? null)
+    )
+    .map(([field, key]) => ({
+      field,
+      before: before.data[key] as FieldChange["before"],
+      after: after.data[key] as FieldChange["after"],
+    }));
+}
+
+/**
+ * 2つのグリモワールを比較し、両方を合わせたグラフと変更の一覧を作成
+ * ファイルはパス、依存関係は依存元と依存先の組で対応付ける
+ * @param {YamlData} base - 変更前のグリモワール
+ * @param {YamlData} head - 変更後のグリモワール
+ * @returns {GrimoireComparison} 比較結果
+ */
+export function compareGrimoires(
+  base: YamlData,
+  head: YamlData
+): GrimoireComparison {
+  const baseModel = buildGraphModel(base);
+  const headModel = buildGraphModel(head);
+  const baseFiles = new Map(baseModel.files.map((file) => [file.id, file]));
+  const headFiles = new Map(headModel.files.map((file) => [file.id, file]));
+
+  const files: FileNode[] = [];
+  const fileChanges: FileChange[] = [];
+
+  headFiles.forEach((file, id) => {
+    const before = baseFiles.get(id);
+    const defined = !file.data.missing;
+    const definedBefore = !!before && !before.data.missing;
+    if (defined && !definedBefore) {
+      fileChanges.push({ id, status: "added", fields: [] });
+    } else if (defined && before) {
+      const fields = compareFields(before, file);
+      if (fields.length > 0) {
+        fileChanges.push({ id, status: "modified", fields });
+      }
+    }
+    // 変更後に未定義になったファイルは、削除されたファイルとして変更前のノードを表示する
+    files.push(!defined && definedBefore && before ? before : file);
+  });
+
+  baseFiles.forEach((file, id) => {
+    const after = headFiles.get(id);
+    if (!file.data.missing && (!after || after.data.missing)) {
+      fileChanges.push({ id, status: "removed", fields: [] });
+    }
+    if (!after) files.push(file);
+  });
+
+  // 依存関係はIDが依存元と依存先から作られるため、IDで対応付ける
+  const baseEdgeIds = new Set(baseModel.edges.map((edge) => edge.id));
+  const headEdgeIds = new Set(headModel.edges.map((edge) => edge.id));
+  const addedEdges = headModel.edges.filter(
+    (edge) => !baseEdgeIds.has(edge.id)
+  );
+  const removedEdges = baseModel.edges
+    .filter((edge) => !headEdgeIds.has(edge.id))
+    .map(
+      (edge): FileEdge => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+      })
+    );
+
+  fileChanges.sort((a, b) => a.id.localeCompare(b.id));
+
+  return {
+    files,
+    edges: [...headModel.edges, ...removedEdges],
+    fileChanges,
+    addedEdges,
+    removedEdges,
+  };
+}
+
+/**
+ * フィールドの値を要約の表示用に変換
+ * @param {FieldChange["before"]} value - フィールドの値
+ * @returns {string} 表示用の文字列
+ */
+function formatValue(value: FieldChange["before"]): string {
+  if (value === undefined) return "（なし）";
+  if (Array.isArray(value)) return `\`[${value.join(", ")}]\``;
+  return `\`${String(value)}\``;
+}
+
+/**
+ * フィールドの変更を要約の1行に変換
+ * contentは長くなりやすいため、1行に収まる短い値の場合だけ変更前後を表示する
+ * @param {FieldChange} change - フィールドの変更
+ * @returns {string} 要約の行
+ */
+function formatFieldChange(change: FieldChange): string {
+  if (change.field === "content") {
+    const isShort = [change.before, change.after].every(
+      (value) =>
+        typeof value === "string" && !value.includes("\n") && value.length <= 60
+    );
+    if (!isShort) return "  - content: 内容を変更";
+  }
+  return `  - ${change.field}: ${formatValue(change.before)} → ${formatValue(
+    change.after
+  )}`;
+}
+
+/**
+ * 比較結果をPRのコメントに貼り付けられるMarkdownの要約に変換
+ * @param {GrimoireComparison} comparison - 比較結果
+ * @returns {string} Markdownの要約
+ */
+export function formatComparisonSummary(
+  comparison: GrimoireComparison
+): string {
+  const { fileChanges, addedEdges, removedEdges } = comparison;
+  const countOf = (status: ChangeStatus) =>
+    fileChanges.filter((change) => change.status === status).length;
+
+  const lines = ["## グリモワールの変更", ""];
+  if (
+    fileChanges.length === 0 &&
+    addedEdges.length === 0 &&
+    removedEdges.length === 0
+  ) {
+    lines.push("変更はありません。");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `- ファイル: 追加 ${countOf("added")} / 削除 ${countOf(
+      "removed"
+    )} / 変更 ${countOf("modified")}`,
+    `- 依存関係: 追加 ${addedEdges.length} / 削除 ${removedEdges.length}`
+  );
+
+  (["added", "removed", "modified"] as const).forEach((status) => {
+    const changes = fileChanges.filter((change) => change.status === status);
+    if (changes.length === 0) return;
+    lines.push("", `### ${statusLabels[status]}`, "");
+    changes.forEach((change) => {
+      lines.push(`- \`${change.id}\``);
+      change.fields.forEach((field) => lines.push(formatFieldChange(field)));
+    });
+  });
+
+  const edgeSections: [string, FileEdge[]][] = [
+    ["追加された依存関係", addedEdges],
+    ["削除された依存関係", removedEdges],
+  ];
+  edgeSections.forEach(([title, edges]) => {
+    if (edges.length === 0) return;
+    lines.push("", `### ${title}`, "");
+    edges.forEach((edge) =>
+      lines.push(`- \`${edge.source}\` → \`${edge.target}\``)
+    );
+  });
+
+  return lines.join("\n");
+}
@@ -0,0 +1,112 @@
+import { dump } from "js-yaml";
+import { DirectoryContent, YamlFile } from "@/types/yaml";
+
+/**
+ * 合成グリモワールの生成の設定
+ * @interface FixtureOptions
+ * @property {number} [seed] - 乱数のシード（同じシードからは同じグリモワールを生成する）
+ * @property {number} [filesPerFolder] - 1つのフォルダに置くファイルの数
+ * @property {number} [foldersPerFolder] - 1つのフォルダに置くサブフォルダの数
+ * @property {number} [maxDependencies] - 1つのファイルの依存先の最大数
+ */
+export interface FixtureOptions {
+  seed?: number;
+  filesPerFolder?: number;
+  foldersPerFolder?: number;
+  maxDependencies?: number;
+}
+
+// 合成グリモワールで使うエージェント・API・拡張子
+const FIXTURE_AGENTS = ["claude", "gpt", "gemini", "llama", "mistral"];
+const FIXTURE_APIS = ["openai", "anthropic", "github", "slack", "stripe"];
+const FIXTURE_EXTENSIONS = ["ts", "tsx", "css", "md", "json"];
+
+/**
+ * シードから決まった乱数列を返す関数を作成（mulberry32）
+ * @param {number} seed - シード
+ * @returns {Function} 0以上1未満の乱数を返す関数
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 指定した数のファイルを持つ合成グリモワールのYAMLテキストを生成（性能の計測用）
+ * ファイルはフォルダの木に分けて置き、依存先は近くのファイルを中心に前のファイルから選ぶため循環しない
+ * @param {number} fileCount - ファイルの数（src/structure.yamlを除く）
+ * @param {FixtureOptions} [options] - 生成の設定
+ * @returns {string} YAMLテキスト
+ */
+export function generateGrimoireFixture(
+  fileCount: number,
+  options: FixtureOptions = {}
+): string {
+  const {
+    seed = 1,
+    filesPerFolder = 8,
+    foldersPerFolder = 4,
+    maxDependencies = 3,
+  } = options;
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const src: DirectoryContent = {
+    "structure.yaml": { content: "", dependency: [], agent: "", api: [] },
+  };
+  const paths: string[] = [];
+
+  /**
+   * フォルダの番号からフォルダのパスの要素を求める（幅優先で番号を振った木）
+   * @param {number} index - フォルダの番号（0はsrc直下）
+   * @returns {string[]} srcからのフォルダ名
+   */
+  const folderPath = (index: number): string[] =>
+    index === 0
+      ? []
+      : [
+          ...folderPath(Math.floor((index - 1) / foldersPerFolder)),
+          `module${index}`,
+        ];
+
+  for (let i = 0; i < fileCount; i++) {
+    const folder = folderPath(Math.floor(i / filesPerFolder));
+    const fileName = `file${i}.${pick(FIXTURE_EXTENSIONS)}`;
+    const id = ["src", ...folder, fileName].join("/");
+
+    // 依存先は、直前の数十ファイルから選ぶことが多く、ときどき離れたファイルを選ぶ
+    const dependency = new Set<string>();
+    const count = i === 0 ? 0 : Math.floor(random() * (maxDependencies + 1));
+    for (let d = 0; d < count; d++) {
+      const target =
+        random() < 0.8
+          ? Math.max(0, i - 1 - Math.floor(random() * 30))
+          : Math.floor(random() * i);
+      dependency.add(paths[target]);
+    }
+
+    const file: YamlFile = {
+      content: `${fileName} の仕様\n合成グリモワールのファイル ${i}`,
+      dependency: Array.from(dependency),
+      agent: pick(FIXTURE_AGENTS),
+      api: random() < 0.3 ? [pick(FIXTURE_APIS)] : [],
+      ...(random() < 0.05 && { dependency_wait: true }),
+    };
+
+    let parent = src;
+    folder.forEach((name) => {
+      if (!(name in parent)) parent[name] = {};
+      parent = parent[name] as DirectoryContent;
+    });
+    parent[fileName] = file;
+    paths.push(id);
+  }
+
+  return dump({ src }, { lineWidth: -1 });
+}
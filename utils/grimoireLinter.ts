@@ -0,0 +1,279 @@
+import { Diagnostic, DiagnosticFix } from "@/types/diagnostic";
+import { LintConfig, LintRuleId } from "@/types/lint";
+import { FileEdge, FileNode } from "@/types/yaml";
+import {
+  YamlSourceMap,
+  findFileEntry,
+  locatePath,
+} from "@/utils/yamlSourceMap";
+import { matchesFilePattern } from "@/utils/theme";
+
+// structure.yamlのノードID
+const STRUCTURE_ID = "src/structure.yaml";
+// 書き間違いとみなして修正候補にする編集距離の上限
+const MAX_TYPO_DISTANCE = 2;
+
+/**
+ * 2つの文字列の編集距離（レーベンシュタイン距離）を求める
+ * @param {string} a - 文字列
+ * @param {string} b - 文字列
+ * @returns {number} 編集距離
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 一覧の中から、書き間違いとみなせるほど近い値を探す（大文字小文字は区別しない）
+ * @param {string} value - 調べる値
+ * @param {string[]} candidates - 正しい値の一覧
+ * @returns {string | undefined} 最も近い値（近い値がない場合はundefined）
+ */
+function findClosest(value: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = MAX_TYPO_DISTANCE + 1;
+  candidates.forEach((candidate) => {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * ファイルが、エージェントの扱えるファイル（拡張子またはglobパターン）に一致するかどうか
+ * @param {FileNode} file - ファイルノード
+ * @param {string[]} patterns - 拡張子またはglobパターン
+ * @returns {boolean} いずれかに一致する場合はtrue
+ */
+function matchesSkills(file: FileNode, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    matchesFilePattern(file.id, file.data.extension ?? "", pattern)
+  );
+}
+
+/**
+ * 修正を検査したYAMLテキストに適用できるかどうか
+ * 「!include」で読み込んだファイルの定義は本体のテキストに無いため、修正できない
+ * @param {YamlSourceMap} sourceMap - 検査するYAMLテキストのソースマップ
+ * @param {DiagnosticFix} fix - 修正
+ * @returns {boolean} 修正するファイルの定義がテキスト上にある場合はtrue
+ */
+function canApplyFix(sourceMap: YamlSourceMap, fix: DiagnosticFix): boolean {
+  const { edit } = fix;
+  if (!("fileId" in edit)) return true;
+  return findFileEntry(sourceMap, edit.fileId)?.kind === "mapping";
+}
+
+/**
+ * グリモワールをリントの規則で検査する
+ * スキーマとして正しいグリモワールに対して、設計上の問題（内容の不足・許可されていないエージェントやAPI・
+ * 依存関係の偏り・structure.yamlの記載漏れ）を探し、可能な場合はYAMLテキストの修正を添える
+ * 修正は、対象のファイルが検査するテキスト上で定義されている場合のみ添える
+ * @param {FileNode[]} files - ファイルノード（未定義の依存先のプレースホルダーは含めない）
+ * @param {FileEdge[]} edges - 依存先を解決したエッジ
+ * @param {YamlSourceMap} sourceMap - 検査するYAMLテキストのソースマップ
+ * @param {LintConfig} config - リントの設定
+ * @returns {Diagnostic[]} 診断結果（codeは規則の識別子）
+ */
+export function lintGrimoire(
+  files: FileNode[],
+  edges: FileEdge[],
+  sourceMap: YamlSourceMap,
+  config: LintConfig
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (
+    rule: LintRuleId,
+    path: string[],
+    message: string,
+    fix?: DiagnosticFix
+  ) => {
+    const severity = config.rules[rule];
+    if (severity === "off") return;
+    diagnostics.push({
+      code: rule,
+      severity,
+      message,
+      path,
+      ...locatePath(sourceMap, path),
+      ...(fix && canApplyFix(sourceMap, fix) && { fix }),
+    });
+  };
+
+  // 依存元（自分自身を除く）
+  const dependents = new Map<string, Set<string>>();
+  edges.forEach((edge) => {
+    if (edge.source === edge.target) return;
+    if (!dependents.has(edge.target)) dependents.set(edge.target, new Set());
+    dependents.get(edge.target)?.add(edge.source);
+  });
+  const hasStructure = files.some((file) => file.id === STRUCTURE_ID);
+
+  files.forEach((file) => {
+    const path = file.id.split("/");
+    const { content = "", agent = "", api = [] } = file.data;
+
+    if (content.trim().length < config.minContentLength) {
+      report(
+        "short-content",
+        [...path, "content"],
+        content.trim() === ""
+          ? `"${file.id}" の content が空です`
+          : `"${file.id}" の content が短すぎます（${config.minContentLength} 文字以上）`
+      );
+    }
+
+    // structure.yamlはプロジェクトの概要のため、エージェント・API・依存元の規則は対象外
+    if (file.id === STRUCTURE_ID) return;
+
+    if (
+      agent &&
+      config.allowedAgents.length > 0 &&
+      !config.allowedAgents.includes(agent)
+    ) {
+      const closest = findClosest(agent, config.allowedAgents);
+      report(
+        "unknown-agent",
+        [...path, "agent"],
+        `エージェント "${agent}" は許可されていません（${config.allowedAgents.join(
+          " / "
+        )}）`,
+        closest
+          ? {
+              label: `agent を "${closest}" に変更`,
+              edit: {
+                type: "updateFile",
+                fileId: file.id,
+                field: "agent",
+                value: closest,
+              },
+            }
+          : undefined
+      );
+    }
+
+    if (config.apiRegistry.length > 0) {
+      api.forEach((name: string, index: number) => {
+        if (config.apiRegistry.includes(name)) return;
+        const closest = findClosest(name, config.apiRegistry);
+        report(
+          "unknown-api",
+          [...path, "api", String(index)],
+          `API "${name}" は API の一覧に登録されていません`,
+          {
+            label: closest ? `"${closest}" に変更` : `"${name}" を取り除く`,
+            edit: {
+              type: "updateFile",
+              fileId: file.id,
+              field: "api",
+              value: closest
+                ? api.map((item: string) => (item === name ? closest : item))
+                : api.filter((item: string) => item !== name),
+            },
+          }
+        );
+      });
+    }
+
+    const skills = config.agentSkills[agent];
+    if (skills && skills.length > 0 && !matchesSkills(file, skills)) {
+      // このファイルを扱える別のエージェント（許可されているものに限る）
+      const capable = Object.keys(config.agentSkills).find(
+        (other) =>
+          other !== agent &&
+          (config.allowedAgents.length === 0 ||
+            config.allowedAgents.includes(other)) &&
+          matchesSkills(file, config.agentSkills[other])
+      );
+      report(
+        "agent-skill",
+        [...path, "agent"],
+        `エージェント "${agent}" は "${
+          file.data.label
+        }" のようなファイルを扱えません（${skills.join(", ")}）`,
+        capable
+          ? {
+              label: `agent を "${capable}" に変更`,
+              edit: {
+                type: "updateFile",
+                fileId: file.id,
+                field: "agent",
+                value: capable,
+              },
+            }
+          : undefined
+      );
+    }
+
+    // structure.yamlからの参照は、依存されていることにはなるが依存元の数には数えない
+    const sources = dependents.get(file.id) ?? new Set<string>();
+    const count = sources.size - (sources.has(STRUCTURE_ID) ? 1 : 0);
+    if (sources.size === 0) {
+      report(
+        "orphan-file",
+        path,
+        `"${file.id}" はどのファイルからも依存されていません`,
+        hasStructure
+          ? {
+              label: "structure.yaml の dependency に追加",
+              edit: {
+                type: "addDependency",
+                fileId: STRUCTURE_ID,
+                dependency: file.id,
+              },
+            }
+          : undefined
+      );
+    } else if (count > config.maxFanIn) {
+      report(
+        "fan-in",
+        path,
+        `"${file.id}" の依存元が ${count} 件あります（上限 ${config.maxFanIn} 件）。ファイルの分割を検討してください`
+      );
+    }
+  });
+
+  // src直下のファイル・フォルダが、structure.yamlのdependencyから参照されているか
+  if (hasStructure) {
+    const listed = edges
+      .filter((edge) => edge.source === STRUCTURE_ID)
+      .map((edge) => edge.target);
+    const entries = new Set(
+      files
+        .map((file) => file.id.split("/").slice(0, 2).join("/"))
+        .filter((id) => id !== STRUCTURE_ID)
+    );
+    entries.forEach((id) => {
+      const covered = listed.some(
+        (target) => target === id || target.startsWith(`${id}/`)
+      );
+      if (covered) return;
+      report(
+        "structure-coverage",
+        id.split("/"),
+        `"${id}" が structure.yaml の dependency に含まれていません`,
+        {
+          label: "structure.yaml の dependency に追加",
+          edit: { type: "addDependency", fileId: STRUCTURE_ID, dependency: id },
+        }
+      );
+    });
+  }
+
+  return diagnostics;
+}
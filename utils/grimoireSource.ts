@@ -0,0 +1,110 @@
+import { strFromU8, unzipSync } from "fflate";
+import { LoadedGrimoire, ProjectFile } from "@/types/source";
+import { isProjectFile, skeletonToYaml } from "@/utils/projectSkeleton";
+import { isScannableFile } from "@/utils/importScanner";
+
+// import文を調べるファイルの最大サイズ（これより大きいファイルは依存先を推測しない）
+const MAX_SCAN_SIZE = 512 * 1024;
+
+/**
+ * ファイルの内容を読んでimport文を調べるかどうか
+ * @param {string} path - ファイルのパス
+ * @param {number} size - ファイルのサイズ（バイト）
+ * @returns {boolean} 依存先を推測するソースコードの場合はtrue
+ */
+function shouldScan(path: string, size: number): boolean {
+  return (
+    size <= MAX_SCAN_SIZE &&
+    isScannableFile(path) &&
+    isProjectFile(path.split("/"))
+  );
+}
+
+/**
+ * zipファイルに含まれるプロジェクトのファイルを取得
+ * 依存先を推測するソースコードだけを展開し、それ以外はパスだけを集める
+ * @param {ArrayBuffer | Uint8Array} buffer - zipファイルの内容
+ * @returns {ProjectFile[]} プロジェクトのファイル
+ */
+export function readZipProject(
+  buffer: ArrayBuffer | Uint8Array
+): ProjectFile[] {
+  const paths: string[] = [];
+  const entries = unzipSync(
+    buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer),
+    {
+      filter: (file) => {
+        paths.push(file.name);
+        return shouldScan(file.name, file.originalSize);
+      },
+    }
+  );
+  return paths.map((path) => ({
+    path,
+    text: entries[path] ? strFromU8(entries[path]) : undefined,
+  }));
+}
+
+/**
+ * ファイルからグリモワールを読み込む
+ * zipファイルはプロジェクトとして扱い、構造とimport文から雛形のYAMLを作成する
+ * @param {File} file - 選択またはドロップされたファイル
+ * @returns {Promise<LoadedGrimoire>} 読み込んだグリモワール
+ * @throws {Error} 対応していない形式の場合
+ */
+export async function loadGrimoireFile(file: File): Promise<LoadedGrimoire> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".zip")) {
+    const files = readZipProject(await file.arrayBuffer());
+    return { name: file.name, kind: "zip", text: skeletonToYaml(files) };
+  }
+  if (name.endsWith(".yaml") || name.endsWith(".yml")) {
+    return { name: file.name, kind: "file", text: await file.text() };
+  }
+  throw new Error(
+    `"${file.name}" は読み込めません（.yaml / .yml / .zip に対応しています）`
+  );
+}
+
+/**
+ * フォルダ選択で選ばれたファイルの一覧から、プロジェクトの雛形を作成
+ * 依存先を推測するソースコードだけ内容を読み込む
+ * @param {File[]} files - フォルダ内のファイル（webkitRelativePathを持つ）
+ * @returns {Promise<LoadedGrimoire>} 読み込んだグリモワール
+ */
+export async function loadGrimoireFolder(
+  files: File[]
+): Promise<LoadedGrimoire> {
+  const projectFiles = await Promise.all(
+    files.map(async (file) => {
+      const path = file.webkitRelativePath || file.name;
+      return {
+        path,
+        text: shouldScan(path, file.size) ? await file.text() : undefined,
+      };
+    })
+  );
+  const name = projectFiles[0]?.path.split("/")[0] ?? "folder";
+  return { name, kind: "folder", text: skeletonToYaml(projectFiles) };
+}
+
+/**
+ * URLからグリモワールのYAMLを取得
+ * @param {string} url - 取得するURL
+ * @returns {Promise<LoadedGrimoire>} 読み込んだグリモワール
+ * @throws {Error} 取得に失敗した場合
+ */
+export async function fetchGrimoire(url: string): Promise<LoadedGrimoire> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`"${url}" に接続できませんでした`);
+  }
+  if (!response.ok) {
+    throw new Error(
+      `"${url}" の読み込みに失敗しました（HTTP ${response.status}）`
+    );
+  }
+  return { name: url, kind: "url", text: await response.text(), url };
+}
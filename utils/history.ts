@@ -0,0 +1,53 @@
+import { HistoryEntry, HistoryRestore } from "@/types/history";
+
+/**
+ * 入力をリセットした状態の履歴を作成
+ * ノードの位置はリセット前のものを残し、消した比較元のテキストを元に戻すときのために保持する
+ * @param {HistoryEntry} current - リセット前の状態
+ * @param {string} baseText - リセット前の比較元のYAMLテキスト
+ * @returns {HistoryEntry} リセットした状態
+ */
+export function createResetEntry(
+  current: HistoryEntry,
+  baseText: string
+): HistoryEntry {
+  return {
+    yaml: "",
+    positions: current.positions,
+    ...(baseText !== "" && { clearedBaseText: baseText }),
+  };
+}
+
+/**
+ * 元に戻したときに画面に反映する状態を求める
+ * リセットを元に戻す場合は、リセットで消した比較元のテキストも復元する
+ * @param {HistoryEntry | undefined} leaving - 元に戻す前の状態
+ * @param {HistoryEntry} target - 元に戻した先の状態
+ * @returns {HistoryRestore} 画面に反映する状態
+ */
+export function restoreOnUndo(
+  leaving: HistoryEntry | undefined,
+  target: HistoryEntry
+): HistoryRestore {
+  return {
+    yaml: target.yaml,
+    positions: target.positions,
+    ...(leaving?.clearedBaseText !== undefined && {
+      baseText: leaving.clearedBaseText,
+    }),
+  };
+}
+
+/**
+ * やり直したときに画面に反映する状態を求める
+ * リセットをやり直す場合は、比較元のテキストも消す
+ * @param {HistoryEntry} target - やり直した先の状態
+ * @returns {HistoryRestore} 画面に反映する状態
+ */
+export function restoreOnRedo(target: HistoryEntry): HistoryRestore {
+  return {
+    yaml: target.yaml,
+    positions: target.positions,
+    ...(target.clearedBaseText !== undefined && { baseText: "" }),
+  };
+}
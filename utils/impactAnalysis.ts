@@ -0,0 +1,97 @@
+import { FileEdge, FileNode } from "@/types/yaml";
+import { ImpactAnalysis, ImpactDirection } from "@/types/impact";
+import { buildExecutionPlan } from "@/utils/executionPlan";
+
+/**
+ * ファイルを起点に依存関係を推移的にたどり、影響範囲を求める
+ * 依存元をたどると変更したときに生成し直す必要があるファイル、依存先をたどると生成に必要なファイルになる。
+ * 順序は実行計画と同じ規則（依存先が先、dependency_waitはバリア）で、起点とたどりついたファイルだけから求める
+ * @param {string} fileId - 起点のファイルノードのID
+ * @param {FileNode[]} files - ファイルノード（プレースホルダーを含んでもよい）
+ * @param {FileEdge[]} edges - 依存関係のエッジ（依存元 → 依存先）
+ * @param {ImpactDirection} direction - たどる方向
+ * @returns {ImpactAnalysis} 解析結果
+ */
+export function analyzeImpact(
+  fileId: string,
+  files: FileNode[],
+  edges: FileEdge[],
+  direction: ImpactDirection
+): ImpactAnalysis {
+  // たどる方向の隣接リスト
+  const adjacency = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    const [from, to] =
+      direction === "dependents"
+        ? [edge.target, edge.source]
+        : [edge.source, edge.target];
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    adjacency.get(from)?.push(to);
+  });
+
+  const reached = new Set([fileId]);
+  const queue = [fileId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    (adjacency.get(id) ?? []).forEach((next) => {
+      if (reached.has(next)) return;
+      reached.add(next);
+      queue.push(next);
+    });
+  }
+
+  const targets = files.filter((file) => reached.has(file.id));
+  const plan = buildExecutionPlan(
+    targets,
+    edges.filter((edge) => reached.has(edge.source) && reached.has(edge.target))
+  );
+
+  const counts = new Map<string, number>();
+  targets
+    .filter((file) => !file.data.missing)
+    .forEach((file) => {
+      const agent = file.data.agent ?? "";
+      counts.set(agent, (counts.get(agent) ?? 0) + 1);
+    });
+
+  return {
+    fileId,
+    direction,
+    files: targets.map((file) => file.id).filter((id) => id !== fileId),
+    plan,
+    agentCounts: Array.from(counts.entries()).sort(
+      ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+    ),
+  };
+}
+
+/**
+ * 影響範囲をJSONに変換（部分的な再生成のスクリプトに渡すため）
+ * @param {ImpactAnalysis} impact - 解析結果
+ * @param {FileNode[]} files - ファイルノード
+ * @returns {string} JSONテキスト
+ */
+export function formatImpactJson(
+  impact: ImpactAnalysis,
+  files: FileNode[]
+): string {
+  const agentOf = new Map(files.map((file) => [file.id, file.data.agent]));
+  const toEntry = (id: string) => ({ path: id, agent: agentOf.get(id) ?? "" });
+  return (
+    JSON.stringify(
+      {
+        file: impact.fileId,
+        direction: impact.direction,
+        stages: impact.plan.stages.map((stage) => ({
+          index: stage.index,
+          barrier: stage.barrier,
+          files: stage.files.map(toEntry),
+        })),
+        unscheduled: impact.plan.unscheduled.map(toEntry),
+        agents: Object.fromEntries(impact.agentCounts),
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
@@ -0,0 +1,220 @@
+// import文を調べるJavaScript・TypeScriptの拡張子（解決するときに補う順）
+const SCRIPT_EXTENSIONS = [
+  "ts",
+  "tsx",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "mts",
+  "cts",
+  "vue",
+  "svelte",
+];
+// import文を調べるPythonの拡張子
+const PYTHON_EXTENSIONS = ["py"];
+
+// JavaScript・TypeScriptのimport文・export文・require・動的import
+const SCRIPT_IMPORT_PATTERNS = [
+  /\bimport\s+(?:[^'";()]*?\s+from\s+)?["']([^"'\n]+)["']/g,
+  /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+\w+)?|\{[^}]*\})\s*from\s+["']([^"'\n]+)["']/g,
+  /\b(?:require|import)\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+];
+// Pythonの from ... import ... 文（括弧で囲んで複数行に分けたものを含む）
+const PYTHON_FROM_PATTERN =
+  /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)[^\n]*|.+)$/gm;
+// Pythonの import ... 文
+const PYTHON_IMPORT_PATTERN = /^[ \t]*import[ \t]+(.+)$/gm;
+
+/**
+ * パスの拡張子を取得（小文字）
+ * @param {string} path - ファイルのパス
+ * @returns {string} 拡張子（無い場合は空文字列）
+ */
+function getExtension(path: string): string {
+  const name = path.split("/").pop() ?? "";
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(index + 1).toLowerCase() : "";
+}
+
+/**
+ * import文を調べる対象のファイルかどうか
+ * @param {string} path - ファイルのパス
+ * @returns {boolean} JavaScript・TypeScript・Pythonのファイルの場合はtrue
+ */
+export function isScannableFile(path: string): boolean {
+  const extension = getExtension(path);
+  return (
+    SCRIPT_EXTENSIONS.includes(extension) ||
+    PYTHON_EXTENSIONS.includes(extension)
+  );
+}
+
+/**
+ * 「.」と「..」を含むパスを正規化
+ * @param {string[]} segments - パスの要素
+ * @returns {string | undefined} 正規化したパス（プロジェクトの外を指す場合はundefined）
+ */
+function normalizePath(segments: string[]): string | undefined {
+  const result: string[] = [];
+  for (const segment of segments) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (result.length === 0) return undefined;
+      result.pop();
+    } else {
+      result.push(segment);
+    }
+  }
+  return result.join("/");
+}
+
+/**
+ * JavaScript・TypeScriptのモジュール指定子を、プロジェクトのファイルに解決する
+ * 拡張子の省略・フォルダのindex・「.js」で書かれたTypeScriptのファイルを補い、
+ * 「@/」「~/」はプロジェクトの直下とsrcフォルダからの相対パスとして扱う
+ * @param {string} directory - importしているファイルのフォルダ
+ * @param {string} specifier - モジュール指定子
+ * @param {Set<string>} projectPaths - プロジェクトのすべてのファイルのパス
+ * @returns {string | undefined} 解決したファイルのパス（パッケージなど、プロジェクトに無い場合はundefined）
+ */
+function resolveScriptImport(
+  directory: string,
+  specifier: string,
+  projectPaths: Set<string>
+): string | undefined {
+  let bases: (string | undefined)[];
+  if (specifier.startsWith(".")) {
+    bases = [normalizePath([...directory.split("/"), ...specifier.split("/")])];
+  } else if (/^[@~]\//.test(specifier) || specifier.startsWith("/")) {
+    const rest = specifier.replace(/^[@~]?\//, "");
+    bases = [rest, `src/${rest}`].map((path) => normalizePath(path.split("/")));
+  } else {
+    // tsconfigのbaseUrlからの指定（"components/Button" など）
+    bases = [specifier, `src/${specifier}`];
+  }
+
+  for (const base of bases) {
+    if (base === undefined) continue;
+    const candidates = [
+      base,
+      ...SCRIPT_EXTENSIONS.map((extension) => `${base}.${extension}`),
+      ...SCRIPT_EXTENSIONS.map((extension) => `${base}/index.${extension}`),
+      // ESMのTypeScriptでは「./util.js」と書いて util.ts を読み込む
+      ...["ts", "tsx", "mts"].map((extension) =>
+        base.replace(/\.[mc]?jsx?$/, `.${extension}`)
+      ),
+    ];
+    const found = candidates.find((candidate) => projectPaths.has(candidate));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Pythonのモジュール名を、プロジェクトのファイルに解決する
+ * 「.」で始まる相対importはファイルのパッケージから、それ以外はプロジェクトの直下とsrcフォルダから探す
+ * @param {string} directory - importしているファイルのフォルダ
+ * @param {string} module - モジュール名（"pkg.mod"、".mod"、"..pkg.mod" など）
+ * @param {Set<string>} projectPaths - プロジェクトのすべてのファイルのパス
+ * @returns {string | undefined} 解決したファイルのパス（標準ライブラリなど、プロジェクトに無い場合はundefined）
+ */
+function resolvePythonModule(
+  directory: string,
+  module: string,
+  projectPaths: Set<string>
+): string | undefined {
+  const dots = module.match(/^\.*/)?.[0].length ?? 0;
+  const names = module.slice(dots).split(".").filter(Boolean);
+  let roots: (string | undefined)[];
+  if (dots > 0) {
+    const parents = Array.from({ length: dots - 1 }, () => "..");
+    roots = [normalizePath([...directory.split("/"), ...parents])];
+  } else {
+    roots = ["", "src"];
+  }
+
+  for (const root of roots) {
+    if (root === undefined) continue;
+    const base = normalizePath([...root.split("/"), ...names]);
+    if (base === undefined) continue;
+    const found = [`${base}.py`, `${base}/__init__.py`]
+      .map((path) => path.replace(/^\//, ""))
+      .find((candidate) => projectPaths.has(candidate));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Pythonのimport文から、依存している可能性のあるモジュール名を集める
+ * 「from pkg import name」は name がモジュールの場合とpkgの中の定義の場合があるため、両方を候補にする
+ * @param {string} text - ソースコード
+ * @returns {string[][]} importごとのモジュール名の候補（優先する順）
+ */
+function extractPythonModules(text: string): string[][] {
+  const modules: string[][] = [];
+  for (const [, from, imported] of text.matchAll(PYTHON_FROM_PATTERN)) {
+    imported
+      .replace(/#.*$/gm, "")
+      .replace(/[()\\]/g, "")
+      .split(",")
+      .map((name) => name.trim().split(/\s+/)[0])
+      .filter((name) => name && name !== "*")
+      .forEach((name) => {
+        const separator = from.endsWith(".") ? "" : ".";
+        modules.push([`${from}${separator}${name}`, from]);
+      });
+    if (imported.trim().startsWith("*")) modules.push([from]);
+  }
+  for (const [, imported] of text.matchAll(PYTHON_IMPORT_PATTERN)) {
+    imported
+      .replace(/#.*$/, "")
+      .split(",")
+      .map((name) => name.trim().split(/\s+/)[0])
+      .filter(Boolean)
+      .forEach((name) => modules.push([name]));
+  }
+  return modules;
+}
+
+/**
+ * ソースコードのimport文から、依存しているプロジェクトのファイルを推測する
+ * 正規表現で調べるため、コメントや文字列の中のimport文も対象になる
+ * @param {string} path - ソースコードのファイルのパス（プロジェクトの直下からの相対パス）
+ * @param {string} text - ソースコード
+ * @param {Set<string>} projectPaths - プロジェクトのすべてのファイルのパス
+ * @returns {string[]} 依存しているファイルのパス（重複と自分自身を除く）
+ */
+export function findImportedFiles(
+  path: string,
+  text: string,
+  projectPaths: Set<string>
+): string[] {
+  const directory = path.split("/").slice(0, -1).join("/");
+  const extension = getExtension(path);
+  const found = new Set<string>();
+
+  if (SCRIPT_EXTENSIONS.includes(extension)) {
+    SCRIPT_IMPORT_PATTERNS.forEach((pattern) => {
+      for (const [, specifier] of text.matchAll(pattern)) {
+        const resolved = resolveScriptImport(
+          directory,
+          specifier,
+          projectPaths
+        );
+        if (resolved) found.add(resolved);
+      }
+    });
+  } else if (PYTHON_EXTENSIONS.includes(extension)) {
+    extractPythonModules(text).forEach((candidates) => {
+      const resolved = candidates
+        .map((module) => resolvePythonModule(directory, module, projectPaths))
+        .find(Boolean);
+      if (resolved) found.add(resolved);
+    });
+  }
+
+  found.delete(path);
+  return Array.from(found);
+}
@@ -0,0 +1,125 @@
+import {
+  forceSimulation,
+  forceLink,
+  forceManyBody,
+  forceCollide,
+  forceX,
+  forceY,
+  SimulationNodeDatum,
+} from "d3";
+import {
+  LayoutUnit,
+  LayoutEdge,
+  LayoutPositions,
+  LayoutDirection,
+  LayoutEngine,
+} from "@/types/layout";
+import { layeredLayout } from "@/utils/layout/layered";
+
+// シミュレーションの反復回数
+const TICKS = 300;
+// ノード同士の反発力
+const CHARGE_STRENGTH = -1200;
+// 衝突判定でノードの外側に確保する余白
+const COLLIDE_MARGIN = 20;
+// 初期配置（階層レイアウト）の層方向の位置を保つ力の強さ
+const DIRECTION_STRENGTH = 0.08;
+
+/**
+ * シミュレーションで扱うノード
+ */
+interface ForceNode extends SimulationNodeDatum {
+  id: string;
+  width: number;
+  height: number;
+  anchor: number;
+}
+
+/**
+ * 力学モデル（d3-force）によるレイアウト
+ * 階層レイアウトの結果を初期位置として使い、層の方向の位置を弱く保ちながら
+ * エッジで結ばれたノードを引き寄せ、重なったノードを押し離す
+ * @param {LayoutUnit[]} units - 配置する矩形
+ * @param {LayoutEdge[]} edges - 依存関係のエッジ
+ * @param {LayoutDirection} direction - レイアウトの方向
+ * @returns {LayoutPositions} 各矩形の左上座標
+ */
+export function forceLayout(
+  units: LayoutUnit[],
+  edges: LayoutEdge[],
+  direction: LayoutDirection
+): LayoutPositions {
+  const horizontal = direction === "LR";
+  const initial = layeredLayout(units, edges, direction);
+  const ids = new Set(units.map((unit) => unit.id));
+
+  // d3-forceは中心座標で計算するため、左上座標から変換する
+  const nodes: ForceNode[] = units.map((unit) => {
+    const x = initial[unit.id].x + unit.width / 2;
+    const y = initial[unit.id].y + unit.height / 2;
+    return {
+      id: unit.id,
+      width: unit.width,
+      height: unit.height,
+      x,
+      y,
+      anchor: horizontal ? x : y,
+    };
+  });
+  const links = edges
+    .filter(
+      (edge) =>
+        edge.source !== edge.target &&
+        ids.has(edge.source) &&
+        ids.has(edge.target)
+    )
+    .map((edge) => ({ source: edge.source, target: edge.target }));
+
+  const simulation = forceSimulation<ForceNode>(nodes)
+    .force(
+      "link",
+      forceLink<ForceNode, { source: string; target: string }>(links)
+        .id((node) => node.id)
+        .distance(
+          (link) =>
+            Math.max(
+              (link.source as unknown as ForceNode).height,
+              (link.target as unknown as ForceNode).height
+            ) + 120
+        )
+    )
+    .force("charge", forceManyBody().strength(CHARGE_STRENGTH))
+    .force(
+      "collide",
+      forceCollide<ForceNode>(
+        (node) => Math.hypot(node.width, node.height) / 2 + COLLIDE_MARGIN
+      )
+    )
+    .force(
+      "direction",
+      horizontal
+        ? forceX<ForceNode>((node) => node.anchor).strength(DIRECTION_STRENGTH)
+        : forceY<ForceNode>((node) => node.anchor).strength(DIRECTION_STRENGTH)
+    )
+    .stop();
+
+  simulation.tick(TICKS);
+
+  const positions: LayoutPositions = {};
+  nodes.forEach((node) => {
+    positions[node.id] = {
+      x: (node.x ?? 0) - node.width / 2,
+      y: (node.y ?? 0) - node.height / 2,
+    };
+  });
+  return positions;
+}
+
+/**
+ * 力学モデルのレイアウトエンジン
+ */
+export const forceEngine: LayoutEngine = {
+  id: "force",
+  label: "力学モデル",
+  layout: forceLayout,
+};
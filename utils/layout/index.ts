@@ -0,0 +1,45 @@
+import {
+  LayoutEngine,
+  LayoutEngineId,
+  LayoutOptions,
+  LayoutRequest,
+  LayoutResult,
+} from "@/types/layout";
+import { buildFolderGraph } from "@/utils/folderGroups";
+import { layeredEngine } from "@/utils/layout/layered";
+import { forceEngine } from "@/utils/layout/force";
+
+/**
+ * 利用できるレイアウトエンジンの一覧
+ */
+export const layoutEngines: Record<LayoutEngineId, LayoutEngine> = {
+  layered: layeredEngine,
+  force: forceEngine,
+};
+
+/**
+ * レイアウトの初期設定
+ */
+export const defaultLayoutOptions: LayoutOptions = {
+  engine: "layered",
+  direction: "TB",
+};
+
+/**
+ * グラフ全体のレイアウトを計算
+ * フォルダごとに選択されたエンジンで配置し、フォルダの大きさを求めて親フォルダで配置する
+ * Web Workerとメインスレッドの両方から呼び出される
+ * @param {LayoutRequest} request - レイアウト要求
+ * @returns {LayoutResult} 位置を計算したノードとエッジ
+ */
+export function layoutGraph(request: LayoutRequest): LayoutResult {
+  const engine = layoutEngines[request.options.engine] ?? layoutEngines.layered;
+
+  return buildFolderGraph(
+    request.files,
+    request.edges,
+    new Set(request.collapsed),
+    (units, edges) => engine.layout(units, edges, request.options.direction),
+    request.sizes
+  );
+}
@@ -0,0 +1,415 @@
+import {
+  LayoutUnit,
+  LayoutEdge,
+  LayoutPositions,
+  LayoutDirection,
+  LayoutEngine,
+} from "@/types/layout";
+import {
+  defaultNodeWidth,
+  defaultNodeHeight,
+  defaultHorizontalSpacing,
+  defaultVerticalSpacing,
+} from "@/constant/constant";
+
+// 同じ層で隣り合うノード間の余白（標準サイズのノード同士の間隔から算出）
+const NODE_GAP = defaultHorizontalSpacing - parseInt(defaultNodeWidth);
+// 層と層の間の基本の余白
+const LAYER_GAP = defaultVerticalSpacing - defaultNodeHeight;
+// 層の間を通るエッジ1本あたりに追加する余白
+const LAYER_GAP_PER_EDGE = 8;
+// 層と層の間の余白の上限
+const MAX_LAYER_GAP = LAYER_GAP * 3;
+// 複数の層をまたぐエッジに挿入するダミーノードの大きさ
+const DUMMY_SIZE = 20;
+// 交差削減の反復回数
+const ORDERING_ITERATIONS = 24;
+// 座標調整の反復回数
+const POSITIONING_ITERATIONS = 8;
+
+/**
+ * 階層レイアウト内部で扱うノード
+ * breadthは層に沿った方向の大きさ、depthは層をまたぐ方向の大きさ
+ */
+interface LayeredNode {
+  id: string;
+  breadth: number;
+  depth: number;
+  dummy: boolean;
+  rank: number;
+  order: number;
+  pos: number;
+  preds: number[];
+  succs: number[];
+}
+
+/**
+ * 深さ優先探索で後退辺を反転し、循環のないエッジ集合にする
+ * @param {number} count - ノード数
+ * @param {[number, number][]} edges - ノード番号のエッジ
+ * @returns {[number, number][]} 循環を除いたエッジ
+ */
+function removeCycles(
+  count: number,
+  edges: [number, number][]
+): [number, number][] {
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  edges.forEach(([s], index) => outgoing[s].push(index));
+
+  const state = new Array<number>(count).fill(0); // 0: 未訪問, 1: 探索中, 2: 完了
+  const reversed = new Set<number>();
+
+  for (let start = 0; start < count; start++) {
+    if (state[start] !== 0) continue;
+    const stack: { node: number; next: number }[] = [{ node: start, next: 0 }];
+    state[start] = 1;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next >= outgoing[frame.node].length) {
+        state[frame.node] = 2;
+        stack.pop();
+        continue;
+      }
+      const edgeIndex = outgoing[frame.node][frame.next++];
+      const target = edges[edgeIndex][1];
+      if (state[target] === 1) {
+        reversed.add(edgeIndex);
+      } else if (state[target] === 0) {
+        state[target] = 1;
+        stack.push({ node: target, next: 0 });
+      }
+    }
+  }
+
+  return edges.map(([s, t], index) => (reversed.has(index) ? [t, s] : [s, t]));
+}
+
+/**
+ * 最長パス法で各ノードの層を決める
+ * 入力エッジを持たないノードは、依存先の直前の層まで引き下げてエッジを短くする
+ * @param {number} count - ノード数
+ * @param {[number, number][]} edges - 循環のないエッジ
+ * @returns {number[]} 各ノードの層
+ */
+function assignRanks(count: number, edges: [number, number][]): number[] {
+  const rank = new Array<number>(count).fill(0);
+  const inDegree = new Array<number>(count).fill(0);
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  edges.forEach(([s, t]) => {
+    outgoing[s].push(t);
+    inDegree[t]++;
+  });
+
+  // トポロジカル順に最長パスを伝播
+  const queue: number[] = [];
+  const remaining = [...inDegree];
+  remaining.forEach((degree, node) => degree === 0 && queue.push(node));
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    outgoing[node].forEach((target) => {
+      rank[target] = Math.max(rank[target], rank[node] + 1);
+      if (--remaining[target] === 0) queue.push(target);
+    });
+  }
+
+  // 依存元を持たないノードを依存先に近づける
+  for (let node = 0; node < count; node++) {
+    if (inDegree[node] === 0 && outgoing[node].length > 0) {
+      rank[node] = Math.min(...outgoing[node].map((t) => rank[t])) - 1;
+    }
+  }
+
+  return rank;
+}
+
+/**
+ * 隣り合う2層間のエッジの交差数を数える（Fenwick木による転倒数の計算）
+ * @param {LayeredNode[]} nodes - ノード
+ * @param {number[]} upper - 上側の層のノード番号
+ * @param {number} lowerSize - 下側の層のノード数
+ * @returns {number} 交差数
+ */
+function countCrossings(
+  nodes: LayeredNode[],
+  upper: number[],
+  lowerSize: number
+): number {
+  const targets: number[] = [];
+  upper.forEach((node) => {
+    nodes[node].succs
+      .map((succ) => nodes[succ].order)
+      .sort((a, b) => a - b)
+      .forEach((order) => targets.push(order));
+  });
+
+  const tree = new Array<number>(lowerSize + 1).fill(0);
+  let crossings = 0;
+  for (let i = targets.length - 1; i >= 0; i--) {
+    // 自分より右側（後に処理した）で、より左の位置に接続しているエッジの数
+    for (let j = targets[i]; j > 0; j -= j & -j) crossings += tree[j];
+    for (let j = targets[i] + 1; j <= lowerSize; j += j & -j) tree[j]++;
+  }
+  return crossings;
+}
+
+/**
+ * 各層の並び順を重心法で入れ替え、エッジの交差を減らす
+ * @param {LayeredNode[]} nodes - ノード
+ * @param {number[][]} layers - 層ごとのノード番号（並び順は更新される）
+ */
+function minimizeCrossings(nodes: LayeredNode[], layers: number[][]) {
+  /**
+   * 全層の交差数の合計
+   * @returns {number} 交差数
+   */
+  const totalCrossings = () =>
+    layers
+      .slice(0, -1)
+      .reduce(
+        (sum, layer, index) =>
+          sum + countCrossings(nodes, layer, layers[index + 1].length),
+        0
+      );
+
+  /**
+   * 隣接層の並び順の重心で層を並べ替える
+   * @param {number[]} layer - 並べ替える層
+   * @param {"preds" | "succs"} side - 参照する隣接層の方向
+   */
+  const sortByBarycenter = (layer: number[], side: "preds" | "succs") => {
+    const barycenter = new Map<number, number>();
+    layer.forEach((node) => {
+      const neighbors = nodes[node][side];
+      barycenter.set(
+        node,
+        neighbors.length > 0
+          ? neighbors.reduce((sum, n) => sum + nodes[n].order, 0) /
+              neighbors.length
+          : nodes[node].order
+      );
+    });
+    layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+    layer.forEach((node, order) => (nodes[node].order = order));
+  };
+
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = totalCrossings();
+
+  for (let i = 0; i < ORDERING_ITERATIONS && bestCrossings > 0; i++) {
+    if (i % 2 === 0) {
+      for (let r = 1; r < layers.length; r++) {
+        sortByBarycenter(layers[r], "preds");
+      }
+    } else {
+      for (let r = layers.length - 2; r >= 0; r--) {
+        sortByBarycenter(layers[r], "succs");
+      }
+    }
+
+    const crossings = totalCrossings();
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map((layer) => [...layer]);
+    }
+  }
+
+  // 最も交差の少なかった並び順に戻す
+  best.forEach((layer, r) => {
+    layers[r] = layer;
+    layer.forEach((node, order) => (nodes[node].order = order));
+  });
+}
+
+/**
+ * 層に沿った方向の座標を決める
+ * 隣接層の平均位置に近づけつつ、並び順とノードの大きさに応じた間隔を保つ
+ * @param {LayeredNode[]} nodes - ノード
+ * @param {number[][]} layers - 層ごとのノード番号
+ */
+function assignPositions(nodes: LayeredNode[], layers: number[][]) {
+  /**
+   * 隣り合う2ノードの中心間の最小距離
+   * @param {number} a - 左側のノード番号
+   * @param {number} b - 右側のノード番号
+   * @returns {number} 最小距離
+   */
+  const separation = (a: number, b: number) =>
+    (nodes[a].breadth + nodes[b].breadth) / 2 +
+    (nodes[a].dummy || nodes[b].dummy ? NODE_GAP / 2 : NODE_GAP);
+
+  // 初期配置: 各層を中央揃えで詰めて並べる
+  layers.forEach((layer) => {
+    let cursor = 0;
+    layer.forEach((node, index) => {
+      if (index > 0) cursor += separation(layer[index - 1], node);
+      nodes[node].pos = cursor;
+    });
+    layer.forEach((node) => (nodes[node].pos -= cursor / 2));
+  });
+
+  /**
+   * 希望位置に近づけながら重なりを解消する
+   * 左から詰めた解と右から詰めた解の平均を取る（どちらも制約を満たすため平均も満たす）
+   * @param {number[]} layer - 対象の層
+   * @param {number[]} desired - 各ノードの希望位置
+   */
+  const placeLayer = (layer: number[], desired: number[]) => {
+    const fromLeft = [...desired];
+    for (let i = 1; i < layer.length; i++) {
+      fromLeft[i] = Math.max(
+        desired[i],
+        fromLeft[i - 1] + separation(layer[i - 1], layer[i])
+      );
+    }
+    const fromRight = [...desired];
+    for (let i = layer.length - 2; i >= 0; i--) {
+      fromRight[i] = Math.min(
+        desired[i],
+        fromRight[i + 1] - separation(layer[i], layer[i + 1])
+      );
+    }
+    layer.forEach(
+      (node, i) => (nodes[node].pos = (fromLeft[i] + fromRight[i]) / 2)
+    );
+  };
+
+  for (let i = 0; i < POSITIONING_ITERATIONS; i++) {
+    const side = i % 2 === 0 ? "preds" : "succs";
+    const order =
+      side === "preds"
+        ? layers.map((_, r) => r)
+        : layers.map((_, r) => layers.length - 1 - r);
+
+    order.forEach((r) => {
+      const layer = layers[r];
+      const desired = layer.map((node) => {
+        const neighbors = nodes[node][side];
+        return neighbors.length > 0
+          ? neighbors.reduce((sum, n) => sum + nodes[n].pos, 0) /
+              neighbors.length
+          : nodes[node].pos;
+      });
+      placeLayer(layer, desired);
+    });
+  }
+}
+
+/**
+ * Sugiyama法による階層レイアウト
+ * 1. 後退辺の反転による循環の除去 2. 最長パス法による層の決定
+ * 3. 複数層をまたぐエッジへのダミーノードの挿入 4. 重心法による交差削減
+ * 5. ノードの大きさと層間のエッジ数を考慮した座標の決定
+ * @param {LayoutUnit[]} units - 配置する矩形
+ * @param {LayoutEdge[]} edges - 依存関係のエッジ
+ * @param {LayoutDirection} direction - レイアウトの方向
+ * @returns {LayoutPositions} 各矩形の左上座標
+ */
+export function layeredLayout(
+  units: LayoutUnit[],
+  edges: LayoutEdge[],
+  direction: LayoutDirection
+): LayoutPositions {
+  const horizontal = direction === "LR";
+  const indexOf = new Map(units.map((unit, index) => [unit.id, index]));
+
+  // 同じ2点間のエッジや自己ループを除いたエッジ
+  const seen = new Set<string>();
+  const rawEdges: [number, number][] = [];
+  edges.forEach((edge) => {
+    const s = indexOf.get(edge.source);
+    const t = indexOf.get(edge.target);
+    if (s === undefined || t === undefined || s === t) return;
+    const key = `${s}-${t}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    rawEdges.push([s, t]);
+  });
+
+  const dagEdges = removeCycles(units.length, rawEdges);
+  const ranks = assignRanks(units.length, dagEdges);
+
+  const nodes: LayeredNode[] = units.map((unit, index) => ({
+    id: unit.id,
+    breadth: horizontal ? unit.height : unit.width,
+    depth: horizontal ? unit.width : unit.height,
+    dummy: false,
+    rank: ranks[index],
+    order: 0,
+    pos: 0,
+    preds: [],
+    succs: [],
+  }));
+
+  // 複数の層をまたぐエッジをダミーノードで分割
+  dagEdges.forEach(([s, t]) => {
+    let previous = s;
+    for (let r = nodes[s].rank + 1; r < nodes[t].rank; r++) {
+      const dummy = nodes.length;
+      nodes.push({
+        id: `__dummy_${dummy}`,
+        breadth: DUMMY_SIZE,
+        depth: DUMMY_SIZE,
+        dummy: true,
+        rank: r,
+        order: 0,
+        pos: 0,
+        preds: [],
+        succs: [],
+      });
+      nodes[previous].succs.push(dummy);
+      nodes[dummy].preds.push(previous);
+      previous = dummy;
+    }
+    nodes[previous].succs.push(t);
+    nodes[t].preds.push(previous);
+  });
+
+  // 層ごとにノードを振り分け（入力順を初期の並び順とする）
+  const layerCount = Math.max(0, ...nodes.map((node) => node.rank + 1));
+  const layers: number[][] = Array.from({ length: layerCount }, () => []);
+  nodes.forEach((node, index) => {
+    node.order = layers[node.rank].length;
+    layers[node.rank].push(index);
+  });
+
+  minimizeCrossings(nodes, layers);
+  assignPositions(nodes, layers);
+
+  // 層をまたぐ方向の座標: 層の大きさと層間のエッジ数に応じて間隔を広げる
+  const layerDepth = layers.map((layer) =>
+    Math.max(0, ...layer.map((node) => nodes[node].depth))
+  );
+  const layerStart: number[] = [];
+  let cursor = 0;
+  layers.forEach((layer, r) => {
+    layerStart[r] = cursor;
+    const edgeCount = layer.reduce(
+      (sum, node) => sum + nodes[node].succs.length,
+      0
+    );
+    cursor +=
+      layerDepth[r] +
+      Math.min(MAX_LAYER_GAP, LAYER_GAP + edgeCount * LAYER_GAP_PER_EDGE);
+  });
+
+  const positions: LayoutPositions = {};
+  units.forEach((unit, index) => {
+    const node = nodes[index];
+    const depthCenter = layerStart[node.rank] + layerDepth[node.rank] / 2;
+    positions[unit.id] = horizontal
+      ? { x: depthCenter - unit.width / 2, y: node.pos - unit.height / 2 }
+      : { x: node.pos - unit.width / 2, y: depthCenter - unit.height / 2 };
+  });
+
+  return positions;
+}
+
+/**
+ * 階層レイアウトエンジン
+ */
+export const layeredEngine: LayoutEngine = {
+  id: "layered",
+  label: "階層レイアウト",
+  layout: layeredLayout,
+};
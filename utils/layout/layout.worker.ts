@@ -0,0 +1,19 @@
+import { LayoutRequest } from "@/types/layout";
+import { layoutGraph } from "@/utils/layout";
+
+// Web Workerのグローバルスコープ
+const ctx = self as unknown as Worker;
+
+/**
+ * メインスレッドからのレイアウト要求を処理し、結果を返す
+ */
+ctx.onmessage = (
+  event: MessageEvent<{ id: number; request: LayoutRequest }>
+) => {
+  const { id, request } = event.data;
+  try {
+    ctx.postMessage({ id, result: layoutGraph(request) });
+  } catch (error) {
+    ctx.postMessage({ id, error: String(error) });
+  }
+};
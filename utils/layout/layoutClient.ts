@@ -0,0 +1,89 @@
+import { LayoutRequest, LayoutResult } from "@/types/layout";
+import { layoutGraph } from "@/utils/layout";
+
+/**
+ * 応答待ちのレイアウト要求
+ */
+interface PendingRequest {
+  request: LayoutRequest;
+  resolve: (result: LayoutResult) => void;
+  reject: (error: Error) => void;
+}
+
+// レイアウト計算用のWeb Worker（undefined: 未作成 / null: 利用不可）
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Web Workerを取得（初回呼び出し時に作成）
+ * Workerが使えない環境ではnullを返し、メインスレッドで計算する
+ * @returns {Worker | null} Web Worker
+ */
+function getWorker(): Worker | null {
+  if (worker !== undefined) {
+    return worker;
+  }
+  if (typeof window === "undefined" || typeof Worker === "undefined") {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL("./layout.worker.ts", import.meta.url));
+  } catch (error) {
+    console.error("Failed to start layout worker:", error);
+    worker = null;
+    return worker;
+  }
+
+  worker.onmessage = (
+    event: MessageEvent<{ id: number; result?: LayoutResult; error?: string }>
+  ) => {
+    const { id, result, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (result) {
+      request.resolve(result);
+    } else {
+      request.reject(new Error(error));
+    }
+  };
+
+  // Workerの読み込みに失敗した場合は、以降メインスレッドで計算する
+  worker.onerror = (event) => {
+    console.error("Layout worker error:", event.message);
+    worker?.terminate();
+    worker = null;
+    pending.forEach(({ request, resolve, reject }) => {
+      try {
+        resolve(layoutGraph(request));
+      } catch (error) {
+        reject(error as Error);
+      }
+    });
+    pending.clear();
+  };
+
+  return worker;
+}
+
+/**
+ * グラフのレイアウトを計算する
+ * 大きなグリモワールでも入力を妨げないよう、可能であればWeb Workerで計算する
+ * @param {LayoutRequest} request - レイアウト要求
+ * @returns {Promise<LayoutResult>} 位置を計算したノードとエッジ
+ */
+export function requestLayout(request: LayoutRequest): Promise<LayoutResult> {
+  const layoutWorker = getWorker();
+  if (!layoutWorker) {
+    return Promise.resolve().then(() => layoutGraph(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { request, resolve, reject });
+    layoutWorker.postMessage({ id, request });
+  });
+}
@@ -0,0 +1,203 @@
+import { LintConfig, LintRuleId, LintRuleLevel } from "@/types/lint";
+
+/**
+ * リントの規則の表示名と説明
+ */
+export const lintRuleLabels: Record<
+  LintRuleId,
+  { label: string; description: string }
+> = {
+  "short-content": {
+    label: "content が短い",
+    description: "content が空、または最小の文字数より短いファイル",
+  },
+  "unknown-agent": {
+    label: "許可されていないエージェント",
+    description: "許可するエージェントの一覧にないエージェント",
+  },
+  "unknown-api": {
+    label: "一覧にない API",
+    description: "API の一覧に登録されていない API",
+  },
+  "agent-skill": {
+    label: "エージェントの得意分野",
+    description: "エージェントが扱えるファイルに一致しない拡張子のファイル",
+  },
+  "orphan-file": {
+    label: "どこからも依存されていないファイル",
+    description: "どのファイルの dependency にも含まれていないファイル",
+  },
+  "fan-in": {
+    label: "依存元が多すぎるファイル",
+    description: "依存元の数が上限を超えるファイル",
+  },
+  "structure-coverage": {
+    label: "structure.yaml の記載漏れ",
+    description:
+      "src 直下のファイル・フォルダのうち、structure.yaml の dependency に含まれていないもの",
+  },
+};
+
+// 規則の重要度の選択肢
+export const lintRuleLevels: LintRuleLevel[] = [
+  "off",
+  "info",
+  "warning",
+  "error",
+];
+
+/**
+ * リントの初期設定
+ * 許可するエージェント・APIの一覧・エージェントの扱えるファイルは空のため、それらの規則は設定するまで何も報告しない
+ */
+export const defaultLintConfig: LintConfig = {
+  version: 1,
+  rules: {
+    "short-content": "warning",
+    "unknown-agent": "warning",
+    "unknown-api": "warning",
+    "agent-skill": "info",
+    "orphan-file": "info",
+    "fan-in": "info",
+    "structure-coverage": "warning",
+  },
+  minContentLength: 10,
+  allowedAgents: [],
+  apiRegistry: [],
+  agentSkills: {},
+  maxFanIn: 10,
+};
+
+/**
+ * リントの設定をJSONテキストに変換
+ * @param {LintConfig} config - リントの設定
+ * @returns {string} JSONテキスト
+ */
+export function serializeLintConfig(config: LintConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+/**
+ * 文字列の配列を検証
+ * @param {unknown} value - 値
+ * @param {string} where - エラーメッセージに含める場所
+ * @returns {string[]} 前後の空白を除き、空の要素を取り除いた配列
+ * @throws {Error} 文字列の配列でない場合
+ */
+function parseStringList(value: unknown, where: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`${where} は文字列の配列で指定してください`);
+  }
+  return (value as string[]).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * 0以上の整数を検証
+ * @param {unknown} value - 値
+ * @param {string} where - エラーメッセージに含める場所
+ * @returns {number} 整数
+ * @throws {Error} 0以上の整数でない場合
+ */
+function parseCount(value: unknown, where: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${where} は0以上の整数で指定してください`);
+  }
+  return value;
+}
+
+/**
+ * 省略された項目（undefined）の場合だけ初期値を使う
+ * nullは省略とみなさず、そのまま検証してエラーにする
+ * @param {unknown} value - 値
+ * @param {unknown} fallback - 省略された場合の値
+ * @returns {unknown} 検証する値
+ */
+function withDefault(value: unknown, fallback: unknown): unknown {
+  return value === undefined ? fallback : value;
+}
+
+/**
+ * JSONテキストからリントの設定を読み込み、検証する
+ * 省略された項目は初期設定の値を使う
+ * @param {string} text - JSONテキスト
+ * @returns {LintConfig} リントの設定
+ * @throws {Error} JSONとして読み込めない場合や、値の形式が正しくない場合
+ */
+export function parseLintConfig(text: string): LintConfig {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `リントの設定のJSONを読み込めません: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("リントの設定はオブジェクトで指定してください");
+  }
+  const input = json as Record<string, unknown>;
+
+  const rawRules = input.rules === undefined ? {} : input.rules;
+  if (
+    typeof rawRules !== "object" ||
+    rawRules === null ||
+    Array.isArray(rawRules)
+  ) {
+    throw new Error("rules はオブジェクトで指定してください");
+  }
+  const rules = { ...defaultLintConfig.rules };
+  Object.entries(rawRules as Record<string, unknown>).forEach(
+    ([rule, level]) => {
+      if (!Object.prototype.hasOwnProperty.call(rules, rule)) {
+        throw new Error(
+          `不明な規則です: ${rule}（${Object.keys(rules).join(" / ")}）`
+        );
+      }
+      if (!lintRuleLevels.includes(level as LintRuleLevel)) {
+        throw new Error(
+          `rules.${rule} は ${lintRuleLevels.join(" / ")} で指定してください`
+        );
+      }
+      rules[rule as LintRuleId] = level as LintRuleLevel;
+    }
+  );
+
+  const rawSkills = input.agentSkills === undefined ? {} : input.agentSkills;
+  if (
+    typeof rawSkills !== "object" ||
+    rawSkills === null ||
+    Array.isArray(rawSkills)
+  ) {
+    throw new Error("agentSkills はオブジェクトで指定してください");
+  }
+  const agentSkills: Record<string, string[]> = {};
+  Object.entries(rawSkills as Record<string, unknown>).forEach(
+    ([agent, patterns]) => {
+      agentSkills[agent] = parseStringList(patterns, `agentSkills.${agent}`);
+    }
+  );
+
+  return {
+    version: 1,
+    rules,
+    minContentLength: parseCount(
+      withDefault(input.minContentLength, defaultLintConfig.minContentLength),
+      "minContentLength"
+    ),
+    allowedAgents: parseStringList(
+      withDefault(input.allowedAgents, []),
+      "allowedAgents"
+    ),
+    apiRegistry: parseStringList(
+      withDefault(input.apiRegistry, []),
+      "apiRegistry"
+    ),
+    agentSkills,
+    maxFanIn: parseCount(
+      withDefault(input.maxFanIn, defaultLintConfig.maxFanIn),
+      "maxFanIn"
+    ),
+  };
+}
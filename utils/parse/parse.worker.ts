@@ -0,0 +1,24 @@
+import { LintConfig } from "@/types/lint";
+import { parseGrimoire } from "@/utils/yamlParser";
+
+// Web Workerのグローバルスコープ
+const ctx = self as unknown as Worker;
+
+/**
+ * メインスレッドからの解析要求を処理し、結果を返す
+ */
+ctx.onmessage = (
+  event: MessageEvent<{
+    id: number;
+    text: string;
+    includes: Record<string, string>;
+    lint?: LintConfig;
+  }>
+) => {
+  const { id, text, includes, lint } = event.data;
+  try {
+    ctx.postMessage({ id, result: parseGrimoire(text, includes, lint) });
+  } catch (error) {
+    ctx.postMessage({ id, error: String(error) });
+  }
+};
@@ -0,0 +1,102 @@
+import { LintConfig } from "@/types/lint";
+import { GrimoireParseResult } from "@/types/yaml";
+import { parseGrimoire } from "@/utils/yamlParser";
+
+/**
+ * 応答待ちの解析要求
+ */
+interface PendingRequest {
+  text: string;
+  includes: Record<string, string>;
+  lint?: LintConfig;
+  resolve: (result: GrimoireParseResult) => void;
+  reject: (error: Error) => void;
+}
+
+// YAML解析用のWeb Worker（undefined: 未作成 / null: 利用不可）
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Web Workerを取得（初回呼び出し時に作成）
+ * Workerが使えない環境ではnullを返し、メインスレッドで解析する
+ * @returns {Worker | null} Web Worker
+ */
+function getWorker(): Worker | null {
+  if (worker !== undefined) {
+    return worker;
+  }
+  if (typeof window === "undefined" || typeof Worker === "undefined") {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL("./parse.worker.ts", import.meta.url));
+  } catch (error) {
+    console.error("Failed to start parse worker:", error);
+    worker = null;
+    return worker;
+  }
+
+  worker.onmessage = (
+    event: MessageEvent<{
+      id: number;
+      result?: GrimoireParseResult;
+      error?: string;
+    }>
+  ) => {
+    const { id, result, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (result) {
+      request.resolve(result);
+    } else {
+      request.reject(new Error(error));
+    }
+  };
+
+  // Workerの読み込みに失敗した場合は、以降メインスレッドで解析する
+  worker.onerror = (event) => {
+    console.error("Parse worker error:", event.message);
+    worker?.terminate();
+    worker = null;
+    pending.forEach(({ text, includes, lint, resolve, reject }) => {
+      try {
+        resolve(parseGrimoire(text, includes, lint));
+      } catch (error) {
+        reject(error as Error);
+      }
+    });
+    pending.clear();
+  };
+
+  return worker;
+}
+
+/**
+ * グリモワールのYAMLテキストを解析する
+ * 大きなグリモワールでも入力を妨げないよう、可能であればWeb Workerで解析する
+ * @param {string} text - 解析するYAMLテキスト
+ * @param {Record<string, string>} [includes] - 「!include」で参照できるファイル（パスとテキスト）
+ * @param {LintConfig} [lint] - リントの設定（省略した場合はリントしない）
+ * @returns {Promise<GrimoireParseResult>} 解析結果と診断結果
+ */
+export function requestParse(
+  text: string,
+  includes: Record<string, string> = {},
+  lint?: LintConfig
+): Promise<GrimoireParseResult> {
+  const parseWorker = getWorker();
+  if (!parseWorker) {
+    return Promise.resolve().then(() => parseGrimoire(text, includes, lint));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { text, includes, lint, resolve, reject });
+    parseWorker.postMessage({ id, text, includes, lint });
+  });
+}
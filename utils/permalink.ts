@@ -0,0 +1,206 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import { SharedState, ShareViewState } from "@/types/share";
+import { emptyFilter } from "@/utils/graphFilter";
+import { layoutEngines } from "@/utils/layout";
+
+// 共有リンクの状態を格納するURLフラグメントのキー
+const HASH_KEY = "g";
+
+/**
+ * 共有リンクのフラグメントの最大文字数
+ * 主要なブラウザが扱えるURLの長さ（約2MB）に余裕を持たせた値
+ */
+export const MAX_PERMALINK_LENGTH = 1_500_000;
+
+/**
+ * バイト列をURLで使えるBase64（base64url）に変換
+ * @param {Uint8Array} bytes - バイト列
+ * @returns {string} base64url文字列（末尾の「=」は省略）
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  // 大きなバイト列でも引数の上限を超えないよう、分割して文字列にする
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * base64url文字列をバイト列に変換
+ * @param {string} text - base64url文字列
+ * @returns {Uint8Array} バイト列
+ */
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * YAMLテキストと表示状態を圧縮して、URLフラグメント（#g=...）に変換
+ * @param {SharedState} state - 共有する状態
+ * @returns {string} 先頭の「#」を含むURLフラグメント
+ * @throws {Error} 圧縮してもURLが長すぎる場合
+ */
+export function encodePermalink(state: SharedState): string {
+  const compressed = deflateSync(strToU8(JSON.stringify(state)), {
+    level: 9,
+  });
+  const encoded = toBase64Url(compressed);
+  if (encoded.length > MAX_PERMALINK_LENGTH) {
+    throw new Error(
+      `共有リンクが長すぎます（圧縮後 ${Math.ceil(
+        encoded.length / 1024
+      )} KB、上限 ${Math.floor(
+        MAX_PERMALINK_LENGTH / 1024
+      )} KB）。ファイルとして共有してください`
+    );
+  }
+  return `#${HASH_KEY}=${encoded}`;
+}
+
+/**
+ * 値が配列以外のオブジェクトかどうか
+ * @param {unknown} value - 値
+ * @returns {boolean} オブジェクトの場合はtrue
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 値が文字列の配列かどうか
+ * @param {unknown} value - 値
+ * @returns {boolean} 文字列の配列の場合はtrue
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * 値が有限の数値かどうか
+ * @param {unknown} value - 値
+ * @returns {boolean} 有限の数値の場合はtrue
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * ドラッグして配置したノードの位置の形式を確認
+ * @param {unknown} positions - ノードIDごとの位置
+ * @returns {boolean} すべての位置が数値の座標を持つ場合はtrue
+ */
+function isValidPositions(positions: unknown): boolean {
+  if (!isRecord(positions)) return false;
+  return Object.values(positions).every(
+    (pinned) =>
+      isRecord(pinned) &&
+      (pinned.parentNode === undefined ||
+        typeof pinned.parentNode === "string") &&
+      isRecord(pinned.position) &&
+      isFiniteNumber(pinned.position.x) &&
+      isFiniteNumber(pinned.position.y)
+  );
+}
+
+/**
+ * 検索・フィルター・フォーカスの状態の形式を確認
+ * @param {unknown} filter - 検索・フィルター・フォーカスの状態
+ * @returns {boolean} 形式が正しい場合はtrue
+ */
+function isValidFilter(filter: unknown): boolean {
+  if (!isRecord(filter) || !isRecord(filter.facets)) return false;
+  const { facets, focus } = filter;
+  const knownFacets = Object.keys(emptyFilter.facets);
+  return (
+    typeof filter.query === "string" &&
+    Object.keys(facets).length === knownFacets.length &&
+    knownFacets.every((facet) => isStringArray(facets[facet])) &&
+    (filter.mode === "hide" || filter.mode === "dim") &&
+    (focus === null ||
+      (isRecord(focus) &&
+        typeof focus.fileId === "string" &&
+        isFiniteNumber(focus.depth)))
+  );
+}
+
+/**
+ * 表示状態の形式を確認
+ * 古いリンクや手で編集されたリンクで画面が壊れないよう、
+ * いずれかの項目の形式が正しくない場合は表示状態を使わない
+ * @param {unknown} view - 表示状態
+ * @returns {ShareViewState | undefined} 形式が正しい場合は表示状態
+ */
+function parseViewState(view: unknown): ShareViewState | undefined {
+  if (!isRecord(view)) return undefined;
+  const { viewport, layout } = view;
+  if (
+    !isValidPositions(view.positions) ||
+    !isStringArray(view.collapsed) ||
+    !isValidFilter(view.filter) ||
+    !isRecord(viewport) ||
+    !isFiniteNumber(viewport.x) ||
+    !isFiniteNumber(viewport.y) ||
+    !isFiniteNumber(viewport.zoom) ||
+    !isRecord(layout) ||
+    typeof layout.engine !== "string" ||
+    !Object.prototype.hasOwnProperty.call(layoutEngines, layout.engine) ||
+    (layout.direction !== "TB" && layout.direction !== "LR") ||
+    (view.density !== "compact" && view.density !== "detailed")
+  ) {
+    return undefined;
+  }
+  return view as unknown as ShareViewState;
+}
+
+/**
+ * インクルードするファイルの形式を確認
+ * @param {unknown} includes - インクルードするファイル
+ * @returns {Record<string, string> | undefined} 形式が正しい場合はインクルードするファイル
+ */
+function parseIncludes(includes: unknown): Record<string, string> | undefined {
+  if (typeof includes !== "object" || includes === null) return undefined;
+  const entries = Object.entries(includes);
+  if (entries.some(([, text]) => typeof text !== "string")) return undefined;
+  return Object.fromEntries(entries);
+}
+
+/**
+ * URLフラグメントから共有された状態を読み込む
+ * @param {string} hash - URLフラグメント（window.location.hash）
+ * @returns {SharedState | null} 共有された状態（共有リンクでない場合はnull）
+ * @throws {Error} 共有リンクが壊れていて読み込めない場合
+ */
+export function decodePermalink(hash: string): SharedState | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!encoded) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+  } catch {
+    throw new Error(
+      "共有リンクを読み込めません。リンクが途中で切れていないか確認してください"
+    );
+  }
+  const input = (json ?? {}) as Partial<SharedState>;
+  if (input.version !== 1 || typeof input.yaml !== "string") {
+    throw new Error("対応していない形式の共有リンクです");
+  }
+  return {
+    version: 1,
+    yaml: input.yaml,
+    view: parseViewState(input.view),
+    includes: parseIncludes(input.includes),
+  };
+}
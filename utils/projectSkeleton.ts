@@ -0,0 +1,212 @@
+import { dump } from "js-yaml";
+import { ProjectFile, ProjectSkeleton, SkeletonOptions } from "@/types/source";
+import { findImportedFiles } from "@/utils/importScanner";
+
+// プロジェクトの構造から雛形を作るときに無視するディレクトリ・ファイル
+const IGNORED_SEGMENTS = new Set([
+  "node_modules",
+  "__MACOSX",
+  "__pycache__",
+  "dist",
+  "build",
+]);
+
+// structure.yamlのファイル名
+const STRUCTURE_FILE = "structure.yaml";
+
+/**
+ * 拡張子ごとに雛形で割り当てるエージェントの初期設定
+ * ソースコードは coder、見た目に関わるファイルは designer、文書は writer が担当する
+ */
+export const defaultSkeletonAgents: Record<string, string> = {
+  ts: "coder",
+  tsx: "coder",
+  js: "coder",
+  jsx: "coder",
+  mjs: "coder",
+  cjs: "coder",
+  vue: "coder",
+  svelte: "coder",
+  py: "coder",
+  dart: "coder",
+  json: "coder",
+  yaml: "coder",
+  yml: "coder",
+  css: "designer",
+  scss: "designer",
+  html: "designer",
+  svg: "designer",
+  png: "designer",
+  jpg: "designer",
+  glb: "designer",
+  md: "writer",
+  mmd: "writer",
+  marp: "writer",
+  txt: "writer",
+};
+
+// 拡張子が初期設定に無いファイルに割り当てるエージェント
+const DEFAULT_AGENT = "coder";
+
+/**
+ * ファイルのパスを雛形の対象とするかどうか
+ * 隠しファイル（.git や .DS_Store など）と依存パッケージ・ビルド結果は除外する
+ * @param {string[]} segments - パスの要素
+ * @returns {boolean} 対象とする場合はtrue
+ */
+export function isProjectFile(segments: string[]): boolean {
+  return segments.every(
+    (segment) => !segment.startsWith(".") && !IGNORED_SEGMENTS.has(segment)
+  );
+}
+
+/**
+ * 雛形のファイル定義を作成
+ * @param {string} name - ファイル名
+ * @param {string[]} dependency - 依存先のファイルのパス
+ * @param {string} agent - 担当するエージェント
+ * @returns {Record<string, unknown>} YamlFileの雛形
+ */
+function skeletonFile(
+  name: string,
+  dependency: string[],
+  agent: string
+): Record<string, unknown> {
+  return {
+    content: `TODO: ${name} の役割と実装する内容を記述する`,
+    dependency,
+    agent,
+    api: [],
+  };
+}
+
+/**
+ * プロジェクトのファイルから、YamlDataの雛形を作成
+ * 最上位のフォルダ（zipやフォルダの名前）が1つだけの場合は取り除き、
+ * srcフォルダがある場合はその中身、無い場合はすべてのファイルを src 配下に置く。
+ * srcフォルダの外のファイルは雛形に含めず、skippedに一覧する。
+ * 各ファイルには content の記入欄と拡張子ごとのエージェントを設定し、
+ * JavaScript・TypeScript・Pythonのファイルはimport文から依存先を推測する。
+ * src/structure.yaml は src 直下のファイル・フォルダに依存する概要のファイルとして追加する。
+ * フォルダは常にマッピングで出力するため、"api" や "content" などファイル用のフィールドと同じ名前のフォルダもディレクトリとして検証される
+ * @param {ProjectFile[]} projectFiles - プロジェクトのファイル
+ * @param {SkeletonOptions} [options] - 雛形を作るときの設定
+ * @returns {ProjectSkeleton} YamlDataの雛形と、含めなかったファイル
+ */
+export function buildProjectSkeleton(
+  projectFiles: ProjectFile[],
+  options: SkeletonOptions = {}
+): ProjectSkeleton {
+  const agents = { ...defaultSkeletonAgents, ...options.agents };
+  let files = projectFiles
+    .filter((file) => !file.path.endsWith("/"))
+    .map((file) => ({
+      segments: file.path.replace(/^\.?\//, "").split("/"),
+      text: file.text,
+    }))
+    .filter(({ segments }) => segments.length > 0 && isProjectFile(segments));
+
+  // zipやフォルダの名前になっている最上位のフォルダを取り除く
+  const roots = new Set(files.map(({ segments }) => segments[0]));
+  if (
+    roots.size === 1 &&
+    !roots.has("src") &&
+    files.every(({ segments }) => segments.length > 1)
+  ) {
+    files = files.map((file) => ({
+      ...file,
+      segments: file.segments.slice(1),
+    }));
+  }
+
+  // import文はプロジェクトの直下からのパスで解決し、グリモワールのパス（src/...）に置き換える
+  const projectPaths = new Set(files.map(({ segments }) => segments.join("/")));
+  const hasSrc = files.some(
+    ({ segments }) => segments[0] === "src" && segments.length > 1
+  );
+  const fileIds = new Map<string, string>();
+  const skipped: string[] = [];
+  files.forEach(({ segments }) => {
+    const path = segments.join("/");
+    if (!hasSrc) {
+      fileIds.set(path, `src/${path}`);
+    } else if (segments[0] === "src" && segments.length > 1) {
+      fileIds.set(path, path);
+    } else {
+      skipped.push(path);
+    }
+  });
+  // 雛形で追加するstructure.yamlと同じパスのファイルは、雛形のものを使う
+  const structureId = `src/${STRUCTURE_FILE}`;
+  fileIds.forEach((id, path) => {
+    if (id === structureId) fileIds.delete(path);
+  });
+
+  const src: Record<string, unknown> = {
+    [STRUCTURE_FILE]: {
+      content: "TODO: プロジェクトの目的と全体の構成を記述する",
+      dependency: Array.from(
+        new Set(
+          Array.from(fileIds.values()).map((id) =>
+            id.split("/").slice(0, 2).join("/")
+          )
+        )
+      ).sort(),
+      agent: "",
+      api: [],
+    },
+  };
+
+  files
+    .filter(({ segments }) => fileIds.has(segments.join("/")))
+    .sort((a, b) => a.segments.join("/").localeCompare(b.segments.join("/")))
+    .forEach(({ segments, text }) => {
+      const path = segments.join("/");
+      const id = fileIds.get(path) as string;
+      const idSegments = id.split("/").slice(1);
+      const name = idSegments[idSegments.length - 1];
+      const dependency = text
+        ? findImportedFiles(path, text, projectPaths)
+            .map((imported) => fileIds.get(imported))
+            .filter((target): target is string => !!target && target !== id)
+            .sort()
+        : [];
+      const extension = name.includes(".")
+        ? name.split(".").pop()?.toLowerCase() ?? ""
+        : "";
+
+      let directory = src;
+      idSegments.slice(0, -1).forEach((segment) => {
+        directory[segment] = directory[segment] ?? {};
+        directory = directory[segment] as Record<string, unknown>;
+      });
+      directory[name] = skeletonFile(
+        name,
+        dependency,
+        agents[extension] ?? DEFAULT_AGENT
+      );
+    });
+
+  return { data: { src }, skipped: skipped.sort() };
+}
+
+/**
+ * プロジェクトのファイルから雛形のYAMLテキストを作成
+ * srcフォルダの外にあるため含めなかったファイルは、先頭のコメントに一覧する
+ * @param {ProjectFile[]} projectFiles - プロジェクトのファイル
+ * @param {SkeletonOptions} [options] - 雛形を作るときの設定
+ * @returns {string} YAMLテキスト
+ */
+export function skeletonToYaml(
+  projectFiles: ProjectFile[],
+  options?: SkeletonOptions
+): string {
+  const { data, skipped } = buildProjectSkeleton(projectFiles, options);
+  const yaml = dump(data, { lineWidth: -1 });
+  if (skipped.length === 0) return yaml;
+  const header = [
+    "# src フォルダの外にあるため、雛形に含めなかったファイル:",
+    ...skipped.map((path) => `#   - ${path}`),
+  ];
+  return `${header.join("\n")}\n${yaml}`;
+}
@@ -0,0 +1,301 @@
+import {
+  FileStyle,
+  FileStyleRule,
+  ThemeConfig,
+  ThemeMode,
+  ThemePalette,
+} from "@/types/theme";
+import { globToRegExp } from "@/utils/glob";
+import {
+  jsColor,
+  tsColor,
+  jsxColor,
+  tsxColor,
+  cssColor,
+  htmlColor,
+  yamlColor,
+  jsonColor,
+  dartColor,
+  pythonColor,
+  pngColor,
+  jpgColor,
+  svgColor,
+  glbColor,
+  mp4Color,
+  mp3Color,
+  marpColor,
+  mmdColor,
+  mdColor,
+  defaultColor,
+  agentPalette,
+} from "@/constant/constant";
+
+// 色として受け付ける形式（#rgb / #rrggbb）
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * 配色モードごとのグラフの色
+ */
+export const themePalettes: Record<ThemeMode, ThemePalette> = {
+  light: {
+    canvas: "#ffffff",
+    grid: "#cbd5e1",
+    nodeBackground: "#ffffff",
+    nodeBorder: "transparent",
+    nodeText: "#111827",
+    nodeMuted: "#6b7280",
+    folderBackground: "#f8fafc",
+    folderBorder: "#cbd5e1",
+    folderText: "#334155",
+    edge: "#666666",
+  },
+  dark: {
+    canvas: "#0f172a",
+    grid: "#334155",
+    nodeBackground: "#1e293b",
+    nodeBorder: "#334155",
+    nodeText: "#f1f5f9",
+    nodeMuted: "#94a3b8",
+    folderBackground: "#172033",
+    folderBorder: "#475569",
+    folderText: "#cbd5e1",
+    edge: "#94a3b8",
+  },
+  "high-contrast": {
+    canvas: "#ffffff",
+    grid: "#000000",
+    nodeBackground: "#ffffff",
+    nodeBorder: "#000000",
+    nodeText: "#000000",
+    nodeMuted: "#000000",
+    folderBackground: "#ffffff",
+    folderBorder: "#000000",
+    folderText: "#000000",
+    edge: "#000000",
+  },
+};
+
+/**
+ * 配色モードの表示名
+ */
+export const themeModeLabels: Record<ThemeMode, string> = {
+  light: "ライト",
+  dark: "ダーク",
+  "high-contrast": "ハイコントラスト",
+};
+
+/**
+ * 初期状態のファイルの規則（拡張子ごとの色と分類）
+ */
+export const defaultFileStyleRules: FileStyleRule[] = [
+  // プログラミング言語系
+  { pattern: "js", color: jsColor, category: "プログラミング言語" },
+  { pattern: "ts", color: tsColor, category: "プログラミング言語" },
+  { pattern: "jsx", color: jsxColor, category: "プログラミング言語" },
+  { pattern: "tsx", color: tsxColor, category: "プログラミング言語" },
+  { pattern: "css", color: cssColor, category: "プログラミング言語" },
+  { pattern: "html", color: htmlColor, category: "プログラミング言語" },
+  { pattern: "dart", color: dartColor, category: "プログラミング言語" },
+  { pattern: "py", color: pythonColor, category: "プログラミング言語" },
+  { pattern: "python", color: pythonColor, category: "プログラミング言語" },
+  // 設定・データ系
+  { pattern: "yaml", color: yamlColor, category: "データ" },
+  { pattern: "yml", color: yamlColor, category: "データ" },
+  { pattern: "json", color: jsonColor, category: "データ" },
+  // メディアファイル系
+  { pattern: "png", color: pngColor, icon: "🖼️", category: "メディア" },
+  { pattern: "jpg", color: jpgColor, icon: "🖼️", category: "メディア" },
+  { pattern: "jpeg", color: jpgColor, icon: "🖼️", category: "メディア" },
+  { pattern: "svg", color: svgColor, icon: "🖼️", category: "メディア" },
+  { pattern: "glb", color: glbColor, icon: "🧊", category: "メディア" },
+  { pattern: "mp4", color: mp4Color, icon: "🎬", category: "メディア" },
+  { pattern: "mp3", color: mp3Color, icon: "🎵", category: "メディア" },
+  // ドキュメント系
+  { pattern: "marp", color: marpColor, icon: "📊", category: "ドキュメント" },
+  { pattern: "mmd", color: mmdColor, category: "ドキュメント" },
+  { pattern: "md", color: mdColor, category: "ドキュメント" },
+];
+
+/**
+ * 初期状態のテーマの設定
+ */
+export const defaultThemeConfig: ThemeConfig = {
+  version: 1,
+  mode: "light",
+  defaultColor,
+  rules: defaultFileStyleRules,
+  agentColors: {},
+};
+
+/**
+ * ファイルが拡張子またはglobパターンに一致するかどうか
+ * 「/」を含むパターンはパス全体、「*」や「?」だけを含むパターンはファイル名に対して調べる
+ * テーマの規則とリントのエージェントの扱えるファイルに使う（大文字と小文字は区別しない）
+ * @param {string} fileId - ファイルのパス
+ * @param {string} extension - ファイルの拡張子
+ * @param {string} filePattern - 拡張子またはglobパターン
+ * @returns {boolean} 一致する場合はtrue
+ */
+export function matchesFilePattern(
+  fileId: string,
+  extension: string,
+  filePattern: string
+): boolean {
+  const pattern = filePattern.trim();
+  if (pattern === "") return false;
+  if (pattern.includes("/")) {
+    return globToRegExp(pattern).test(fileId);
+  }
+  if (/[*?]/.test(pattern)) {
+    return globToRegExp(pattern).test(fileId.split("/").pop() ?? fileId);
+  }
+  return pattern.replace(/^\./, "").toLowerCase() === extension.toLowerCase();
+}
+
+/**
+ * テーマの規則からファイルの色・アイコン・分類を求める
+ * @param {string} fileId - ファイルのパス（拡張子だけで調べる場合は空文字列）
+ * @param {string} [extension] - ファイルの拡張子
+ * @param {ThemeConfig} [theme] - テーマの設定
+ * @returns {FileStyle} ファイルの表示スタイル（一致しない場合はデフォルトの色）
+ */
+export function resolveFileStyle(
+  fileId: string,
+  extension: string = "",
+  theme: ThemeConfig = defaultThemeConfig
+): FileStyle {
+  const rule = theme.rules.find((rule) =>
+    matchesFilePattern(fileId, extension, rule.pattern)
+  );
+  if (!rule) return { color: theme.defaultColor };
+  return { color: rule.color, icon: rule.icon, category: rule.category };
+}
+
+/**
+ * エージェントの色を取得
+ * テーマで指定されていない場合は、エージェント名から決まる色を割り当てる
+ * @param {string} agent - エージェント名
+ * @param {ThemeConfig} [theme] - テーマの設定
+ * @returns {string} 色のHEXコード
+ */
+export function getAgentColor(
+  agent: string,
+  theme: ThemeConfig = defaultThemeConfig
+): string {
+  if (theme.agentColors[agent]) return theme.agentColors[agent];
+  let hash = 0;
+  for (const char of agent) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return agentPalette[hash % agentPalette.length];
+}
+
+/**
+ * テーマの設定をJSONテキストに変換
+ * @param {ThemeConfig} theme - テーマの設定
+ * @returns {string} JSONテキスト
+ */
+export function serializeThemeConfig(theme: ThemeConfig): string {
+  return `${JSON.stringify(theme, null, 2)}\n`;
+}
+
+/**
+ * 色の値を検証
+ * @param {unknown} value - 色の値
+ * @param {string} where - エラーメッセージに含める場所
+ * @returns {string} 色のHEXコード
+ * @throws {Error} HEXコードでない場合
+ */
+function parseColor(value: unknown, where: string): string {
+  if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+    throw new Error(`${where}の色は #rrggbb 形式で指定してください`);
+  }
+  return value;
+}
+
+/**
+ * JSONテキストからテーマの設定を読み込む
+ * 省略された項目は初期状態の値を使う
+ * @param {string} text - JSONテキスト
+ * @returns {ThemeConfig} テーマの設定
+ * @throws {Error} JSONとして読み込めない場合、または設定の形式が正しくない場合
+ */
+export function parseThemeConfig(text: string): ThemeConfig {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `テーマのJSONを読み込めません: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("テーマはオブジェクトで指定してください");
+  }
+  const input = json as Record<string, unknown>;
+
+  const mode = input.mode ?? defaultThemeConfig.mode;
+  // 「toString」などの継承したプロパティを配色モードとみなさないよう、自身のキーだけを調べる
+  if (
+    typeof mode !== "string" ||
+    !Object.prototype.hasOwnProperty.call(themePalettes, mode)
+  ) {
+    throw new Error(
+      `不明な配色モードです: ${String(mode)}（${Object.keys(themePalettes).join(
+        " / "
+      )}）`
+    );
+  }
+
+  const rawRules =
+    input.rules === undefined ? defaultThemeConfig.rules : input.rules;
+  if (!Array.isArray(rawRules)) {
+    throw new Error("rules は配列で指定してください");
+  }
+  const rules = rawRules.map((raw, index): FileStyleRule => {
+    const rule = (raw ?? {}) as Record<string, unknown>;
+    const where = `rules[${index}]`;
+    if (typeof rule.pattern !== "string" || rule.pattern.trim() === "") {
+      throw new Error(`${where}の pattern を指定してください`);
+    }
+    return {
+      pattern: rule.pattern,
+      color: parseColor(rule.color, where),
+      ...(typeof rule.icon === "string" && rule.icon
+        ? { icon: rule.icon }
+        : {}),
+      ...(typeof rule.category === "string" && rule.category
+        ? { category: rule.category }
+        : {}),
+    };
+  });
+
+  const rawAgentColors =
+    input.agentColors === undefined ? {} : input.agentColors;
+  if (
+    typeof rawAgentColors !== "object" ||
+    rawAgentColors === null ||
+    Array.isArray(rawAgentColors)
+  ) {
+    throw new Error("agentColors はオブジェクトで指定してください");
+  }
+  const agentColors: Record<string, string> = {};
+  Object.entries(rawAgentColors as Record<string, unknown>).forEach(
+    ([agent, color]) => {
+      agentColors[agent] = parseColor(color, `agentColors.${agent}`);
+    }
+  );
+
+  return {
+    version: 1,
+    mode: mode as ThemeMode,
+    defaultColor:
+      input.defaultColor === undefined
+        ? defaultThemeConfig.defaultColor
+        : parseColor(input.defaultColor, "defaultColor"),
+    rules,
+    agentColors,
+  };
+}
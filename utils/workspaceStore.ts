@@ -0,0 +1,81 @@
+import { Workspace } from "@/types/workspace";
+
+// IndexedDBのデータベース名・バージョン・オブジェクトストア名
+const DB_NAME = "grimoire-graph";
+const DB_VERSION = 1;
+const STORE_NAME = "workspaces";
+
+/**
+ * IndexedDBの要求をPromiseに変換
+ * @param {IDBRequest<T>} request - IndexedDBの要求
+ * @returns {Promise<T>} 要求の結果
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * ワークスペースを保存するデータベースを開く
+ * @returns {Promise<IDBDatabase>} データベース
+ * @throws {Error} IndexedDBを使えない場合（プライベートブラウズなど）
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("このブラウザでは IndexedDB を使えません"));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+  };
+  return promisify(request);
+}
+
+/**
+ * オブジェクトストアに対する処理を1つのトランザクションで実行する
+ * @param {IDBTransactionMode} mode - トランザクションのモード
+ * @param {Function} run - オブジェクトストアに対する処理
+ * @returns {Promise<T>} 処理の結果
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await promisify(
+      run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    );
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 保存されているワークスペースの一覧を取得
+ * @returns {Promise<Workspace[]>} ワークスペース（最後に保存した日時の新しい順）
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const workspaces = await withStore<Workspace[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return workspaces.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * ワークスペースを保存（同じIDのものは上書き）
+ * @param {Workspace} workspace - ワークスペース
+ */
+export async function putWorkspace(workspace: Workspace): Promise<void> {
+  await withStore("readwrite", (store) => store.put(workspace));
+}
+
+/**
+ * ワークスペースを削除
+ * @param {string} id - ワークスペースのID
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,137 @@
+import { FileNode, SharedDefinition } from "@/types/yaml";
+import { buildSourceMap } from "@/utils/yamlSourceMap";
+import { splitYamlDocuments } from "@/utils/yamlDocuments";
+
+// 値の先頭のアンカー（&name）とエイリアス（*name）
+const ANCHOR_PATTERN = /^&([^\s,[\]{}]+)/;
+const ALIAS_PATTERN = /^\*([^\s,[\]{}]+)/;
+
+/**
+ * YAMLテキストからアンカーとエイリアスによる共有定義を収集
+ * アンカー名はドキュメントごとに独立しているため、ドキュメント単位で対応付ける
+ * エイリアスはそれより前に定義されたアンカーを参照するため、同じ名前のアンカーを定義し直した場合も、
+ * 出現順に1回で走査してその時点のアンカーに対応付ける
+ * マージキー（<<: *name）の場合は、マージ先のマッピングを参照しているパスとする
+ * @param {string} text - YAMLテキスト
+ * @returns {SharedDefinition[]} 共有定義の一覧（参照されていないアンカーを含む）
+ */
+export function collectSharedDefinitions(text: string): SharedDefinition[] {
+  const definitions: SharedDefinition[] = [];
+
+  splitYamlDocuments(text).forEach((document) => {
+    // アンカーのないドキュメントは、ソースマップを作らずに読み飛ばす
+    if (!document.text.includes("&")) return;
+    const sourceMap = buildSourceMap(document.text);
+    // その時点で有効なアンカー（定義し直した場合は後の定義で上書きする）
+    const anchors = new Map<string, SharedDefinition>();
+
+    sourceMap.entries.forEach((entry) => {
+      const line = sourceMap.lines[entry.line - 1] ?? "";
+      const value = line.slice(entry.valueColumn - 1);
+      const anchor = value.match(ANCHOR_PATTERN);
+      if (anchor) {
+        const definition = {
+          anchor: anchor[1],
+          document: document.index,
+          definedAt: entry.path,
+          usedAt: [],
+        };
+        anchors.set(anchor[1], definition);
+        definitions.push(definition);
+      }
+      const alias = value.match(ALIAS_PATTERN);
+      if (alias) {
+        const isMergeKey = entry.path[entry.path.length - 1] === "<<";
+        anchors
+          .get(alias[1])
+          ?.usedAt.push(isMergeKey ? entry.path.slice(0, -1) : entry.path);
+      }
+    });
+  });
+
+  return definitions;
+}
+
+/**
+ * パスがファイル定義（またはその中の値）を指しているかどうか
+ * @param {string[]} path - YAML上のパス
+ * @param {string} fileId - ファイルノードのID
+ * @returns {boolean} ファイル定義の中のパスであればtrue
+ */
+function isWithinFile(path: string[], fileId: string): boolean {
+  const joined = path.join("/");
+  return joined === fileId || joined.startsWith(`${fileId}/`);
+}
+
+/**
+ * ファイルノードに、定義の中で付けたアンカーと参照しているエイリアスを設定
+ * @param {FileNode[]} files - ファイルノード
+ * @param {SharedDefinition[]} definitions - 共有定義の一覧
+ * @returns {FileNode[]} アンカーとエイリアスを設定したファイルノード（関係しないノードはそのまま）
+ */
+export function annotateSharedDefinitions(
+  files: FileNode[],
+  definitions: SharedDefinition[]
+): FileNode[] {
+  if (definitions.length === 0) return files;
+  return files.map((file) => {
+    const anchors = definitions
+      .filter((definition) => isWithinFile(definition.definedAt, file.id))
+      .map((definition) => definition.anchor);
+    const aliases = definitions
+      .filter((definition) =>
+        definition.usedAt.some((path) => isWithinFile(path, file.id))
+      )
+      .map((definition) => definition.anchor);
+    if (anchors.length === 0 && aliases.length === 0) return file;
+    return { ...file, data: { ...file.data, anchors, aliases } };
+  });
+}
+
+/**
+ * ファイルに関係する共有定義
+ * @interface SharedLink
+ * @property {string} anchor - アンカー名
+ * @property {string} [owner] - アンカーを定義しているファイルノードのID（ファイルの外で定義されている場合は省略）
+ * @property {string[]} users - エイリアスで参照しているファイルノードのID
+ */
+export interface SharedLink {
+  anchor: string;
+  owner?: string;
+  users: string[];
+}
+
+/**
+ * ファイルが定義・参照している共有定義と、それを定義・参照している他のファイルを求める
+ * @param {FileNode[]} files - ファイルノード
+ * @param {SharedDefinition[]} definitions - 共有定義の一覧
+ * @param {string} fileId - ファイルノードのID
+ * @returns {SharedLink[]} ファイルに関係する共有定義
+ */
+export function findSharedLinks(
+  files: FileNode[],
+  definitions: SharedDefinition[],
+  fileId: string
+): SharedLink[] {
+  /**
+   * パスを含むファイルノードのIDを求める
+   * @param {string[]} path - YAML上のパス
+   * @returns {string | undefined} ファイルノードのID
+   */
+  const ownerOf = (path: string[]) =>
+    files.find((file) => isWithinFile(path, file.id))?.id;
+
+  return definitions
+    .map((definition) => ({
+      anchor: definition.anchor,
+      owner: ownerOf(definition.definedAt),
+      users: Array.from(
+        new Set(
+          definition.usedAt
+            .map(ownerOf)
+            .filter((id): id is string => id !== undefined)
+        )
+      ),
+    }))
+    .filter((link) => link.owner === fileId || link.users.includes(fileId));
+}
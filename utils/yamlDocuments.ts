@@ -0,0 +1,165 @@
+import { isFileEntry, isMapping } from "@/utils/yamlValidator";
+
+/**
+ * 複数ドキュメントのYAMLテキストから切り出した1つのドキュメント
+ * @interface YamlDocument
+ * @property {number} index - ドキュメントの番号（0始まり、空のドキュメントは数えない）
+ * @property {number} line - ドキュメントが始まる行番号（1始まり）
+ * @property {string} text - ドキュメントのテキスト
+ *   行番号が元のテキストと一致するよう、前のドキュメントの行は空行に置き換えてある
+ */
+export interface YamlDocument {
+  index: number;
+  line: number;
+  text: string;
+}
+
+// ドキュメントの開始（---）・終了（...）を表す行
+const DOCUMENT_START = /^---(?=\s|$)/;
+const DOCUMENT_END = /^\.\.\.(?=\s|$)/;
+
+/**
+ * 「---」で区切られた複数ドキュメントのYAMLテキストを、ドキュメントごとに分割
+ * 行頭の「---」はブロックスカラーの中でもドキュメントの区切りになるため、行単位で判定する
+ * コメントや空行だけのドキュメントは除く
+ * @param {string} text - YAMLテキスト
+ * @returns {YamlDocument[]} ドキュメントの一覧
+ */
+export function splitYamlDocuments(text: string): YamlDocument[] {
+  const lines = text.split(/\r?\n/);
+  const documents: YamlDocument[] = [];
+  let start = 0;
+  let body: string[] = [];
+
+  /**
+   * 読み込み中のドキュメントを確定する
+   */
+  const flush = () => {
+    const hasContent = body.some((line) => {
+      const trimmed = line.trim();
+      return trimmed !== "" && !trimmed.startsWith("#");
+    });
+    if (hasContent) {
+      const firstLine = body.findIndex((line) => line.trim() !== "");
+      documents.push({
+        index: documents.length,
+        line: start + firstLine + 1,
+        text: "\n".repeat(start) + body.join("\n"),
+      });
+    }
+    body = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (DOCUMENT_START.test(line)) {
+      flush();
+      start = index;
+      // 「--- 値」のように区切りと同じ行に書かれた内容は、列を保ったまま残す
+      body.push(line.replace(DOCUMENT_START, "   "));
+    } else if (DOCUMENT_END.test(line)) {
+      body.push("");
+      flush();
+      start = index + 1;
+    } else {
+      body.push(line);
+    }
+  });
+  flush();
+
+  return documents;
+}
+
+/**
+ * 複数ドキュメントをマージするときに見つかった問題
+ * @interface MergeIssue
+ * @property {"invalid-document" | "duplicate-definition"} code - 問題の種類
+ * @property {string[]} path - 問題のあるYAML上のパス
+ * @property {number} document - 問題のあるドキュメントの番号（0始まり）
+ * @property {string} message - メッセージ
+ */
+export interface MergeIssue {
+  code: "invalid-document" | "duplicate-definition";
+  path: string[];
+  document: number;
+  message: string;
+}
+
+/**
+ * マッピングを再帰的にマージする
+ * フォルダ（ファイル定義でないマッピング）は中身をマージし、それ以外は後のドキュメントの値で上書きする
+ * @param {Record<string, unknown>} target - マージ先
+ * @param {Record<string, unknown>} source - マージする値
+ * @param {string[]} path - マージ先のパス
+ * @param {number} document - マージする値のドキュメントの番号
+ * @param {MergeIssue[]} issues - 見つかった問題の追加先
+ */
+function mergeMapping(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  path: string[],
+  document: number,
+  issues: MergeIssue[]
+) {
+  Object.entries(source).forEach(([key, value]) => {
+    const current = target[key];
+    const childPath = [...path, key];
+    if (!(key in target)) {
+      target[key] = value;
+    } else if (
+      isMapping(current) &&
+      isMapping(value) &&
+      !isFileEntry(current) &&
+      !isFileEntry(value)
+    ) {
+      // 同じフォルダは、別のマッピングにコピーしてからマージする（元のドキュメントを変更しない）
+      const merged = { ...current };
+      mergeMapping(merged, value, childPath, document, issues);
+      target[key] = merged;
+    } else {
+      issues.push({
+        code: "duplicate-definition",
+        path: childPath,
+        document,
+        message: `"${childPath.join(
+          "/"
+        )}" が複数のドキュメントで定義されています（${
+          document + 1
+        }つ目のドキュメントの定義を使います）`,
+      });
+      target[key] = value;
+    }
+  });
+}
+
+/**
+ * 複数ドキュメントを1つのグリモワールにマージ
+ * 各ドキュメントは「src」をルートに持つ断片として扱い、同じフォルダの中身はまとめる
+ * @param {unknown[]} documents - js-yamlで解析した各ドキュメント
+ * @returns {{data: unknown, issues: MergeIssue[]}} マージしたデータと見つかった問題
+ */
+export function mergeDocuments(documents: unknown[]): {
+  data: unknown;
+  issues: MergeIssue[];
+} {
+  if (documents.length <= 1) {
+    return { data: documents[0], issues: [] };
+  }
+
+  const data: Record<string, unknown> = {};
+  const issues: MergeIssue[] = [];
+  documents.forEach((document, index) => {
+    if (!isMapping(document)) {
+      issues.push({
+        code: "invalid-document",
+        path: [],
+        document: index,
+        message: `${
+          index + 1
+        }つ目のドキュメントはマッピングである必要があります（マージの対象から除きます）`,
+      });
+      return;
+    }
+    mergeMapping(data, document, [], index, issues);
+  });
+  return { data, issues };
+}
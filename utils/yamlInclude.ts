@@ -0,0 +1,171 @@
+import { DEFAULT_SCHEMA, Type, load } from "js-yaml";
+import { isMapping } from "@/utils/yamlValidator";
+import { mergeDocuments, splitYamlDocuments } from "@/utils/yamlDocuments";
+
+/**
+ * 「!include パス」で指定された、別のファイルの内容への参照
+ */
+export class IncludeReference {
+  constructor(readonly path: string) {}
+}
+
+/**
+ * 「!include パス」のタグ
+ * 値はファイルのパスで、解析後にresolveIncludesで読み込み済みのファイルの内容に置き換える
+ */
+const includeType = new Type("!include", {
+  kind: "scalar",
+  resolve: (data: unknown) => typeof data === "string" && data.trim() !== "",
+  construct: (data: string) => new IncludeReference(data.trim()),
+  instanceOf: IncludeReference,
+  represent: (reference: object) => (reference as IncludeReference).path,
+});
+
+/**
+ * グリモワールの解析に使うスキーマ（標準のスキーマに「!include」を追加したもの）
+ */
+export const grimoireSchema = DEFAULT_SCHEMA.extend([includeType]);
+
+/**
+ * 読み込み済みのファイルから、インクルードするファイルを探す
+ * パスが完全に一致するもの、末尾が一致するもの、ファイル名が一致するもの（1つだけの場合）の順に探す
+ * @param {Record<string, string>} files - 読み込み済みのファイル（パスとテキスト）
+ * @param {string} path - 「!include」で指定されたパス
+ * @returns {string | undefined} 見つかったファイルのパス
+ */
+export function findIncludeFile(
+  files: Record<string, string>,
+  path: string
+): string | undefined {
+  const normalize = (name: string) =>
+    name.replace(/\\/g, "/").replace(/^\.\//, "");
+  const target = normalize(path);
+  const names = Object.keys(files);
+
+  const exact = names.find((name) => normalize(name) === target);
+  if (exact !== undefined) return exact;
+
+  const suffix = names.filter((name) => {
+    const normalized = normalize(name);
+    return (
+      normalized.endsWith(`/${target}`) || target.endsWith(`/${normalized}`)
+    );
+  });
+  if (suffix.length === 1) return suffix[0];
+
+  const baseName = target.split("/").pop();
+  const sameName = names.filter(
+    (name) => normalize(name).split("/").pop() === baseName
+  );
+  return sameName.length === 1 ? sameName[0] : undefined;
+}
+
+/**
+ * インクルードの解決で見つかった問題
+ * @interface IncludeIssue
+ * @property {"include-not-found" | "include-cycle" | "include-error"} code - 問題の種類
+ * @property {string[]} path - 「!include」を書いたYAML上のパス
+ * @property {string} message - メッセージ
+ */
+export interface IncludeIssue {
+  code: "include-not-found" | "include-cycle" | "include-error";
+  path: string[];
+  message: string;
+}
+
+/**
+ * インクルードするファイルを解析する（複数ドキュメントの場合はマージする）
+ * @param {string} name - ファイルのパス
+ * @param {string} text - ファイルのテキスト
+ * @returns {unknown} 解析したデータ
+ * @throws {Error} 構文エラーがある場合
+ */
+function loadIncludeFile(name: string, text: string): unknown {
+  const documents = splitYamlDocuments(text).map((document) => {
+    try {
+      return load(document.text, { schema: grimoireSchema, filename: name });
+    } catch (error) {
+      throw new Error(
+        `"${name}" を解析できません: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  });
+  return mergeDocuments(documents).data;
+}
+
+/**
+ * 解析したデータの中の「!include」を、読み込み済みのファイルの内容に置き換える
+ * インクルードしたファイルの中の「!include」も再帰的に解決する
+ * @param {unknown} value - js-yamlで解析したデータ
+ * @param {Record<string, string>} files - 読み込み済みのファイル（パスとテキスト）
+ * @param {IncludeIssue[]} issues - 見つかった問題の追加先
+ * @param {string[]} [path] - valueのYAML上のパス
+ * @param {string[]} [stack] - インクルード中のファイル（循環の検出用）
+ * @returns {unknown} インクルードを解決したデータ（解決できない参照は、問題を報告して取り除く）
+ */
+export function resolveIncludes(
+  value: unknown,
+  files: Record<string, string>,
+  issues: IncludeIssue[],
+  path: string[] = [],
+  stack: string[] = []
+): unknown {
+  if (value instanceof IncludeReference) {
+    const name = findIncludeFile(files, value.path);
+    if (name === undefined) {
+      issues.push({
+        code: "include-not-found",
+        path,
+        message: `インクルードするファイル "${value.path}" が見つかりません（インクルードするファイルとして追加してください）`,
+      });
+      return undefined;
+    }
+    if (stack.includes(name)) {
+      issues.push({
+        code: "include-cycle",
+        path,
+        message: `インクルードが循環しています: ${[...stack, name].join(
+          " → "
+        )}`,
+      });
+      return undefined;
+    }
+    let included: unknown;
+    try {
+      included = loadIncludeFile(name, files[name]);
+    } catch (error) {
+      issues.push({
+        code: "include-error",
+        path,
+        message: (error as Error).message,
+      });
+      return undefined;
+    }
+    return resolveIncludes(included, files, issues, path, [...stack, name]);
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) =>
+        resolveIncludes(item, files, issues, [...path, String(index)], stack)
+      )
+      .filter((item) => item !== undefined);
+  }
+  if (isMapping(value)) {
+    const resolved: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      const result = resolveIncludes(
+        item,
+        files,
+        issues,
+        [...path, key],
+        stack
+      );
+      if (result !== undefined) resolved[key] = result;
+    });
+    return resolved;
+  }
+  return value;
+}
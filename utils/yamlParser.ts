@@ -1,41 +1,156 @@
 import { load } from "js-yaml";
+import { Diagnostic } from "@/types/diagnostic";
 import {
   YamlData,
   YamlFile,
   FileNode,
   FileEdge,
   DirectoryContent,
+  GrimoireParseResult,
 } from "@/types/yaml";
+import { defaultNodeWidth } from "@/constant/constant";
+import { ThemeConfig } from "@/types/theme";
+import { defaultThemeConfig, resolveFileStyle } from "@/utils/theme";
+import { LayoutOptions } from "@/types/layout";
+import { LintConfig } from "@/types/lint";
+import { buildSourceMap, locatePath } from "@/utils/yamlSourceMap";
 import {
-  jsColor,
-  tsColor,
-  jsxColor,
-  tsxColor,
-  cssColor,
-  htmlColor,
-  yamlColor,
-  dartColor,
-  pythonColor,
-  pngColor,
-  glbColor,
-  mp4Color,
-  mp3Color,
-  marpColor,
-  mmdColor,
-  mdColor,
-  defaultColor,
-  defaultVerticalSpacing,
-  defaultHorizontalSpacing,
-  defaultNodeWidth,
-} from "@/constant/constant";
+  isFileEntry,
+  validateGrimoire,
+  syntaxErrorToDiagnostic,
+} from "@/utils/yamlValidator";
+import { layoutGraph, defaultLayoutOptions } from "@/utils/layout";
+import {
+  analyzeDependencies,
+  dependencyDiagnostics,
+  markEdgeIssues,
+} from "@/utils/dependencyAnalyzer";
+import { mergeDocuments, splitYamlDocuments } from "@/utils/yamlDocuments";
+import {
+  IncludeIssue,
+  IncludeReference,
+  grimoireSchema,
+  resolveIncludes,
+} from "@/utils/yamlInclude";
+import { collectSharedDefinitions } from "@/utils/yamlAnchors";
+import {
+  createDependencyIndex,
+  resolveDependency,
+} from "@/utils/dependencyResolver";
+import { lintGrimoire } from "@/utils/grimoireLinter";
 
 /**
  * YAMLテキストを解析してデータ構造に変換
+ * 「---」で区切られた複数ドキュメントは1つのグリモワールにマージする
  * @param {string} yamlText - 解析するYAMLテキスト
  * @returns {YamlData} 解析されたYAMLデータ
  */
 export function parseYaml(yamlText: string): YamlData {
-  return load(yamlText) as YamlData;
+  const documents = splitYamlDocuments(yamlText).map((document) =>
+    load(document.text, { schema: grimoireSchema })
+  );
+  return mergeDocuments(documents).data as YamlData;
+}
+
+/**
+ * YAMLテキストを解析し、グリモワールのスキーマで検証
+ * 「---」で区切られた複数ドキュメントは、それぞれを「src」をルートに持つ断片として1つにマージし、
+ * 「!include パス」は読み込み済みのファイルの内容に置き換える
+ * 構文エラーやスキーマエラーがある場合はdataをnullにして診断結果を返す
+ * @param {string} yamlText - 解析するYAMLテキスト
+ * @param {Record<string, string>} [includes] - 「!include」で参照できるファイル（パスとテキスト）
+ * @param {LintConfig} [lint] - リントの設定（指定した場合、スキーマが正しければリントの規則でも検査する）
+ * @returns {GrimoireParseResult} 解析結果と診断結果
+ */
+export function parseGrimoire(
+  yamlText: string,
+  includes: Record<string, string> = {},
+  lint?: LintConfig
+): GrimoireParseResult {
+  const documents = splitYamlDocuments(yamlText);
+  const loaded: unknown[] = [];
+  for (const document of documents) {
+    try {
+      loaded.push(load(document.text, { schema: grimoireSchema }));
+    } catch (error) {
+      return {
+        data: null,
+        diagnostics: [syntaxErrorToDiagnostic(error)],
+        sharedDefinitions: [],
+      };
+    }
+  }
+
+  const sourceMap = buildSourceMap(yamlText);
+  const diagnostics: Diagnostic[] = [];
+  const report = (
+    code: string,
+    severity: Diagnostic["severity"],
+    path: string[],
+    message: string,
+    line?: number
+  ) => {
+    const location =
+      line === undefined ? locatePath(sourceMap, path) : { line, column: 1 };
+    diagnostics.push({ code, severity, message, path, ...location });
+  };
+
+  // インクルードを解決してから、ドキュメントをマージする
+  // ドキュメント全体のインクルードを解決できない場合は、空のドキュメントとしてマージする
+  const includeIssues: IncludeIssue[] = [];
+  const resolved = loaded.map((document) => {
+    const result = resolveIncludes(document, includes, includeIssues);
+    return result === undefined && document instanceof IncludeReference
+      ? {}
+      : result;
+  });
+  includeIssues.forEach((issue) =>
+    report(issue.code, "error", issue.path, issue.message)
+  );
+  const { data: raw, issues } = mergeDocuments(resolved);
+  issues.forEach((issue) =>
+    issue.code === "invalid-document"
+      ? report(
+          issue.code,
+          "error",
+          issue.path,
+          issue.message,
+          documents[issue.document].line
+        )
+      : report(issue.code, "warning", issue.path, issue.message)
+  );
+
+  // 取り除いたインクルードのせいで空になったフォルダやルートは、インクルードの問題として報告済みのため検証結果から除く
+  const isCausedByInclude = (diagnostic: Diagnostic) =>
+    (diagnostic.code === "empty-directory" || diagnostic.path.length === 0) &&
+    includeIssues.some((issue) =>
+      diagnostic.path.every((key, index) => issue.path[index] === key)
+    );
+  diagnostics.push(
+    ...validateGrimoire(raw, sourceMap).filter(
+      (diagnostic) => !isCausedByInclude(diagnostic)
+    )
+  );
+  const hasError = diagnostics.some((d) => d.severity === "error");
+
+  // スキーマが正しい場合のみ依存関係の問題を検出
+  if (!hasError) {
+    const { nodes, edges } = collectFiles(raw as YamlData);
+    const analysis = analyzeDependencies(
+      nodes.map((node) => node.id),
+      edges
+    );
+    diagnostics.push(...dependencyDiagnostics(analysis, sourceMap));
+    if (lint) {
+      diagnostics.push(...lintGrimoire(nodes, edges, sourceMap, lint));
+    }
+  }
+
+  return {
+    data: hasError ? null : (raw as YamlData),
+    diagnostics,
+    sharedDefinitions: collectSharedDefinitions(yamlText),
+  };
 }
 
 /**
@@ -50,117 +165,23 @@ export function getFileExtension(path: string): string {
 /**
  * 拡張子に基づいて色を取得
  * @param {string} extension - ファイルの拡張子
+ * @param {ThemeConfig} [theme] - テーマの設定（省略時は初期状態のテーマ）
  * @returns {string} 対応する色のHEXコード
  */
-export function getExtensionColor(extension: string = ""): string {
-  // ファイル拡張子ごとの色を定義するマップ
-  // プログラミング言語系
-  const colorMap: { [key: string]: string } = {
-    js: jsColor, // JavaScript - 黄色
-    ts: tsColor, // TypeScript - 青
-    jsx: jsxColor, // React JSX - 水色
-    tsx: tsxColor, // React TSX - 薄い青
-    css: cssColor, // CSS - 濃い青
-    html: htmlColor, // HTML - オレンジ赤
-    yaml: yamlColor, // YAML - 赤
-    dart: dartColor, // Dart - 緑
-    python: pythonColor, // Python - 青
-
-    // メディアファイル系
-    png: pngColor, // PNG画像 - 緑
-    glb: glbColor, // 3Dモデル - 紫
-    mp4: mp4Color, // 動画 - 赤
-    mp3: mp3Color, // 音声 - ピンク
-
-    // ドキュメント系
-    marp: marpColor, // Marpスライド - オレンジ
-    mmd: mmdColor, // Mermaid図 - 茶色
-    md: mdColor, // Markdown - グレー
-  };
-
-  // 未定義の拡張子の場合はデフォルトのグレーを返す
-  return colorMap[extension.toLowerCase()] || defaultColor;
-}
-
-/**
- * ノードの位置を計算する内部関数
- * @param {FileNode[]} nodes - 配置するノードの配列
- * @param {FileEdge[]} edges - ノード間の依存関係を表すエッジの配列
- * @returns {Object.<string, {x: number, y: number}>} ノードIDをキーとする位置情報のマップ
- */
-function calculateNodePositions(nodes: FileNode[], edges: FileEdge[]) {
-  // ノードの位置情報を格納するオブジェクト
-  const positions: { [key: string]: { x: number; y: number } } = {};
-  // 各ノードのレベル（階層）を格納するオブジェクト
-  const levels: { [key: string]: number } = {};
-  // 各レベルに属するノードIDを格納するオブジェクト
-  const nodesPerLevel: { [key: number]: string[] } = {};
-
-  // 依存関係のないノード（ルートノード）を特定
-  const startNodes = nodes
-    .filter((node) => !edges.some((edge) => edge.target === node.id))
-    .map((node) => node.id);
-
-  /**
-   * 再帰的にノードのレベルを計算する内部関数
-   * @param {string} nodeId - 処理対象のノードID
-   * @param {number} level - 現在の階層レベル
-   */
-  function calculateLevel(nodeId: string, level: number) {
-    // 既に計算済みの場合は、より深い階層を採用
-    if (levels[nodeId] !== undefined) {
-      levels[nodeId] = Math.max(levels[nodeId], level);
-    } else {
-      levels[nodeId] = level;
-    }
-
-    // レベルごとのノード配列を初期化・追加
-    if (!nodesPerLevel[level]) {
-      nodesPerLevel[level] = [];
-    }
-    nodesPerLevel[level].push(nodeId);
-
-    // 子ノードに対して再帰的に処理
-    const childEdges = edges.filter((edge) => edge.source === nodeId);
-    childEdges.forEach((edge) => {
-      calculateLevel(edge.target, level + 1);
-    });
-  }
-
-  // ルートノードから階層計算を開始
-  startNodes.forEach((nodeId) => calculateLevel(nodeId, 0));
-
-  // レイアウトの設定値
-  const VERTICAL_SPACING = defaultVerticalSpacing; // 垂直方向の間隔
-  const HORIZONTAL_SPACING = defaultHorizontalSpacing; // 水平方向の間隔
-  const STAGGER_OFFSET = 100; // 千鳥配置のオフセット
-
-  // 各レベルのノードに位置を割り当て
-  Object.entries(nodesPerLevel).forEach(([level, nodeIds]) => {
-    const levelNum = parseInt(level);
-    const totalWidth = (nodeIds.length - 1) * HORIZONTAL_SPACING;
-    const startX = -totalWidth / 2;
-
-    nodeIds.forEach((nodeId, index) => {
-      // 偶数レベルと奇数レベルで水平方向にずらして千鳥配置
-      const staggerX = levelNum % 2 === 0 ? 0 : STAGGER_OFFSET;
-
-      positions[nodeId] = {
-        x: startX + index * HORIZONTAL_SPACING + staggerX,
-        y: levelNum * VERTICAL_SPACING,
-      };
-    });
-  });
-
-  return positions;
+export function getExtensionColor(
+  extension: string = "",
+  theme: ThemeConfig = defaultThemeConfig
+): string {
+  return resolveFileStyle("", extension, theme).color;
 }
 
 /**
  * ディレクトリ構造を再帰的に処理してノードとエッジを生成
+ * ファイルとディレクトリは、検証と同じ規則（isFileEntry）で見分ける
  * @param {DirectoryContent|YamlFile} content - 処理するコンテンツ
  * @param {string} parentPath - 親ディレクトリのパス
  * @param {FileNode[]} nodes - ノードの配列
- * @param {FileEdge[]} edges - エッジの配列
+ * @param {FileEdge[]} edges - エッジの配列（依存先はdependencyに書かれたまま）
  * @param {Set<string>} agents - エージェントの集合
  */
 function processDirectory(
@@ -170,20 +191,9 @@ function processDirectory(
   edges: FileEdge[],
   agents: Set<string>
 ) {
-  // YamlFileかどうかを型ガードで判定
-  const isYamlFile = (value: any): value is YamlFile => {
-    return (
-      typeof value === "object" &&
-      value !== null &&
-      "content" in value &&
-      "dependency" in value &&
-      "agent" in value &&
-      "api" in value
-    );
-  };
-
-  if (isYamlFile(content)) {
+  if (isFileEntry(content)) {
     // YamlFileの場合
+    const file = content as YamlFile;
     const filePath = parentPath;
     const fileName = filePath.split("/").pop() || "";
 
@@ -193,19 +203,21 @@ function processDirectory(
       type: "default",
       data: {
         label: fileName,
-        content: content.content,
-        agent: content.agent,
+        content: file.content,
+        agent: file.agent,
+        api: file.api,
         extension: getFileExtension(fileName),
+        dependencyWait: file.dependency_wait ?? false,
       },
       position: { x: Math.random() * 500, y: Math.random() * 500 },
       style: { border: "1px solid #ddd", width: defaultNodeWidth },
     });
 
     // エージェントを追加
-    agents.add(content.agent);
+    agents.add(file.agent);
 
     // 依存関係のエッジを追加
-    content.dependency.forEach((dep) => {
+    file.dependency.forEach((dep) => {
       edges.push({
         id: `${filePath}-${dep}`,
         source: filePath,
@@ -222,24 +234,111 @@ function processDirectory(
 }
 
 /**
- * YAMLデータからノードとエッジを生成
+ * YAMLデータからファイルノードと依存関係のエッジを収集（位置は未計算）
+ * 依存先の相対パス・globパターン・フォルダは、定義されているファイルのノードIDに解決する
  * @param {YamlData} yamlData - 解析されたYAMLデータ
  * @returns {Object} ノード、エッジ、エージェントの情報を含むオブジェクト
  */
-export function generateNodesAndEdges(yamlData: YamlData) {
+export function collectFiles(yamlData: YamlData) {
   const nodes: FileNode[] = [];
-  const edges: FileEdge[] = [];
+  const dependencies: FileEdge[] = [];
   const agents: Set<string> = new Set();
 
-  processDirectory(yamlData.src, "src", nodes, edges, agents);
+  processDirectory(yamlData.src, "src", nodes, dependencies, agents);
 
-  // ノードの位置を計算して適用
-  const positions = calculateNodePositions(nodes, edges);
-  nodes.forEach((node) => {
-    if (positions[node.id]) {
-      node.position = positions[node.id];
-    }
+  const index = createDependencyIndex(nodes.map((node) => node.id));
+  const edges: FileEdge[] = [];
+  const edgeIds = new Set<string>();
+  dependencies.forEach(({ source, target: spec }) => {
+    const { targets, via } = resolveDependency(source, spec, index);
+    targets.forEach((target) => {
+      const id = `${source}-${target}`;
+      // 同じ依存先を複数の指定で参照している場合は1つのエッジにまとめる
+      if (edgeIds.has(id)) return;
+      edgeIds.add(id);
+      edges.push(
+        target === spec && via === "exact"
+          ? { id, source, target }
+          : {
+              id,
+              source,
+              target,
+              data: { spec, ...(via !== "exact" && { via }) },
+            }
+      );
+    });
   });
 
   return { nodes, edges, agents };
 }
+
+/**
+ * 定義されていない依存先を表すプレースホルダーノードを生成
+ * @param {FileEdge[]} missingEdges - 依存先が存在しないエッジ
+ * @returns {FileNode[]} プレースホルダーノードの配列
+ */
+function createMissingNodes(missingEdges: FileEdge[]): FileNode[] {
+  const targets = Array.from(new Set(missingEdges.map((edge) => edge.target)));
+
+  return targets.map((target) => {
+    const fileName = target.split("/").pop() || target;
+    return {
+      id: target,
+      type: "missing",
+      data: {
+        label: fileName,
+        extension: getFileExtension(fileName),
+        missing: true,
+      },
+      position: { x: 0, y: 0 },
+      style: { border: "1px dashed #ef4444", width: defaultNodeWidth },
+    };
+  });
+}
+
+/**
+ * YAMLデータからレイアウト前のグラフを作成
+ * 依存関係の問題を解析し、未定義の依存先にはプレースホルダーノードを追加する
+ * @param {YamlData} yamlData - 解析されたYAMLデータ
+ * @returns {Object} ファイルノード、エッジ、エージェント、依存関係の解析結果を含むオブジェクト
+ */
+export function buildGraphModel(yamlData: YamlData) {
+  const collected = collectFiles(yamlData);
+  const { agents } = collected;
+
+  // 依存関係の問題を検出してエッジに反映
+  const analysis = analyzeDependencies(
+    collected.nodes.map((node) => node.id),
+    collected.edges
+  );
+  const files = [...collected.nodes, ...createMissingNodes(analysis.missing)];
+  const edges = markEdgeIssues(collected.edges, analysis);
+
+  return { files, edges, agents, analysis };
+}
+
+/**
+ * YAMLデータからノードとエッジを生成
+ * ファイルはフォルダごとにグループ化し、折りたたまれたフォルダは要約ノードにまとめる
+ * @param {YamlData} yamlData - 解析されたYAMLデータ
+ * @param {Set<string>} [collapsed] - 折りたたまれているフォルダのパス
+ * @param {LayoutOptions} [options] - レイアウトの設定
+ * @returns {Object} ノード、エッジ、エージェント、依存関係の解析結果を含むオブジェクト
+ */
+export function generateNodesAndEdges(
+  yamlData: YamlData,
+  collapsed: Set<string> = new Set(),
+  options: LayoutOptions = defaultLayoutOptions
+) {
+  const { files, edges, agents, analysis } = buildGraphModel(yamlData);
+
+  // フォルダでグループ化してノードの位置を計算
+  const layout = layoutGraph({
+    files,
+    edges,
+    collapsed: Array.from(collapsed),
+    options,
+  });
+
+  return { nodes: layout.nodes, edges: layout.edges, agents, analysis };
+}
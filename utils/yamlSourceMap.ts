@@ -0,0 +1,452 @@
+/**
+ * YAMLテキスト上の1つのキー（またはシーケンス要素）の位置情報
+ * @interface SourceEntry
+ * @property {string[]} path - YAML上のパス（シーケンス要素はインデックス文字列）
+ * @property {number} line - キーの行番号（1始まり）
+ * @property {number} column - キーの列番号（1始まり）
+ * @property {number} indent - キーのインデント幅
+ * @property {number} valueColumn - 同じ行に書かれた値の列番号（値が無い場合はキーの末尾）
+ * @property {number} endLine - このエントリのブロックが終わる行番号（1始まり、含む）
+ * @property {"mapping" | "sequence" | "flow" | "scalar"} kind - 値の種類
+ * @property {string} [value] - 1行で書かれたスカラー値（クォートは除去済み）
+ */
+export interface SourceEntry {
+  path: string[];
+  line: number;
+  column: number;
+  indent: number;
+  valueColumn: number;
+  endLine: number;
+  kind: "mapping" | "sequence" | "flow" | "scalar";
+  value?: string;
+}
+
+/**
+ * YAMLテキストのソースマップ
+ * @interface YamlSourceMap
+ * @property {Map<string, SourceEntry>} entries - パスキーをキーとする位置情報
+ * @property {string[]} lines - 行ごとに分割したテキスト
+ */
+export interface YamlSourceMap {
+  entries: Map<string, SourceEntry>;
+  lines: string[];
+}
+
+/**
+ * ブロック走査中の親コンテナを表す内部型
+ */
+interface Frame {
+  indent: number;
+  path: string[];
+  entry: SourceEntry | null;
+  seqIndex: number;
+  compactSequence: boolean;
+}
+
+// 「キー: 値」形式の行にマッチする正規表現（クォート付きキーにも対応）
+const KEY_PATTERN =
+  /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"[\]{},][^#]*?))\s*:(?:\s+(.*))?$/;
+
+/**
+ * パスをMapのキー文字列に変換
+ * @param {string[]} path - YAML上のパス
+ * @returns {string} パスキー
+ */
+export function pathKey(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+/**
+ * クォートされたキーを元の文字列に戻す
+ * @param {RegExpMatchArray} match - KEY_PATTERNのマッチ結果
+ * @returns {string} キー文字列
+ */
+function unquoteKey(match: RegExpMatchArray): string {
+  if (match[1] !== undefined) {
+    try {
+      return JSON.parse(`"${match[1]}"`);
+    } catch {
+      return match[1];
+    }
+  }
+  if (match[2] !== undefined) {
+    return match[2].replace(/''/g, "'");
+  }
+  return match[3].trim();
+}
+
+/**
+ * 値の末尾に付いたコメントを取り除く
+ * @param {string} value - 値部分の文字列
+ * @returns {string} コメントを除いた値
+ */
+export function stripComment(value: string): string {
+  if (value.startsWith('"') || value.startsWith("'")) {
+    return value.trim();
+  }
+  return value.replace(/(^|\s+)#.*$/, "").trim();
+}
+
+/**
+ * 1行のスカラー値からクォートを取り除く
+ * @param {string} value - スカラー値の文字列
+ * @returns {string} クォートを除いた値
+ */
+function unquoteScalar(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * フロー形式のシーケンス（[a, b, c]）の各要素の開始位置と値を求める
+ * @param {string} value - "[" から始まる値文字列
+ * @returns {{offset: number, text: string}[]} 各要素の値文字列内でのオフセットと値
+ */
+function splitFlowItems(value: string): { offset: number; text: string }[] {
+  const items: { offset: number; text: string }[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let itemStart = -1;
+
+  /**
+   * 現在の要素を確定する
+   * @param {number} end - 要素の終了位置
+   */
+  const closeItem = (end: number) => {
+    if (itemStart !== -1) {
+      items.push({
+        offset: itemStart,
+        text: unquoteScalar(value.slice(itemStart, end).trim()),
+      });
+    }
+    itemStart = -1;
+  };
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+      if (depth === 1) {
+        itemStart = -1;
+        continue;
+      }
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) {
+        closeItem(i);
+        break;
+      }
+    } else if (ch === "," && depth === 1) {
+      closeItem(i);
+      continue;
+    }
+    if (depth === 1 && itemStart === -1 && ch.trim() !== "") {
+      itemStart = i;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * YAMLテキストを行単位で走査し、各キーの位置情報を収集する
+ * js-yamlは値の位置を返さないため、ブロック形式のマッピング・シーケンスを
+ * インデントから解釈して診断やエディタ連携に使う位置を求める
+ * @param {string} text - YAMLテキスト
+ * @returns {YamlSourceMap} ソースマップ
+ */
+export function buildSourceMap(text: string): YamlSourceMap {
+  const lines = text.split(/\r?\n/);
+  const entries = new Map<string, SourceEntry>();
+  const root: Frame = {
+    indent: -1,
+    path: [],
+    entry: null,
+    seqIndex: 0,
+    compactSequence: false,
+  };
+  const stack: Frame[] = [root];
+  let lastContentLine = 0;
+  // ブロックスカラー（| や >）の所有エントリ
+  let blockScalar: SourceEntry | null = null;
+
+  /**
+   * スタックの先頭フレームを閉じ、終了行を確定する
+   */
+  const popFrame = () => {
+    const frame = stack.pop();
+    if (frame?.entry) {
+      frame.entry.endLine = Math.max(frame.entry.line, lastContentLine);
+    }
+  };
+
+  /**
+   * エントリを登録する
+   * @param {SourceEntry} entry - 登録するエントリ
+   */
+  const addEntry = (entry: SourceEntry) => {
+    entries.set(pathKey(entry.path), entry);
+  };
+
+  /**
+   * 「キー: 値」を処理する
+   * @param {RegExpMatchArray} match - KEY_PATTERNのマッチ結果
+   * @param {number} lineNumber - 行番号
+   * @param {number} indent - キーの開始位置
+   * @param {string} body - キー以降の行文字列
+   */
+  const handleKey = (
+    match: RegExpMatchArray,
+    lineNumber: number,
+    indent: number,
+    body: string
+  ) => {
+    const parent = stack[stack.length - 1];
+    const key = unquoteKey(match);
+    const rawValue = match[4] ?? "";
+    const value = stripComment(rawValue);
+    const valueOffset = rawValue ? body.length - rawValue.length : body.length;
+    const entry: SourceEntry = {
+      path: [...parent.path, key],
+      line: lineNumber,
+      column: indent + 1,
+      indent,
+      valueColumn: indent + valueOffset + 1,
+      endLine: lineNumber,
+      kind: "scalar",
+    };
+    addEntry(entry);
+
+    if (value === "" || (value.startsWith("&") && !value.includes(" "))) {
+      // 子ブロックを持つキー
+      entry.kind = "mapping";
+      stack.push({
+        indent,
+        path: entry.path,
+        entry,
+        seqIndex: 0,
+        compactSequence: true,
+      });
+    } else if (/^[|>]/.test(value)) {
+      blockScalar = entry;
+    } else if (value.startsWith("[")) {
+      entry.kind = "flow";
+      splitFlowItems(value).forEach(({ offset, text }, index) => {
+        addEntry({
+          path: [...entry.path, String(index)],
+          line: lineNumber,
+          column: entry.valueColumn + offset,
+          indent,
+          valueColumn: entry.valueColumn + offset,
+          endLine: lineNumber,
+          kind: "scalar",
+          value: text,
+        });
+      });
+    } else {
+      entry.value = unquoteScalar(value);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const trimmed = line.trim();
+
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      return;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    // ブロックスカラーの本文はスキップ
+    if (blockScalar) {
+      if (indent > blockScalar.indent) {
+        blockScalar.endLine = lineNumber;
+        lastContentLine = lineNumber;
+        return;
+      }
+      blockScalar = null;
+    }
+
+    // ドキュメント区切りでスタックをリセット
+    if (trimmed === "---" || trimmed === "...") {
+      while (stack.length > 1) popFrame();
+      lastContentLine = lineNumber;
+      return;
+    }
+
+    const isSequenceItem = trimmed === "-" || trimmed.startsWith("- ");
+
+    // 現在の行を子として受け入れられるフレームまで戻る
+    while (stack.length > 1) {
+      const top = stack[stack.length - 1];
+      const acceptsChild =
+        indent > top.indent ||
+        (indent === top.indent && isSequenceItem && top.compactSequence);
+      if (acceptsChild) break;
+      popFrame();
+    }
+
+    const parent = stack[stack.length - 1];
+
+    if (isSequenceItem) {
+      if (parent.entry) parent.entry.kind = "sequence";
+      const itemPath = [...parent.path, String(parent.seqIndex++)];
+      const itemBody = trimmed.slice(1).trimStart();
+      const itemColumn = indent + (trimmed.length - itemBody.length) + 1;
+      const entry: SourceEntry = {
+        path: itemPath,
+        line: lineNumber,
+        column: indent + 1,
+        indent,
+        valueColumn: itemColumn,
+        endLine: lineNumber,
+        kind: "scalar",
+      };
+      addEntry(entry);
+
+      const keyMatch = itemBody.match(KEY_PATTERN);
+      if (itemBody === "" || keyMatch) {
+        // ネストしたブロックを持つシーケンス要素
+        entry.kind = "mapping";
+        stack.push({
+          indent,
+          path: itemPath,
+          entry,
+          seqIndex: 0,
+          compactSequence: false,
+        });
+        if (keyMatch) {
+          handleKey(keyMatch, lineNumber, itemColumn - 1, itemBody);
+        }
+      } else {
+        entry.value = unquoteScalar(stripComment(itemBody));
+      }
+    } else {
+      const keyMatch = trimmed.match(KEY_PATTERN);
+      if (keyMatch) {
+        handleKey(keyMatch, lineNumber, indent, trimmed);
+      }
+    }
+
+    lastContentLine = lineNumber;
+  });
+
+  while (stack.length > 1) popFrame();
+
+  return { entries, lines };
+}
+
+/**
+ * パスに対応する位置を取得する
+ * パスそのものが見つからない場合は最も近い祖先の位置を返す
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {string[]} path - YAML上のパス
+ * @returns {{line: number, column: number}} 位置（1始まり）
+ */
+export function locatePath(
+  sourceMap: YamlSourceMap,
+  path: string[]
+): { line: number; column: number } {
+  for (let length = path.length; length > 0; length--) {
+    const entry = sourceMap.entries.get(pathKey(path.slice(0, length)));
+    if (entry) {
+      return { line: entry.line, column: entry.column };
+    }
+  }
+  return { line: 1, column: 1 };
+}
+
+/**
+ * シーケンスの中から指定した値を持つ要素のエントリを探す
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {string[]} path - シーケンスのパス
+ * @param {string} value - 探す値
+ * @returns {SourceEntry | undefined} 見つかった要素のエントリ
+ */
+export function findSequenceItem(
+  sourceMap: YamlSourceMap,
+  path: string[],
+  value: string
+): SourceEntry | undefined {
+  for (let index = 0; ; index++) {
+    const entry = sourceMap.entries.get(pathKey([...path, String(index)]));
+    if (!entry) return undefined;
+    if (entry.value === value) return entry;
+  }
+}
+
+/**
+ * パスに対応するエントリを取得する
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {string[]} path - YAML上のパス
+ * @returns {SourceEntry | undefined} 見つかったエントリ
+ */
+export function getSourceEntry(
+  sourceMap: YamlSourceMap,
+  path: string[]
+): SourceEntry | undefined {
+  return sourceMap.entries.get(pathKey(path));
+}
+
+/**
+ * ファイルノードのIDに対応するエントリ（ファイル定義のブロック）を探す
+ * ファイルノードのIDはYAML上のパスを "/" でつないだもの
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {string} fileId - ファイルノードのID
+ * @returns {SourceEntry | undefined} ファイル定義のエントリ
+ */
+export function findFileEntry(
+  sourceMap: YamlSourceMap,
+  fileId: string
+): SourceEntry | undefined {
+  const direct = getSourceEntry(sourceMap, fileId.split("/"));
+  if (direct) return direct;
+
+  // キーに "/" を含む場合はパスを分割できないため、すべてのエントリから探す
+  for (const entry of Array.from(sourceMap.entries.values())) {
+    if (entry.path.join("/") === fileId) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * 指定した行を含むファイル定義のブロックを探す
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {number} line - 行番号（1始まり）
+ * @param {Set<string>} fileIds - ファイルノードのID
+ * @returns {string | undefined} 行を含むファイルノードのID
+ */
+export function findFileAtLine(
+  sourceMap: YamlSourceMap,
+  line: number,
+  fileIds: Set<string>
+): string | undefined {
+  let found: SourceEntry | undefined;
+  sourceMap.entries.forEach((entry) => {
+    if (
+      line >= entry.line &&
+      line <= entry.endLine &&
+      fileIds.has(entry.path.join("/")) &&
+      (!found || entry.path.length > found.path.length)
+    ) {
+      found = entry;
+    }
+  });
+  return found?.path.join("/");
+}
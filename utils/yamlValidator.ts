@@ -0,0 +1,395 @@
+import { YAMLException } from "js-yaml";
+import { Diagnostic, DiagnosticSeverity } from "@/types/diagnostic";
+import { YamlSourceMap, locatePath } from "@/utils/yamlSourceMap";
+
+// YamlFileとして認識するフィールド
+const FILE_FIELDS = [
+  "content",
+  "dependency",
+  "agent",
+  "api",
+  "dependency_wait",
+];
+// YamlStructureとして認識するフィールド
+const STRUCTURE_FIELDS = ["content", "dependency", "agent", "api"];
+
+/**
+ * 値がプレーンなオブジェクト（YAMLのマッピング）かどうかを判定
+ * @param {unknown} value - 判定する値
+ * @returns {boolean} マッピングであればtrue
+ */
+export function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ディレクトリ内の要素がファイル定義かどうかを判定
+ * ファイル用のフィールドを1つ以上持ち、それらの値がすべて文字列・真偽値・配列などマッピング以外の場合にファイルとみなす
+ * （"api" や "content" という名前のフォルダは値がマッピングになるため、ディレクトリとして扱う）
+ * @param {unknown} value - 判定する値
+ * @returns {boolean} ファイル定義であればtrue
+ */
+export function isFileEntry(value: unknown): boolean {
+  if (!isMapping(value)) return false;
+  const fields = FILE_FIELDS.filter((field) => field in value);
+  return fields.length > 0 && fields.every((field) => !isMapping(value[field]));
+}
+
+/**
+ * 診断結果を収集するための内部クラス
+ */
+class DiagnosticCollector {
+  readonly diagnostics: Diagnostic[] = [];
+
+  constructor(private readonly sourceMap?: YamlSourceMap) {}
+
+  /**
+   * 診断を追加する
+   * @param {string} code - 問題の種類
+   * @param {DiagnosticSeverity} severity - 重要度
+   * @param {string[]} path - YAML上のパス
+   * @param {string} message - メッセージ
+   */
+  add(
+    code: string,
+    severity: DiagnosticSeverity,
+    path: string[],
+    message: string
+  ) {
+    const { line, column } = this.sourceMap
+      ? locatePath(this.sourceMap, path)
+      : { line: 1, column: 1 };
+    this.diagnostics.push({ code, severity, message, path, line, column });
+  }
+}
+
+/**
+ * 値の型を表示用の文字列に変換
+ * @param {unknown} value - 値
+ * @returns {string} 型名
+ */
+function describeType(value: unknown): string {
+  if (value === null || value === undefined) return "空";
+  if (Array.isArray(value)) return "配列";
+  if (typeof value === "object") return "マッピング";
+  if (typeof value === "string") return "文字列";
+  if (typeof value === "number") return "数値";
+  if (typeof value === "boolean") return "真偽値";
+  return typeof value;
+}
+
+/**
+ * 文字列フィールドを検証
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {Record<string, unknown>} entry - 検証対象
+ * @param {string} field - フィールド名
+ * @param {string[]} path - エントリのパス
+ */
+function checkString(
+  collector: DiagnosticCollector,
+  entry: Record<string, unknown>,
+  field: string,
+  path: string[]
+) {
+  const value = entry[field];
+  if (!(field in entry)) {
+    collector.add(
+      "missing-field",
+      "error",
+      path,
+      `必須フィールド "${field}" がありません`
+    );
+  } else if (typeof value !== "string") {
+    collector.add(
+      "invalid-type",
+      "error",
+      [...path, field],
+      `"${field}" は文字列である必要があります（${describeType(
+        value
+      )}が指定されています）`
+    );
+  }
+}
+
+/**
+ * 文字列配列フィールドを検証
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {Record<string, unknown>} entry - 検証対象
+ * @param {string} field - フィールド名
+ * @param {string[]} path - エントリのパス
+ */
+function checkStringArray(
+  collector: DiagnosticCollector,
+  entry: Record<string, unknown>,
+  field: string,
+  path: string[]
+) {
+  const value = entry[field];
+  if (!(field in entry)) {
+    collector.add(
+      "missing-field",
+      "error",
+      path,
+      `必須フィールド "${field}" がありません（無い場合は [] を指定してください）`
+    );
+  } else if (!Array.isArray(value)) {
+    collector.add(
+      "invalid-type",
+      "error",
+      [...path, field],
+      `"${field}" は配列である必要があります（${describeType(
+        value
+      )}が指定されています）`
+    );
+  } else {
+    value.forEach((item, index) => {
+      if (typeof item !== "string") {
+        collector.add(
+          "invalid-type",
+          "error",
+          [...path, field, String(index)],
+          `"${field}" の要素は文字列である必要があります（${describeType(
+            item
+          )}が指定されています）`
+        );
+      }
+    });
+  }
+}
+
+/**
+ * 想定外のフィールドを警告する
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {Record<string, unknown>} entry - 検証対象
+ * @param {string[]} allowed - 許可されたフィールド
+ * @param {string[]} path - エントリのパス
+ */
+function checkUnknownFields(
+  collector: DiagnosticCollector,
+  entry: Record<string, unknown>,
+  allowed: string[],
+  path: string[]
+) {
+  Object.keys(entry)
+    .filter((key) => !allowed.includes(key))
+    .forEach((key) => {
+      collector.add(
+        "unknown-field",
+        "warning",
+        [...path, key],
+        `未知のフィールド "${key}" は無視されます`
+      );
+    });
+}
+
+/**
+ * YamlFileの構造を検証
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {Record<string, unknown>} entry - 検証対象
+ * @param {string[]} path - エントリのパス
+ */
+function validateFile(
+  collector: DiagnosticCollector,
+  entry: Record<string, unknown>,
+  path: string[]
+) {
+  checkString(collector, entry, "content", path);
+  checkStringArray(collector, entry, "dependency", path);
+  checkString(collector, entry, "agent", path);
+  checkStringArray(collector, entry, "api", path);
+
+  if (
+    "dependency_wait" in entry &&
+    typeof entry.dependency_wait !== "boolean"
+  ) {
+    collector.add(
+      "invalid-type",
+      "error",
+      [...path, "dependency_wait"],
+      `"dependency_wait" は真偽値（true / false）である必要があります（${describeType(
+        entry.dependency_wait
+      )}が指定されています）`
+    );
+  }
+
+  checkUnknownFields(collector, entry, FILE_FIELDS, path);
+}
+
+/**
+ * YamlStructure（src/structure.yaml）の構造を検証
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {unknown} entry - 検証対象
+ * @param {string[]} path - エントリのパス
+ */
+function validateStructure(
+  collector: DiagnosticCollector,
+  entry: unknown,
+  path: string[]
+) {
+  if (!isMapping(entry)) {
+    collector.add(
+      "invalid-type",
+      "error",
+      path,
+      `"structure.yaml" はマッピングである必要があります（${describeType(
+        entry
+      )}が指定されています）`
+    );
+    return;
+  }
+
+  checkString(collector, entry, "content", path);
+  checkStringArray(collector, entry, "dependency", path);
+  checkString(collector, entry, "agent", path);
+  checkStringArray(collector, entry, "api", path);
+  checkUnknownFields(collector, entry, STRUCTURE_FIELDS, path);
+}
+
+/**
+ * DirectoryContentの構造を再帰的に検証
+ * @param {DiagnosticCollector} collector - 診断の収集先
+ * @param {Record<string, unknown>} directory - 検証対象のディレクトリ
+ * @param {string[]} path - ディレクトリのパス
+ */
+function validateDirectory(
+  collector: DiagnosticCollector,
+  directory: Record<string, unknown>,
+  path: string[]
+) {
+  const entries = Object.entries(directory);
+
+  if (entries.length === 0) {
+    collector.add(
+      "empty-directory",
+      "warning",
+      path,
+      `ディレクトリ "${path.join("/")}" にファイルがありません`
+    );
+    return;
+  }
+
+  entries.forEach(([key, value]) => {
+    const entryPath = [...path, key];
+
+    // src直下のstructure.yamlは専用のスキーマで検証
+    if (path.length === 1 && key === "structure.yaml") {
+      validateStructure(collector, value, entryPath);
+      return;
+    }
+
+    if (!isMapping(value)) {
+      collector.add(
+        "invalid-type",
+        "error",
+        entryPath,
+        `"${key}" はファイル定義またはディレクトリ（マッピング）である必要があります（${describeType(
+          value
+        )}が指定されています）`
+      );
+      return;
+    }
+
+    if (isFileEntry(value)) {
+      validateFile(collector, value, entryPath);
+    } else {
+      validateDirectory(collector, value, entryPath);
+    }
+  });
+}
+
+/**
+ * 解析済みのYAMLデータをグリモワールのスキーマに沿って検証
+ * @param {unknown} data - js-yamlで解析したデータ
+ * @param {YamlSourceMap} [sourceMap] - 行・列を求めるためのソースマップ
+ * @returns {Diagnostic[]} 検出された問題の一覧
+ */
+export function validateGrimoire(
+  data: unknown,
+  sourceMap?: YamlSourceMap
+): Diagnostic[] {
+  const collector = new DiagnosticCollector(sourceMap);
+
+  if (!isMapping(data)) {
+    collector.add(
+      "invalid-root",
+      "error",
+      [],
+      `ルートはマッピングである必要があります（${describeType(
+        data
+      )}が指定されています）`
+    );
+    return collector.diagnostics;
+  }
+
+  if (!("src" in data)) {
+    collector.add(
+      "missing-src",
+      "error",
+      [],
+      'ルートに "src" ディレクトリがありません'
+    );
+    return collector.diagnostics;
+  }
+
+  if (!isMapping(data.src)) {
+    collector.add(
+      "invalid-type",
+      "error",
+      ["src"],
+      `"src" はディレクトリ（マッピング）である必要があります（${describeType(
+        data.src
+      )}が指定されています）`
+    );
+    return collector.diagnostics;
+  }
+
+  if (!("structure.yaml" in data.src)) {
+    collector.add(
+      "missing-structure",
+      "error",
+      ["src"],
+      '"src/structure.yaml" が定義されていません'
+    );
+  }
+
+  Object.keys(data)
+    .filter((key) => key !== "src")
+    .forEach((key) => {
+      collector.add(
+        "unknown-field",
+        "warning",
+        [key],
+        `ルートの "${key}" は無視されます（"src" 以下のみが表示対象です）`
+      );
+    });
+
+  validateDirectory(collector, data.src, ["src"]);
+
+  return collector.diagnostics;
+}
+
+/**
+ * js-yamlの構文エラーを診断に変換
+ * @param {unknown} error - js-yamlが投げた例外
+ * @returns {Diagnostic} 構文エラーの診断
+ */
+export function syntaxErrorToDiagnostic(error: unknown): Diagnostic {
+  if (error instanceof YAMLException) {
+    return {
+      code: "syntax-error",
+      severity: "error",
+      message: `YAMLの構文エラー: ${error.reason}`,
+      path: [],
+      line: (error.mark?.line ?? 0) + 1,
+      column: (error.mark?.column ?? 0) + 1,
+    };
+  }
+  return {
+    code: "syntax-error",
+    severity: "error",
+    message: `YAMLの解析に失敗しました: ${String(error)}`,
+    path: [],
+    line: 1,
+    column: 1,
+  };
+}
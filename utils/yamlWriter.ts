@@ -0,0 +1,349 @@
+import { dump } from "js-yaml";
+import { EditableFileField, GrimoireEdit } from "@/types/yaml";
+import {
+  SourceEntry,
+  YamlSourceMap,
+  buildSourceMap,
+  findFileEntry,
+  getSourceEntry,
+  pathKey,
+  stripComment,
+} from "@/utils/yamlSourceMap";
+
+// 子要素が無いブロックに新しく書き込むときのインデント幅
+const DEFAULT_INDENT_WIDTH = 2;
+
+/**
+ * 行単位でYAMLテキストを書き換えるための作業状態
+ * @interface EditTarget
+ * @property {YamlSourceMap} sourceMap - 編集前のテキストのソースマップ
+ * @property {string[]} lines - 編集する行の配列
+ */
+interface EditTarget {
+  sourceMap: YamlSourceMap;
+  lines: string[];
+}
+
+/**
+ * 1行のスカラー値をYAMLの表記に変換（必要に応じてクォートする）
+ * @param {string} value - 値
+ * @returns {string} YAMLの表記
+ */
+function formatScalar(value: string): string {
+  return dump(value, { lineWidth: -1 }).trimEnd();
+}
+
+/**
+ * 「キー: 値」をインデント付きの行に変換
+ * 配列はフロー形式（[a, b]）、マッピングはブロック形式、複数行の文字列はブロックスカラー（|）で書き出す
+ * @param {number} indent - キーのインデント幅
+ * @param {string} key - キー
+ * @param {unknown} value - 値
+ * @param {Object} [options] - 書き出しの設定
+ * @param {boolean} [options.blockSequence] - 配列をブロック形式（- a）で書き出すかどうか
+ * @param {string} [options.comment] - 1行目の末尾に残すコメント
+ * @param {number} [options.indentWidth] - ネストしたブロックのインデント幅
+ * @returns {string[]} 行の配列
+ */
+function formatField(
+  indent: number,
+  key: string,
+  value: unknown,
+  options: {
+    blockSequence?: boolean;
+    comment?: string;
+    indentWidth?: number;
+  } = {}
+): string[] {
+  // フロー形式にするネストの深さ（文字列はフロー形式だとブロックスカラーにできないため対象外）
+  let flowLevel = -1;
+  if (Array.isArray(value)) {
+    flowLevel = options.blockSequence ? -1 : 1;
+  } else if (typeof value === "object" && value !== null) {
+    flowLevel = 2;
+  }
+  const text = dump(
+    { [key]: value },
+    {
+      lineWidth: -1,
+      flowLevel,
+      indent: options.indentWidth ?? DEFAULT_INDENT_WIDTH,
+    }
+  ).trimEnd();
+  const lines = text
+    .split("\n")
+    .map((line) => (line === "" ? "" : " ".repeat(indent) + line));
+  if (options.comment) {
+    lines[0] += ` ${options.comment}`;
+  }
+  return lines;
+}
+
+/**
+ * エントリの直下の子エントリを行順に取得
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {SourceEntry} entry - 親のエントリ
+ * @returns {SourceEntry[]} 子エントリ
+ */
+function childEntries(
+  sourceMap: YamlSourceMap,
+  entry: SourceEntry
+): SourceEntry[] {
+  const parentKey = pathKey(entry.path);
+  return Array.from(sourceMap.entries.values())
+    .filter(
+      (child) =>
+        child.path.length === entry.path.length + 1 &&
+        pathKey(child.path.slice(0, -1)) === parentKey
+    )
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * ブロックの子要素のインデント幅を求める
+ * 子要素が無い場合は親のインデントに既定の幅を足す
+ * @param {YamlSourceMap} sourceMap - ソースマップ
+ * @param {SourceEntry} entry - 親のエントリ
+ * @returns {number} 子要素のインデント幅
+ */
+function childIndent(sourceMap: YamlSourceMap, entry: SourceEntry): number {
+  const children = childEntries(sourceMap, entry);
+  return children.length > 0
+    ? children[0].indent
+    : entry.indent + DEFAULT_INDENT_WIDTH;
+}
+
+/**
+ * エントリの行末に書かれたコメントを取得
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {SourceEntry} entry - エントリ
+ * @returns {string} コメント（"#" から始まる文字列。無い場合は空文字）
+ */
+function trailingComment(target: EditTarget, entry: SourceEntry): string {
+  const rest = target.lines[entry.line - 1].slice(entry.valueColumn - 1).trim();
+  const value = stripComment(rest);
+  if (value === rest) return "";
+  return rest.slice(rest.indexOf(value) + value.length).trim();
+}
+
+/**
+ * シーケンスの要素の値を取得
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {SourceEntry} entry - シーケンスのエントリ
+ * @returns {SourceEntry[]} 要素のエントリ
+ */
+function sequenceItems(target: EditTarget, entry: SourceEntry): SourceEntry[] {
+  const items: SourceEntry[] = [];
+  for (let index = 0; ; index++) {
+    const item = getSourceEntry(target.sourceMap, [
+      ...entry.path,
+      String(index),
+    ]);
+    if (!item) return items;
+    items.push(item);
+  }
+}
+
+/**
+ * ファイル定義のエントリを取得（見つからない場合はエラー）
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {string} fileId - ファイルノードのID
+ * @returns {SourceEntry} ファイル定義のエントリ
+ */
+function requireFileEntry(target: EditTarget, fileId: string): SourceEntry {
+  const entry = findFileEntry(target.sourceMap, fileId);
+  if (!entry || entry.kind !== "mapping") {
+    throw new Error(`"${fileId}" の定義がYAML上に見つかりません`);
+  }
+  return entry;
+}
+
+/**
+ * ファイル定義のフィールドを書き換える（無い場合はブロックの末尾に追加する）
+ * キーの行末のコメントは残す
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {SourceEntry} fileEntry - ファイル定義のエントリ
+ * @param {string} field - フィールド名
+ * @param {unknown} value - 新しい値
+ */
+function writeField(
+  target: EditTarget,
+  fileEntry: SourceEntry,
+  field: string,
+  value: unknown
+) {
+  const entry = getSourceEntry(target.sourceMap, [...fileEntry.path, field]);
+  if (entry) {
+    target.lines.splice(
+      entry.line - 1,
+      entry.endLine - entry.line + 1,
+      ...formatField(entry.indent, field, value, {
+        blockSequence: entry.kind === "sequence",
+        comment: trailingComment(target, entry),
+      })
+    );
+  } else {
+    target.lines.splice(
+      fileEntry.endLine,
+      0,
+      ...formatField(childIndent(target.sourceMap, fileEntry), field, value)
+    );
+  }
+}
+
+/**
+ * ファイルのdependencyに依存先を追加する
+ * ブロック形式のシーケンスには要素の行を追加し、フロー形式は書き直す
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {string} fileId - 依存元のファイル
+ * @param {string} dependency - 依存先のファイル
+ */
+function addDependency(target: EditTarget, fileId: string, dependency: string) {
+  const fileEntry = requireFileEntry(target, fileId);
+  const entry = getSourceEntry(target.sourceMap, [
+    ...fileEntry.path,
+    "dependency",
+  ]);
+  if (!entry) {
+    writeField(target, fileEntry, "dependency", [dependency]);
+    return;
+  }
+
+  const items = sequenceItems(target, entry);
+  if (items.some((item) => item.value === dependency)) return;
+
+  if (entry.kind === "sequence") {
+    target.lines.splice(
+      entry.endLine,
+      0,
+      `${" ".repeat(items[0].indent)}- ${formatScalar(dependency)}`
+    );
+  } else {
+    writeField(target, fileEntry, "dependency", [
+      ...items.map((item) => item.value ?? ""),
+      dependency,
+    ]);
+  }
+}
+
+/**
+ * ファイルのdependencyから依存先を削除する
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {string} fileId - 依存元のファイル
+ * @param {string} dependency - 依存先のファイル
+ */
+function removeDependency(
+  target: EditTarget,
+  fileId: string,
+  dependency: string
+) {
+  const fileEntry = requireFileEntry(target, fileId);
+  const entry = getSourceEntry(target.sourceMap, [
+    ...fileEntry.path,
+    "dependency",
+  ]);
+  if (!entry) return;
+
+  const items = sequenceItems(target, entry);
+  const removed = items.find((item) => item.value === dependency);
+  if (!removed) return;
+
+  if (entry.kind === "sequence" && items.length > 1) {
+    target.lines.splice(removed.line - 1, removed.endLine - removed.line + 1);
+  } else {
+    writeField(
+      target,
+      fileEntry,
+      "dependency",
+      items.filter((item) => item !== removed).map((item) => item.value ?? "")
+    );
+  }
+}
+
+/**
+ * フォルダに新しいファイル定義（YamlFileの雛形）を追加する
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {string} folderId - フォルダのパス
+ * @param {string} fileName - 追加するファイル名
+ */
+function addFile(target: EditTarget, folderId: string, fileName: string) {
+  const name = fileName.trim();
+  if (name === "" || name.includes("/")) {
+    throw new Error(`ファイル名 "${fileName}" は使用できません`);
+  }
+  const folderEntry = findFileEntry(target.sourceMap, folderId);
+  if (!folderEntry || folderEntry.kind !== "mapping") {
+    throw new Error(`フォルダ "${folderId}" の定義がYAML上に見つかりません`);
+  }
+  if (getSourceEntry(target.sourceMap, [...folderEntry.path, name])) {
+    throw new Error(`"${folderId}/${name}" はすでに存在します`);
+  }
+
+  const indent = childIndent(target.sourceMap, folderEntry);
+  target.lines.splice(
+    folderEntry.endLine,
+    0,
+    ...formatField(
+      indent,
+      name,
+      { content: "", dependency: [], agent: "", api: [] },
+      { indentWidth: Math.max(indent - folderEntry.indent, 1) }
+    )
+  );
+}
+
+/**
+ * ファイル定義のフィールドを変更する
+ * dependency_wait を false にする場合、キーが無ければ追加しない
+ * @param {EditTarget} target - 編集の作業状態
+ * @param {string} fileId - ファイルノードのID
+ * @param {EditableFileField} field - フィールド名
+ * @param {string | string[] | boolean} value - 新しい値
+ */
+function updateFile(
+  target: EditTarget,
+  fileId: string,
+  field: EditableFileField,
+  value: string | string[] | boolean
+) {
+  const fileEntry = requireFileEntry(target, fileId);
+  const exists = !!getSourceEntry(target.sourceMap, [...fileEntry.path, field]);
+  if (field === "dependency_wait" && value === false && !exists) return;
+  writeField(target, fileEntry, field, value);
+}
+
+/**
+ * グラフ上の編集をYAMLテキストに書き戻す
+ * ソースマップで編集箇所の行を特定して書き換えるため、それ以外の行
+ * （コメントやキーの順序）はそのまま残る
+ * @param {string} text - 編集前のYAMLテキスト
+ * @param {GrimoireEdit} edit - 編集内容
+ * @returns {string} 編集後のYAMLテキスト
+ * @throws {Error} 編集対象がYAML上に見つからない場合
+ */
+export function applyGrimoireEdit(text: string, edit: GrimoireEdit): string {
+  // まとめた編集は、1つ適用するたびに行の位置が変わるため順に適用する
+  if (edit.type === "batch") {
+    return edit.edits.reduce(applyGrimoireEdit, text);
+  }
+
+  const sourceMap = buildSourceMap(text);
+  const target: EditTarget = { sourceMap, lines: [...sourceMap.lines] };
+
+  switch (edit.type) {
+    case "addDependency":
+      addDependency(target, edit.fileId, edit.dependency);
+      break;
+    case "removeDependency":
+      removeDependency(target, edit.fileId, edit.dependency);
+      break;
+    case "addFile":
+      addFile(target, edit.folderId, edit.fileName);
+      break;
+    case "updateFile":
+      updateFile(target, edit.fileId, edit.field, edit.value);
+      break;
+  }
+
+  return target.lines.join(text.includes("\r\n") ? "\r\n" : "\n");
+}